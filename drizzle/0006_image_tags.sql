@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "tags" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "name" text NOT NULL,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    CONSTRAINT "tags_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "image_tags" (
+    "image_id" uuid NOT NULL REFERENCES "images"("id") ON DELETE cascade,
+    "tag_id" uuid NOT NULL REFERENCES "tags"("id") ON DELETE cascade,
+    "created_by" uuid REFERENCES "users"("id") ON DELETE set null,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    CONSTRAINT "image_tags_image_id_tag_id_pk" PRIMARY KEY("image_id","tag_id")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "image_tags_tag_id_idx" ON "image_tags" ("tag_id");
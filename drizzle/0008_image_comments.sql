@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "image_comments" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "image_id" uuid NOT NULL REFERENCES "images"("id") ON DELETE cascade,
+    "user_id" uuid REFERENCES "users"("id") ON DELETE set null,
+    "parent_id" uuid REFERENCES "image_comments"("id") ON DELETE cascade,
+    "body" text NOT NULL,
+    "edited_at" timestamp,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    "updated_at" timestamp DEFAULT now() NOT NULL,
+    "deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "image_comments_image_id_idx" ON "image_comments" ("image_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "image_comments_parent_id_idx" ON "image_comments" ("parent_id");
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "image_reactions" (
+    "image_id" uuid NOT NULL REFERENCES "images"("id") ON DELETE cascade,
+    "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+    "type" text NOT NULL,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    CONSTRAINT "image_reactions_image_id_user_id_type_pk" PRIMARY KEY("image_id","user_id","type")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "starred_images" (
+    "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+    "image_id" uuid NOT NULL REFERENCES "images"("id") ON DELETE cascade,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    CONSTRAINT "starred_images_user_id_image_id_pk" PRIMARY KEY("user_id","image_id")
+);
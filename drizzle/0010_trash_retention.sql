@@ -0,0 +1,3 @@
+ALTER TABLE "albums" ADD COLUMN IF NOT EXISTS "trash_retention_days" integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "images_deleted_at_idx" ON "images" USING btree ("deleted_at");
@@ -0,0 +1,3 @@
+ALTER TABLE "folders" ADD COLUMN IF NOT EXISTS "parent_id" uuid REFERENCES "folders"("id") ON DELETE cascade;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "folders_parent_id_idx" ON "folders" USING btree ("parent_id");
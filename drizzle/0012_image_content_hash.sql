@@ -0,0 +1,5 @@
+ALTER TABLE "images" ADD COLUMN IF NOT EXISTS "content_hash" text;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "images_album_content_hash_idx" ON "images" USING btree ("album_id","content_hash");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "images_content_hash_idx" ON "images" USING btree ("content_hash");
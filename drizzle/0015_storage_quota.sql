@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "storage_quota_bytes" bigint;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN IF NOT EXISTS "variants_size" integer;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "images_uploader_id_idx" ON "images" USING btree ("uploader_id");
@@ -0,0 +1,3 @@
+ALTER TABLE "images" ADD COLUMN IF NOT EXISTS "place_city" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN IF NOT EXISTS "place_region" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN IF NOT EXISTS "place_country" text;
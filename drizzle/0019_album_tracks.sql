@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "album_tracks" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "album_id" uuid NOT NULL REFERENCES "albums"("id") ON DELETE cascade,
+    "uploaded_by" uuid REFERENCES "users"("id") ON DELETE set null,
+    "name" text,
+    "points" jsonb NOT NULL,
+    "point_count" integer NOT NULL,
+    "started_at" timestamp NOT NULL,
+    "ended_at" timestamp NOT NULL,
+    "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "album_tracks_album_id_idx" ON "album_tracks" USING btree ("album_id");
@@ -0,0 +1,2 @@
+ALTER TABLE "images" ALTER COLUMN "size" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "images" ALTER COLUMN "variants_size" SET DATA TYPE bigint;
@@ -5,6 +5,10 @@ const nextConfig: NextConfig = {
   serverActions: {
     bodySizeLimit: '50mb',
   },
+  // Read at runtime by the place-name lookup (src/lib/services/place.service.ts)
+  outputFileTracingIncludes: {
+    "/api/**": ["./data/gazetteer.tsv.gz"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,32 @@
+import { CaptureTimeService } from "../src/lib/services/capture-time.service";
+
+/**
+ * Record the UTC offset of photos uploaded before capture times were
+ * zone-aware, re-reading EXIF from each original (OffsetTimeOriginal, or the
+ * time zone at the photo's GPS position) and correcting dateTaken to match.
+ * Dates edited by hand are left alone. Safe to re-run.
+ *
+ * Usage:
+ *   npm run backfill:capture-times -- [--dry-run]
+ */
+async function backfillCaptureTimes() {
+    const dryRun = process.argv.includes("--dry-run");
+
+    console.log(`${dryRun ? "[dry run] " : ""}Resolving capture time zones...`);
+    try {
+        const report = await CaptureTimeService.backfillOffsets({ dryRun });
+
+        for (const failure of report.failed) {
+            console.log(`  ${failure.id}  failed: ${failure.error}`);
+        }
+
+        console.log(`${dryRun ? "Would update" : "Updated"} ${report.updated} of ${report.scanned} photos without an offset.`);
+        console.log(`  ${report.unresolved} with no recorded offset or position, ${report.edited} edited by hand, ${report.failed.length} failed.`);
+        process.exit(0);
+    } catch (error) {
+        console.error("Capture time backfill failed:", error);
+        process.exit(1);
+    }
+}
+
+backfillCaptureTimes();
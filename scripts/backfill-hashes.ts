@@ -0,0 +1,32 @@
+import { DuplicateService } from "../src/lib/services/duplicate.service";
+
+/**
+ * Compute content (SHA-256) and perceptual (dHash) hashes for images that
+ * were uploaded before duplicate detection existed. Safe to re-run; only
+ * images with a missing hash are touched.
+ *
+ * Usage:
+ *   npm run backfill:hashes -- [--dry-run]
+ */
+async function backfillHashes() {
+    const dryRun = process.argv.includes("--dry-run");
+
+    console.log(`${dryRun ? "[dry run] " : ""}Backfilling image hashes...`);
+    try {
+        const report = await DuplicateService.backfillHashes({ dryRun });
+
+        for (const failure of report.failed) {
+            console.log(`  ${failure.id}  failed: ${failure.error}`);
+        }
+
+        console.log(dryRun
+            ? `${report.scanned} images are missing a hash (dry run).`
+            : `Hashed ${report.updated} of ${report.scanned} images (${report.failed.length} failed).`);
+        process.exit(0);
+    } catch (error) {
+        console.error("Hash backfill failed:", error);
+        process.exit(1);
+    }
+}
+
+backfillHashes();
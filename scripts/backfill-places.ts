@@ -0,0 +1,27 @@
+import { PlaceService } from "../src/lib/services/place.service";
+
+/**
+ * Name the place (city, region, country) of geotagged photos uploaded before
+ * place names were resolved, using the bundled gazetteer. Nothing leaves the
+ * server. Safe to re-run; only photos without a place are touched.
+ *
+ * Usage:
+ *   npm run backfill:places -- [--dry-run]
+ */
+async function backfillPlaces() {
+    const dryRun = process.argv.includes("--dry-run");
+
+    console.log(`${dryRun ? "[dry run] " : ""}Resolving place names...`);
+    try {
+        const report = await PlaceService.backfillPlaces({ dryRun });
+
+        console.log(`${dryRun ? "Would name" : "Named"} ${report.updated} of ${report.scanned} geotagged photos without a place.`);
+        console.log(`  ${report.unmatched} are more than 50 km from any listed place.`);
+        process.exit(0);
+    } catch (error) {
+        console.error("Place backfill failed:", error);
+        process.exit(1);
+    }
+}
+
+backfillPlaces();
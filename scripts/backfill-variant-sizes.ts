@@ -0,0 +1,32 @@
+import { QuotaService } from "../src/lib/services/quota.service";
+
+/**
+ * Record display/thumbnail sizes for images registered before storage
+ * accounting measured them, so usage and quotas include every variant.
+ * Safe to re-run; only images without a recorded size are touched.
+ *
+ * Usage:
+ *   npm run backfill:sizes -- [--dry-run]
+ */
+async function backfillVariantSizes() {
+    const dryRun = process.argv.includes("--dry-run");
+
+    console.log(`${dryRun ? "[dry run] " : ""}Measuring image variants...`);
+    try {
+        const report = await QuotaService.backfillVariantSizes({ dryRun });
+
+        for (const failure of report.failed) {
+            console.log(`  ${failure.id}  failed: ${failure.error}`);
+        }
+
+        console.log(dryRun
+            ? `${report.scanned} images have no recorded variant size (dry run).`
+            : `Measured ${report.updated} of ${report.scanned} images (${report.failed.length} failed).`);
+        process.exit(0);
+    } catch (error) {
+        console.error("Variant size backfill failed:", error);
+        process.exit(1);
+    }
+}
+
+backfillVariantSizes();
@@ -0,0 +1,60 @@
+import { createReadStream, writeFileSync, mkdirSync } from "fs";
+import { createInterface } from "readline";
+import { gzipSync } from "zlib";
+import { dirname, join } from "path";
+
+/**
+ * Build the bundled gazetteer used for offline reverse geocoding from the
+ * GeoNames dumps (CC BY 4.0, https://download.geonames.org/export/dump/):
+ * a cities file (cities1000.txt or larger) and admin1CodesASCII.txt.
+ *
+ * Writes data/gazetteer.tsv.gz, one place per line:
+ *   city, region, country, country code, latitude, longitude
+ *
+ * Usage:
+ *   npm run build:gazetteer -- <cities1000.txt> <admin1CodesASCII.txt>
+ */
+async function readLines(path: string, onLine: (fields: string[]) => void) {
+    const lines = createInterface({ input: createReadStream(path, "utf8"), crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (line && !line.startsWith("#")) onLine(line.split("\t"));
+    }
+}
+
+async function buildGazetteer() {
+    const [citiesPath, admin1Path] = process.argv.slice(2);
+    if (!citiesPath || !admin1Path) {
+        console.error("Usage: npm run build:gazetteer -- <cities1000.txt> <admin1CodesASCII.txt>");
+        process.exit(1);
+    }
+
+    try {
+        // "TH.02" -> "Chiang Mai"
+        const regions = new Map<string, string>();
+        await readLines(admin1Path, ([code, name]) => regions.set(code, name));
+
+        const countries = new Intl.DisplayNames(["en"], { type: "region" });
+        const rows: string[] = [];
+
+        // geonameid, name, asciiname, alternatenames, latitude, longitude,
+        // feature class, feature code, country code, cc2, admin1 code, ...
+        await readLines(citiesPath, (fields) => {
+            const [, name, , , lat, lng, , , countryCode, , admin1] = fields;
+            if (!name || !countryCode) return;
+            const country = countries.of(countryCode) ?? countryCode;
+            const region = regions.get(`${countryCode}.${admin1}`) ?? "";
+            // Five decimals is about a metre, far finer than we match to
+            rows.push([name, region, country, countryCode, Number(lat).toFixed(5), Number(lng).toFixed(5)].join("\t"));
+        });
+
+        const filePath = join(process.cwd(), "data", "gazetteer.tsv.gz");
+        mkdirSync(dirname(filePath), { recursive: true });
+        writeFileSync(filePath, gzipSync(rows.join("\n") + "\n", { level: 9 }));
+        console.log(`Wrote ${rows.length} places to ${filePath}`);
+    } catch (error) {
+        console.error("Error building gazetteer:", error);
+        process.exit(1);
+    }
+}
+
+buildGazetteer();
@@ -0,0 +1,45 @@
+import { StorageService, DEFAULT_GC_GRACE_HOURS, MIN_GC_GRACE_HOURS } from "../src/lib/services/storage.service";
+
+/**
+ * Delete S3 objects under albums/ that no image references.
+ *
+ * Usage:
+ *   npm run gc:uploads -- [--dry-run] [--grace-hours=48] [--prefix=albums/<albumId>/]
+ */
+function getArg(name: string) {
+    const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+    return arg ? arg.slice(name.length + 3) : undefined;
+}
+
+async function collectOrphans() {
+    const dryRun = process.argv.includes("--dry-run");
+    const graceHours = Number(getArg("grace-hours") ?? DEFAULT_GC_GRACE_HOURS);
+    const prefix = getArg("prefix") ?? "albums/";
+
+    if (!Number.isFinite(graceHours)) {
+        console.error("--grace-hours must be a number");
+        process.exit(1);
+    }
+    if (graceHours < MIN_GC_GRACE_HOURS) {
+        console.error(`--grace-hours must be at least ${MIN_GC_GRACE_HOURS} so uploads in progress are kept`);
+        process.exit(1);
+    }
+
+    console.log(`${dryRun ? "[dry run] " : ""}Scanning ${prefix} for orphaned uploads older than ${graceHours}h...`);
+    try {
+        const report = await StorageService.collectOrphans({ prefix, graceHours, dryRun });
+
+        for (const orphan of report.orphans) {
+            console.log(`  ${orphan.key}  ${orphan.size} bytes  ${orphan.lastModified?.toISOString() ?? ""}`);
+        }
+
+        console.log(`Scanned ${report.scanned} objects, ${report.orphanCount} orphaned (${report.orphanBytes} bytes).`);
+        console.log(dryRun ? "Nothing deleted (dry run)." : `Deleted ${report.deletedCount} objects.`);
+        process.exit(0);
+    } catch (error) {
+        console.error("Orphan cleanup failed:", error);
+        process.exit(1);
+    }
+}
+
+collectOrphans();
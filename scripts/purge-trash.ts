@@ -0,0 +1,46 @@
+import { TrashService, DEFAULT_TRASH_RETENTION_DAYS, DEFAULT_ALBUM_RETENTION_DAYS } from "../src/lib/services/trash.service";
+
+/**
+ * Permanently delete trashed photos past their album's retention period,
+ * and deleted albums past the grace window. Meant to run daily from cron.
+ *
+ * Usage:
+ *   npm run purge:trash -- [--dry-run]
+ */
+async function purgeTrash() {
+    const dryRun = process.argv.includes("--dry-run");
+
+    console.log(`${dryRun ? "[dry run] " : ""}Purging expired trash (default retention ${DEFAULT_TRASH_RETENTION_DAYS} days)...`);
+    try {
+        const report = await TrashService.purgeExpired({ dryRun });
+
+        for (const img of report.images) {
+            console.log(`  ${img.albumId}/${img.id}  ${img.originalFilename}  deleted ${img.deletedAt?.toISOString()}  (${img.retentionDays}d)`);
+        }
+
+        for (const folder of report.folders) {
+            console.log(`  ${folder.albumId}/${folder.id}  folder "${folder.name}"`);
+        }
+
+        console.log(dryRun
+            ? `${report.expiredCount} expired photos and ${report.folders.length} folders would be deleted (dry run).`
+            : `Permanently deleted ${report.purgedCount} photos and ${report.folders.length} folders.`);
+
+        console.log(`${dryRun ? "[dry run] " : ""}Purging albums deleted more than ${DEFAULT_ALBUM_RETENTION_DAYS} days ago...`);
+        const albumReport = await TrashService.purgeDeletedAlbums({ dryRun });
+
+        for (const album of albumReport.albums) {
+            console.log(`  ${album.id}  ${album.title}  deleted ${album.deletedAt?.toISOString()}`);
+        }
+
+        console.log(dryRun
+            ? `${albumReport.expiredCount} deleted albums would be removed (dry run).`
+            : `Permanently deleted ${albumReport.purgedCount} albums.`);
+        process.exit(0);
+    } catch (error) {
+        console.error("Trash purge failed:", error);
+        process.exit(1);
+    }
+}
+
+purgeTrash();
@@ -1,9 +1,9 @@
 "use client";
 
-import { useEffect, useState, use } from "react";
+import { useEffect, useRef, useState, use } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, Lock, Globe, Plus, Upload, Loader2, Image as ImageIcon, Trash2, Star, Download, MoreVertical, LogOut, UserMinus, Camera, X, CheckSquare, Square, XCircle, ArrowUpDown, Folder, FolderOpen, ChevronRight, FolderPlus, Edit2, History } from "lucide-react";
+import { ArrowLeft, Lock, Globe, Plus, Upload, Loader2, Image as ImageIcon, Trash2, Star, Download, MoreVertical, LogOut, UserMinus, Camera, X, CheckSquare, Square, XCircle, ArrowUpDown, Folder, FolderOpen, ChevronRight, FolderPlus, Edit2, History, Clock, MapPin, MessageCircle, Copy, CopyCheck, Info, SearchX, Route } from "lucide-react";
 import useSWR from "swr";
 import { fetcher } from "@/lib/fetcher";
 import { useAuth } from "@/components/providers/AuthProvider";
@@ -14,16 +14,26 @@ import { DashboardNavbar } from "@/components/DashboardNavbar";
 import { ShareAlbumDialog } from "@/components/ShareAlbumDialog";
 import { EditAlbumDialog } from "@/components/EditAlbumDialog";
 import { TrashDialog } from "@/components/TrashDialog";
+import { ReviewDuplicatesDialog } from "@/components/ReviewDuplicatesDialog";
 import { CreateFolderDialog } from "@/components/CreateFolderDialog";
 import { EditFolderDialog } from "@/components/EditFolderDialog";
 import { DeleteFolderDialog } from "@/components/DeleteFolderDialog";
 import { MoveToFolderDialog } from "@/components/MoveToFolderDialog";
+import { MoveToAlbumDialog } from "@/components/MoveToAlbumDialog";
+import { getFolderBreadcrumb, getSubtreeIds } from "@/lib/folder-tree";
 import { AlbumActivityDialog } from "@/components/AlbumActivityDialog";
+import { EditPhotoDialog } from "@/components/EditPhotoDialog";
+import { ShiftDatesDialog } from "@/components/ShiftDatesDialog";
+import { SetLocationDialog } from "@/components/SetLocationDialog";
+import { GpxImportDialog } from "@/components/GpxImportDialog";
+import { PhotoComments } from "@/components/PhotoComments";
+import { PhotoInfoPanel } from "@/components/PhotoInfoPanel";
+import { CameraFilter } from "@/components/CameraFilter";
+import { PhotoReactions } from "@/components/PhotoReactions";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTrigger, DialogTitle } from "@/components/ui/dialog";
 import { VisuallyHidden } from "@radix-ui/react-visually-hidden";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Progress } from "@/components/ui/progress";
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -33,6 +43,11 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
 import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { VideoBadge } from "@/components/VideoBadge";
+import { UPLOAD_ACCEPT, isUploadableFile, isVideoMimeType } from "@/lib/media";
+import { isActiveUpload, useUploadStore } from "@/stores/useUploadStore";
+import { isMetadataFilterActive, matchesMetadataFilter, metadataFacets, type PhotoMetadata } from "@/lib/exif";
+import { captureDisplayDate } from "@/lib/capture-time";
 
 interface Image {
     id: string;
@@ -42,16 +57,30 @@ interface Image {
     displayUrl?: string;
     originalUrl?: string;
     originalFilename?: string;
+    caption?: string | null;
     width?: number;
     height?: number;
     createdAt: string;
     dateTaken?: string;
+    dateTakenOffset?: number | null;
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+    placeCity?: string | null;
+    placeRegion?: string | null;
+    placeCountry?: string | null;
+    cameraMake?: string | null;
+    cameraModel?: string | null;
+    metadata?: PhotoMetadata | null;
+    size?: number;
     folderId?: string | null;
+    mimeType?: string;
+    durationMs?: number | null;
 }
 
 interface Folder {
     id: string;
     name: string;
+    parentId?: string | null;
     createdAt: string;
 }
 
@@ -62,6 +91,7 @@ interface Album {
     visibility: "public" | "private";
     ownerId: string;
     coverImageId?: string;
+    trashRetentionDays?: number | null;
     images?: Image[];
     folders?: Folder[];
 }
@@ -83,11 +113,11 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
     const {
         currentFolderId, setCurrentFolderId,
         sortBy, setSort,
+        metadataFilter, setMetadataFilter,
         selectMode, selectedIds,
         toggleSelectMode, toggleSelection: toggleImageSelection, selectAll: selectAllStore, deselectAll,
         bulkOperating, setBulkOperating,
         uploading, setUploading,
-        uploadProgress, setUploadProgress,
         reset
     } = store;
 
@@ -97,6 +127,11 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
     const [editingFolder, setEditingFolder] = useState<Folder | null>(null);
     const [deletingFolder, setDeletingFolder] = useState<Folder | null>(null);
     const [movingPhotosOpen, setMovingPhotosOpen] = useState(false);
+    const [movingFolder, setMovingFolder] = useState<Folder | null>(null);
+    const [transferOpen, setTransferOpen] = useState(false);
+    const [shiftingDatesOpen, setShiftingDatesOpen] = useState(false);
+    const [settingLocationOpen, setSettingLocationOpen] = useState(false);
+    const [importingGpxOpen, setImportingGpxOpen] = useState(false);
 
     // Reset store on mount/unmount and when albumId changes
     useEffect(() => {
@@ -111,6 +146,21 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
     );
     const { user, isLoading: authLoading } = useAuth();
 
+    // This album's share of the app-wide upload queue
+    const enqueueUploads = useUploadStore((state) => state.enqueue);
+    const activeUploads = useUploadStore((state) => state.items.filter(i => i.albumId === albumId && isActiveUpload(i)).length);
+    const uploadedCount = useUploadStore((state) => state.items.filter(i => i.albumId === albumId && i.status === "done").length);
+    const lastUploadRefresh = useRef(0);
+
+    // Show new photos as they land, at most every few seconds during a
+    // long batch and once more when it finishes
+    useEffect(() => {
+        if (uploadedCount === 0) return;
+        if (activeUploads > 0 && Date.now() - lastUploadRefresh.current < 5000) return;
+        lastUploadRefresh.current = Date.now();
+        mutateAlbum();
+    }, [uploadedCount, activeUploads, mutateAlbum]);
+
     const [deletingImageId, setDeletingImageId] = useState<string | null>(null);
 
     // Handle Access Denial & Race Conditions
@@ -128,21 +178,43 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
     const [editingAlbum, setEditingAlbum] = useState(false);
 
     const [trashOpen, setTrashOpen] = useState(false);
+    const [reviewDuplicatesOpen, setReviewDuplicatesOpen] = useState(false);
     const [deleteAlbumConfirmOpen, setDeleteAlbumConfirmOpen] = useState(false);
     const [leaveAlbumConfirmOpen, setLeaveAlbumConfirmOpen] = useState(false);
     const [activityLogOpen, setActivityLogOpen] = useState(false);
     const [deleteImageConfirmId, setDeleteImageConfirmId] = useState<string | null>(null);
+    const [editingImage, setEditingImage] = useState<Image | null>(null);
 
     // Photo Navigation State
     const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
+    const [commentsOpen, setCommentsOpen] = useState(false);
+    const [infoOpen, setInfoOpen] = useState(false);
+    const sidePanelOpen = commentsOpen || infoOpen;
 
     // Multi-select state for bulk operations
 
 
     const folders = (albumData?.album?.folders || []) as Folder[];
+    const childFolders = folders.filter(f => (f.parentId || null) === currentFolderId);
+    const breadcrumb = getFolderBreadcrumb(folders, currentFolderId);
+
+    // Camera filter choices come from the whole album; filtering happens here
+    const albumImages = (albumData?.album?.images || []) as Image[];
+    const cameraFacets = metadataFacets(albumImages);
+    const cameraFilterActive = isMetadataFilterActive(metadataFilter);
+    const filteredImages = cameraFilterActive
+        ? albumImages.filter(img => matchesMetadataFilter(img, metadataFilter))
+        : albumImages;
+    const showCameraFilter = cameraFilterActive || cameraFacets.cameras.length > 0 || cameraFacets.lenses.length > 0;
+
+    // Photos in a folder and all of its subfolders, respecting the tag and camera filters
+    const countFolderImages = (folderId: string) => {
+        const subtree = getSubtreeIds(folders, folderId);
+        return filteredImages.filter((img: Image) => img.folderId && subtree.has(img.folderId)).length;
+    };
 
     // Filter images by current folder
-    const images = (albumData?.album?.images || []).filter((img: Image) => {
+    const images = filteredImages.filter((img: Image) => {
         if (currentFolderId) return img.folderId === currentFolderId;
         return !img.folderId; // Root View: Only show images NOT in any folder
     });
@@ -190,7 +262,7 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
         try {
             const res = await fetch(`/api/albums/${albumId}`, { method: "DELETE" });
             if (res.ok) {
-                toast.success("Album deleted");
+                toast.success("Album moved to Recently deleted");
                 router.push("/albums");
             } else {
                 toast.error("Failed to delete album");
@@ -270,7 +342,15 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
 
     async function handleBulkDownload() {
         if (selectedIds.size === 0) return;
+        await downloadZip({ imageIds: Array.from(selectedIds) }, `photos-${albumId.slice(0, 8)}.zip`);
+    }
 
+    // The ZIP keeps the folder's subfolders as directories
+    async function handleFolderDownload(folder: Folder) {
+        await downloadZip({ folderIds: [folder.id] }, `${folder.name}.zip`);
+    }
+
+    async function downloadZip(selection: { imageIds?: string[]; folderIds?: string[] }, filename: string) {
         setBulkOperating(true);
         try {
             toast.info('Preparing download...');
@@ -279,7 +359,7 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     action: 'download',
-                    imageIds: Array.from(selectedIds),
+                    ...selection,
                     albumId,
                 }),
             });
@@ -289,7 +369,7 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                 const url = window.URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.href = url;
-                a.download = `photos-${albumId.slice(0, 8)}.zip`;
+                a.download = filename;
                 document.body.appendChild(a);
                 a.click();
                 a.remove();
@@ -309,171 +389,12 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
     const refreshAlbum = () => mutateAlbum();
 
 
-    async function uploadSingleFile(file: File, index: number, total: number, folderId?: string) {
-        const filename = file.name;
-
-        // Update progress
-        const updateProgress = (percent: number) => {
-            setUploadProgress({ current: index + 1, total, fileName: filename, percent });
-        };
-
-        try {
-            updateProgress(5);
-
-            // 1. Extract EXIF (Client-side)
-            const exifr = (await import("exifr")).default;
-            let exifData = null;
-            try {
-                // Parse non-GPS metadata
-                const parsed = await exifr.parse(file, {
-                    pick: ['DateTimeOriginal', 'Make', 'Model']
-                });
-
-                // Use exifr.gps() for proper DMS -> decimal conversion
-                let gpsLatitude: number | undefined;
-                let gpsLongitude: number | undefined;
-                try {
-                    const gps = await exifr.gps(file);
-                    if (gps) {
-                        gpsLatitude = gps.latitude;
-                        gpsLongitude = gps.longitude;
-                    }
-                } catch { /* No GPS data */ }
-
-                if (parsed || gpsLatitude != null) {
-                    exifData = {
-                        dateTaken: parsed?.DateTimeOriginal,
-                        cameraMake: parsed?.Make,
-                        cameraModel: parsed?.Model,
-                        gpsLatitude,
-                        gpsLongitude,
-                    };
-                }
-            } catch (e) {
-                console.warn("EXIF extraction failed:", e);
-            }
-
-            updateProgress(10);
+    // Uploads run in the app-wide queue, which keeps going if the user leaves this page
+    function handleFilesUpload(files: FileList | File[]) {
+        const uploadable = Array.from(files).filter(f => isUploadableFile(f));
+        if (uploadable.length === 0) return;
 
-            // 2. Resize Images (Client-side)
-            const { resizeImage } = await import("@/lib/client-image");
-
-            // Helper to get dimensions
-            const getOriginalDims = (f: File): Promise<{ width: number, height: number }> => {
-                return new Promise((resolve) => {
-                    const img = new Image();
-                    img.onload = () => {
-                        resolve({ width: img.width, height: img.height });
-                        URL.revokeObjectURL(img.src);
-                    };
-                    img.onerror = () => {
-                        resolve({ width: 0, height: 0 });
-                        URL.revokeObjectURL(img.src);
-                    }
-                    img.src = URL.createObjectURL(f);
-                });
-            };
-
-            // Original: Keep as is
-            // Display (2000px, 90% quality - WebP)
-            // Thumb (400px, 70% quality - WebP)
-            const [originalDims, displayVariant, thumbVariant] = await Promise.all([
-                getOriginalDims(file),
-                resizeImage(file, 2000, 0.90),
-                resizeImage(file, 400, 0.70)
-            ]);
-
-            const originalVariant = {
-                blob: file,
-                width: originalDims.width,
-                height: originalDims.height
-            };
-
-            updateProgress(20);
-
-            // 3. Get Presigned URLs (for all 3)
-            const urlRes = await fetch("/api/images/upload-url", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    filename,
-                    contentType: originalVariant.blob.type, // Use actual type (original or webp)
-                    albumId
-                }),
-            });
-
-            if (!urlRes.ok) throw new Error("Failed to get upload URL");
-            const { urls, keys } = await urlRes.json();
-
-            updateProgress(30);
-
-            // 4. Upload to S3 directly (Parallel)
-            await Promise.all([
-                // Original
-                fetch(urls.original, {
-                    method: "PUT",
-                    headers: { "Content-Type": originalVariant.blob.type },
-                    body: originalVariant.blob,
-                }),
-                // Display (WebP)
-                fetch(urls.display, {
-                    method: "PUT",
-                    headers: { "Content-Type": "image/webp" },
-                    body: displayVariant.blob,
-                }),
-                // Thumb (WebP)
-                fetch(urls.thumb, {
-                    method: "PUT",
-                    headers: { "Content-Type": "image/webp" },
-                    body: thumbVariant.blob,
-                })
-            ]);
-
-            updateProgress(80);
-
-            // 5. Register Image in DB
-            const regRes = await fetch("/api/images/register", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    albumId,
-                    keys, // { original, display, thumb }
-                    mimeType: originalVariant.blob.type, // Use actual type
-                    size: originalVariant.blob.size, // Use the new blob size
-                    filename: filename,
-                    folderId,
-                    width: originalVariant.width,
-                    height: originalVariant.height,
-                    exif: exifData
-                }),
-            });
-
-            if (!regRes.ok) throw new Error("Failed to register image");
-
-            updateProgress(100);
-
-        } catch (err) {
-            console.error(`Failed to upload ${filename}:`, err);
-            toast.error(`Failed to upload ${filename}: ${err instanceof Error ? err.message : String(err)}`);
-        }
-    }
-
-
-    async function handleFilesUpload(files: FileList | File[]) {
-        const imageFiles = Array.from(files).filter(f => f.type.startsWith('image/'));
-        if (imageFiles.length === 0) return;
-
-        setUploading(true);
-        setUploadProgress({ current: 0, total: imageFiles.length, fileName: '', percent: 0 });
-
-        // Upload files sequentially to avoid overwhelming the server
-        for (let i = 0; i < imageFiles.length; i++) {
-            await uploadSingleFile(imageFiles[i], i, imageFiles.length, currentFolderId || undefined);
-        }
-
-        setUploading(false);
-        setUploadProgress({ current: 0, total: 0, fileName: '', percent: 0 });
-        refreshAlbum();
+        enqueueUploads(uploadable, { albumId, albumTitle: album?.title, folderId: currentFolderId });
     }
 
     function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
@@ -564,7 +485,8 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
         setUploading(true);
         try {
             // 1. Resize images (client-side) — same as regular upload
-            const { resizeImage } = await import("@/lib/client-image");
+            const { resizeImage, sha256Hex } = await import("@/lib/client-image");
+            const contentHash = await sha256Hex(file);
 
             // Helper to get dimensions
             const getOriginalDims = (f: File): Promise<{ width: number, height: number }> => {
@@ -602,10 +524,18 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                     filename: file.name,
                     contentType: originalVariant.blob.type,
                     albumId,
+                    contentHash,
+                    size: file.size,
                 }),
             });
+            // Already in the album: use the existing photo as the cover
+            if (urlRes.status === 409) {
+                const { existingImageId } = await urlRes.json();
+                await handleSetCover(existingImageId);
+                return;
+            }
             if (!urlRes.ok) throw new Error("Failed to get upload URL");
-            const { urls, keys } = await urlRes.json();
+            const { urls, keys, ticket } = await urlRes.json();
 
             // 3. Upload all 3 variants to S3
             await Promise.all([
@@ -633,13 +563,20 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                 body: JSON.stringify({
                     albumId,
                     keys,
+                    ticket,
                     mimeType: originalVariant.blob.type,
                     size: originalVariant.blob.size,
                     filename: file.name,
                     width: originalVariant.width,
                     height: originalVariant.height,
+                    contentHash,
                 }),
             });
+            if (regRes.status === 409) {
+                const { existingImageId } = await regRes.json();
+                await handleSetCover(existingImageId);
+                return;
+            }
             if (!regRes.ok) throw new Error("Failed to register image");
             const { image: newImage } = await regRes.json();
 
@@ -846,8 +783,10 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                     title: album.title,
                                     description: album.description,
                                     visibility: album.visibility,
-                                    albumDate: album.albumDate || new Date().toISOString()
+                                    albumDate: album.albumDate || new Date().toISOString(),
+                                    trashRetentionDays: album.trashRetentionDays
                                 }}
+                                isOwner={userRole === "owner"}
                                 open={editingAlbum}
                                 onOpenChange={setEditingAlbum}
                                 onSuccess={refreshAlbum}
@@ -859,19 +798,19 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                             <label htmlFor="upload-input">
                                 <Button disabled={uploading} className="gap-2 bg-blue-500 hover:bg-blue-600 text-white shadow-lg shadow-blue-500/25 cursor-pointer rounded-xl" asChild>
                                     <span>
-                                        {uploading ? (
+                                        {uploading || activeUploads > 0 ? (
                                             <Loader2 className="h-4 w-4 animate-spin" />
                                         ) : (
                                             <Upload className="h-4 w-4" />
                                         )}
-                                        {uploading ? "Uploading..." : "Upload"}
+                                        {uploading || activeUploads > 0 ? "Uploading..." : "Upload"}
                                     </span>
                                 </Button>
                                 <input
                                     id="upload-input"
                                     type="file"
                                     className="hidden"
-                                    accept="image/*"
+                                    accept={UPLOAD_ACCEPT}
                                     multiple
                                     onChange={handleUpload}
                                     disabled={uploading}
@@ -895,6 +834,14 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                                 <Trash2 className="mr-2 h-4 w-4" />
                                                 Recycle Bin
                                             </DropdownMenuItem>
+                                            <DropdownMenuItem onClick={() => setReviewDuplicatesOpen(true)} className="cursor-pointer rounded-lg px-3 py-2 text-slate-600 dark:text-slate-300 focus:text-slate-800 dark:focus:text-slate-100 focus:bg-slate-50 dark:focus:bg-slate-700">
+                                                <CopyCheck className="mr-2 h-4 w-4" />
+                                                Review Duplicates
+                                            </DropdownMenuItem>
+                                            <DropdownMenuItem onClick={() => setImportingGpxOpen(true)} className="cursor-pointer rounded-lg px-3 py-2 text-slate-600 dark:text-slate-300 focus:text-slate-800 dark:focus:text-slate-100 focus:bg-slate-50 dark:focus:bg-slate-700">
+                                                <Route className="mr-2 h-4 w-4" />
+                                                Import GPX Track
+                                            </DropdownMenuItem>
                                         </>
                                     )}
                                     {isOwner && (
@@ -981,6 +928,12 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                             onOpenChange={setTrashOpen}
                             trigger={<span className="hidden" />}
                         />
+                        <ReviewDuplicatesDialog
+                            albumId={album.id}
+                            open={reviewDuplicatesOpen}
+                            onOpenChange={setReviewDuplicatesOpen}
+                            onSuccess={refreshAlbum}
+                        />
                     </div>
                 </div>
 
@@ -996,8 +949,21 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                     <Folder className="h-5 w-5 text-slate-400 group-hover:text-blue-500" />
                                     {album?.title || "Album"}
                                 </button>
-                                <ChevronRight className="h-4 w-4 text-slate-400" />
-                                <span>{folders.find(f => f.id === currentFolderId)?.name || 'Folder'}</span>
+                                {breadcrumb.map((crumb, i) => (
+                                    <span key={crumb.id} className="flex items-center gap-2">
+                                        <ChevronRight className="h-4 w-4 text-slate-400" />
+                                        {i < breadcrumb.length - 1 ? (
+                                            <button
+                                                onClick={() => setCurrentFolderId(crumb.id)}
+                                                className="hover:text-blue-500 transition-colors hover:underline decoration-blue-500/30"
+                                            >
+                                                {crumb.name}
+                                            </button>
+                                        ) : (
+                                            <span>{crumb.name}</span>
+                                        )}
+                                    </span>
+                                ))}
                             </>
                         ) : (
                             folders.length > 0 && (
@@ -1009,8 +975,8 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                         )}
                     </div>
 
-                    {canEdit && !currentFolderId && (
-                        <CreateFolderDialog albumId={albumId} onFolderCreated={() => mutateAlbum()}>
+                    {canEdit && (
+                        <CreateFolderDialog albumId={albumId} folders={folders} parentId={currentFolderId} onFolderCreated={() => mutateAlbum()}>
                             <Button variant="outline" className="gap-2 rounded-xl border-dashed border-slate-300 dark:border-slate-700 hover:border-blue-400 dark:hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 text-slate-600 dark:text-slate-300">
                                 <FolderPlus className="h-4 w-4" />
                                 New Folder
@@ -1019,10 +985,10 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                     )}
                 </div>
 
-                {/* Folder Grid (Root View Only) */}
-                {!currentFolderId && folders.length > 0 && (
+                {/* Folder Grid (subfolders of the current view) */}
+                {childFolders.length > 0 && (
                     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 mb-8">
-                        {folders.map(folder => (
+                        {childFolders.map(folder => (
                             <div
                                 key={folder.id}
                                 className="relative group"
@@ -1082,11 +1048,11 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                         {folder.name}
                                     </span>
                                     <span className="text-xs text-slate-400 mt-1 relative z-10">
-                                        {albumData?.album?.images?.filter((img: Image) => img.folderId === folder.id).length || 0} photos
+                                        {countFolderImages(folder.id)} photos
                                     </span>
                                 </button>
 
-                                {canEdit && (
+                                {user && (
                                     <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity z-20">
                                         <DropdownMenu>
                                             <DropdownMenuTrigger asChild>
@@ -1096,18 +1062,36 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                             </DropdownMenuTrigger>
                                             <DropdownMenuContent align="end" className="w-40 rounded-xl bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 shadow-lg p-1">
                                                 <DropdownMenuItem
-                                                    onClick={() => setEditingFolder(folder)}
+                                                    onClick={() => handleFolderDownload(folder)}
+                                                    disabled={bulkOperating}
                                                     className="gap-2 cursor-pointer rounded-lg text-slate-700 dark:text-slate-200 focus:bg-slate-50 dark:focus:bg-slate-700 focus:text-slate-900 dark:focus:text-white"
                                                 >
-                                                    <Edit2 className="h-4 w-4" /> Rename
-                                                </DropdownMenuItem>
-                                                <DropdownMenuSeparator className="bg-slate-100 dark:bg-slate-700 my-1" />
-                                                <DropdownMenuItem
-                                                    onClick={() => setDeletingFolder(folder)}
-                                                    className="gap-2 cursor-pointer rounded-lg text-red-600 dark:text-red-400 focus:text-red-700 dark:focus:text-red-300 focus:bg-red-50 dark:focus:bg-red-900/20"
-                                                >
-                                                    <Trash2 className="h-4 w-4" /> Delete
+                                                    <Download className="h-4 w-4" /> Download
                                                 </DropdownMenuItem>
+                                                {canEdit && (
+                                                    <>
+                                                        <DropdownMenuSeparator className="bg-slate-100 dark:bg-slate-700 my-1" />
+                                                        <DropdownMenuItem
+                                                            onClick={() => setEditingFolder(folder)}
+                                                            className="gap-2 cursor-pointer rounded-lg text-slate-700 dark:text-slate-200 focus:bg-slate-50 dark:focus:bg-slate-700 focus:text-slate-900 dark:focus:text-white"
+                                                        >
+                                                            <Edit2 className="h-4 w-4" /> Rename
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuItem
+                                                            onClick={() => setMovingFolder(folder)}
+                                                            className="gap-2 cursor-pointer rounded-lg text-slate-700 dark:text-slate-200 focus:bg-slate-50 dark:focus:bg-slate-700 focus:text-slate-900 dark:focus:text-white"
+                                                        >
+                                                            <FolderOpen className="h-4 w-4" /> Move
+                                                        </DropdownMenuItem>
+                                                        <DropdownMenuSeparator className="bg-slate-100 dark:bg-slate-700 my-1" />
+                                                        <DropdownMenuItem
+                                                            onClick={() => setDeletingFolder(folder)}
+                                                            className="gap-2 cursor-pointer rounded-lg text-red-600 dark:text-red-400 focus:text-red-700 dark:focus:text-red-300 focus:bg-red-50 dark:focus:bg-red-900/20"
+                                                        >
+                                                            <Trash2 className="h-4 w-4" /> Delete
+                                                        </DropdownMenuItem>
+                                                    </>
+                                                )}
                                             </DropdownMenuContent>
                                         </DropdownMenu>
                                     </div>
@@ -1137,6 +1121,33 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                     />
                 )}
 
+                {movingFolder && (
+                    <MoveToFolderDialog
+                        albumId={albumId}
+                        folders={folders}
+                        selectedIds={new Set()}
+                        selectedFolderIds={[movingFolder.id]}
+                        currentFolderId={movingFolder.parentId || null}
+                        open={!!movingFolder}
+                        onOpenChange={(open) => !open && setMovingFolder(null)}
+                        onSuccess={() => mutateAlbum()}
+                    />
+                )}
+
+                {transferOpen && (
+                    <MoveToAlbumDialog
+                        albumId={albumId}
+                        selectedIds={selectedIds}
+                        open={transferOpen}
+                        onOpenChange={setTransferOpen}
+                        onSuccess={(mode) => {
+                            deselectAll();
+                            if (selectMode) toggleSelectMode();
+                            if (mode === "move") refreshAlbum();
+                        }}
+                    />
+                )}
+
                 {movingPhotosOpen && (
                     <MoveToFolderDialog
                         albumId={albumId}
@@ -1153,75 +1164,123 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                     />
                 )}
 
+                {shiftingDatesOpen && (
+                    <ShiftDatesDialog
+                        albumId={albumId}
+                        photos={images.filter((img: Image) => selectedIds.has(img.id))}
+                        open={shiftingDatesOpen}
+                        onOpenChange={setShiftingDatesOpen}
+                        onSuccess={() => {
+                            deselectAll();
+                            if (selectMode) toggleSelectMode();
+                            refreshAlbum();
+                        }}
+                    />
+                )}
+
+                {settingLocationOpen && (
+                    <SetLocationDialog
+                        albumId={albumId}
+                        photos={images.filter((img: Image) => selectedIds.has(img.id))}
+                        albumPhotos={images}
+                        open={settingLocationOpen}
+                        onOpenChange={setSettingLocationOpen}
+                        onSuccess={() => {
+                            deselectAll();
+                            if (selectMode) toggleSelectMode();
+                            refreshAlbum();
+                        }}
+                    />
+                )}
+
+                {importingGpxOpen && (
+                    <GpxImportDialog
+                        albumId={albumId}
+                        photos={images}
+                        open={importingGpxOpen}
+                        onOpenChange={setImportingGpxOpen}
+                        onSuccess={refreshAlbum}
+                    />
+                )}
+
                 {/* Bulk Action Toolbar */}
-                {canEdit && imageCount > 0 && (
+                {((canEdit && imageCount > 0) || showCameraFilter) && (
                     <div className="mb-6 flex items-center gap-2 flex-wrap">
                         {!selectMode ? (
                             <>
-                                {/* Select Button */}
-                                <button
-                                    onClick={toggleSelectMode}
-                                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-all shadow-sm"
-                                >
-                                    <CheckSquare className="h-4 w-4" />
-                                    <span>Select</span>
-                                </button>
-
-                                {/* Sort Dropdown */}
-                                <DropdownMenu>
-                                    <DropdownMenuTrigger asChild>
-                                        <button className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-all shadow-sm">
-                                            <ArrowUpDown className="h-4 w-4" />
-                                            <span>
-                                                {sortBy === 'dateTaken' ? 'Date Taken' : 'Uploaded'}
-                                                <span className="ml-1 text-slate-400 dark:text-slate-500">
-                                                    {sortDir === 'asc' ? '↑' : '↓'}
-                                                </span>
-                                            </span>
-                                        </button>
-                                    </DropdownMenuTrigger>
-                                    <DropdownMenuContent align="start" className="w-52 rounded-xl p-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-lg">
-                                        <DropdownMenuItem
-                                            onClick={() => setSort('createdAt', 'desc')}
-                                            className={`rounded-lg cursor-pointer ${sortBy === 'createdAt' && sortDir === 'desc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
-                                        >
-                                            <span className="flex items-center gap-2">
-                                                <span>Newest First</span>
-                                                {sortBy === 'createdAt' && sortDir === 'desc' && <span className="ml-auto">✓</span>}
-                                            </span>
-                                        </DropdownMenuItem>
-                                        <DropdownMenuItem
-                                            onClick={() => setSort('createdAt', 'asc')}
-                                            className={`rounded-lg cursor-pointer ${sortBy === 'createdAt' && sortDir === 'asc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
-                                        >
-                                            <span className="flex items-center gap-2">
-                                                <span>Oldest First</span>
-                                                {sortBy === 'createdAt' && sortDir === 'asc' && <span className="ml-auto">✓</span>}
-                                            </span>
-                                        </DropdownMenuItem>
-                                        <DropdownMenuSeparator className="my-1" />
-                                        <DropdownMenuItem
-                                            onClick={() => setSort('dateTaken', 'desc')}
-                                            className={`rounded-lg cursor-pointer ${sortBy === 'dateTaken' && sortDir === 'desc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
-                                        >
-                                            <span className="flex items-center gap-2">
-                                                <Camera className="h-4 w-4" />
-                                                <span>Date Taken (New)</span>
-                                                {sortBy === 'dateTaken' && sortDir === 'desc' && <span className="ml-auto">✓</span>}
-                                            </span>
-                                        </DropdownMenuItem>
-                                        <DropdownMenuItem
-                                            onClick={() => setSort('dateTaken', 'asc')}
-                                            className={`rounded-lg cursor-pointer ${sortBy === 'dateTaken' && sortDir === 'asc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
+                                {canEdit && imageCount > 0 && (
+                                    <>
+                                        {/* Select Button */}
+                                        <button
+                                            onClick={toggleSelectMode}
+                                            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-all shadow-sm"
                                         >
-                                            <span className="flex items-center gap-2">
-                                                <Camera className="h-4 w-4" />
-                                                <span>Date Taken (Old)</span>
-                                                {sortBy === 'dateTaken' && sortDir === 'asc' && <span className="ml-auto">✓</span>}
-                                            </span>
-                                        </DropdownMenuItem>
-                                    </DropdownMenuContent>
-                                </DropdownMenu>
+                                            <CheckSquare className="h-4 w-4" />
+                                            <span>Select</span>
+                                        </button>
+
+                                        {/* Sort Dropdown */}
+                                        <DropdownMenu>
+                                            <DropdownMenuTrigger asChild>
+                                                <button className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-600 transition-all shadow-sm">
+                                                    <ArrowUpDown className="h-4 w-4" />
+                                                    <span>
+                                                        {sortBy === 'dateTaken' ? 'Date Taken' : 'Uploaded'}
+                                                        <span className="ml-1 text-slate-400 dark:text-slate-500">
+                                                            {sortDir === 'asc' ? '↑' : '↓'}
+                                                        </span>
+                                                    </span>
+                                                </button>
+                                            </DropdownMenuTrigger>
+                                            <DropdownMenuContent align="start" className="w-52 rounded-xl p-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-lg">
+                                                <DropdownMenuItem
+                                                    onClick={() => setSort('createdAt', 'desc')}
+                                                    className={`rounded-lg cursor-pointer ${sortBy === 'createdAt' && sortDir === 'desc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
+                                                >
+                                                    <span className="flex items-center gap-2">
+                                                        <span>Newest First</span>
+                                                        {sortBy === 'createdAt' && sortDir === 'desc' && <span className="ml-auto">✓</span>}
+                                                    </span>
+                                                </DropdownMenuItem>
+                                                <DropdownMenuItem
+                                                    onClick={() => setSort('createdAt', 'asc')}
+                                                    className={`rounded-lg cursor-pointer ${sortBy === 'createdAt' && sortDir === 'asc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
+                                                >
+                                                    <span className="flex items-center gap-2">
+                                                        <span>Oldest First</span>
+                                                        {sortBy === 'createdAt' && sortDir === 'asc' && <span className="ml-auto">✓</span>}
+                                                    </span>
+                                                </DropdownMenuItem>
+                                                <DropdownMenuSeparator className="my-1" />
+                                                <DropdownMenuItem
+                                                    onClick={() => setSort('dateTaken', 'desc')}
+                                                    className={`rounded-lg cursor-pointer ${sortBy === 'dateTaken' && sortDir === 'desc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
+                                                >
+                                                    <span className="flex items-center gap-2">
+                                                        <Camera className="h-4 w-4" />
+                                                        <span>Date Taken (New)</span>
+                                                        {sortBy === 'dateTaken' && sortDir === 'desc' && <span className="ml-auto">✓</span>}
+                                                    </span>
+                                                </DropdownMenuItem>
+                                                <DropdownMenuItem
+                                                    onClick={() => setSort('dateTaken', 'asc')}
+                                                    className={`rounded-lg cursor-pointer ${sortBy === 'dateTaken' && sortDir === 'asc' ? 'bg-blue-50 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400' : ''}`}
+                                                >
+                                                    <span className="flex items-center gap-2">
+                                                        <Camera className="h-4 w-4" />
+                                                        <span>Date Taken (Old)</span>
+                                                        {sortBy === 'dateTaken' && sortDir === 'asc' && <span className="ml-auto">✓</span>}
+                                                    </span>
+                                                </DropdownMenuItem>
+                                            </DropdownMenuContent>
+                                        </DropdownMenu>
+                                    </>
+                                )}
+
+                                {/* Camera / Lens Filter */}
+                                {showCameraFilter && (
+                                    <CameraFilter facets={cameraFacets} value={metadataFilter} onChange={setMetadataFilter} />
+                                )}
                             </>
                         ) : (
                             <>
@@ -1249,6 +1308,36 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                     <span className="hidden sm:inline">Move</span>
                                 </button>
 
+                                {/* Move/Copy to another album */}
+                                <button
+                                    onClick={() => setTransferOpen(true)}
+                                    disabled={selectedIds.size === 0 || bulkOperating}
+                                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <Copy className="h-4 w-4" />
+                                    <span className="hidden sm:inline">To Album</span>
+                                </button>
+
+                                {/* Shift Dates */}
+                                <button
+                                    onClick={() => setShiftingDatesOpen(true)}
+                                    disabled={selectedIds.size === 0 || bulkOperating}
+                                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <Clock className="h-4 w-4" />
+                                    <span className="hidden sm:inline">Adjust Time</span>
+                                </button>
+
+                                {/* Set Location */}
+                                <button
+                                    onClick={() => setSettingLocationOpen(true)}
+                                    disabled={selectedIds.size === 0 || bulkOperating}
+                                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 transition-all shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <MapPin className="h-4 w-4" />
+                                    <span className="hidden sm:inline">Location</span>
+                                </button>
+
                                 {/* Download ZIP */}
                                 <button
                                     onClick={handleBulkDownload}
@@ -1281,24 +1370,21 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                     </div>
                 )}
 
-                {/* Upload Progress */}
-                {uploading && uploadProgress.total > 0 && (
-                    <div className="mb-8 bg-white dark:bg-slate-800 rounded-2xl p-5 border border-blue-100 dark:border-blue-800 shadow-sm">
-                        <div className="flex items-center justify-between mb-3">
-                            <div className="flex-1 min-w-0 mr-4">
-                                <p className="text-sm text-slate-600 dark:text-slate-300 font-medium">
-                                    Uploading {uploadProgress.current} of {uploadProgress.total}
-                                </p>
-                                <p className="text-xs text-slate-400 truncate mt-0.5">{uploadProgress.fileName}</p>
-                            </div>
-                            <span className="text-blue-500 text-sm font-semibold">{uploadProgress.percent}%</span>
+                {/* Gallery - Masonry Layout with Dynamic Aspect Ratios */}
+                {imageCount === 0 && cameraFilterActive ? (
+                    <div className="flex flex-col items-center justify-center py-24 bg-white dark:bg-slate-800 rounded-3xl border border-slate-100 dark:border-slate-700 shadow-sm">
+                        <div className="w-20 h-20 bg-slate-50 dark:bg-slate-900/40 rounded-2xl flex items-center justify-center mb-6">
+                            <SearchX className="h-10 w-10 text-slate-400" strokeWidth={1.5} />
                         </div>
-                        <Progress value={uploadProgress.percent} className="h-2 bg-blue-100" />
+                        <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 mb-2">No photos match</h3>
+                        <p className="text-slate-500 dark:text-slate-400 mb-8 text-center max-w-xs">
+                            No photos here were taken with this camera, lens or focal length
+                        </p>
+                        <Button variant="outline" className="rounded-xl" onClick={() => setMetadataFilter({})}>
+                            Clear filters
+                        </Button>
                     </div>
-                )}
-
-                {/* Gallery - Masonry Layout with Dynamic Aspect Ratios */}
-                {imageCount === 0 ? (
+                ) : imageCount === 0 ? (
                     <div className="flex flex-col items-center justify-center py-24 bg-white dark:bg-slate-800 rounded-3xl border border-slate-100 dark:border-slate-700 shadow-sm">
                         <div className="w-20 h-20 bg-blue-50 dark:bg-blue-900/30 rounded-2xl flex items-center justify-center mb-6">
                             <ImageIcon className="h-10 w-10 text-blue-400" strokeWidth={1.5} />
@@ -1321,7 +1407,7 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                             id="upload-empty"
                             type="file"
                             className="hidden"
-                            accept="image/*"
+                            accept={UPLOAD_ACCEPT}
                             multiple
                             onChange={handleUpload}
                             disabled={uploading || !canEdit}
@@ -1383,6 +1469,7 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                                 <ImageIcon className="h-8 w-8 text-blue-200" strokeWidth={1.5} />
                                             </div>
                                         )}
+                                        {isVideoMimeType(image.mimeType) && <VideoBadge durationMs={image.durationMs} />}
                                     </button>
 
                                     {/* Cover indicator */}
@@ -1437,6 +1524,10 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                                         <Star className="mr-2 h-4 w-4" />
                                                         Set as cover
                                                     </DropdownMenuItem>
+                                                    <DropdownMenuItem onClick={() => setEditingImage(image)} className="cursor-pointer">
+                                                        <Edit2 className="mr-2 h-4 w-4" />
+                                                        Edit details
+                                                    </DropdownMenuItem>
                                                 </DropdownMenuContent>
                                             </DropdownMenu>
 
@@ -1464,13 +1555,13 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                                     <div className="w-12 h-12 bg-blue-100 dark:bg-blue-900/50 group-hover:bg-blue-200 dark:group-hover:bg-blue-900 rounded-xl flex items-center justify-center transition-colors">
                                         <Plus className="h-6 w-6 text-blue-500" />
                                     </div>
-                                    <span className="text-xs font-medium text-blue-500">{uploading ? "Uploading..." : "Add photo"}</span>
+                                    <span className="text-xs font-medium text-blue-500">{uploading || activeUploads > 0 ? "Uploading..." : "Add photo"}</span>
                                 </div>
                                 <input
                                     id="upload-grid"
                                     type="file"
                                     className="hidden"
-                                    accept="image/*"
+                                    accept={UPLOAD_ACCEPT}
                                     multiple
                                     onChange={handleUpload}
                                     disabled={uploading}
@@ -1490,6 +1581,57 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                     <div className="relative w-full h-full flex items-center justify-center pointer-events-auto">
                         {/* Top Right Controls */}
                         <div className="absolute right-4 top-4 z-50 flex items-center gap-2">
+                            {/* Reactions & Star */}
+                            {selectedImageIndex !== null && images[selectedImageIndex] && (
+                                <PhotoReactions
+                                    key={images[selectedImageIndex].id}
+                                    imageId={images[selectedImageIndex].id}
+                                    canReact={!!user && !!userRole}
+                                />
+                            )}
+
+                            {/* Comments Toggle */}
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setCommentsOpen(!commentsOpen);
+                                    setInfoOpen(false);
+                                }}
+                                className={`p-3 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group ${commentsOpen ? "bg-blue-500/80 hover:bg-blue-500" : "bg-black/20 hover:bg-black/40"}`}
+                                title={commentsOpen ? "Hide comments" : "Show comments"}
+                            >
+                                <MessageCircle className="h-5 w-5" />
+                            </button>
+
+                            {/* Info Toggle */}
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setInfoOpen(!infoOpen);
+                                    setCommentsOpen(false);
+                                }}
+                                className={`p-3 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group ${infoOpen ? "bg-blue-500/80 hover:bg-blue-500" : "bg-black/20 hover:bg-black/40"}`}
+                                title={infoOpen ? "Hide info" : "Show info"}
+                            >
+                                <Info className="h-5 w-5" />
+                            </button>
+
+                            {/* Edit Details Button */}
+                            {canEdit && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        if (selectedImageIndex !== null) {
+                                            setEditingImage(images[selectedImageIndex]);
+                                        }
+                                    }}
+                                    className="p-3 bg-black/20 hover:bg-black/40 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group"
+                                    title="Edit details"
+                                >
+                                    <Edit2 className="h-5 w-5" />
+                                </button>
+                            )}
+
                             {/* Delete Button */}
                             {canEdit && (
                                 <button
@@ -1543,7 +1685,7 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
                         {/* Next Button */}
                         <button
                             onClick={(e) => { e.stopPropagation(); handleNext(); }}
-                            className="absolute right-4 top-1/2 -translate-y-1/2 z-50 p-4 bg-black/20 hover:bg-black/40 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group"
+                            className={`absolute top-1/2 -translate-y-1/2 z-50 p-4 bg-black/20 hover:bg-black/40 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group ${sidePanelOpen ? "right-4 md:right-[22rem]" : "right-4"}`}
                             aria-label="Next photo"
                         >
                             <ArrowLeft className="h-8 w-8 rotate-180 group-hover:scale-110 transition-transform" />
@@ -1551,32 +1693,80 @@ export default function AlbumDetailPage({ params }: { params: Promise<{ id: stri
 
                         {/* Image Display */}
                         {selectedImageIndex !== null && images[selectedImageIndex] && (
-                            <div className="relative w-full h-full flex items-center justify-center p-4 md:p-12">
-                                <img
-                                    src={images[selectedImageIndex].displayUrl || images[selectedImageIndex].url}
-                                    alt=""
-                                    className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
-                                />
+                            <div className={`relative w-full h-full flex items-center justify-center p-4 md:p-12 ${sidePanelOpen ? "md:pr-[23rem]" : ""}`}>
+                                {isVideoMimeType(images[selectedImageIndex].mimeType) ? (
+                                    <video
+                                        key={images[selectedImageIndex].id}
+                                        src={`/api/images/${images[selectedImageIndex].id}/stream`}
+                                        poster={images[selectedImageIndex].displayUrl || undefined}
+                                        controls
+                                        autoPlay
+                                        playsInline
+                                        className="max-h-full max-w-full rounded-lg shadow-2xl"
+                                    />
+                                ) : (
+                                    <img
+                                        src={images[selectedImageIndex].displayUrl || images[selectedImageIndex].url}
+                                        alt=""
+                                        className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
+                                    />
+                                )}
                                 <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/50 backdrop-blur-md rounded-full text-white text-sm flex items-center gap-3">
                                     <span>{selectedImageIndex + 1} / {images.length}</span>
                                     {images[selectedImageIndex].dateTaken && (
                                         <span className="text-white/70">
-                                            {new Date(images[selectedImageIndex].dateTaken!).toLocaleDateString()}
+                                            {captureDisplayDate(images[selectedImageIndex].dateTaken!, images[selectedImageIndex].dateTakenOffset).toLocaleDateString()}
                                         </span>
                                     )}
+                                    {images[selectedImageIndex].caption && (
+                                        <span className="max-w-md truncate">{images[selectedImageIndex].caption}</span>
+                                    )}
                                 </div>
                             </div>
                         )}
+
+                        {/* Comments Panel */}
+                        {commentsOpen && selectedImageIndex !== null && images[selectedImageIndex] && (
+                            <div
+                                className="absolute right-4 top-20 bottom-4 z-40 w-[calc(100%-2rem)] md:w-80 rounded-2xl bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 shadow-2xl overflow-hidden"
+                                onClick={(e) => e.stopPropagation()}
+                            >
+                                <PhotoComments
+                                    key={images[selectedImageIndex].id}
+                                    imageId={images[selectedImageIndex].id}
+                                    canComment={!!user && !!userRole}
+                                />
+                            </div>
+                        )}
+
+                        {/* Info Panel */}
+                        {infoOpen && selectedImageIndex !== null && images[selectedImageIndex] && (
+                            <div
+                                className="absolute right-4 top-20 bottom-4 z-40 w-[calc(100%-2rem)] md:w-80 rounded-2xl bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 shadow-2xl overflow-hidden"
+                                onClick={(e) => e.stopPropagation()}
+                            >
+                                <PhotoInfoPanel photo={images[selectedImageIndex]} />
+                            </div>
+                        )}
                     </div>
                 </DialogContent>
             </Dialog>
 
+            {editingImage && (
+                <EditPhotoDialog
+                    photo={editingImage}
+                    open={!!editingImage}
+                    onOpenChange={(open) => !open && setEditingImage(null)}
+                    onSuccess={() => mutateAlbum()}
+                />
+            )}
+
             {/* Confirmation Dialogs */}
             <ConfirmDialog
                 open={deleteAlbumConfirmOpen}
                 onOpenChange={setDeleteAlbumConfirmOpen}
                 title="Delete Album?"
-                description="Are you sure you want to delete this album? This action cannot be undone and all photos will be permanently removed."
+                description="The album will be moved to Recently deleted. You can restore it from there before it and all its photos are permanently removed."
                 variant="destructive"
                 onConfirm={handleDeleteAlbum}
                 confirmText="Delete Album"
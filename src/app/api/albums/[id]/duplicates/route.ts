@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { DuplicateService, parseSimilarityThreshold } from "@/lib/services/duplicate.service";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * @swagger
+ * /api/albums/{id}/duplicates:
+ *   get:
+ *     tags:
+ *       - Albums
+ *     summary: Review near-duplicates
+ *     description: Groups of look-alike photos in the album, linked by perceptual-hash Hamming distance. Each group names a suggested photo to keep (highest resolution, then largest file, then oldest) and lists it first. Trash the rest with the bulk delete action.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 20
+ *         description: Maximum Hamming distance between linked photos
+ *     responses:
+ *       200:
+ *         description: Duplicate groups with a keep suggestion
+ *       403:
+ *         description: Forbidden
+ */
+export async function GET(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    const url = new URL(request.url);
+    const threshold = parseSimilarityThreshold(url.searchParams.get("threshold"));
+
+    try {
+        const groups = await DuplicateService.listSimilarGroups(userId, id, { threshold });
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ groups, threshold });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        console.error("Duplicate review error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
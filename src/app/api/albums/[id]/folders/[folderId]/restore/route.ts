@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { FolderService } from "@/lib/services/folder.service";
+
+type Context = { params: Promise<{ id: string; folderId: string }> };
+
+/**
+ * @swagger
+ * /api/albums/{id}/folders/{folderId}/restore:
+ *   post:
+ *     tags:
+ *       - Albums
+ *     summary: Restore folder
+ *     description: Restore a folder from the album's trash. Photos that were in it when it was deleted go back into it.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: folderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Folder restored
+ *       404:
+ *         description: Folder not found in trash
+ */
+export async function POST(request: Request, context: Context) {
+    const { id: albumId, folderId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const folder = await FolderService.restoreFolder(userId, albumId, folderId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ folder });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        if (message === "Folder not found") return NextResponse.json({ error: message }, { status: 404 });
+        console.error("Restore folder error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -1,19 +1,40 @@
 import { NextResponse } from "next/server";
 import { checkAlbumPermission } from "@/lib/auth/rbac";
-import { logActivity } from "@/lib/activity";
 import { db } from "@/db";
-import { folders, images } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { albums } from "@/db/schema";
+import { eq } from "drizzle-orm";
 import { z } from "zod";
+import { FolderService } from "@/lib/services/folder.service";
 
 /**
  * @swagger
  * /api/albums/{id}/folders/{folderId}:
- *   put:
+ *   get:
  *     tags:
  *       - Albums
- *     summary: Rename folder
- *     description: Rename a folder.
+ *     summary: Get folder
+ *     description: Get a folder with its recursive photo count, its breadcrumb from the album root, and its direct subfolders.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: folderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Folder, breadcrumb and children
+ *       404:
+ *         description: Folder not found
+ *   patch:
+ *     tags:
+ *       - Albums
+ *     summary: Rename or move folder
+ *     description: Rename a folder and/or move it under another parent. Subfolders and photos move with it. Moving a folder into itself or one of its subfolders is rejected.
  *     parameters:
  *       - in: path
  *         name: id
@@ -33,14 +54,22 @@ import { z } from "zod";
  *             properties:
  *               name:
  *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: New parent folder (null for the album root)
  *     responses:
  *       200:
- *         description: Folder renamed
+ *         description: Folder updated
+ *       400:
+ *         description: Invalid parent, cycle, or nesting too deep
+ *       404:
+ *         description: Folder not found
  *   delete:
  *     tags:
  *       - Albums
  *     summary: Delete folder
- *     description: Delete a folder.
+ *     description: Move a folder to the album's trash. Its photos are shown at the album root until the folder is restored via /api/albums/{id}/folders/{folderId}/restore, which puts them back.
  *     parameters:
  *       - in: path
  *         name: id
@@ -54,27 +83,28 @@ import { z } from "zod";
  *           type: string
  *     responses:
  *       200:
- *         description: Folder deleted
+ *         description: Folder moved to trash
+ *       404:
+ *         description: Folder not found
  */
 
 import { getAuthContext } from "@/lib/auth/session";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
 
 const updateFolderSchema = z.object({
-    name: z.string().min(1).max(100),
+    name: z.string().min(1).max(100).optional(),
+    parentId: z.string().uuid().nullable().optional(),
+}).refine(data => data.name !== undefined || data.parentId !== undefined, {
+    message: "name or parentId is required",
 });
 
 type Context = { params: Promise<{ id: string; folderId: string }> };
 
-// PATCH /api/albums/[id]/folders/[folderId] - Rename folder
-export async function PATCH(request: Request, context: Context) {
+// GET /api/albums/[id]/folders/[folderId] - Folder with breadcrumb and children
+export async function GET(request: Request, context: Context) {
     const { id: albumId, folderId } = await context.params;
     const { userId, apiKey } = await getAuthContext();
 
-    if (!userId) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
     if (apiKey) {
         const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
         if (!limitCheck.ok) {
@@ -82,36 +112,58 @@ export async function PATCH(request: Request, context: Context) {
         }
     }
 
-    const canEdit = await checkAlbumPermission(userId, albumId, "editor");
-    if (!canEdit) {
+    let hasAccess = false;
+    if (userId) {
+        hasAccess = await checkAlbumPermission(userId, albumId, "viewer");
+    }
+    if (!hasAccess) {
+        const album = await db.query.albums.findFirst({
+            where: eq(albums.id, albumId),
+        });
+        hasAccess = album?.visibility === "public" && !album.deletedAt;
+    }
+
+    if (!hasAccess) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     try {
-        const body = await request.json();
-        const { name } = updateFolderSchema.parse(body);
+        const details = await FolderService.getFolderDetails(albumId, folderId);
 
-        // Verify folder belongs to album
-        const existingFolder = await db.query.folders.findFirst({
-            where: and(eq(folders.id, folderId), eq(folders.albumId, albumId)),
-        });
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+        return NextResponse.json(details);
+    } catch (error) {
+        if (error instanceof Error && error.message === "Folder not found") {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        console.error("Get folder error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
+
+// PATCH /api/albums/[id]/folders/[folderId] - Rename or move folder
+export async function PATCH(request: Request, context: Context) {
+    const { id: albumId, folderId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
-        if (!existingFolder) {
-            return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
         }
+    }
 
-        const [updatedFolder] = await db.update(folders)
-            .set({ name, updatedAt: new Date() })
-            .where(eq(folders.id, folderId))
-            .returning();
-
-        await logActivity({
-            userId,
-            albumId,
-            folderId,
-            action: "folder_update",
-            metadata: { oldName: existingFolder.name, newName: name },
-        });
+    try {
+        const body = await request.json();
+        const data = updateFolderSchema.parse(body);
+
+        const updatedFolder = await FolderService.updateFolder(userId, albumId, folderId, data);
 
         if (apiKey) {
             await logApiKeyUsage(apiKey.id, request, 200);
@@ -121,6 +173,16 @@ export async function PATCH(request: Request, context: Context) {
         if (error instanceof z.ZodError) {
             return NextResponse.json({ error: error.issues }, { status: 400 });
         }
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        if (message === "Folder not found") return NextResponse.json({ error: message }, { status: 404 });
+        if (
+            message === "Parent folder not found" ||
+            message === "Cannot move a folder into itself or its subfolders" ||
+            message === "Folder nesting is too deep"
+        ) {
+            return NextResponse.json({ error: message }, { status: 400 });
+        }
         console.error("Update folder error:", error);
         return NextResponse.json({ error: "Internal Error" }, { status: 500 });
     }
@@ -142,42 +204,18 @@ export async function DELETE(request: Request, context: Context) {
         }
     }
 
-    // Only owner can delete folders (or robust editor check if desired, adhering to RBAC)
-    // For now, let's allow editors as they can create folders
-    const canEdit = await checkAlbumPermission(userId, albumId, "editor");
-    if (!canEdit) {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     try {
-        const existingFolder = await db.query.folders.findFirst({
-            where: and(eq(folders.id, folderId), eq(folders.albumId, albumId)),
-        });
-
-        if (!existingFolder) {
-            return NextResponse.json({ error: "Folder not found" }, { status: 404 });
-        }
-
-        // Hard delete folder. Images in this folder have ON DELETE SET NULL on folderId
-        // So images will just become "root" images (unfoldered).
-        // If we want to delete images inside, we'd need to do that explicitly.
-        // Usually, deleting a folder shouldn't delete the precious photos inside, just organize them back to root.
-
-        await db.delete(folders).where(eq(folders.id, folderId));
-
-        await logActivity({
-            userId,
-            albumId,
-            folderId,
-            action: "folder_delete",
-            metadata: { name: existingFolder.name },
-        });
+        // Editors can trash folders as they can create them
+        await FolderService.deleteFolder(userId, albumId, folderId);
 
         if (apiKey) {
             await logApiKeyUsage(apiKey.id, request, 200);
         }
         return NextResponse.json({ success: true });
     } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        if (message === "Folder not found") return NextResponse.json({ error: message }, { status: 404 });
         console.error("Delete folder error:", error);
         return NextResponse.json({ error: "Internal Error" }, { status: 500 });
     }
@@ -2,11 +2,11 @@ import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { verifyAccessToken } from "@/lib/auth/tokens";
 import { checkAlbumPermission } from "@/lib/auth/rbac";
-import { logActivity } from "@/lib/activity";
 import { db } from "@/db";
 import { folders } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { z } from "zod";
+import { FolderService } from "@/lib/services/folder.service";
 
 /**
  * @swagger
@@ -15,21 +15,25 @@ import { z } from "zod";
  *     tags:
  *       - Albums
  *     summary: List folders
- *     description: List all folders in an album.
+ *     description: List all folders in an album with their parentId, the number of photos directly inside (imageCount) and inside the whole subtree (totalImageCount). With tree=true the folders are returned nested under "tree" instead.
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: tree
+ *         schema:
+ *           type: boolean
  *     responses:
  *       200:
- *         description: List of folders
+ *         description: List or tree of folders
  *   post:
  *     tags:
  *       - Albums
  *     summary: Create folder
- *     description: Create a new folder in an album.
+ *     description: Create a new folder in an album, optionally inside another folder.
  *     parameters:
  *       - in: path
  *         name: id
@@ -46,9 +50,15 @@ import { z } from "zod";
  *             properties:
  *               name:
  *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent folder (omit or null for the album root)
  *     responses:
  *       200:
  *         description: Folder created
+ *       400:
+ *         description: Parent folder not found or nesting too deep
  */
 
 import { getAuthContext } from "@/lib/auth/session";
@@ -56,10 +66,7 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
 
 const createFolderSchema = z.object({
     name: z.string().min(1).max(100),
-});
-
-const updateFolderSchema = z.object({
-    name: z.string().min(1).max(100),
+    parentId: z.string().uuid().nullable().optional(),
 });
 
 type Context = { params: Promise<{ id: string }> };
@@ -85,17 +92,23 @@ export async function GET(request: Request, context: Context) {
         const album = await db.query.albums.findFirst({
             where: eq(folders.albumId, albumId),
         });
-        hasAccess = album?.visibility === "public";
+        hasAccess = album?.visibility === "public" && !album.deletedAt;
     }
 
     if (!hasAccess) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    const albumFolders = await db.query.folders.findMany({
-        where: eq(folders.albumId, albumId),
-        orderBy: (folders, { asc }) => [asc(folders.name)],
-    });
+    const url = new URL(request.url);
+    if (url.searchParams.get("tree") === "true") {
+        const tree = await FolderService.getFolderTree(albumId);
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+        return NextResponse.json({ tree });
+    }
+
+    const albumFolders = await FolderService.listFolders(albumId);
 
     if (apiKey) {
         await logApiKeyUsage(apiKey.id, request, 200);
@@ -119,29 +132,11 @@ export async function POST(request: Request, context: Context) {
         }
     }
 
-    // Check editor permission
-    const canEdit = await checkAlbumPermission(userId, albumId, "editor");
-    if (!canEdit) {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     try {
         const body = await request.json();
-        const { name } = createFolderSchema.parse(body);
-
-        const [folder] = await db.insert(folders).values({
-            albumId,
-            name,
-        }).returning();
-
-        // Log activity
-        await logActivity({
-            userId,
-            albumId,
-            folderId: folder.id,
-            action: "folder_create",
-            metadata: { name },
-        });
+        const { name, parentId } = createFolderSchema.parse(body);
+
+        const folder = await FolderService.createFolder(userId, albumId, name, parentId ?? null);
 
         if (apiKey) {
             await logApiKeyUsage(apiKey.id, request, 200);
@@ -152,6 +147,11 @@ export async function POST(request: Request, context: Context) {
         if (error instanceof z.ZodError) {
             return NextResponse.json({ error: error.issues }, { status: 400 });
         }
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        if (message === "Parent folder not found" || message === "Folder nesting is too deep") {
+            return NextResponse.json({ error: message }, { status: 400 });
+        }
         console.error("Create folder error:", error);
         return NextResponse.json({ error: "Internal Error" }, { status: 500 });
     }
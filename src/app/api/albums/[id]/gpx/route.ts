@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { GpxService } from "@/lib/services/gpx.service";
+
+type Context = { params: Promise<{ id: string }> };
+
+const MAX_GPX_LENGTH = 10 * 1024 * 1024;
+
+const importGpxSchema = z.object({
+    gpx: z.string().min(1).max(MAX_GPX_LENGTH),
+    toleranceSeconds: z.number().int().min(0).max(24 * 60 * 60).optional(),
+    offsetSeconds: z.number().int().min(-7 * 24 * 60 * 60).max(7 * 24 * 60 * 60).optional(),
+    overwrite: z.boolean().optional(),
+    dryRun: z.boolean().optional(),
+});
+
+/**
+ * @swagger
+ * /api/albums/{id}/gpx:
+ *   post:
+ *     tags:
+ *       - Albums
+ *     summary: Geotag photos from a GPX track
+ *     description: Editor or owner only. Places each dated photo where the GPX track was when it was taken, interpolating between the track points on either side. Photos with no track point within the tolerance are left unmatched, and photos that already have a location are skipped unless overwrite is set. Use dryRun to preview the proposed positions; applying them also keeps the track so the map can draw it.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - gpx
+ *             properties:
+ *               gpx:
+ *                 type: string
+ *                 description: Contents of the GPX file (up to 10 MB)
+ *               toleranceSeconds:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 86400
+ *                 default: 300
+ *                 description: Furthest a photo may be in time from the track points used
+ *               offsetSeconds:
+ *                 type: integer
+ *                 default: 0
+ *                 description: Added to each capture time before matching, to correct a camera clock that was off (up to ±7 days)
+ *               overwrite:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Also re-position photos that already have a location
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Track summary, matched photos with their proposed positions, unmatched photos and skip counts
+ *       400:
+ *         description: Invalid input, not a GPX file, or a track without timestamps
+ *       403:
+ *         description: Forbidden
+ */
+export async function POST(request: Request, context: Context) {
+    const { id: albumId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json();
+        const { gpx, ...options } = importGpxSchema.parse(body);
+
+        const result = await GpxService.importTrack(userId, albumId, gpx, options);
+
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({ error: error.issues }, { status: 400 });
+        }
+        if (error instanceof Error) {
+            if (error.message === "Forbidden") {
+                return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+            }
+            if (error.message === "Invalid GPX file" || error.message === "GPX file has no timed track points") {
+                return NextResponse.json({ error: error.message }, { status: 400 });
+            }
+        }
+        console.error("GPX import error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { checkAlbumPermission } from "@/lib/auth/rbac";
+import { StorageService, MIN_GC_GRACE_HOURS, DEFAULT_GC_GRACE_HOURS } from "@/lib/services/storage.service";
+
+type Context = { params: Promise<{ id: string }> };
+
+const collectOrphansSchema = z.object({
+    dryRun: z.boolean().optional(),
+    graceHours: z.number().min(MIN_GC_GRACE_HOURS).max(24 * 365).optional(),
+});
+
+/**
+ * @swagger
+ * /api/albums/{id}/orphans:
+ *   post:
+ *     tags:
+ *       - Albums
+ *     summary: Clean up orphaned uploads
+ *     description: Owner only. Lists objects stored under this album's prefix that no image references (e.g. uploads that were never registered) and deletes those older than the grace period. Use dryRun to get the report without deleting anything.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *               graceHours:
+ *                 type: number
+ *                 minimum: 25
+ *                 default: 48
+ *                 description: Only objects older than this are considered
+ *     responses:
+ *       200:
+ *         description: Report of orphaned objects and how many were deleted
+ *       403:
+ *         description: Only the owner can clean up storage
+ */
+export async function POST(request: Request, context: Context) {
+    const { id: albumId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const isOwner = await checkAlbumPermission(userId, albumId, "owner");
+        if (!isOwner) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+        const body = await request.json().catch(() => ({}));
+        const { dryRun, graceHours } = collectOrphansSchema.parse(body);
+
+        const report = await StorageService.collectOrphans({
+            prefix: `albums/${albumId}/`,
+            graceHours: graceHours ?? DEFAULT_GC_GRACE_HOURS,
+            dryRun: dryRun ?? false,
+        });
+
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+
+        return NextResponse.json(report);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({ error: error.issues }, { status: 400 });
+        }
+        console.error("Orphan cleanup error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
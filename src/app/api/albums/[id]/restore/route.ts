@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { AlbumService } from "@/lib/services/album.service";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * @swagger
+ * /api/albums/{id}/restore:
+ *   post:
+ *     tags:
+ *       - Albums
+ *     summary: Restore album
+ *     description: Restore a deleted album from "Recently deleted". Owner only.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Album restored
+ *       404:
+ *         description: Album not found or not deleted
+ */
+export async function POST(request: Request, context: Context) {
+    const { id: albumId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const album = await AlbumService.restoreAlbum(userId, albumId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ album });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        console.error(error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -3,6 +3,9 @@ import { z } from "zod";
 import { getAuthContext } from "@/lib/auth/session";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
 import { AlbumService } from "@/lib/services/album.service";
+import { parseTagsParam } from "@/lib/services/tag.service";
+import { parseMetadataFilter } from "@/lib/exif";
+import { MAX_TRASH_RETENTION_DAYS } from "@/lib/services/trash.service";
 
 const updateAlbumSchema = z.object({
     title: z.string().min(1).optional(),
@@ -10,6 +13,7 @@ const updateAlbumSchema = z.object({
     visibility: z.enum(["public", "private"]).optional(),
     coverImageId: z.string().uuid().nullable().optional(),
     albumDate: z.coerce.date().optional(),
+    trashRetentionDays: z.number().int().min(1).max(MAX_TRASH_RETENTION_DAYS).nullable().optional(),
 });
 
 type Context = { params: Promise<{ id: string }> };
@@ -28,6 +32,31 @@ type Context = { params: Promise<{ id: string }> };
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tag names; only images carrying all of them are returned
+ *       - in: query
+ *         name: camera
+ *         schema:
+ *           type: string
+ *         description: Only images taken with this camera model
+ *       - in: query
+ *         name: lens
+ *         schema:
+ *           type: string
+ *         description: Only images taken with this lens model
+ *       - in: query
+ *         name: focalMin
+ *         schema:
+ *           type: number
+ *         description: Minimum focal length in mm (images without one are excluded)
+ *       - in: query
+ *         name: focalMax
+ *         schema:
+ *           type: number
+ *         description: Maximum focal length in mm
  *     responses:
  *       200:
  *         description: Album details
@@ -48,9 +77,11 @@ export async function GET(request: Request, context: Context) {
     const { searchParams } = new URL(request.url);
     const sortBy = searchParams.get('sortBy') || 'createdAt';
     const sortDir = searchParams.get('sortDir') || 'desc';
+    const tags = parseTagsParam(searchParams.get('tags'));
+    const metadata = parseMetadataFilter(searchParams);
 
     try {
-        const result = await AlbumService.getAlbum(userId, albumId, { sortBy, sortDir });
+        const result = await AlbumService.getAlbum(userId, albumId, { sortBy, sortDir, tags, metadata });
         if (!result) {
             return NextResponse.json({ error: "Not found" }, { status: 404 });
         }
@@ -104,6 +135,11 @@ export async function GET(request: Request, context: Context) {
  *               albumDate:
  *                 type: string
  *                 format: date-time
+ *               trashRetentionDays:
+ *                 type: integer
+ *                 nullable: true
+ *                 minimum: 1
+ *                 description: Owner only. Days deleted photos stay in the trash before automatic purge; null uses the instance default.
  *     responses:
  *       200:
  *         description: Album updated
@@ -132,6 +168,7 @@ export async function PATCH(request: Request, context: Context) {
         if (data.visibility !== undefined) cleanData.visibility = data.visibility;
         if (data.coverImageId !== undefined) cleanData.coverImageId = data.coverImageId;
         if (data.albumDate !== undefined) cleanData.albumDate = data.albumDate;
+        if (data.trashRetentionDays !== undefined) cleanData.trashRetentionDays = data.trashRetentionDays;
 
         const album = await AlbumService.updateAlbum(userId, albumId, cleanData);
 
@@ -147,6 +184,7 @@ export async function PATCH(request: Request, context: Context) {
         }
         if (error.message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
         if (error.message === "Only owner can change visibility") return NextResponse.json({ error: error.message }, { status: 403 });
+        if (error.message === "Only owner can change trash retention") return NextResponse.json({ error: error.message }, { status: 403 });
 
         console.error(error);
         return NextResponse.json({ error: "Internal Error" }, { status: 500 });
@@ -160,7 +198,7 @@ export async function PATCH(request: Request, context: Context) {
  *     tags:
  *       - Albums
  *     summary: Delete album
- *     description: Delete an album and all its contents.
+ *     description: Move an album to "Recently deleted". The owner can restore it via /api/albums/{id}/restore until the grace window (ALBUM_RETENTION_DAYS, default 30) passes, after which the purge job deletes it and all its photos permanently.
  *     parameters:
  *       - in: path
  *         name: id
@@ -169,7 +207,7 @@ export async function PATCH(request: Request, context: Context) {
  *           type: string
  *     responses:
  *       200:
- *         description: Album deleted
+ *         description: Album deleted; purgeAt says when it will be removed permanently
  */
 export async function DELETE(request: Request, context: Context) {
     const { id: albumId } = await context.params;
@@ -185,11 +223,11 @@ export async function DELETE(request: Request, context: Context) {
     }
 
     try {
-        await AlbumService.deleteAlbum(userId, albumId);
+        const { purgeAt } = await AlbumService.deleteAlbum(userId, albumId);
         if (apiKey) {
             await logApiKeyUsage(apiKey.id, request, 200);
         }
-        return NextResponse.json({ success: true });
+        return NextResponse.json({ success: true, purgeAt });
     } catch (error: any) {
         if (error.message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
         console.error(error);
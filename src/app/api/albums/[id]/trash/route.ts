@@ -2,11 +2,13 @@
 import { NextResponse } from "next/server";
 import { checkAlbumPermission, getAlbumRole } from "@/lib/auth/rbac";
 import { db } from "@/db";
-import { images, users } from "@/db/schema";
+import { images, users, albums } from "@/db/schema";
 import { eq, isNotNull, and, desc, inArray } from "drizzle-orm";
 import { deleteS3Object, generateDownloadUrl } from "@/lib/s3";
 import { getAuthContext } from "@/lib/auth/session";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { getRetentionDays, getPurgeDate } from "@/lib/services/trash.service";
+import { FolderService } from "@/lib/services/folder.service";
 
 type Context = { params: Promise<{ id: string }> };
 
@@ -17,7 +19,7 @@ type Context = { params: Promise<{ id: string }> };
  *     tags:
  *       - Albums
  *     summary: View trash
- *     description: List deleted images in the album.
+ *     description: List deleted images and folders in the album, with the album's retention period and when each item will be purged automatically.
  *     parameters:
  *       - in: path
  *         name: id
@@ -26,12 +28,12 @@ type Context = { params: Promise<{ id: string }> };
  *           type: string
  *     responses:
  *       200:
- *         description: List of deleted images
+ *         description: Deleted images and folders (each with purgeAt) and retentionDays
  *   delete:
  *     tags:
  *       - Albums
  *     summary: Empty trash / Permanently delete
- *     description: Permanently delete specific images from trash.
+ *     description: Permanently delete specific images and folders from trash. Photos of a permanently deleted folder stay in the album root.
  *     parameters:
  *       - in: path
  *         name: id
@@ -43,13 +45,15 @@ type Context = { params: Promise<{ id: string }> };
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - imageIds
  *             properties:
  *               imageIds:
  *                 type: array
  *                 items:
  *                   type: string
+ *               folderIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
  *         description: Images permanently deleted
@@ -87,10 +91,17 @@ export async function GET(request: Request, context: Context) {
         .where(and(eq(images.albumId, albumId), isNotNull(images.deletedAt)))
         .orderBy(desc(images.deletedAt));
 
+    const album = await db.query.albums.findFirst({
+        where: eq(albums.id, albumId),
+        columns: { trashRetentionDays: true },
+    });
+    const retentionDays = getRetentionDays(album?.trashRetentionDays);
+
     // Generate signed URLs for thumbnails
     const imagesWithUrls = await Promise.all(deletedImages.map(async (img) => ({
         ...img,
-        url: await generateDownloadUrl(img.s3Key!)
+        url: await generateDownloadUrl(img.s3Key!),
+        purgeAt: getPurgeDate(img.deletedAt!, retentionDays),
     })));
 
 
@@ -99,7 +110,13 @@ export async function GET(request: Request, context: Context) {
         await logApiKeyUsage(apiKey.id, request, 200);
     }
 
-    return NextResponse.json({ images: imagesWithUrls });
+    const deletedFolders = await FolderService.listDeletedFolders(albumId);
+    const foldersWithPurge = deletedFolders.map(folder => ({
+        ...folder,
+        purgeAt: getPurgeDate(folder.deletedAt!, retentionDays),
+    }));
+
+    return NextResponse.json({ images: imagesWithUrls, folders: foldersWithPurge, retentionDays });
 }
 
 export async function DELETE(request: Request, context: Context) {
@@ -122,14 +139,14 @@ export async function DELETE(request: Request, context: Context) {
         return NextResponse.json({ error: "Forbidden: Only owners can permanently delete items" }, { status: 403 });
     }
 
-    const { imageIds } = await request.json().catch(() => ({ imageIds: [] }));
+    const { imageIds = [], folderIds = [] } = await request.json().catch(() => ({}));
 
-    if (!imageIds || !Array.isArray(imageIds) || imageIds.length === 0) {
+    if (!Array.isArray(imageIds) || !Array.isArray(folderIds) || (imageIds.length === 0 && folderIds.length === 0)) {
         return NextResponse.json({ error: "No images specified" }, { status: 400 });
     }
 
     // Get images to verify they belong to this album and get S3 keys
-    const imagesToDelete = await db.select()
+    const imagesToDelete = imageIds.length === 0 ? [] : await db.select()
         .from(images)
         .where(
             and(
@@ -158,11 +175,13 @@ export async function DELETE(request: Request, context: Context) {
         await db.delete(images).where(inArray(images.id, imagesToDelete.map(img => img.id)));
     }
 
+    const folderCount = await FolderService.permanentlyDeleteFolders(albumId, folderIds);
+
 
 
     if (apiKey) {
         await logApiKeyUsage(apiKey.id, request, 200);
     }
 
-    return NextResponse.json({ success: true, count: imagesToDelete.length });
+    return NextResponse.json({ success: true, count: imagesToDelete.length, folderCount });
 }
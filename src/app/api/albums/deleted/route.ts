@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { AlbumService } from "@/lib/services/album.service";
+
+/**
+ * @swagger
+ * /api/albums/deleted:
+ *   get:
+ *     tags:
+ *       - Albums
+ *     summary: List recently deleted albums
+ *     description: Albums the caller owns that were deleted and can still be restored, most recently deleted first. Each entry includes purgeAt, when it will be removed permanently.
+ *     responses:
+ *       200:
+ *         description: List of deleted albums
+ */
+export async function GET(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const albums = await AlbumService.listDeletedAlbums(userId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ albums });
+    } catch (error) {
+        console.error(error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { CommentService, MAX_COMMENT_LENGTH } from "@/lib/services/comment.service";
+
+const updateCommentSchema = z.object({
+    body: z.string().trim().min(1).max(MAX_COMMENT_LENGTH),
+});
+
+type Context = { params: Promise<{ id: string; commentId: string }> };
+
+function handleError(error: unknown) {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "";
+    if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    console.error("Comment error:", error);
+    return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/comments/{commentId}:
+ *   patch:
+ *     tags:
+ *       - Images
+ *     summary: Edit comment
+ *     description: Change the text of a comment. Only its author can edit it.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Comment updated
+ */
+export async function PATCH(request: Request, context: Context) {
+    const { id, commentId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const json = await request.json();
+        const { body } = updateCommentSchema.parse(json);
+
+        const comment = await CommentService.updateComment(userId, id, commentId, body);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ comment });
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/comments/{commentId}:
+ *   delete:
+ *     tags:
+ *       - Images
+ *     summary: Delete comment
+ *     description: Delete a comment. Allowed for its author and the album owner. Replies stay visible under a placeholder.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment deleted
+ */
+export async function DELETE(request: Request, context: Context) {
+    const { id, commentId } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        await CommentService.deleteComment(userId, id, commentId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return handleError(error);
+    }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { CommentService, MAX_COMMENT_LENGTH } from "@/lib/services/comment.service";
+
+const createCommentSchema = z.object({
+    body: z.string().trim().min(1).max(MAX_COMMENT_LENGTH),
+    parentId: z.string().uuid().nullable().optional(),
+});
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * @swagger
+ * /api/images/{id}/comments:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: List comments
+ *     description: Get all comments on an image, oldest first. Replies reference their parent via parentId.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Flat list of comments
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const comments = await CommentService.listComments(userId, id);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ comments });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+        if (message === "Forbidden") {
+            return NextResponse.json({ error: userId ? "Forbidden" : "Unauthorized" }, { status: userId ? 403 : 401 });
+        }
+        console.error("List comments error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/comments:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Add comment
+ *     description: Comment on an image, or reply to an existing comment with parentId. Any album viewer can comment.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *               parentId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       201:
+ *         description: Comment created
+ */
+export async function POST(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const json = await request.json();
+        const { body, parentId } = createCommentSchema.parse(json);
+
+        const comment = await CommentService.createComment(userId, id, body, parentId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 201);
+        return NextResponse.json({ comment }, { status: 201 });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({ error: error.issues }, { status: 400 });
+        }
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        if (message === "Parent comment not found") return NextResponse.json({ error: message }, { status: 400 });
+        console.error("Create comment error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,189 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { ReactionService, REACTION_TYPES } from "@/lib/services/reaction.service";
+
+const reactionSchema = z.object({
+    type: z.enum(REACTION_TYPES),
+});
+
+type Context = { params: Promise<{ id: string }> };
+
+function handleError(error: unknown) {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "";
+    if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    console.error("Image reactions error:", error);
+    return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/reactions:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: List reactions
+ *     description: Reaction counts per type, the caller's own reactions and star state, and a page of who reacted (newest first).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor from the previous page's nextCursor
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reaction summary and page of reactions
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    const url = new URL(request.url);
+    const cursor = url.searchParams.get("cursor") || undefined;
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "20", 10) || 20, 1), 100);
+
+    try {
+        const result = await ReactionService.getReactions(userId, id, { cursor, limit });
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof Error && error.message === "Forbidden" && !userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/reactions:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Add reaction
+ *     description: React to an image. Adding the same reaction twice has no effect.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [like, heart]
+ *     responses:
+ *       200:
+ *         description: Updated reaction summary
+ */
+export async function POST(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json();
+        const { type } = reactionSchema.parse(body);
+
+        const summary = await ReactionService.addReaction(userId, id, type);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(summary);
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/reactions:
+ *   delete:
+ *     tags:
+ *       - Images
+ *     summary: Remove reaction
+ *     description: Remove the caller's reaction of the given type.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [like, heart]
+ *     responses:
+ *       200:
+ *         description: Updated reaction summary
+ */
+export async function DELETE(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { type } = reactionSchema.parse(body);
+
+        const summary = await ReactionService.removeReaction(userId, id, type);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(summary);
+    } catch (error) {
+        return handleError(error);
+    }
+}
@@ -1,8 +1,24 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { getAuthContext } from "@/lib/auth/session";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
 import { ImageService } from "@/lib/services/image.service";
 
+const updateImageSchema = z.object({
+    caption: z.string().trim().max(2000).nullable().optional(),
+    originalFilename: z.string().trim().min(1).max(255).optional(),
+    dateTaken: z.coerce.date().nullable().optional(),
+    dateTakenOffset: z.number().int().min(-840).max(840).nullable().optional(),
+    gpsLat: z.number().min(-90).max(90).nullable().optional(),
+    gpsLng: z.number().min(-180).max(180).nullable().optional(),
+    cameraMake: z.string().trim().max(100).nullable().optional(),
+    cameraModel: z.string().trim().max(100).nullable().optional(),
+}).refine(
+    (data) => (data.gpsLat === undefined) === (data.gpsLng === undefined)
+        && (data.gpsLat === null) === (data.gpsLng === null),
+    { message: "gpsLat and gpsLng must be set or cleared together", path: ["gpsLat"] }
+);
+
 type Context = { params: Promise<{ id: string }> };
 
 /**
@@ -52,6 +68,102 @@ export async function GET(request: Request, context: Context) {
     }
 }
 
+/**
+ * @swagger
+ * /api/images/{id}:
+ *   patch:
+ *     tags:
+ *       - Images
+ *     summary: Update image metadata
+ *     description: Edit caption, filename, capture date, GPS position or camera fields. Editors only. Empty strings and null clear a field.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               caption:
+ *                 type: string
+ *                 nullable: true
+ *               originalFilename:
+ *                 type: string
+ *               dateTaken:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               dateTakenOffset:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: UTC offset in minutes where the photo was taken (-840 to 840); cleared with dateTaken
+ *               gpsLat:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Decimal latitude (-90 to 90), must be sent with gpsLng
+ *               gpsLng:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Decimal longitude (-180 to 180), must be sent with gpsLat
+ *               cameraMake:
+ *                 type: string
+ *                 nullable: true
+ *               cameraModel:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Updated image, the applied changes and which views (timeline, map) they affect
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Not found
+ */
+export async function PATCH(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json();
+        const data = updateImageSchema.parse(body);
+
+        // Treat empty strings as "clear this field"
+        const cleanData = {
+            ...data,
+            caption: data.caption === "" ? null : data.caption,
+            cameraMake: data.cameraMake === "" ? null : data.cameraMake,
+            cameraModel: data.cameraModel === "" ? null : data.cameraModel,
+        };
+
+        const result = await ImageService.updateImage(userId, id, cleanData);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({ error: error.issues }, { status: 400 });
+        }
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        console.error(error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
+
 /**
  * @swagger
  * /api/images/{id}:
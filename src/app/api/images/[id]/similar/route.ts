@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { DuplicateService, parseSimilarityThreshold } from "@/lib/services/duplicate.service";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * @swagger
+ * /api/images/{id}/similar:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: Find similar photos
+ *     description: Photos in the same album that look like this one (bursts, re-saves, resized copies), compared by perceptual hash. Each result carries its Hamming distance (0-64 bits); closest first.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 20
+ *         description: Maximum Hamming distance
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Similar photos
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    const url = new URL(request.url);
+    const threshold = parseSimilarityThreshold(url.searchParams.get("threshold"));
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "20", 10) || 20, 1), 100);
+
+    try {
+        const similar = await DuplicateService.findSimilar(userId, id, { threshold, limit });
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ images: similar });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "";
+        if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+        if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        console.error("Similar photos error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { ImageService } from "@/lib/services/image.service";
+import { getS3ObjectRange } from "@/lib/s3";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Only single ranges are passed on; S3 rejects multipart ranges anyway
+const RANGE_PATTERN = /^bytes=(\d*)-(\d*)$/;
+
+/**
+ * @swagger
+ * /api/images/{id}/stream:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: Stream original
+ *     description: Streams the original file with HTTP range support, so video players can seek without downloading the whole clip. Send a single `Range` header (bytes=start-end) for partial content. Same access rules as GET /api/images/{id}.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Whole file
+ *       206:
+ *         description: Requested byte range
+ *       404:
+ *         description: Not found
+ *       416:
+ *         description: Range not satisfiable
+ */
+export async function GET(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    const range = request.headers.get("range") || undefined;
+    const match = range ? RANGE_PATTERN.exec(range) : null;
+    if (range && (!match || (!match[1] && !match[2]))) {
+        return NextResponse.json({ error: "Invalid range" }, { status: 416 });
+    }
+
+    try {
+        const source = await ImageService.getStreamSource(userId, id);
+        if (!source) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+        const object = await getS3ObjectRange(source.key, range);
+        if (!object.Body) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+        const headers = new Headers({
+            "Content-Type": object.ContentType || source.mimeType,
+            "Accept-Ranges": "bytes",
+            "Cache-Control": "private, max-age=3600",
+        });
+        if (object.ContentLength != null) headers.set("Content-Length", String(object.ContentLength));
+        if (object.ContentRange) headers.set("Content-Range", object.ContentRange);
+        if (object.ETag) headers.set("ETag", object.ETag);
+
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, object.ContentRange ? 206 : 200);
+
+        return new Response(object.Body.transformToWebStream(), {
+            status: object.ContentRange ? 206 : 200,
+            headers,
+        });
+    } catch (error) {
+        const err = error as { message?: string; name?: string; $metadata?: { httpStatusCode?: number } };
+        if (err.message === "Forbidden") {
+            if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+        if (err.name === "InvalidRange" || err.$metadata?.httpStatusCode === 416) {
+            return NextResponse.json({ error: "Range not satisfiable" }, { status: 416 });
+        }
+        if (err.name === "NoSuchKey") {
+            return NextResponse.json({ error: "Not found" }, { status: 404 });
+        }
+        console.error("Stream error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,237 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { TagService, tagListSchema, MAX_TAG_LENGTH, MAX_TAGS_PER_REQUEST } from "@/lib/services/tag.service";
+
+const tagsSchema = z.object({
+    tags: tagListSchema,
+});
+
+const replaceTagsSchema = z.object({
+    tags: z.array(z.string().trim().min(1).max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_REQUEST),
+});
+
+type Context = { params: Promise<{ id: string }> };
+
+function handleError(error: unknown) {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "";
+    if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    console.error("Image tags error:", error);
+    return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/tags:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: List image tags
+ *     description: Get the tags attached to an image.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tag names, sorted alphabetically
+ *       404:
+ *         description: Not found
+ */
+export async function GET(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const tags = await TagService.getImageTags(userId, id);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ tags });
+    } catch (error) {
+        if (error instanceof Error && error.message === "Forbidden" && !userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/tags:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Add tags
+ *     description: Attach one or more tags to an image. Tags are trimmed and lowercased; existing tags are ignored.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Updated tag list
+ */
+export async function POST(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json();
+        const { tags } = tagsSchema.parse(body);
+
+        const updated = await TagService.addTags(userId, id, tags);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ tags: updated });
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/tags:
+ *   put:
+ *     tags:
+ *       - Images
+ *     summary: Replace tags
+ *     description: Replace the full tag set of an image. An empty array clears all tags.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Updated tag list
+ */
+export async function PUT(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json();
+        const { tags } = replaceTagsSchema.parse(body);
+
+        const updated = await TagService.setTags(userId, id, tags);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ tags: updated });
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/{id}/tags:
+ *   delete:
+ *     tags:
+ *       - Images
+ *     summary: Remove tags
+ *     description: Detach one or more tags from an image.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Updated tag list
+ */
+export async function DELETE(request: Request, context: Context) {
+    const { id } = await context.params;
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { tags } = tagsSchema.parse(body);
+
+        const updated = await TagService.removeTags(userId, id, tags);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ tags: updated });
+    } catch (error) {
+        return handleError(error);
+    }
+}
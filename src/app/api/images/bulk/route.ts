@@ -3,14 +3,34 @@ import { z } from "zod";
 import archiver from "archiver";
 import { getAuthContext } from "@/lib/auth/session";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
-import { ImageService } from "@/lib/services/image.service";
+import { ImageService, MAX_SHIFT_SECONDS } from "@/lib/services/image.service";
+import { TagService, MAX_TAG_LENGTH, MAX_TAGS_PER_REQUEST } from "@/lib/services/tag.service";
+import { FolderService } from "@/lib/services/folder.service";
 import { getS3Object } from "@/lib/s3";
 
+const tagNamesSchema = z.array(z.string().trim().min(1).max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_REQUEST);
+
 const bulkSchema = z.object({
-    action: z.enum(["delete", "download", "move"]),
-    imageIds: z.array(z.string().uuid()).min(1).max(100),
+    action: z.enum(["delete", "download", "move", "tag", "shiftDate", "setLocation", "moveToAlbum", "copyToAlbum"]),
+    imageIds: z.array(z.string().uuid()).max(100).default([]),
+    folderIds: z.array(z.string().uuid()).max(100).default([]),
     albumId: z.string().uuid(),
     targetFolderId: z.string().uuid().nullable().optional(),
+    targetAlbumId: z.string().uuid().optional(),
+    addTags: tagNamesSchema.optional(),
+    removeTags: tagNamesSchema.optional(),
+    offsetSeconds: z.number().int().min(-MAX_SHIFT_SECONDS).max(MAX_SHIFT_SECONDS).optional(),
+    anchorImageId: z.string().uuid().optional(),
+    anchorDate: z.coerce.date().optional(),
+    dryRun: z.boolean().optional(),
+    location: z.object({
+        lat: z.number().min(-90).max(90),
+        lng: z.number().min(-180).max(180),
+    }).nullable().optional(),
+    sourceImageId: z.string().uuid().optional(),
+}).refine(data => data.imageIds.length > 0 || (data.folderIds.length > 0 && (data.action === "move" || data.action === "download")), {
+    message: "imageIds is required (folderIds are accepted for move and download)",
+    path: ["imageIds"],
 });
 
 /**
@@ -20,7 +40,7 @@ const bulkSchema = z.object({
  *     tags:
  *       - Images
  *     summary: Bulk operations
- *     description: Perform bulk delete, download, or move operations.
+ *     description: Perform bulk delete, download, move, tag, date shift or location operations, or move/copy photos into another album (editor rights on both albums required).
  *     requestBody:
  *       required: true
  *       content:
@@ -29,18 +49,64 @@ const bulkSchema = z.object({
  *             type: object
  *             required:
  *               - action
- *               - imageIds
  *               - albumId
  *             properties:
  *               action:
  *                 type: string
- *                 enum: [delete, download, move]
+ *                 enum: [delete, download, move, tag, shiftDate, setLocation, moveToAlbum, copyToAlbum]
  *               imageIds:
  *                 type: array
  *                 items:
  *                   type: string
+ *               folderIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Folders to move with their subtrees, or to include in the ZIP with their folder layout (actions "move" and "download")
  *               albumId:
  *                 type: string
+ *               targetFolderId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Destination folder (actions "move", "moveToAlbum" and "copyToAlbum"; in the target album for the latter two)
+ *               targetAlbumId:
+ *                 type: string
+ *                 description: Destination album (actions "moveToAlbum" and "copyToAlbum")
+ *               addTags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Tags to attach (action "tag")
+ *               removeTags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Tags to detach (action "tag")
+ *               offsetSeconds:
+ *                 type: integer
+ *                 description: Signed number of seconds to add to dateTaken (action "shiftDate")
+ *               anchorImageId:
+ *                 type: string
+ *                 description: Reference photo in the selection whose correct time is known (action "shiftDate", with anchorDate)
+ *               anchorDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Correct capture time of the anchor photo (action "shiftDate")
+ *               dryRun:
+ *                 type: boolean
+ *                 description: Preview the shifted dates without saving (action "shiftDate")
+ *               location:
+ *                 type: object
+ *                 nullable: true
+ *                 properties:
+ *                   lat:
+ *                     type: number
+ *                   lng:
+ *                     type: number
+ *                 description: Position to set, or null to remove the location (action "setLocation")
+ *               sourceImageId:
+ *                 type: string
+ *                 description: Photo in the album whose position is copied (action "setLocation", instead of location)
  *     responses:
  *       200:
  *         description: Operation successful
@@ -60,7 +126,10 @@ export async function POST(request: Request) {
 
     try {
         const body = await request.json();
-        const { action, imageIds, albumId, targetFolderId } = bulkSchema.parse(body);
+        const {
+            action, imageIds, folderIds, albumId, targetFolderId, targetAlbumId, addTags, removeTags,
+            offsetSeconds, anchorImageId, anchorDate, dryRun, location, sourceImageId,
+        } = bulkSchema.parse(body);
 
         if (action === "delete") {
             const count = await ImageService.bulkDelete(userId, albumId, imageIds);
@@ -68,12 +137,62 @@ export async function POST(request: Request) {
             return NextResponse.json({ success: true, deletedCount: count });
 
         } else if (action === "move") {
-            const count = await ImageService.bulkMove(userId, albumId, imageIds, targetFolderId || null);
+            const folderCount = folderIds.length > 0
+                ? await FolderService.moveFolders(userId, albumId, folderIds, targetFolderId || null)
+                : 0;
+            const count = imageIds.length > 0
+                ? await ImageService.bulkMove(userId, albumId, imageIds, targetFolderId || null)
+                : 0;
             if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
-            return NextResponse.json({ success: true, movedCount: count });
+            return NextResponse.json({ success: true, movedCount: count, movedFolderCount: folderCount });
+
+        } else if (action === "moveToAlbum" || action === "copyToAlbum") {
+            if (!targetAlbumId) {
+                return NextResponse.json({ error: "targetAlbumId is required" }, { status: 400 });
+            }
+            const mode = action === "moveToAlbum" ? "move" : "copy";
+            const result = await ImageService.transferToAlbum(userId, albumId, imageIds, targetAlbumId, targetFolderId || null, mode);
+            if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+            return NextResponse.json({
+                success: true,
+                [mode === "move" ? "movedCount" : "copiedCount"]: result.count,
+                imageIds: result.imageIds,
+            });
+
+        } else if (action === "tag") {
+            if (!addTags?.length && !removeTags?.length) {
+                return NextResponse.json({ error: "addTags or removeTags is required" }, { status: 400 });
+            }
+            const count = await TagService.bulkTag(userId, albumId, imageIds, addTags || [], removeTags || []);
+            if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+            return NextResponse.json({ success: true, updatedCount: count });
+
+        } else if (action === "shiftDate") {
+            const hasOffset = offsetSeconds !== undefined;
+            const hasAnchor = !!anchorImageId && !!anchorDate;
+            if (hasOffset === hasAnchor) {
+                return NextResponse.json({ error: "Provide either offsetSeconds or anchorImageId with anchorDate" }, { status: 400 });
+            }
+            const shift = hasOffset
+                ? { offsetSeconds: offsetSeconds! }
+                : { anchorImageId: anchorImageId!, anchorDate: anchorDate! };
+            const result = await ImageService.bulkShiftDate(userId, albumId, imageIds, shift, !!dryRun);
+            if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+            return NextResponse.json({ success: true, ...result });
+
+        } else if (action === "setLocation") {
+            if ((location !== undefined) === !!sourceImageId) {
+                return NextResponse.json({ error: "Provide either location (null to clear) or sourceImageId" }, { status: 400 });
+            }
+            const change = sourceImageId
+                ? { sourceImageId }
+                : location ? location : { clear: true as const };
+            const result = await ImageService.bulkSetLocation(userId, albumId, imageIds, change);
+            if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+            return NextResponse.json({ success: true, ...result });
 
         } else if (action === "download") {
-            const imagesToDownload = await ImageService.getImagesForDownload(userId, albumId, imageIds);
+            const imagesToDownload = await ImageService.getImagesForDownload(userId, albumId, imageIds, folderIds);
 
             if (imagesToDownload.length === 0) {
                 return NextResponse.json({ error: "No valid images to download" }, { status: 400 });
@@ -95,8 +214,9 @@ export async function POST(request: Request) {
                         const s3Response = await getS3Object(key);
                         if (s3Response.Body) {
                             const filename = img.originalFilename || `${img.id}.webp`;
+                            const name = img.folderPath ? `${img.folderPath}/${filename}` : filename;
                             // @ts-ignore
-                            archive.append(s3Response.Body, { name: filename });
+                            archive.append(s3Response.Body, { name });
                         }
                     } catch (err) {
                         console.error(`Failed to add image ${img.id}`, err);
@@ -127,6 +247,25 @@ export async function POST(request: Request) {
         if (error instanceof Error && error.message === "Forbidden") {
             return NextResponse.json({ error: "Forbidden" }, { status: 403 });
         }
+        if (error instanceof Error && error.message === "Source photo not found") {
+            return NextResponse.json({ error: error.message }, { status: 404 });
+        }
+        if (error instanceof Error && error.message === "Storage quota exceeded") {
+            return NextResponse.json({ error: error.message }, { status: 413 });
+        }
+        if (error instanceof Error && (
+            error.message === "Anchor photo must be part of the selection" ||
+            error.message === "Anchor photo has no date taken" ||
+            error.message === "Date shift is too large" ||
+            error.message === "Source photo has no location" ||
+            error.message === "Folder not found" ||
+            error.message === "Target album must be different" ||
+            error.message === "Parent folder not found" ||
+            error.message === "Cannot move a folder into itself or its subfolders" ||
+            error.message === "Folder nesting is too deep"
+        )) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
         console.error("Bulk error:", error);
         return NextResponse.json({ error: "Internal Error" }, { status: 500 });
     }
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { DuplicateService } from "@/lib/services/duplicate.service";
+
+/**
+ * @swagger
+ * /api/images/duplicates:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: List duplicate photos
+ *     description: Groups of byte-identical photos (same SHA-256) across every album the caller belongs to, largest groups first. Images in a group are ordered oldest first. Use the bulk delete action to clean them up.
+ *     parameters:
+ *       - in: query
+ *         name: albumId
+ *         schema:
+ *           type: string
+ *         description: Only look inside this album
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *         description: Maximum number of groups
+ *     responses:
+ *       200:
+ *         description: Duplicate groups
+ */
+export async function GET(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    const url = new URL(request.url);
+    const albumId = url.searchParams.get("albumId") || undefined;
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 1), 100);
+
+    try {
+        const groups = await DuplicateService.listDuplicateGroups(userId, { limit, albumId });
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ groups });
+    } catch (error) {
+        console.error("Duplicate listing error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
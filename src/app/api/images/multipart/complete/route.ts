@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { MultipartUploadService, MAX_MULTIPART_PARTS } from "@/lib/services/multipart.service";
+
+const completeSchema = z.object({
+    ticket: z.string().min(1),
+    uploadId: z.string().min(1),
+    parts: z.array(z.object({
+        partNumber: z.number().int().min(1).max(MAX_MULTIPART_PARTS),
+        etag: z.string().min(1),
+    })).min(1).max(MAX_MULTIPART_PARTS),
+});
+
+/**
+ * @swagger
+ * /api/images/multipart/complete:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Complete multipart upload
+ *     description: Assemble the uploaded parts into the original. Afterwards register the image with /api/images/register using the same ticket.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ticket
+ *               - uploadId
+ *               - parts
+ *             properties:
+ *               ticket:
+ *                 type: string
+ *               uploadId:
+ *                 type: string
+ *               parts:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     partNumber:
+ *                       type: integer
+ *                     etag:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Original assembled
+ *       400:
+ *         description: Parts missing, too small or with the wrong ETag
+ *       404:
+ *         description: Upload not found
+ */
+export async function POST(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const { ticket, uploadId, parts } = completeSchema.parse(await request.json());
+        const result = await MultipartUploadService.complete(userId, ticket, uploadId, parts);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ success: true, key: result.key });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({ error: error.issues }, { status: 400 });
+        }
+        const err = error as { message?: string; name?: string };
+        if (err.message === "Invalid or expired upload ticket") {
+            return NextResponse.json({ error: err.message }, { status: 403 });
+        }
+        if (err.name === "NoSuchUpload") {
+            return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+        }
+        if (err.name === "InvalidPart" || err.name === "InvalidPartOrder" || err.name === "EntityTooSmall") {
+            return NextResponse.json({ error: "Invalid parts" }, { status: 400 });
+        }
+        console.error("Multipart complete error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { MultipartUploadService, MAX_MULTIPART_PARTS, MAX_PART_URLS_PER_REQUEST } from "@/lib/services/multipart.service";
+
+const presignSchema = z.object({
+    ticket: z.string().min(1),
+    uploadId: z.string().min(1),
+    partNumbers: z.array(z.number().int().min(1).max(MAX_MULTIPART_PARTS)).max(MAX_PART_URLS_PER_REQUEST).default([]),
+});
+
+/**
+ * @swagger
+ * /api/images/multipart/parts:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Presign upload parts
+ *     description: Presigned PUT URLs (valid 1 hour) for up to 100 parts of a multipart upload, along with the parts S3 already holds. A resumed upload only needs to send the parts missing from uploadedParts. Each PUT returns the part's ETag header, which /api/images/multipart/complete needs.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ticket
+ *               - uploadId
+ *             properties:
+ *               ticket:
+ *                 type: string
+ *               uploadId:
+ *                 type: string
+ *               partNumbers:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: 1-based part numbers to presign; empty to only list uploaded parts
+ *     responses:
+ *       200:
+ *         description: Part URLs keyed by part number, and uploadedParts
+ *       404:
+ *         description: Upload not found
+ */
+export async function POST(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const { ticket, uploadId, partNumbers } = presignSchema.parse(await request.json());
+        const result = await MultipartUploadService.presignParts(userId, ticket, uploadId, partNumbers);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json({ error: error.issues }, { status: 400 });
+        }
+        const err = error as { message?: string; name?: string };
+        if (err.message === "Invalid or expired upload ticket") {
+            return NextResponse.json({ error: err.message }, { status: 403 });
+        }
+        if (err.name === "NoSuchUpload") {
+            return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+        }
+        console.error("Multipart presign error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { MultipartUploadService } from "@/lib/services/multipart.service";
+
+const initiateSchema = z.object({
+    ticket: z.string().min(1),
+});
+
+const abortSchema = z.object({
+    ticket: z.string().min(1),
+    uploadId: z.string().min(1),
+});
+
+function handleError(error: unknown) {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    const err = error as { message?: string; name?: string };
+    if (err.message === "Invalid or expired upload ticket") {
+        return NextResponse.json({ error: err.message }, { status: 403 });
+    }
+    if (err.name === "NoSuchUpload") {
+        return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+    console.error("Multipart upload error:", error);
+    return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/images/multipart:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Start multipart upload
+ *     description: Start a resumable multipart upload of the original, for a ticket issued by /api/images/upload-url with multipart set. Upload parts of partSize bytes (the last may be smaller) through /api/images/multipart/parts, then call /api/images/multipart/complete and register as usual.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ticket
+ *             properties:
+ *               ticket:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Upload id, key and part size
+ *       403:
+ *         description: Invalid or expired upload ticket
+ */
+export async function POST(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const { ticket } = initiateSchema.parse(await request.json());
+        const upload = await MultipartUploadService.initiate(userId, ticket);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(upload);
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/multipart:
+ *   delete:
+ *     tags:
+ *       - Images
+ *     summary: Abort multipart upload
+ *     description: Abandon a multipart upload and discard its uploaded parts.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ticket
+ *               - uploadId
+ *             properties:
+ *               ticket:
+ *                 type: string
+ *               uploadId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Upload aborted
+ *       404:
+ *         description: Upload not found
+ */
+export async function DELETE(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const { ticket, uploadId } = abortSchema.parse(await request.json());
+        await MultipartUploadService.abort(userId, ticket, uploadId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return handleError(error);
+    }
+}
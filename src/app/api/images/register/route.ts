@@ -1,11 +1,21 @@
 
-import { NextResponse } from "next/server";
+import { NextResponse, after } from "next/server";
 import { checkAlbumPermission } from "@/lib/auth/rbac";
 import { logActivity } from "@/lib/activity";
 import { db } from "@/db";
 import { images } from "@/db/schema";
 import { getAuthContext } from "@/lib/auth/session";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { ImageService } from "@/lib/services/image.service";
+import { FolderService } from "@/lib/services/folder.service";
+import { DuplicateService, CONTENT_HASH_PATTERN, INLINE_HASH_MAX_BYTES } from "@/lib/services/duplicate.service";
+import { QuotaService } from "@/lib/services/quota.service";
+import { deleteS3Objects } from "@/lib/s3";
+import { isVideoMimeType } from "@/lib/media";
+import { sanitizePhotoMetadata } from "@/lib/exif";
+import { exifLocalDateTime, parseUtcOffset } from "@/lib/capture-time";
+import { resolveCaptureTime } from "@/lib/services/capture-time.service";
+import { placeColumns } from "@/lib/services/place.service";
 
 /**
  * @swagger
@@ -14,7 +24,7 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *     tags:
  *       - Images
  *     summary: Register uploaded image
- *     description: Register an image after successful client-side upload.
+ *     description: Register an image after successful client-side upload. The ticket returned by /api/images/upload-url is required; the keys must be the ones it was issued for and the original must exist in S3 with the given size and content type. If display/thumb variants are missing or were not uploaded, the server generates them from the original and fills in any EXIF fields the client left out; this is how HEIC/HEIF and camera RAW (CR2, NEF, ARW, DNG) uploads get their previews, rendered from the embedded JPEG preview when the format cannot be decoded directly. The original is always kept byte-for-byte. The server hashes the original (SHA-256; originals over 32 MB are matched by the client's contentHash and hashed after the response); if the album already holds an identical live photo the upload is rejected with 409 and the existing image id, unless onDuplicate is "allow", in which case it is registered and flagged with duplicateOf. Videos (video/mp4, video/quicktime, video/webm) are registered the same way: display/thumb carry a WebP poster frame and durationMs the clip length; the server cannot extract a poster, so a video without one falls back to the original.
  *     requestBody:
  *       required: true
  *       content:
@@ -23,11 +33,24 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *             type: object
  *             required:
  *               - albumId
- *               - s3KeyOriginal
+ *               - ticket
  *             properties:
  *               albumId:
  *                 type: string
- *               s3KeyOriginal:
+ *               ticket:
+ *                 type: string
+ *                 description: Upload ticket from /api/images/upload-url (valid 15 minutes)
+ *               keys:
+ *                 type: object
+ *                 description: Keys from /api/images/upload-url. Defaults to the ticket's original key.
+ *                 properties:
+ *                   original:
+ *                     type: string
+ *                   display:
+ *                     type: string
+ *                   thumb:
+ *                     type: string
+ *               mimeType:
  *                 type: string
  *               filename:
  *                 type: string
@@ -39,12 +62,30 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *                 type: integer
  *               folderId:
  *                 type: string
+ *               durationMs:
+ *                 type: integer
+ *                 description: Clip length in milliseconds (videos only)
+ *               contentHash:
+ *                 type: string
+ *                 description: SHA-256 (hex) computed by the client; checked against the server's hash of the original
+ *               onDuplicate:
+ *                 type: string
+ *                 enum: [reject, allow]
+ *                 default: reject
  *               exif:
  *                 type: object
  *                 properties:
  *                   dateTaken:
  *                     type: string
  *                     format: date-time
+ *                     description: Capture instant; used as-is only when the wall clock's zone can't be worked out
+ *                   dateTakenLocal:
+ *                     type: string
+ *                     example: "2024-05-01T10:20:30"
+ *                     description: Wall-clock capture time from EXIF DateTimeOriginal, without a zone
+ *                   dateTakenOffset:
+ *                     type: integer
+ *                     description: UTC offset in minutes from EXIF OffsetTimeOriginal; without it the zone is inferred from GPS
  *                   cameraMake:
  *                     type: string
  *                   cameraModel:
@@ -55,9 +96,45 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *                   gpsLongitude:
  *                     type: number
  *                     description: Decimal longitude (-180 to 180)
+ *                   metadata:
+ *                     type: object
+ *                     description: Extended EXIF; malformed fields are dropped
+ *                     properties:
+ *                       lensMake:
+ *                         type: string
+ *                       lensModel:
+ *                         type: string
+ *                       focalLength:
+ *                         type: number
+ *                         description: Millimetres
+ *                       focalLength35mm:
+ *                         type: number
+ *                       aperture:
+ *                         type: number
+ *                         description: f-number
+ *                       exposureTime:
+ *                         type: number
+ *                         description: Seconds
+ *                       iso:
+ *                         type: number
+ *                       flash:
+ *                         type: boolean
+ *                         description: Whether the flash fired
+ *                       altitude:
+ *                         type: number
+ *                         description: Metres above sea level (negative below)
+ *                       orientation:
+ *                         type: integer
+ *                         description: EXIF orientation (1-8)
  *     responses:
- *       200:
+ *       201:
  *         description: Image registered
+ *       409:
+ *         description: Duplicate of an existing photo in the album (existingImageId); the uploaded objects are removed
+ *       413:
+ *         description: The original would exceed the uploader's storage quota (usedBytes, quotaBytes); the uploaded objects are removed
+ *       400:
+ *         description: Missing fields, or the upload failed verification
  */
 export async function POST(request: Request) {
     const { userId, apiKey } = await getAuthContext();
@@ -83,15 +160,14 @@ export async function POST(request: Request) {
             height,
             filename,
             folderId,
-            exif
+            exif,
+            ticket,
+            durationMs,
+            contentHash: claimedHash,
+            onDuplicate
         } = body;
 
-        // Backward compatibility or fallback if keys object missing
-        const s3KeyOriginal = keys?.original || body.s3KeyOriginal || body.s3Key; // Fallback
-        const s3KeyDisplay = keys?.display || body.s3KeyDisplay || s3KeyOriginal;
-        const s3KeyThumb = keys?.thumb || body.s3KeyThumb || s3KeyOriginal;
-
-        if (!albumId || !s3KeyOriginal) {
+        if (!albumId) {
             return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
         }
 
@@ -100,10 +176,120 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: "Forbidden" }, { status: 403 });
         }
 
-        // Since we uploaded directly to S3 (no sharp processing on server),
-        // we assume the 's3Key' provided is the 'original'.
-        // For display/thumb, we'll currently reuse the original or client needs to upload valid thumbnails.
-        // STRATEGY: For now, point everything to the original. Next.js <Image> will optimize it on the fly.
+        // Only keys issued by upload-url for this user and album are accepted,
+        // and the original must really be in S3 as described.
+        // Backward compatibility: flat s3KeyOriginal/s3KeyDisplay/s3KeyThumb fields
+        const verification = await ImageService.verifyUpload(userId, albumId, ticket, {
+            keys: {
+                original: keys?.original || body.s3KeyOriginal || body.s3Key || undefined,
+                display: keys?.display || body.s3KeyDisplay || undefined,
+                thumb: keys?.thumb || body.s3KeyThumb || undefined,
+            },
+            size: typeof size === "number" ? size : undefined,
+            mimeType: mimeType || undefined,
+        });
+        if (!verification.ok) {
+            return NextResponse.json({ error: verification.error }, { status: 400 });
+        }
+
+        if (folderId && !(await FolderService.isLiveFolder(albumId, folderId))) {
+            return NextResponse.json({ error: "Folder not found" }, { status: 400 });
+        }
+
+        const s3KeyOriginal = verification.keys.original;
+        let s3KeyDisplay = verification.keys.display || s3KeyOriginal;
+        let s3KeyThumb = verification.keys.thumb || s3KeyOriginal;
+
+        // Hashing a multi-GB multipart original would time the request out:
+        // those go by the client's hash for now and are hashed after the response
+        const hashLater = verification.size > INLINE_HASH_MAX_BYTES;
+        let contentHash: string | null;
+        if (hashLater) {
+            contentHash = typeof claimedHash === "string" && CONTENT_HASH_PATTERN.test(claimedHash) ? claimedHash : null;
+        } else {
+            contentHash = await DuplicateService.computeContentHash(s3KeyOriginal);
+            if (claimedHash && claimedHash !== contentHash) {
+                return NextResponse.json({ error: "Content hash does not match" }, { status: 400 });
+            }
+        }
+
+        const duplicateOf = contentHash ? await DuplicateService.findDuplicate(albumId, contentHash) : null;
+        if (duplicateOf && onDuplicate !== "allow") {
+            // Nothing references the uploaded objects, so drop them right away
+            await deleteS3Objects(Array.from(new Set([s3KeyOriginal, s3KeyDisplay, s3KeyThumb])));
+            return NextResponse.json({ error: "Duplicate image", existingImageId: duplicateOf }, { status: 409 });
+        }
+
+        // Checked against the original; previews generated below still count once stored
+        const quota = await QuotaService.checkQuota(userId, verification.size);
+        if (!quota.ok) {
+            await deleteS3Objects(Array.from(new Set([s3KeyOriginal, s3KeyDisplay, s3KeyThumb])));
+            return NextResponse.json({
+                error: "Storage quota exceeded",
+                usedBytes: quota.usedBytes,
+                quotaBytes: quota.quotaBytes,
+            }, { status: 413 });
+        }
+
+        // Normally the browser uploads its own WebP display/thumb variants.
+        // When they are missing (API scripts, old browsers, HEIC, RAW), generate them
+        // on the server from the original and fill in EXIF the client left out.
+        // If that fails too, point everything at the original as before.
+        let serverProcessed = false;
+        let finalWidth = width;
+        let finalHeight = height;
+        let exifData = exif || {};
+        let metadata = sanitizePhotoMetadata(exifData.metadata);
+        const isVideo = isVideoMimeType(verification.mimeType);
+
+        const hasVariants = await ImageService.hasValidVariants(s3KeyOriginal, s3KeyDisplay, s3KeyThumb);
+        if (!hasVariants && isVideo) {
+            // sharp cannot decode video frames; keep the clip as its own preview
+            s3KeyDisplay = s3KeyOriginal;
+            s3KeyThumb = s3KeyOriginal;
+        } else if (!hasVariants) {
+            try {
+                const variants = await ImageService.generateVariants(s3KeyOriginal);
+                s3KeyDisplay = variants.s3KeyDisplay;
+                s3KeyThumb = variants.s3KeyThumb;
+                finalWidth = width || variants.width;
+                finalHeight = height || variants.height;
+                const clientDated = exifData.dateTaken != null || exifData.dateTakenLocal != null;
+                exifData = {
+                    dateTaken: clientDated ? exifData.dateTaken : variants.exif?.dateTaken,
+                    dateTakenLocal: clientDated ? exifData.dateTakenLocal : variants.exif?.dateTakenLocal,
+                    dateTakenOffset: clientDated ? exifData.dateTakenOffset : variants.exif?.dateTakenOffset,
+                    cameraMake: exifData.cameraMake ?? variants.exif?.cameraMake,
+                    cameraModel: exifData.cameraModel ?? variants.exif?.cameraModel,
+                    gpsLatitude: exifData.gpsLatitude ?? variants.exif?.gpsLatitude,
+                    gpsLongitude: exifData.gpsLongitude ?? variants.exif?.gpsLongitude,
+                };
+                metadata = { ...variants.exif?.metadata, ...metadata };
+                serverProcessed = true;
+            } catch (err) {
+                console.error("Server-side variant generation failed, using original:", err);
+                s3KeyDisplay = s3KeyOriginal;
+                s3KeyThumb = s3KeyOriginal;
+            }
+        }
+
+        // Variants count towards the uploader's storage; measuring is best-effort
+        let variantsSize: number | null = null;
+        try {
+            variantsSize = await QuotaService.measureVariants(s3KeyOriginal, s3KeyDisplay, s3KeyThumb);
+        } catch (err) {
+            console.error("Measuring variants failed:", err);
+        }
+
+        // Fingerprint for near-duplicate review; an upload never fails over it
+        let perceptualHash: string | null = null;
+        if (s3KeyThumb !== s3KeyOriginal || !isVideo) {
+            try {
+                perceptualHash = await DuplicateService.computePerceptualHash(s3KeyThumb);
+            } catch (err) {
+                console.error("Perceptual hash failed:", err);
+            }
+        }
 
         // Parse and validate GPS coordinates for map feature
         // Handles both decimal numbers and DMS comma-separated strings ("40,27,28.97")
@@ -121,11 +307,21 @@ export async function POST(request: Request) {
             return null;
         }
 
-        const rawLat = parseGpsValue(exif?.gpsLatitude);
-        const rawLng = parseGpsValue(exif?.gpsLongitude);
+        const rawLat = parseGpsValue(exifData.gpsLatitude);
+        const rawLng = parseGpsValue(exifData.gpsLongitude);
         const gpsLat = rawLat != null && rawLat >= -90 && rawLat <= 90 ? rawLat : null;
         const gpsLng = rawLng != null && rawLng >= -180 && rawLng <= 180 ? rawLng : null;
 
+        // Place the wall-clock time in its zone: recorded offset, else GPS
+        const captureTime = resolveCaptureTime({
+            localDateTime: exifLocalDateTime(exifData.dateTakenLocal),
+            offset: parseUtcOffset(exifData.dateTakenOffset),
+            dateTaken: exifData.dateTaken,
+            gpsLat,
+            gpsLng,
+        });
+        const place = await placeColumns(gpsLat, gpsLng);
+
         const [image] = await db.insert(images).values({
             albumId,
             folderId: folderId || null,
@@ -134,18 +330,29 @@ export async function POST(request: Request) {
             s3KeyDisplay,
             s3KeyThumb,
             s3Key: s3KeyOriginal,        // Backward compatibility
-            mimeType: mimeType || "application/octet-stream",
+            mimeType: verification.mimeType || "application/octet-stream",
+            contentHash,
+            perceptualHash,
             originalFilename: filename || "unknown",
-            size: size || 0,
-            width: width || 0,
-            height: height || 0,
-            dateTaken: exif?.dateTaken ? new Date(exif.dateTaken) : null,
-            cameraMake: exif?.cameraMake || null,
-            cameraModel: exif?.cameraModel || null,
+            size: verification.size,
+            variantsSize,
+            width: finalWidth || 0,
+            height: finalHeight || 0,
+            durationMs: isVideo && Number.isFinite(durationMs) && durationMs >= 0 ? Math.round(durationMs) : null,
+            dateTaken: captureTime.dateTaken,
+            dateTakenOffset: captureTime.dateTakenOffset,
+            cameraMake: exifData.cameraMake || null,
+            cameraModel: exifData.cameraModel || null,
+            metadata: Object.keys(metadata).length > 0 ? metadata : null,
             gpsLat,
             gpsLng,
+            ...place,
         }).returning();
 
+        if (hashLater) {
+            after(() => DuplicateService.refreshContentHash(image.id, s3KeyOriginal));
+        }
+
         await logActivity({
             userId,
             albumId,
@@ -154,9 +361,12 @@ export async function POST(request: Request) {
             action: "image_upload",
             metadata: {
                 filename: filename,
-                size: size,
-                width: width,
-                height: height,
+                size: verification.size,
+                width: image.width,
+                height: image.height,
+                ...(isVideo ? { mimeType: image.mimeType, durationMs: image.durationMs } : {}),
+                ...(serverProcessed ? { serverProcessed: true } : {}),
+                ...(duplicateOf ? { duplicateOf } : {}),
             },
         });
 
@@ -170,8 +380,10 @@ export async function POST(request: Request) {
                 id: image.id,
                 width: image.width,
                 height: image.height,
+                durationMs: image.durationMs,
                 dateTaken: image.dateTaken,
-            }
+            },
+            ...(duplicateOf ? { duplicateOf } : {}),
         }, { status: 201 });
 
     } catch (error) {
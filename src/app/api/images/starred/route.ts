@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { ReactionService } from "@/lib/services/reaction.service";
+
+const starSchema = z.object({
+    imageId: z.string().uuid(),
+});
+
+function handleError(error: unknown) {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    const message = error instanceof Error ? error.message : "";
+    if (message === "Not found") return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (message === "Forbidden") return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    console.error("Starred images error:", error);
+    return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+}
+
+/**
+ * @swagger
+ * /api/images/starred:
+ *   get:
+ *     tags:
+ *       - Images
+ *     summary: List starred photos
+ *     description: The caller's private starred photos across all accessible albums, most recently starred first.
+ *     parameters:
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Cursor for pagination (format timestamp_imageId)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: A page of starred photos
+ */
+export async function GET(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    const url = new URL(request.url);
+    const cursor = url.searchParams.get("cursor") || undefined;
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 1), 100);
+
+    try {
+        const result = await ReactionService.listStarred(userId, { cursor, limit });
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json(result);
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/starred:
+ *   post:
+ *     tags:
+ *       - Images
+ *     summary: Star a photo
+ *     description: Add a photo to the caller's private starred set.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - imageId
+ *             properties:
+ *               imageId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Photo starred
+ */
+export async function POST(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json();
+        const { imageId } = starSchema.parse(body);
+
+        await ReactionService.starImage(userId, imageId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ starred: true });
+    } catch (error) {
+        return handleError(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/images/starred:
+ *   delete:
+ *     tags:
+ *       - Images
+ *     summary: Unstar a photo
+ *     description: Remove a photo from the caller's starred set.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - imageId
+ *             properties:
+ *               imageId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Photo unstarred
+ */
+export async function DELETE(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const body = await request.json().catch(() => ({}));
+        const { imageId } = starSchema.parse(body);
+
+        await ReactionService.unstarImage(userId, imageId);
+        if (apiKey) await logApiKeyUsage(apiKey.id, request, 200);
+        return NextResponse.json({ starred: false });
+    } catch (error) {
+        return handleError(error);
+    }
+}
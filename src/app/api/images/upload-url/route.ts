@@ -5,7 +5,11 @@ import { generateUploadUrl } from "@/lib/s3";
 import { nanoid } from "nanoid";
 import { getExtensionFromMime } from "@/lib/image-processing";
 import { getAuthContext } from "@/lib/auth/session";
+import { createUploadTicket } from "@/lib/auth/tokens";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { DuplicateService, CONTENT_HASH_PATTERN } from "@/lib/services/duplicate.service";
+import { MULTIPART_TICKET_TTL } from "@/lib/services/multipart.service";
+import { QuotaService } from "@/lib/services/quota.service";
 
 /**
  * @swagger
@@ -14,7 +18,7 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *     tags:
  *       - Images
  *     summary: Get upload URL
- *     description: Generate presigned S3 URLs for client-side upload.
+ *     description: Generate presigned S3 URLs for client-side upload. The returned ticket (valid 15 minutes) must be passed to /api/images/register. For videos, original receives the clip and display/thumb a WebP poster frame. Set multipart for large originals: the ticket then lasts 24 hours and the original is uploaded through /api/images/multipart instead of urls.original.
  *     requestBody:
  *       required: true
  *       content:
@@ -32,9 +36,26 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *                 type: string
  *               albumId:
  *                 type: string
+ *               contentHash:
+ *                 type: string
+ *                 description: SHA-256 (hex) of the file. When the album already has this photo the request is refused before anything is uploaded.
+ *               onDuplicate:
+ *                 type: string
+ *                 enum: [reject, allow]
+ *                 default: reject
+ *               multipart:
+ *                 type: boolean
+ *                 description: Upload the original in parts (resumable)
+ *               size:
+ *                 type: integer
+ *                 description: Size of the original in bytes, checked against the storage quota up front. Without it the request is only refused once the quota is used up; register checks the real size either way.
  *     responses:
  *       200:
- *         description: Presigned URLs generated
+ *         description: Presigned URLs, their keys, and an upload ticket binding the keys to this upload
+ *       409:
+ *         description: The album already contains this photo; the response carries existingImageId
+ *       413:
+ *         description: The file would exceed the storage quota (usedBytes, quotaBytes)
  */
 export async function POST(request: Request) {
     const { userId, apiKey } = await getAuthContext();
@@ -50,7 +71,7 @@ export async function POST(request: Request) {
     }
 
     try {
-        const { filename, contentType, albumId } = await request.json();
+        const { filename, contentType, albumId, contentHash, onDuplicate, multipart, size } = await request.json();
 
         if (!filename || !contentType || !albumId) {
             return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
@@ -62,6 +83,22 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: "Forbidden" }, { status: 403 });
         }
 
+        if (typeof contentHash === "string" && CONTENT_HASH_PATTERN.test(contentHash) && onDuplicate !== "allow") {
+            const existingImageId = await DuplicateService.findDuplicate(albumId, contentHash);
+            if (existingImageId) {
+                return NextResponse.json({ error: "Duplicate image", existingImageId }, { status: 409 });
+            }
+        }
+
+        const quota = await QuotaService.checkQuota(userId, Number.isFinite(size) && size > 0 ? size : 0);
+        if (!quota.ok) {
+            return NextResponse.json({
+                error: "Storage quota exceeded",
+                usedBytes: quota.usedBytes,
+                quotaBytes: quota.quotaBytes,
+            }, { status: 413 });
+        }
+
         const ext = getExtensionFromMime(contentType);
         const imageId = nanoid();
         const baseKey = `albums/${albumId}/${imageId}`;
@@ -81,6 +118,14 @@ export async function POST(request: Request) {
             generateUploadUrl(keyThumb, "image/webp"),
         ]);
 
+        const ticket = await createUploadTicket({
+            userId,
+            albumId,
+            imageId,
+            contentType,
+            keys: { original: keyOriginal, display: keyDisplay, thumb: keyThumb },
+        }, multipart === true ? MULTIPART_TICKET_TTL : undefined);
+
         if (apiKey) {
             await logApiKeyUsage(apiKey.id, request, 200);
         }
@@ -97,7 +142,9 @@ export async function POST(request: Request) {
                 thumb: keyThumb
             },
             imageId,
-            baseKey
+            baseKey,
+            ticket,
+            ...(multipart === true ? { multipart: true } : {}),
         });
 
     } catch (error) {
@@ -11,7 +11,7 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *     tags:
  *       - Map
  *     summary: Get photo map points
- *     description: Returns individual photos in the viewport for the sidebar panel. Each photo includes a display-quality signed URL and album deep-link info.
+ *     description: Returns individual photos in the viewport for the sidebar panel. Each photo includes a display-quality signed URL, album deep-link info and its place name (city, region, country).
  *     parameters:
  *       - in: query
  *         name: minLat
@@ -33,6 +33,11 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *         required: true
  *         schema:
  *           type: number
+ *       - in: query
+ *         name: place
+ *         schema:
+ *           type: string
+ *         description: Only photos whose city, region or country contains this text
  *     responses:
  *       200:
  *         description: Individual photos in the viewport
@@ -58,13 +63,14 @@ export async function GET(request: NextRequest) {
         const minLng = Number(searchParams.get("minLng"));
         const maxLng = Number(searchParams.get("maxLng"));
         const offset = Math.max(0, Number(searchParams.get("offset") || 0));
+        const place = searchParams.get("place") || undefined;
 
         if ([minLat, maxLat, minLng, maxLng].some(v => !isFinite(v))) {
             return NextResponse.json({ error: "Invalid bounds" }, { status: 400 });
         }
 
         const { photos, total } = await MapService.getPhotosInViewport({
-            userId, minLat, maxLat, minLng, maxLng, offset,
+            userId, minLat, maxLat, minLng, maxLng, offset, place,
         });
 
         // Generate signed URLs (deduplicated)
@@ -83,11 +89,15 @@ export async function GET(request: NextRequest) {
             thumbUrl: urlMap.get(p.thumbKey) || "",
             displayUrl: urlMap.get(p.displayKey) || "",
             dateTaken: p.dateTaken,
+            dateTakenOffset: p.dateTakenOffset,
             filename: p.filename,
             width: p.width,
             height: p.height,
             albumId: p.albumId,
             albumTitle: p.albumTitle,
+            placeCity: p.placeCity,
+            placeRegion: p.placeRegion,
+            placeCountry: p.placeCountry,
         }));
 
         if (apiKey) {
@@ -3,6 +3,8 @@ import { getAuthContext } from "@/lib/auth/session";
 import { MapService } from "@/lib/services/map.service";
 import { generateDownloadUrl } from "@/lib/s3";
 import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { parseTagsParam } from "@/lib/services/tag.service";
+import { isValidTimeZone, parseCaptureDateMode } from "@/lib/capture-time";
 
 /**
  * @swagger
@@ -42,12 +44,35 @@ import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
  *         name: since
  *         schema:
  *           type: string
- *           format: date-time
+ *         description: An instant (date-time), or a calendar date (YYYY-MM-DD) matched against local capture dates
  *       - in: query
  *         name: until
  *         schema:
  *           type: string
- *           format: date-time
+ *         description: An instant (date-time), or a calendar date (YYYY-MM-DD, inclusive) matched against local capture dates
+ *       - in: query
+ *         name: tz
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *         description: Viewer's IANA time zone, for calendar-date filters on photos whose capture offset is unknown (and on all photos with dates=viewer)
+ *       - in: query
+ *         name: dates
+ *         schema:
+ *           type: string
+ *           enum: [local, viewer]
+ *           default: local
+ *         description: Match calendar dates by the clock where each photo was taken, or by the viewer's time zone
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tag names; only photos carrying all of them are included
+ *       - in: query
+ *         name: place
+ *         schema:
+ *           type: string
+ *         description: Only photos whose city, region or country contains this text
  *     responses:
  *       200:
  *         description: Grouped photo points for the viewport
@@ -83,6 +108,8 @@ export async function GET(request: NextRequest) {
 
         const since = searchParams.get("since") || undefined;
         const until = searchParams.get("until") || undefined;
+        const tags = parseTagsParam(searchParams.get("tags"));
+        const tz = searchParams.get("tz");
 
         const dbStart = performance.now();
 
@@ -95,6 +122,10 @@ export async function GET(request: NextRequest) {
             zoom,
             startDate: since,
             endDate: until,
+            timeZone: tz && isValidTimeZone(tz) ? tz : "UTC",
+            dateMode: parseCaptureDateMode(searchParams.get("dates")),
+            tags,
+            place: searchParams.get("place") || undefined,
         });
 
         const dbDur = Math.round(performance.now() - dbStart);
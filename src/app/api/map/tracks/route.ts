@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { MapService } from "@/lib/services/map.service";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+
+/**
+ * @swagger
+ * /api/map/tracks:
+ *   get:
+ *     tags:
+ *       - Map
+ *     summary: Get GPX tracks
+ *     description: Returns the GPX tracks imported into albums the user has access to, as [lng, lat] lines for drawing on the map.
+ *     responses:
+ *       200:
+ *         description: Tracks with their album, name, time span and points
+ */
+export async function GET(request: NextRequest) {
+    const { userId, apiKey } = await getAuthContext();
+    if (!userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const tracks = await MapService.getTracks(userId);
+
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+
+        return NextResponse.json({ tracks });
+    } catch (error) {
+        console.error("Map tracks error:", error);
+        return NextResponse.json({ error: "Failed to load tracks" }, { status: 500 });
+    }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { MetadataService } from "@/lib/services/metadata.service";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+
+/**
+ * @swagger
+ * /api/timeline/facets:
+ *   get:
+ *     tags:
+ *       - Timeline
+ *     summary: Get camera, lens and focal-length choices
+ *     description: Cameras and lenses used across the user's albums (most used first) and the range of recorded focal lengths, for the timeline filters.
+ *     responses:
+ *       200:
+ *         description: Filter facets
+ */
+export async function GET(request: NextRequest) {
+    const { userId, apiKey } = await getAuthContext();
+    if (!userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const facets = await MetadataService.getTimelineFacets(userId);
+
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+
+        return NextResponse.json(facets);
+    } catch (error) {
+        console.error("[TIMELINE_FACETS_GET]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -4,6 +4,13 @@ import { db } from "@/db";
 import { images, albumMembers, albums } from "@/db/schema";
 import { eq, desc, and, isNull, inArray, lt, or, sql } from "drizzle-orm";
 import { generateDownloadUrl } from "@/lib/s3";
+import { imagesWithAllTags, parseTagsParam } from "@/lib/services/tag.service";
+import { starredImageIds } from "@/lib/services/reaction.service";
+import { metadataFilterConditions } from "@/lib/services/metadata.service";
+import { parseMetadataFilter } from "@/lib/exif";
+import { isValidTimeZone, parseCaptureDateMode } from "@/lib/capture-time";
+import { localCaptureTime } from "@/lib/services/capture-time.service";
+import { placeSearchCondition } from "@/lib/services/place.service";
 
 /**
  * @swagger
@@ -25,6 +32,54 @@ import { generateDownloadUrl } from "@/lib/s3";
  *           type: integer
  *           default: 50
  *         description: Number of photos to return per page
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tag names; only photos carrying all of them are returned
+ *       - in: query
+ *         name: starred
+ *         schema:
+ *           type: boolean
+ *         description: Only return photos the user has starred
+ *       - in: query
+ *         name: camera
+ *         schema:
+ *           type: string
+ *         description: Only photos taken with this camera model
+ *       - in: query
+ *         name: lens
+ *         schema:
+ *           type: string
+ *         description: Only photos taken with this lens model
+ *       - in: query
+ *         name: focalMin
+ *         schema:
+ *           type: number
+ *         description: Minimum focal length in mm (photos without one are excluded)
+ *       - in: query
+ *         name: focalMax
+ *         schema:
+ *           type: number
+ *         description: Maximum focal length in mm
+ *       - in: query
+ *         name: place
+ *         schema:
+ *           type: string
+ *         description: Only photos whose city, region or country contains this text (e.g. "Chiang Mai")
+ *       - in: query
+ *         name: tz
+ *         schema:
+ *           type: string
+ *           default: UTC
+ *         description: Viewer's IANA time zone, used for month counts of photos whose capture offset is unknown (and of all photos with dates=viewer)
+ *       - in: query
+ *         name: dates
+ *         schema:
+ *           type: string
+ *           enum: [local, viewer]
+ *           default: local
+ *         description: Count months by the clock where each photo was taken, or by the viewer's time zone
  *     responses:
  *       200:
  *         description: A list of photos
@@ -39,13 +94,21 @@ export async function GET(request: Request) {
     const url = new URL(request.url);
     const cursor = url.searchParams.get("cursor") || undefined;
     const limit = Math.min(parseInt(url.searchParams.get("limit") || "50", 10), 100);
+    const tags = parseTagsParam(url.searchParams.get("tags"));
+    const starredOnly = url.searchParams.get("starred") === "true";
+    const metadataFilter = parseMetadataFilter(url.searchParams);
+    const placeQuery = url.searchParams.get("place") || "";
+    const tzParam = url.searchParams.get("tz");
+    const timeZone = tzParam && isValidTimeZone(tzParam) ? tzParam : "UTC";
+    const dateMode = parseCaptureDateMode(url.searchParams.get("dates"));
 
     try {
         // 1. Get all album IDs the user has access to
         const userAlbums = await db
             .select({ albumId: albumMembers.albumId })
             .from(albumMembers)
-            .where(eq(albumMembers.userId, userId));
+            .innerJoin(albums, eq(albums.id, albumMembers.albumId))
+            .where(and(eq(albumMembers.userId, userId), isNull(albums.deletedAt)));
 
         const accessibleAlbumIds = userAlbums.map((a) => a.albumId);
 
@@ -59,22 +122,28 @@ export async function GET(request: Request) {
             isNull(images.deletedAt)
         ];
 
-        // 3. Get total counts per month (only on initial fetch)
+        // 3. Get total counts per month (only on initial fetch), by the
+        // same local dates the client groups photos with
         const monthCounts: Record<string, number> = {};
         if (!cursor) {
+            const localTime = localCaptureTime(images, { mode: dateMode, timeZone });
             const countsResult = await db
                 .select({
-                    monthStr: sql<string>`TO_CHAR(COALESCE(${images.dateTaken}, ${images.createdAt}), 'YYYY-MM')`,
+                    monthStr: sql<string>`TO_CHAR(${localTime}, 'YYYY-MM')`,
                     count: sql<number>`count(*)::int`
                 })
                 .from(images)
                 .where(
                     and(
                         inArray(images.albumId, accessibleAlbumIds),
-                        isNull(images.deletedAt)
+                        isNull(images.deletedAt),
+                        tags.length > 0 ? inArray(images.id, imagesWithAllTags(tags)) : undefined,
+                        starredOnly ? inArray(images.id, starredImageIds(userId)) : undefined,
+                        ...metadataFilterConditions(metadataFilter),
+                        placeSearchCondition(placeQuery)
                     )
                 )
-                .groupBy(sql`TO_CHAR(COALESCE(${images.dateTaken}, ${images.createdAt}), 'YYYY-MM')`);
+                .groupBy(sql`1`);
 
             countsResult.forEach(row => {
                 if (row.monthStr) {
@@ -124,6 +193,21 @@ export async function GET(request: Request) {
                     isNull(imgs.deletedAt)
                 ];
 
+                if (tags.length > 0) {
+                    baseConditions.push(inArray(imgs.id, imagesWithAllTags(tags)));
+                }
+
+                if (starredOnly) {
+                    baseConditions.push(inArray(imgs.id, starredImageIds(userId)));
+                }
+
+                baseConditions.push(...metadataFilterConditions(metadataFilter, imgs));
+
+                const placeCondition = placeSearchCondition(placeQuery, imgs);
+                if (placeCondition) {
+                    baseConditions.push(placeCondition);
+                }
+
                 if (cursor) {
                     const [cursorTimeStr, cursorId] = cursor.split("_");
 
@@ -177,7 +261,20 @@ export async function GET(request: Request) {
                     originalUrl,
                     width: img.width,
                     height: img.height,
+                    mimeType: img.mimeType,
+                    durationMs: img.durationMs,
+                    size: img.size,
+                    originalFilename: img.originalFilename,
+                    cameraMake: img.cameraMake,
+                    cameraModel: img.cameraModel,
+                    gpsLat: img.gpsLat,
+                    gpsLng: img.gpsLng,
+                    placeCity: img.placeCity,
+                    placeRegion: img.placeRegion,
+                    placeCountry: img.placeCountry,
+                    metadata: img.metadata,
                     dateTaken: sortDate, // This is Date object
+                    dateTakenOffset: img.dateTaken ? img.dateTakenOffset : null,
                 };
             })
         );
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/auth/session";
+import { checkRateLimits, logApiKeyUsage } from "@/lib/api-middleware";
+import { QuotaService } from "@/lib/services/quota.service";
+
+/**
+ * @swagger
+ * /api/user/storage:
+ *   get:
+ *     tags:
+ *       - User
+ *     summary: Storage usage
+ *     description: Bytes used by the photos you uploaded (originals plus display/thumbnail variants, trash included until it is purged) against your quota, with a per-album breakdown (largest first). quotaBytes and percentUsed are null when storage is unlimited; warning is true once usage reaches warningPercent of the quota.
+ *     responses:
+ *       200:
+ *         description: Usage summary
+ */
+export async function GET(request: Request) {
+    const { userId, apiKey } = await getAuthContext();
+    if (!userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (apiKey) {
+        const limitCheck = await checkRateLimits(apiKey.id, apiKey.rateLimit, apiKey.rateLimitPerDay, request);
+        if (!limitCheck.ok) {
+            return NextResponse.json(limitCheck.error, { status: limitCheck.status });
+        }
+    }
+
+    try {
+        const usage = await QuotaService.getUsage(userId);
+
+        if (apiKey) {
+            await logApiKeyUsage(apiKey.id, request, 200);
+        }
+
+        return NextResponse.json(usage);
+    } catch (error) {
+        console.error("Storage usage error:", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
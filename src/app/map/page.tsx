@@ -3,13 +3,14 @@
 import { useEffect, useRef, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Map, { Source, Layer, Marker, NavigationControl } from "react-map-gl/mapbox";
-import type { MapRef, ViewStateChangeEvent, MapMouseEvent } from "react-map-gl/mapbox";
+import type { MapRef, ViewStateChangeEvent, MapMouseEvent, LayerProps } from "react-map-gl/mapbox";
 import { ArrowLeft, MapPin, Loader2, Image as ImageIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/components/providers/AuthProvider";
-import { useMapStore, type MapPoint } from "@/stores/useMapStore";
+import { useMapStore, type MapPoint, type MapTrack } from "@/stores/useMapStore";
 import { PhotoMarker } from "@/components/map/PhotoMarker";
 import { MapSidebar } from "@/components/map/MapSidebar";
+import { PlaceSearch } from "@/components/PlaceSearch";
 import { DashboardNavbar } from "@/components/DashboardNavbar";
 import "mapbox-gl/dist/mapbox-gl.css";
 
@@ -66,6 +67,30 @@ const unclusteredPointLayer: any = {
     },
 };
 
+// GPX tracks, drawn under the photo markers
+const trackLayer: LayerProps = {
+    id: "tracks",
+    type: "line",
+    source: "tracks",
+    layout: { "line-join": "round", "line-cap": "round" },
+    paint: {
+        "line-color": "#f97316",
+        "line-width": ["interpolate", ["linear"], ["zoom"], 5, 2, 14, 4],
+        "line-opacity": 0.85,
+    },
+};
+
+function tracksToGeoJson(tracks: MapTrack[]) {
+    return {
+        type: "FeatureCollection" as const,
+        features: tracks.map((t) => ({
+            type: "Feature" as const,
+            properties: { id: t.id, albumId: t.albumId, name: t.name ?? t.albumTitle },
+            geometry: { type: "LineString" as const, coordinates: t.points },
+        })),
+    };
+}
+
 function pointsToGeoJson(points: MapPoint[]) {
     return {
         type: "FeatureCollection" as const,
@@ -88,16 +113,17 @@ export default function PhotoMapPage() {
 
     const {
         points, isLoading, zoom, selectedPointId, highlightedPhotoId,
-        sidebarOpen,
-        setZoom, setBounds, setSelectedPointId, setHighlightedPhotoId,
-        fetchPoints, fetchDateRange, fetchSidebarPhotos,
+        sidebarOpen, placeQuery, tracks,
+        setZoom, setBounds, setSelectedPointId, setHighlightedPhotoId, setPlaceQuery,
+        fetchPoints, fetchDateRange, fetchTracks, fetchSidebarPhotos,
     } = useMapStore();
 
     const useWebGLFallback = points.length > MARKER_THRESHOLD;
     const geoJsonData = useMemo(() => pointsToGeoJson(points), [points]);
+    const trackGeoJson = useMemo(() => tracksToGeoJson(tracks ?? []), [tracks]);
 
-    // Fetch date range on mount
-    useEffect(() => { fetchDateRange(); }, []);
+    // Fetch date range and imported GPX tracks on mount
+    useEffect(() => { fetchDateRange(); fetchTracks(); }, []);
 
     // Debounced fetch on viewport change — loads both markers and sidebar photos
     const debouncedFetch = useCallback(() => {
@@ -112,6 +138,11 @@ export default function PhotoMapPage() {
         }, 300);
     }, [fetchPoints, fetchSidebarPhotos]);
 
+    const onPlaceSearch = useCallback((place: string) => {
+        setPlaceQuery(place);
+        debouncedFetch();
+    }, [setPlaceQuery, debouncedFetch]);
+
     // Cleanup on unmount
     useEffect(() => {
         return () => {
@@ -289,8 +320,8 @@ export default function PhotoMapPage() {
             `}</style>
 
             <div className="relative h-[calc(100vh-64px)] overflow-hidden">
-                {/* Back button — icon-only on mobile */}
-                <div className="absolute top-3 left-3 md:top-4 md:left-4 z-20">
+                {/* Back button — icon-only on mobile — and place search */}
+                <div className="absolute top-3 left-3 md:top-4 md:left-4 z-20 flex items-center gap-2">
                     <Button
                         variant="outline"
                         onClick={() => router.push("/albums")}
@@ -299,11 +330,16 @@ export default function PhotoMapPage() {
                         <ArrowLeft className="h-4 w-4" />
                         <span className="hidden md:inline">Dashboard</span>
                     </Button>
+                    <PlaceSearch
+                        value={placeQuery}
+                        onChange={onPlaceSearch}
+                        className="bg-white/90 dark:bg-slate-800/90 backdrop-blur-md shadow-lg md:h-11"
+                    />
                 </div>
 
                 {/* Loading indicator */}
                 {isLoading && (
-                    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 md:top-4">
+                    <div className="absolute top-14 left-1/2 -translate-x-1/2 z-20 md:top-4">
                         <div className="flex items-center gap-1.5 md:gap-2 bg-white/90 dark:bg-slate-800/90 backdrop-blur-md shadow-lg rounded-full px-3 py-1.5 md:px-4 md:py-2 border border-white/50 dark:border-slate-700">
                             <Loader2 className="h-3.5 w-3.5 md:h-4 md:w-4 text-blue-500 animate-spin" />
                             <span className="text-xs md:text-sm font-medium text-slate-600 dark:text-slate-300">Loading...</span>
@@ -340,6 +376,12 @@ export default function PhotoMapPage() {
                 >
                     <NavigationControl position="top-right" />
 
+                    {trackGeoJson.features.length > 0 && (
+                        <Source id="tracks" type="geojson" data={trackGeoJson}>
+                            <Layer {...trackLayer} />
+                        </Source>
+                    )}
+
                     {/* WebGL fallback when too many points */}
                     {useWebGLFallback && (
                         <Source
@@ -15,7 +15,10 @@ import {
     Shield,
     FolderPlus,
     Folder,
-    FileImage
+    FileImage,
+    MessageCircle,
+    RotateCcw,
+    ArrowRightLeft
 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -89,18 +92,33 @@ export function AlbumActivityDialog({ albumId, open: ControlledOpen, onOpenChang
         switch (action) {
             case "image_upload": return <Upload className="h-4 w-4 text-blue-500" />;
             case "image_delete": return <Trash2 className="h-4 w-4 text-red-500" />;
+            case "image_permanent_delete": return <Trash2 className="h-4 w-4 text-red-600" />;
             case "image_update": return <FileImage className="h-4 w-4 text-amber-500" />;
+            case "image_transfer_in": return <ArrowRightLeft className="h-4 w-4 text-blue-500" />;
+            case "image_transfer_out": return <ArrowRightLeft className="h-4 w-4 text-orange-500" />;
             case "album_update": return <Settings className="h-4 w-4 text-slate-500" />;
+            case "album_delete": return <Trash2 className="h-4 w-4 text-red-500" />;
+            case "album_restore": return <RotateCcw className="h-4 w-4 text-green-500" />;
             case "member_join": return <UserPlus className="h-4 w-4 text-green-500" />;
             case "member_leave": return <UserMinus className="h-4 w-4 text-orange-500" />;
             case "member_role_change": return <Shield className="h-4 w-4 text-purple-500" />;
             case "folder_create": return <FolderPlus className="h-4 w-4 text-yellow-500" />;
             case "folder_update": return <Folder className="h-4 w-4 text-yellow-500" />;
             case "folder_delete": return <Trash2 className="h-4 w-4 text-red-500" />;
+            case "folder_restore": return <RotateCcw className="h-4 w-4 text-green-500" />;
+            case "comment_create": return <MessageCircle className="h-4 w-4 text-sky-500" />;
+            case "comment_delete": return <MessageCircle className="h-4 w-4 text-red-500" />;
             default: return <History className="h-4 w-4 text-slate-400" />;
         }
     };
 
+    // Automatic jobs (e.g. trash purge) log without a user
+    const isSystemLog = (log: ActivityLog) => {
+        if (log.user) return false;
+        const meta = log.metadata ? JSON.parse(log.metadata) : {};
+        return !!meta.system;
+    };
+
     const formatActionMessage = (log: ActivityLog) => {
         const meta = log.metadata ? JSON.parse(log.metadata) : {};
 
@@ -109,13 +127,47 @@ export function AlbumActivityDialog({ albumId, open: ControlledOpen, onOpenChang
                 return <span>Uploaded <strong>{meta.filename || "a photo"}</strong></span>;
             case "image_delete":
                 return <span>Deleted a photo</span>;
+            case "image_permanent_delete":
+                if (meta.reason === "retention") {
+                    return <span>Permanently deleted <strong>{meta.filename || "a photo"}</strong> after {meta.retentionDays} days in the trash</span>;
+                }
+                return <span>Permanently deleted a photo</span>;
             case "image_update":
                 if (meta.move) {
                     return <span>Moved a photo</span>;
                 }
+                if (meta.tags) {
+                    return <span>Updated tags on a photo</span>;
+                }
+                if (meta.dateShift) {
+                    return <span>Adjusted the capture time of {meta.dateShift.count} photos</span>;
+                }
+                if (meta.location) {
+                    const photos = meta.location.count === 1 ? "a photo" : `${meta.location.count} photos`;
+                    return meta.location.mode === "clear"
+                        ? <span>Removed the location of {photos}</span>
+                        : <span>Set the location of {photos}</span>;
+                }
+                if (meta.gpx) {
+                    const photos = meta.gpx.count === 1 ? "a photo" : `${meta.gpx.count} photos`;
+                    return meta.gpx.name
+                        ? <span>Geotagged {photos} from the track <strong>{meta.gpx.name}</strong></span>
+                        : <span>Geotagged {photos} from a GPX track</span>;
+                }
+                if (meta.changes) {
+                    return <span>Edited details of a photo</span>;
+                }
                 return <span>Updated a photo</span>;
+            case "image_transfer_in":
+                return <span>{meta.mode === "move" ? "Moved" : "Copied"} <strong>{meta.filename || "a photo"}</strong> here from <strong>{meta.albumTitle || "another album"}</strong></span>;
+            case "image_transfer_out":
+                return <span>{meta.mode === "move" ? "Moved" : "Copied"} <strong>{meta.filename || "a photo"}</strong> to <strong>{meta.albumTitle || "another album"}</strong></span>;
             case "album_update":
                 return <span>Updated album settings</span>;
+            case "album_delete":
+                return <span>Deleted the album</span>;
+            case "album_restore":
+                return <span>Restored the album</span>;
             case "member_join":
                 return <span>Joined the album</span>;
             case "member_leave":
@@ -125,9 +177,21 @@ export function AlbumActivityDialog({ albumId, open: ControlledOpen, onOpenChang
             case "folder_create":
                 return <span>Created folder <strong>{meta.name || meta.folderName || "Untitled"}</strong></span>;
             case "folder_update":
+                if (meta.move) {
+                    return <span>Moved folder <strong>{meta.name || "Untitled"}</strong></span>;
+                }
+                if (meta.newName) {
+                    return <span>Renamed folder <strong>{meta.oldName}</strong> to <strong>{meta.newName}</strong></span>;
+                }
                 return <span>Updated folder <strong>{meta.name || meta.folderName || "Untitled"}</strong></span>;
             case "folder_delete":
                 return <span>Deleted folder <strong>{meta.name || meta.folderName || "Untitled"}</strong></span>;
+            case "folder_restore":
+                return <span>Restored folder <strong>{meta.name || meta.folderName || "Untitled"}</strong></span>;
+            case "comment_create":
+                return <span>{meta.parentId ? "Replied to a comment" : "Commented on a photo"}{meta.preview && <>: <em>&ldquo;{meta.preview}&rdquo;</em></>}</span>;
+            case "comment_delete":
+                return <span>{meta.byOwner ? "Removed a comment" : "Deleted a comment"}</span>;
             default:
                 return <span>Performed {log.action.replace(/_/g, " ")}</span>;
         }
@@ -181,7 +245,7 @@ export function AlbumActivityDialog({ albumId, open: ControlledOpen, onOpenChang
                                         <div className="flex-1 space-y-0.5">
                                             <div className="flex items-center justify-between">
                                                 <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
-                                                    {log.user?.name || "Unknown User"}
+                                                    {log.user?.name || (isSystemLog(log) ? "System" : "Unknown User")}
                                                 </p>
                                                 <span className="text-xs text-slate-400 whitespace-nowrap ml-2">
                                                     {formatDistanceToNow(new Date(log.createdAt), { addSuffix: true })}
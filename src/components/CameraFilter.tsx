@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { Aperture, X } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { isMetadataFilterActive, type MetadataFacets, type MetadataFilter } from "@/lib/exif";
+
+interface CameraFilterProps {
+    facets: MetadataFacets;
+    value: MetadataFilter;
+    onChange: (value: MetadataFilter) => void;
+}
+
+const selectClass = "h-9 max-w-[12rem] px-3 text-sm rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 truncate";
+const inputClass = "w-14 h-7 px-2 text-sm bg-transparent text-slate-600 dark:text-slate-300 focus:outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none";
+
+function parseMm(value: string) {
+    const num = Number(value);
+    return value.trim() !== "" && Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+/**
+ * Camera, lens and focal-length range filters. The choices come from the
+ * photos being browsed; a camera or lens that is currently selected stays
+ * listed even when the facets no longer include it.
+ */
+export function CameraFilter({ facets, value, onChange }: CameraFilterProps) {
+    // Focal lengths are applied on blur/Enter so typing doesn't refetch per key
+    const [focalMin, setFocalMin] = useState(value.focalMin?.toString() ?? "");
+    const [focalMax, setFocalMax] = useState(value.focalMax?.toString() ?? "");
+    const [applied, setApplied] = useState(value);
+
+    // Follow changes made elsewhere (clear button, store reset)
+    if (applied.focalMin !== value.focalMin || applied.focalMax !== value.focalMax) {
+        setApplied(value);
+        setFocalMin(value.focalMin?.toString() ?? "");
+        setFocalMax(value.focalMax?.toString() ?? "");
+    }
+
+    const cameras = value.camera && !facets.cameras.some(c => c.model === value.camera)
+        ? [...facets.cameras, { make: null, model: value.camera, count: 0 }]
+        : facets.cameras;
+    const lenses = value.lens && !facets.lenses.some(l => l.model === value.lens)
+        ? [...facets.lenses, { model: value.lens, count: 0 }]
+        : facets.lenses;
+    const hasFocal = facets.focalLength.min != null || value.focalMin != null || value.focalMax != null;
+
+    if (cameras.length === 0 && lenses.length === 0 && !hasFocal) return null;
+
+    const applyFocal = () => {
+        const min = parseMm(focalMin);
+        const max = parseMm(focalMax);
+        if (min !== value.focalMin || max !== value.focalMax) {
+            onChange({ ...value, focalMin: min, focalMax: max });
+        }
+    };
+
+    const active = isMetadataFilterActive(value);
+
+    return (
+        <div className="inline-flex items-center gap-2 flex-wrap">
+            <Aperture className={cn("h-4 w-4", active ? "text-blue-500" : "text-slate-400")} />
+
+            {cameras.length > 0 && (
+                <select
+                    value={value.camera ?? ""}
+                    onChange={(e) => onChange({ ...value, camera: e.target.value || undefined })}
+                    className={selectClass}
+                    title="Filter by camera"
+                >
+                    <option value="">All cameras</option>
+                    {cameras.map(camera => (
+                        <option key={camera.model} value={camera.model}>
+                            {camera.model}{camera.count > 0 ? ` (${camera.count})` : ""}
+                        </option>
+                    ))}
+                </select>
+            )}
+
+            {lenses.length > 0 && (
+                <select
+                    value={value.lens ?? ""}
+                    onChange={(e) => onChange({ ...value, lens: e.target.value || undefined })}
+                    className={selectClass}
+                    title="Filter by lens"
+                >
+                    <option value="">All lenses</option>
+                    {lenses.map(lens => (
+                        <option key={lens.model} value={lens.model}>
+                            {lens.model}{lens.count > 0 ? ` (${lens.count})` : ""}
+                        </option>
+                    ))}
+                </select>
+            )}
+
+            {hasFocal && (
+                <div
+                    className="inline-flex items-center h-9 px-3 rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm"
+                    title="Focal length range (mm)"
+                >
+                    <input
+                        type="number"
+                        min={0}
+                        value={focalMin}
+                        placeholder={facets.focalLength.min != null ? String(Math.floor(facets.focalLength.min)) : "min"}
+                        onChange={(e) => setFocalMin(e.target.value)}
+                        onBlur={applyFocal}
+                        onKeyDown={(e) => e.key === "Enter" && applyFocal()}
+                        className={inputClass}
+                        aria-label="Minimum focal length"
+                    />
+                    <span className="text-slate-400 text-sm">–</span>
+                    <input
+                        type="number"
+                        min={0}
+                        value={focalMax}
+                        placeholder={facets.focalLength.max != null ? String(Math.ceil(facets.focalLength.max)) : "max"}
+                        onChange={(e) => setFocalMax(e.target.value)}
+                        onBlur={applyFocal}
+                        onKeyDown={(e) => e.key === "Enter" && applyFocal()}
+                        className={inputClass}
+                        aria-label="Maximum focal length"
+                    />
+                    <span className="text-slate-400 text-sm">mm</span>
+                </div>
+            )}
+
+            {active && (
+                <button
+                    onClick={() => onChange({})}
+                    className="inline-flex items-center justify-center w-9 h-9 text-slate-400 dark:text-slate-500 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-full hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-slate-600 dark:hover:text-slate-300 transition-all shadow-sm"
+                    title="Clear camera filters"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            )}
+        </div>
+    );
+}
@@ -7,19 +7,30 @@ import { Label } from "@/components/ui/label";
 import { FolderPlus, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
+import { flattenFolderTree, type FolderNode } from "@/lib/folder-tree";
 
 interface CreateFolderDialogProps {
     albumId: string;
+    /** Existing folders, offered as the parent of the new one */
+    folders?: FolderNode[];
+    /** Preselected parent, e.g. the folder being viewed */
+    parentId?: string | null;
     onFolderCreated: () => void;
     children?: React.ReactNode;
 }
 
-export function CreateFolderDialog({ albumId, onFolderCreated, children }: CreateFolderDialogProps) {
+export function CreateFolderDialog({ albumId, folders = [], parentId = null, onFolderCreated, children }: CreateFolderDialogProps) {
     const [open, setOpen] = useState(false);
     const [name, setName] = useState("");
+    const [targetParentId, setTargetParentId] = useState<string | null>(parentId);
     const [loading, setLoading] = useState(false);
     const router = useRouter();
 
+    const handleOpenChange = (newOpen: boolean) => {
+        if (newOpen) setTargetParentId(parentId);
+        setOpen(newOpen);
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!name.trim()) return;
@@ -29,7 +40,7 @@ export function CreateFolderDialog({ albumId, onFolderCreated, children }: Creat
             const res = await fetch(`/api/albums/${albumId}/folders`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ name: name.trim() }),
+                body: JSON.stringify({ name: name.trim(), parentId: targetParentId }),
             });
 
             if (!res.ok) throw new Error("Failed to create folder");
@@ -48,7 +59,7 @@ export function CreateFolderDialog({ albumId, onFolderCreated, children }: Creat
     };
 
     return (
-        <Dialog open={open} onOpenChange={setOpen}>
+        <Dialog open={open} onOpenChange={handleOpenChange}>
             <DialogTrigger asChild>
                 {children || (
                     <Button variant="outline" className="gap-2 rounded-xl">
@@ -81,6 +92,26 @@ export function CreateFolderDialog({ albumId, onFolderCreated, children }: Creat
                             autoFocus
                         />
                     </div>
+                    {folders.length > 0 && (
+                        <div className="space-y-2">
+                            <Label htmlFor="parent" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                Location
+                            </Label>
+                            <select
+                                id="parent"
+                                value={targetParentId || ""}
+                                onChange={(e) => setTargetParentId(e.target.value || null)}
+                                className="w-full h-9 px-3 text-sm border bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-xl text-slate-700 dark:text-slate-200"
+                            >
+                                <option value="">Album root</option>
+                                {flattenFolderTree(folders).map(({ folder, depth }) => (
+                                    <option key={folder.id} value={folder.id}>
+                                        {"\u00a0\u00a0".repeat(depth)}{folder.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <div className="flex gap-3">
                         <Button
                             type="button"
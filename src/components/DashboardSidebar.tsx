@@ -1,11 +1,13 @@
 "use client";
 
-import { LayoutGrid, User, Users, Plus, Heart, MapPin } from "lucide-react";
+import { LayoutGrid, User, Users, Plus, Heart, MapPin, Trash2, CopyCheck } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { CreateAlbumDialog } from "@/components/CreateAlbumDialog";
+import { DeletedAlbumsDialog } from "@/components/DeletedAlbumsDialog";
+import { DuplicatesDialog } from "@/components/DuplicatesDialog";
 
 import { useAlbumStore } from "@/stores/useAlbumStore";
 
@@ -127,6 +129,32 @@ export function DashboardSidebar({
                 </Link>
             </div>
 
+            {/* Duplicates & Recently Deleted */}
+            <div className="px-2 mt-auto pt-2 border-t border-slate-100 dark:border-slate-800 space-y-1">
+                <DuplicatesDialog
+                    trigger={
+                        <Button
+                            variant="ghost"
+                            className="w-full justify-start gap-3 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 hover:text-slate-800 dark:hover:text-slate-200 rounded-xl h-10 px-4 transition-all group"
+                        >
+                            <CopyCheck className="h-4 w-4 text-slate-400 dark:text-slate-500 group-hover:text-slate-600 dark:group-hover:text-slate-300 transition-colors" />
+                            <span className="font-medium">Duplicates</span>
+                        </Button>
+                    }
+                />
+                <DeletedAlbumsDialog
+                    trigger={
+                        <Button
+                            variant="ghost"
+                            className="w-full justify-start gap-3 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800 hover:text-slate-800 dark:hover:text-slate-200 rounded-xl h-10 px-4 transition-all group"
+                        >
+                            <Trash2 className="h-4 w-4 text-slate-400 dark:text-slate-500 group-hover:text-slate-600 dark:group-hover:text-slate-300 transition-colors" />
+                            <span className="font-medium">Recently deleted</span>
+                        </Button>
+                    }
+                />
+            </div>
+
         </aside>
     );
 }
@@ -27,7 +27,7 @@ export function DeleteFolderDialog({ albumId, folder, open, onOpenChange, onFold
 
             if (!res.ok) throw new Error("Failed to delete folder");
 
-            toast.success("Folder deleted");
+            toast.success("Folder moved to trash");
             onOpenChange(false);
             onFolderDeleted();
             router.refresh();
@@ -54,7 +54,7 @@ export function DeleteFolderDialog({ albumId, folder, open, onOpenChange, onFold
                     <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/50 rounded-xl p-4 mt-2 flex gap-3 text-left">
                         <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0 mt-0.5" />
                         <p className="text-sm text-amber-800 dark:text-amber-200">
-                            Photos inside this folder will <strong>not be deleted</strong>. They will be moved to the main album view.
+                            The folder moves to the trash. Photos inside it will <strong>not be deleted</strong>; they show in the main album view until the folder is restored.
                         </p>
                     </div>
                 </DialogHeader>
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { differenceInCalendarDays, formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCcw, Timer, Trash2, ImageIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { fetcher } from "@/lib/fetcher";
+import { useAlbumStore } from "@/stores/useAlbumStore";
+
+interface DeletedAlbum {
+    id: string;
+    title: string;
+    deletedAt: string;
+    purgeAt: string;
+    imageCount: number;
+    coverImageUrl: string | null;
+}
+
+interface DeletedAlbumsDialogProps {
+    trigger: React.ReactNode;
+}
+
+/**
+ * "Recently deleted" albums the user owns, with restore.
+ */
+export function DeletedAlbumsDialog({ trigger }: DeletedAlbumsDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    const { data, isLoading, mutate } = useSWR<{ albums: DeletedAlbum[] }>(open ? "/api/albums/deleted" : null, fetcher);
+    const albums = data?.albums || [];
+
+    const handleRestore = async (album: DeletedAlbum) => {
+        setRestoringId(album.id);
+        try {
+            const res = await fetch(`/api/albums/${album.id}/restore`, { method: "POST" });
+            if (!res.ok) throw new Error("Failed to restore album");
+
+            await mutate({ albums: albums.filter(a => a.id !== album.id) }, false);
+            await useAlbumStore.getState().refreshAlbums();
+            toast.success(`Restored "${album.title}"`);
+        } catch {
+            toast.error("Failed to restore album");
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const formatPurgeCountdown = (purgeAt: string) => {
+        const days = differenceInCalendarDays(new Date(purgeAt), new Date());
+        if (days <= 0) return "Deletes today";
+        return `Deletes in ${days} day${days !== 1 ? "s" : ""}`;
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg max-h-[80vh] flex flex-col rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <Trash2 className="h-5 w-5 text-slate-500 dark:text-slate-400" />
+                        Recently deleted
+                    </DialogTitle>
+                    <DialogDescription className="text-slate-500 dark:text-slate-400">
+                        Deleted albums can be restored until they are removed permanently.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 overflow-y-auto -mx-1 px-1">
+                    {isLoading ? (
+                        <div className="flex justify-center items-center py-12">
+                            <Loader2 className="h-6 w-6 text-blue-500 animate-spin" />
+                        </div>
+                    ) : albums.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-12 text-center text-slate-400">
+                            <Trash2 className="h-8 w-8 text-slate-300 mb-3" />
+                            <p className="text-sm">No recently deleted albums</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            {albums.map(album => (
+                                <div key={album.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800">
+                                    <div className="w-14 h-14 shrink-0 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-700 flex items-center justify-center">
+                                        {album.coverImageUrl ? (
+                                            <img src={album.coverImageUrl} alt="" className="w-full h-full object-cover" />
+                                        ) : (
+                                            <ImageIcon className="h-5 w-5 text-slate-400" />
+                                        )}
+                                    </div>
+                                    <div className="flex-1 min-w-0 space-y-0.5">
+                                        <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">{album.title}</p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            {album.imageCount} photo{album.imageCount !== 1 && "s"} · deleted {formatDistanceToNow(new Date(album.deletedAt), { addSuffix: true })}
+                                        </p>
+                                        <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                                            <Timer className="h-3 w-3" />
+                                            {formatPurgeCountdown(album.purgeAt)}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-8 px-3 text-xs rounded-lg border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                                        onClick={() => handleRestore(album)}
+                                        disabled={restoringId === album.id}
+                                    >
+                                        {restoringId === album.id ? (
+                                            <Loader2 className="h-3 w-3 animate-spin" />
+                                        ) : (
+                                            <>
+                                                <RotateCcw className="h-3 w-3 mr-1.5" />
+                                                Restore
+                                            </>
+                                        )}
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
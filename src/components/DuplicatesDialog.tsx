@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { Loader2, CopyCheck, Trash2, ImageIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { fetcher } from "@/lib/fetcher";
+
+interface DuplicateImage {
+    id: string;
+    albumId: string;
+    albumTitle: string;
+    originalFilename: string | null;
+    size: number | null;
+    createdAt: string;
+    thumbUrl: string;
+}
+
+interface DuplicateGroup {
+    contentHash: string;
+    count: number;
+    images: DuplicateImage[];
+}
+
+interface DuplicatesDialogProps {
+    trigger: React.ReactNode;
+}
+
+/**
+ * Byte-identical photos across the user's albums, with a one-click cleanup
+ * that keeps the oldest copy of each group and moves the rest to trash.
+ */
+export function DuplicatesDialog({ trigger }: DuplicatesDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [cleaning, setCleaning] = useState<string | null>(null);
+
+    const { data, isLoading, mutate } = useSWR<{ groups: DuplicateGroup[] }>(open ? "/api/images/duplicates?limit=100" : null, fetcher);
+    const groups = data?.groups || [];
+
+    /**
+     * Trash everything but the first (oldest) image of each group. The bulk
+     * delete action works per album, so extras are grouped by album first.
+     */
+    const cleanUp = async (targets: DuplicateGroup[], key: string) => {
+        const byAlbum = new Map<string, string[]>();
+        for (const group of targets) {
+            for (const image of group.images.slice(1)) {
+                byAlbum.set(image.albumId, [...(byAlbum.get(image.albumId) || []), image.id]);
+            }
+        }
+
+        setCleaning(key);
+        let deleted = 0;
+        let failedAlbums = 0;
+        try {
+            for (const [albumId, imageIds] of byAlbum) {
+                const res = await fetch("/api/images/bulk", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ action: "delete", albumId, imageIds }),
+                });
+                if (res.ok) {
+                    const result = await res.json();
+                    deleted += result.deletedCount || 0;
+                } else {
+                    failedAlbums++;
+                }
+            }
+
+            if (deleted > 0) toast.success(`Moved ${deleted} duplicate${deleted !== 1 ? "s" : ""} to trash`);
+            if (failedAlbums > 0) {
+                toast.error(`Could not clean up ${failedAlbums} album${failedAlbums !== 1 ? "s" : ""} you cannot edit`);
+            }
+        } catch {
+            toast.error("Failed to remove duplicates");
+        } finally {
+            setCleaning(null);
+            mutate();
+        }
+    };
+
+    const formatSize = (bytes: number | null) => {
+        if (!bytes) return "";
+        if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                {trigger}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <CopyCheck className="h-5 w-5 text-slate-500 dark:text-slate-400" />
+                        Duplicates
+                    </DialogTitle>
+                    <DialogDescription className="text-slate-500 dark:text-slate-400">
+                        Identical photos across your albums. Cleaning up keeps the oldest copy and moves the rest to trash.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {groups.length > 0 && (
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            {groups.length} group{groups.length !== 1 && "s"}
+                        </p>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8 px-3 text-xs rounded-lg border-slate-200 dark:border-slate-600 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                            onClick={() => cleanUp(groups, "all")}
+                            disabled={cleaning !== null}
+                        >
+                            {cleaning === "all" ? <Loader2 className="h-3 w-3 mr-1.5 animate-spin" /> : <Trash2 className="h-3 w-3 mr-1.5" />}
+                            Clean up all
+                        </Button>
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto -mx-1 px-1">
+                    {isLoading ? (
+                        <div className="flex justify-center items-center py-12">
+                            <Loader2 className="h-6 w-6 text-blue-500 animate-spin" />
+                        </div>
+                    ) : groups.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-12 text-center text-slate-400">
+                            <CopyCheck className="h-8 w-8 text-slate-300 mb-3" />
+                            <p className="text-sm">No duplicate photos found</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {groups.map(group => (
+                                <div key={group.contentHash} className="p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-3">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">
+                                            {group.images[0]?.originalFilename || "Untitled"}
+                                            <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                                                {group.count} copies · {formatSize(group.images[0]?.size ?? null)}
+                                            </span>
+                                        </p>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            className="h-8 px-3 text-xs rounded-lg text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                                            onClick={() => cleanUp([group], group.contentHash)}
+                                            disabled={cleaning !== null}
+                                        >
+                                            {cleaning === group.contentHash ? <Loader2 className="h-3 w-3 animate-spin" /> : "Keep oldest"}
+                                        </Button>
+                                    </div>
+                                    <div className="flex gap-2 overflow-x-auto pb-1">
+                                        {group.images.map((image, index) => (
+                                            <div key={image.id} className="w-28 shrink-0 space-y-1">
+                                                <div className={cn(
+                                                    "relative w-28 h-28 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-700 flex items-center justify-center",
+                                                    index === 0 && "ring-2 ring-blue-500"
+                                                )}>
+                                                    {image.thumbUrl ? (
+                                                        <img src={image.thumbUrl} alt="" className="w-full h-full object-cover" />
+                                                    ) : (
+                                                        <ImageIcon className="h-5 w-5 text-slate-400" />
+                                                    )}
+                                                    {index === 0 && (
+                                                        <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded-md bg-blue-600 text-[10px] font-medium text-white">
+                                                            Keep
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <p className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">{image.albumTitle}</p>
+                                                <p className="text-[11px] text-slate-400">{format(new Date(image.createdAt), "MMM d, yyyy")}</p>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
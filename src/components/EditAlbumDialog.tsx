@@ -24,14 +24,16 @@ interface EditAlbumDialogProps {
         description?: string | null;
         visibility: "public" | "private";
         albumDate: string;
+        trashRetentionDays?: number | null;
     };
+    isOwner?: boolean;
     trigger?: React.ReactNode;
     open?: boolean;
     onOpenChange?: (open: boolean) => void;
     onSuccess?: () => void;
 }
 
-export function EditAlbumDialog({ album, trigger, open: controlledOpen, onOpenChange: setControlledOpen, onSuccess }: EditAlbumDialogProps) {
+export function EditAlbumDialog({ album, isOwner, trigger, open: controlledOpen, onOpenChange: setControlledOpen, onSuccess }: EditAlbumDialogProps) {
     const router = useRouter();
     const [internalOpen, setInternalOpen] = useState(false);
     const [loading, setLoading] = useState(false);
@@ -41,6 +43,7 @@ export function EditAlbumDialog({ album, trigger, open: controlledOpen, onOpenCh
     const [description, setDescription] = useState(album.description || "");
     const [date, setDate] = useState(album.albumDate ? new Date(album.albumDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0]);
     const [visibility, setVisibility] = useState<"private" | "public">(album.visibility);
+    const [retentionDays, setRetentionDays] = useState(album.trashRetentionDays?.toString() || "");
 
     const isControlled = controlledOpen !== undefined;
     const open = isControlled ? controlledOpen : internalOpen;
@@ -58,6 +61,7 @@ export function EditAlbumDialog({ album, trigger, open: controlledOpen, onOpenCh
             setDescription(album.description || "");
             setDate(album.albumDate ? new Date(album.albumDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0]);
             setVisibility(album.visibility);
+            setRetentionDays(album.trashRetentionDays?.toString() || "");
         }
     }, [open, album]);
 
@@ -68,6 +72,12 @@ export function EditAlbumDialog({ album, trigger, open: controlledOpen, onOpenCh
             return;
         }
 
+        const retention = retentionDays.trim() ? Number(retentionDays) : null;
+        if (retention !== null && (!Number.isInteger(retention) || retention < 1)) {
+            setError("Trash retention must be a whole number of days");
+            return;
+        }
+
         setLoading(true);
         setError("");
 
@@ -80,6 +90,7 @@ export function EditAlbumDialog({ album, trigger, open: controlledOpen, onOpenCh
                     description: description.trim(),
                     visibility,
                     albumDate: new Date(date).toISOString(),
+                    ...(isOwner ? { trashRetentionDays: retention } : {}),
                 }),
             });
 
@@ -204,6 +215,27 @@ export function EditAlbumDialog({ album, trigger, open: controlledOpen, onOpenCh
                         </div>
                     </div>
 
+                    {isOwner && (
+                        <div className="space-y-2">
+                            <Label htmlFor="trashRetention" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                Keep deleted photos for <span className="text-slate-400 font-normal">(days)</span>
+                            </Label>
+                            <Input
+                                id="trashRetention"
+                                type="number"
+                                min={1}
+                                placeholder="Default"
+                                value={retentionDays}
+                                onChange={(e) => setRetentionDays(e.target.value)}
+                                disabled={loading}
+                                className="h-11 bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 focus:bg-white dark:focus:bg-slate-800 focus:border-blue-500 focus:ring-blue-500/20 rounded-xl dark:text-slate-100"
+                            />
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                Photos in the trash are deleted permanently after this many days. Leave empty to use the default.
+                            </p>
+                        </div>
+                    )}
+
                     <div className="flex gap-3 pt-2">
                         <Button
                             type="button"
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Loader2, Edit2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTimelineStore } from "@/stores/useTimelineStore";
+import { useMapStore } from "@/stores/useMapStore";
+import { UTC_OFFSETS, captureDisplayDate, formatUtcOffset } from "@/lib/capture-time";
+
+export interface EditablePhoto {
+    id: string;
+    originalFilename?: string | null;
+    caption?: string | null;
+    dateTaken?: string | null;
+    dateTakenOffset?: number | null;
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+    cameraMake?: string | null;
+    cameraModel?: string | null;
+}
+
+interface EditPhotoDialogProps {
+    photo: EditablePhoto;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess?: () => void;
+}
+
+// The input shows the clock where the photo was taken when its offset is
+// known, otherwise the editor's own. Seconds are kept so an unchanged date
+// reads back as the same instant
+function toLocalInput(value: string | null | undefined, offset: number | null | undefined) {
+    return value ? format(captureDisplayDate(value, offset), "yyyy-MM-dd'T'HH:mm:ss") : "";
+}
+
+function fromLocalInput(value: string, offset: string) {
+    return offset === ""
+        ? new Date(value).toISOString()
+        : new Date(Date.parse(`${value}Z`) - Number(offset) * 60_000).toISOString();
+}
+
+export function EditPhotoDialog({ photo, open, onOpenChange, onSuccess }: EditPhotoDialogProps) {
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+
+    const [filename, setFilename] = useState("");
+    const [caption, setCaption] = useState("");
+    const [dateTaken, setDateTaken] = useState("");
+    const [dateTakenOffset, setDateTakenOffset] = useState("");
+    const [lat, setLat] = useState("");
+    const [lng, setLng] = useState("");
+    const [cameraMake, setCameraMake] = useState("");
+    const [cameraModel, setCameraModel] = useState("");
+
+    useEffect(() => {
+        if (open) {
+            setFilename(photo.originalFilename || "");
+            setCaption(photo.caption || "");
+            setDateTaken(toLocalInput(photo.dateTaken, photo.dateTakenOffset));
+            setDateTakenOffset(photo.dateTakenOffset != null ? String(photo.dateTakenOffset) : "");
+            setLat(photo.gpsLat != null ? String(photo.gpsLat) : "");
+            setLng(photo.gpsLng != null ? String(photo.gpsLng) : "");
+            setCameraMake(photo.cameraMake || "");
+            setCameraModel(photo.cameraModel || "");
+            setError("");
+        }
+    }, [open, photo]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!filename.trim()) {
+            setError("Filename cannot be empty");
+            return;
+        }
+        if ((lat.trim() === "") !== (lng.trim() === "")) {
+            setError("Enter both latitude and longitude, or leave both empty");
+            return;
+        }
+
+        setLoading(true);
+        setError("");
+
+        // Only send the capture time when it was edited, so saving other
+        // fields never rewrites it
+        const initialOffset = photo.dateTakenOffset != null ? String(photo.dateTakenOffset) : "";
+        const dateEdited = dateTaken !== toLocalInput(photo.dateTaken, photo.dateTakenOffset)
+            || (dateTaken !== "" && dateTakenOffset !== initialOffset);
+
+        try {
+            const res = await fetch(`/api/images/${photo.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    originalFilename: filename.trim(),
+                    caption: caption.trim() || null,
+                    ...(dateEdited && {
+                        dateTaken: dateTaken ? fromLocalInput(dateTaken, dateTakenOffset) : null,
+                        dateTakenOffset: dateTaken && dateTakenOffset !== "" ? Number(dateTakenOffset) : null,
+                    }),
+                    gpsLat: lat.trim() ? Number(lat) : null,
+                    gpsLng: lng.trim() ? Number(lng) : null,
+                    cameraMake: cameraMake.trim() || null,
+                    cameraModel: cameraModel.trim() || null,
+                }),
+            });
+
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                setError(typeof data.error === "string" ? data.error : "Please check the values and try again");
+                return;
+            }
+
+            const { affects } = await res.json();
+
+            // Cached timeline/map data is stale once dates or locations move
+            if (affects?.timeline) useTimelineStore.getState().reset();
+            if (affects?.map) useMapStore.getState().invalidate();
+
+            toast.success("Photo details updated");
+            onOpenChange(false);
+            onSuccess?.();
+        } catch (err) {
+            console.error(err);
+            setError("Failed to update photo");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Keep an unusual recorded offset selectable
+    const offsetChoices = photo.dateTakenOffset != null && !UTC_OFFSETS.includes(photo.dateTakenOffset)
+        ? [...UTC_OFFSETS, photo.dateTakenOffset].sort((a, b) => a - b)
+        : UTC_OFFSETS;
+
+    const inputClass = "bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 focus:ring-blue-500 rounded-xl";
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-xl">
+                <DialogHeader className="space-y-3">
+                    <div className="mx-auto w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-2">
+                        <Edit2 className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <DialogTitle className="text-center text-xl font-semibold text-slate-900 dark:text-zinc-100">Edit Photo Details</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4 pt-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="photo-filename" className="text-sm font-medium text-slate-700 dark:text-slate-300">Filename</Label>
+                        <Input id="photo-filename" value={filename} onChange={(e) => setFilename(e.target.value)} className={inputClass} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="photo-caption" className="text-sm font-medium text-slate-700 dark:text-slate-300">Caption</Label>
+                        <Input id="photo-caption" value={caption} onChange={(e) => setCaption(e.target.value)} placeholder="Add a caption" className={inputClass} />
+                    </div>
+                    <div className="grid grid-cols-[1fr_auto] gap-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="photo-date" className="text-sm font-medium text-slate-700 dark:text-slate-300">Date Taken</Label>
+                            <Input id="photo-date" type="datetime-local" step={1} value={dateTaken} onChange={(e) => setDateTaken(e.target.value)} className={inputClass} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="photo-offset" className="text-sm font-medium text-slate-700 dark:text-slate-300">Time Zone</Label>
+                            <select
+                                id="photo-offset"
+                                value={dateTakenOffset}
+                                onChange={(e) => setDateTakenOffset(e.target.value)}
+                                className="h-9 w-full px-3 text-sm border rounded-xl bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">Unknown (yours)</option>
+                                {offsetChoices.map(offset => (
+                                    <option key={offset} value={offset}>{formatUtcOffset(offset)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="photo-lat" className="text-sm font-medium text-slate-700 dark:text-slate-300">Latitude</Label>
+                            <Input id="photo-lat" type="number" step="any" min={-90} max={90} value={lat} onChange={(e) => setLat(e.target.value)} className={inputClass} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="photo-lng" className="text-sm font-medium text-slate-700 dark:text-slate-300">Longitude</Label>
+                            <Input id="photo-lng" type="number" step="any" min={-180} max={180} value={lng} onChange={(e) => setLng(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="photo-make" className="text-sm font-medium text-slate-700 dark:text-slate-300">Camera Make</Label>
+                            <Input id="photo-make" value={cameraMake} onChange={(e) => setCameraMake(e.target.value)} className={inputClass} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="photo-model" className="text-sm font-medium text-slate-700 dark:text-slate-300">Camera Model</Label>
+                            <Input id="photo-model" value={cameraModel} onChange={(e) => setCameraModel(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+
+                    <div className="flex gap-3 pt-2">
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                            className="flex-1 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800"
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            type="submit"
+                            disabled={loading}
+                            className="flex-1 rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg"
+                        >
+                            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                            Save Changes
+                        </Button>
+                    </div>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
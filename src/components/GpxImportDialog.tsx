@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Route } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { captureDisplayDate } from "@/lib/capture-time";
+import { formatPlaceName, type PlaceNames } from "@/lib/place";
+import { useTimelineStore } from "@/stores/useTimelineStore";
+import { useMapStore } from "@/stores/useMapStore";
+
+// Matches the limit of /api/albums/[id]/gpx
+const MAX_GPX_SIZE = 10 * 1024 * 1024;
+
+interface GpxPhoto {
+    id: string;
+    dateTakenOffset?: number | null;
+}
+
+interface MatchEntry extends PlaceNames {
+    id: string;
+    originalFilename: string | null;
+    dateTaken: string;
+    lat: number;
+    lng: number;
+    method: "interpolated" | "nearest";
+    gapSeconds: number;
+    hadLocation: boolean;
+}
+
+interface GpxPreview {
+    track: { name: string | null; pointCount: number; startedAt: string; endedAt: string };
+    matches: MatchEntry[];
+    unmatched: { id: string }[];
+    skipped: { undated: number; located: number };
+}
+
+interface GpxImportDialogProps {
+    albumId: string;
+    photos: GpxPhoto[];  // album photos, for showing capture times on their own clock
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 focus:ring-blue-500 rounded-xl";
+
+export function GpxImportDialog({ albumId, photos, open, onOpenChange, onSuccess }: GpxImportDialogProps) {
+    const [file, setFile] = useState<File | null>(null);
+    const [toleranceMinutes, setToleranceMinutes] = useState("5");
+    const [direction, setDirection] = useState<1 | -1>(1);
+    const [hours, setHours] = useState("0");
+    const [minutes, setMinutes] = useState("0");
+    const [overwrite, setOverwrite] = useState(false);
+
+    const [loading, setLoading] = useState(false);
+    const [preview, setPreview] = useState<GpxPreview | null>(null);
+
+    // Any change to the inputs makes the current preview stale
+    const edit = <T,>(setter: (value: T) => void) => (value: T) => {
+        setter(value);
+        setPreview(null);
+    };
+
+    const submit = async (dryRun: boolean) => {
+        if (!file) {
+            toast.error("Choose a GPX file");
+            return;
+        }
+        if (file.size > MAX_GPX_SIZE) {
+            toast.error("GPX file is too large (max 10 MB)");
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const offset = ((Number(hours) || 0) * 3600 + (Number(minutes) || 0) * 60) * direction;
+            const res = await fetch(`/api/albums/${albumId}/gpx`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    gpx: await file.text(),
+                    toleranceSeconds: Math.round((Number(toleranceMinutes) || 0) * 60),
+                    offsetSeconds: Math.round(offset),
+                    overwrite,
+                    dryRun,
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(typeof data.error === "string" ? data.error : "Failed to import GPX track");
+                return;
+            }
+
+            if (dryRun) {
+                setPreview(data);
+                return;
+            }
+
+            useTimelineStore.getState().reset();
+            useMapStore.getState().invalidate();
+
+            toast.success(`Geotagged ${data.matches.length} ${data.matches.length === 1 ? 'photo' : 'photos'}`);
+            onSuccess();
+            onOpenChange(false);
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to import GPX track");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const offsetOf = (id: string) => photos.find(p => p.id === id)?.dateTakenOffset;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <div className="mx-auto w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-2">
+                        <Route className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <DialogTitle className="text-center text-xl font-semibold text-slate-900 dark:text-zinc-100">
+                        Import GPX Track
+                    </DialogTitle>
+                    <DialogDescription className="text-center text-slate-500 dark:text-slate-400">
+                        Place photos where your GPS logger was when they were taken.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="gpx-file" className="text-sm font-medium text-slate-700 dark:text-slate-300">GPX file</Label>
+                        <Input
+                            id="gpx-file"
+                            type="file"
+                            accept=".gpx,application/gpx+xml"
+                            onChange={(e) => edit(setFile)(e.target.files?.[0] ?? null)}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="gpx-tolerance" className="text-sm font-medium text-slate-700 dark:text-slate-300">Match within (minutes)</Label>
+                        <Input id="gpx-tolerance" type="number" min={0} max={1440} value={toleranceMinutes} onChange={(e) => edit(setToleranceMinutes)(e.target.value)} className={inputClass} />
+                    </div>
+
+                    <div className="space-y-3">
+                        <Label className="text-sm font-medium text-slate-700 dark:text-slate-300">Camera clock correction</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {([1, -1] as const).map(d => (
+                                <button
+                                    key={d}
+                                    type="button"
+                                    onClick={() => edit(setDirection)(d)}
+                                    className={cn(
+                                        "p-2 rounded-xl border text-sm transition-all",
+                                        direction === d
+                                            ? "bg-slate-100 dark:bg-slate-800 border-slate-300 dark:border-slate-600 text-slate-900 dark:text-slate-100"
+                                            : "border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800"
+                                    )}
+                                >
+                                    {d === 1 ? "Camera was behind" : "Camera was ahead"}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="gpx-hours" className="text-sm font-medium text-slate-700 dark:text-slate-300">Hours</Label>
+                                <Input id="gpx-hours" type="number" min={0} value={hours} onChange={(e) => edit(setHours)(e.target.value)} className={inputClass} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="gpx-minutes" className="text-sm font-medium text-slate-700 dark:text-slate-300">Minutes</Label>
+                                <Input id="gpx-minutes" type="number" min={0} value={minutes} onChange={(e) => edit(setMinutes)(e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <Checkbox id="gpx-overwrite" checked={overwrite} onCheckedChange={(checked) => edit(setOverwrite)(checked === true)} />
+                        <Label htmlFor="gpx-overwrite" className="text-sm text-slate-600 dark:text-slate-300">
+                            Also move photos that already have a location
+                        </Label>
+                    </div>
+
+                    {preview && (
+                        <div className="max-h-[220px] overflow-y-auto rounded-xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-800 text-xs">
+                            <p className="p-3 text-slate-500 dark:text-slate-400">
+                                {preview.track.name || "Track"}: {preview.track.pointCount.toLocaleString()} points, {format(new Date(preview.track.startedAt), "PP p")} – {format(new Date(preview.track.endedAt), "PP p")}
+                            </p>
+                            {preview.matches.length === 0 && (
+                                <p className="p-3 text-slate-500 dark:text-slate-400">No photos were taken while this track was recording.</p>
+                            )}
+                            {preview.matches.map(entry => (
+                                <div key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                                    <span className="truncate text-slate-700 dark:text-slate-300">
+                                        {entry.originalFilename || entry.id.slice(0, 8)}
+                                        <span className="ml-2 text-slate-400">{format(captureDisplayDate(entry.dateTaken, offsetOf(entry.id)), "p")}</span>
+                                    </span>
+                                    <span className="shrink-0 text-right text-slate-500 dark:text-slate-400">
+                                        <span className="text-slate-900 dark:text-slate-100">{formatPlaceName(entry) || `${entry.lat.toFixed(5)}, ${entry.lng.toFixed(5)}`}</span>
+                                        {entry.method === "nearest" && entry.gapSeconds > 0 && ` (${entry.gapSeconds}s off track)`}
+                                        {entry.hadLocation && " · replaces location"}
+                                    </span>
+                                </div>
+                            ))}
+                            {(preview.unmatched.length > 0 || preview.skipped.located > 0 || preview.skipped.undated > 0) && (
+                                <p className="p-3 text-slate-500 dark:text-slate-400">
+                                    {[
+                                        preview.unmatched.length > 0 && `${preview.unmatched.length} outside the track`,
+                                        preview.skipped.located > 0 && `${preview.skipped.located} already located`,
+                                        preview.skipped.undated > 0 && `${preview.skipped.undated} without a date taken`,
+                                    ].filter(Boolean).join(", ")} will be left alone.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button
+                        variant="ghost"
+                        onClick={() => onOpenChange(false)}
+                        className="rounded-xl"
+                    >
+                        Cancel
+                    </Button>
+                    {preview ? (
+                        <Button
+                            onClick={() => submit(false)}
+                            disabled={loading || preview.matches.length === 0}
+                            className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-500/20"
+                        >
+                            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Apply
+                        </Button>
+                    ) : (
+                        <Button
+                            onClick={() => submit(true)}
+                            disabled={loading || !file}
+                            className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-500/20"
+                        >
+                            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Preview
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
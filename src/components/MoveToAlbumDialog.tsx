@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Loader2, Images, Copy, ArrowRightLeft, Search } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { fetcher } from "@/lib/fetcher";
+import { flattenFolderTree, type FolderNode } from "@/lib/folder-tree";
+import type { Album } from "@/stores/useAlbumStore";
+
+type TransferMode = "move" | "copy";
+
+interface MoveToAlbumDialogProps {
+    albumId: string;
+    selectedIds: Set<string>;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: (mode: TransferMode) => void;
+}
+
+/**
+ * Move or copy the selected photos into another album the user can edit.
+ */
+export function MoveToAlbumDialog({ albumId, selectedIds, open, onOpenChange, onSuccess }: MoveToAlbumDialogProps) {
+    const [mode, setMode] = useState<TransferMode>("copy");
+    const [search, setSearch] = useState("");
+    const [targetAlbumId, setTargetAlbumId] = useState<string | null>(null);
+    const [targetFolderId, setTargetFolderId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const { data: albumsData, isLoading: albumsLoading } = useSWR<{ albums: Album[] }>(
+        open ? `/api/albums?limit=50${search ? `&search=${encodeURIComponent(search)}` : ""}` : null,
+        fetcher
+    );
+    const { data: foldersData } = useSWR<{ folders: FolderNode[] }>(
+        targetAlbumId ? `/api/albums/${targetAlbumId}/folders` : null,
+        fetcher
+    );
+
+    const albums = (albumsData?.albums || []).filter(a =>
+        a.id !== albumId && (a.taskRole === "owner" || a.taskRole === "editor")
+    );
+    const targetFolders = foldersData?.folders || [];
+    const photoLabel = `${selectedIds.size} ${selectedIds.size === 1 ? "Photo" : "Photos"}`;
+
+    const selectAlbum = (id: string) => {
+        setTargetAlbumId(id);
+        setTargetFolderId(null);
+    };
+
+    const handleTransfer = async () => {
+        if (!targetAlbumId) return;
+
+        setLoading(true);
+        try {
+            const res = await fetch("/api/images/bulk", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    action: mode === "move" ? "moveToAlbum" : "copyToAlbum",
+                    imageIds: Array.from(selectedIds),
+                    albumId,
+                    targetAlbumId,
+                    targetFolderId,
+                }),
+            });
+
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                throw new Error(typeof data.error === "string" ? data.error : `Failed to ${mode} photos`);
+            }
+
+            const data = await res.json();
+            const title = albums.find(a => a.id === targetAlbumId)?.title || "album";
+            toast.success(mode === "move"
+                ? `Moved ${data.movedCount} photos to ${title}`
+                : `Copied ${data.copiedCount} photos to ${title}`);
+            onSuccess(mode);
+            onOpenChange(false);
+        } catch (error) {
+            console.error(error);
+            toast.error(error instanceof Error ? error.message : `Failed to ${mode} photos`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <div className="mx-auto w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-2">
+                        <Images className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <DialogTitle className="text-center text-xl font-semibold text-slate-900 dark:text-zinc-100">
+                        {mode === "move" ? "Move" : "Copy"} {photoLabel} to Album
+                    </DialogTitle>
+                    <DialogDescription className="text-center text-slate-500 dark:text-slate-400">
+                        {mode === "move"
+                            ? "Photos leave this album together with their tags, comments and reactions."
+                            : "Copies keep their tags; this album is left unchanged."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid grid-cols-2 gap-2 p-1 bg-slate-100 dark:bg-slate-800 rounded-xl">
+                    {([
+                        { value: "copy", label: "Copy", icon: Copy },
+                        { value: "move", label: "Move", icon: ArrowRightLeft },
+                    ] as const).map(({ value, label, icon: Icon }) => (
+                        <button
+                            key={value}
+                            onClick={() => setMode(value)}
+                            className={cn(
+                                "flex items-center justify-center gap-2 py-1.5 text-sm font-medium rounded-lg transition-all",
+                                mode === value
+                                    ? "bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm"
+                                    : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+                            )}
+                        >
+                            <Icon className="h-4 w-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                    <Input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search albums"
+                        className="pl-9 bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-xl"
+                    />
+                </div>
+
+                <div className="grid gap-2 max-h-[240px] overflow-y-auto py-1 px-1">
+                    {albumsLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />
+                        </div>
+                    ) : albums.length === 0 ? (
+                        <p className="py-8 text-center text-sm text-slate-400">No other albums you can edit</p>
+                    ) : (
+                        albums.map(album => (
+                            <button
+                                key={album.id}
+                                onClick={() => selectAlbum(album.id)}
+                                className={cn(
+                                    "flex items-center gap-3 p-2 rounded-xl transition-all border text-left",
+                                    targetAlbumId === album.id
+                                        ? "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300"
+                                        : "hover:bg-slate-50 dark:hover:bg-slate-800 border-transparent hover:border-slate-200 dark:hover:border-slate-700 text-slate-700 dark:text-slate-300"
+                                )}
+                            >
+                                <div className="w-10 h-10 shrink-0 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
+                                    {album.coverImageUrl ? (
+                                        <img src={album.coverImageUrl} alt="" className="w-full h-full object-cover" />
+                                    ) : (
+                                        <Images className="h-4 w-4 text-slate-400" />
+                                    )}
+                                </div>
+                                <span className="font-medium truncate">{album.title}</span>
+                                {targetAlbumId === album.id && <div className="ml-auto w-2 h-2 shrink-0 rounded-full bg-blue-500" />}
+                            </button>
+                        ))
+                    )}
+                </div>
+
+                {targetAlbumId && targetFolders.length > 0 && (
+                    <div className="space-y-2">
+                        <Label htmlFor="target-folder" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            Folder
+                        </Label>
+                        <select
+                            id="target-folder"
+                            value={targetFolderId || ""}
+                            onChange={(e) => setTargetFolderId(e.target.value || null)}
+                            className="w-full h-9 px-3 text-sm border bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-xl text-slate-700 dark:text-slate-200"
+                        >
+                            <option value="">Album root</option>
+                            {flattenFolderTree(targetFolders).map(({ folder, depth }) => (
+                                <option key={folder.id} value={folder.id}>
+                                    {"  ".repeat(depth)}{folder.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button variant="ghost" onClick={() => onOpenChange(false)} className="rounded-xl">
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleTransfer}
+                        disabled={loading || !targetAlbumId}
+                        className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-500/20"
+                    >
+                        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {mode === "move" ? "Move Photos" : "Copy Photos"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -6,16 +6,20 @@ import { Loader2, Folder, FolderOpen } from "lucide-react";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { flattenFolderTree, getSubtreeIds } from "@/lib/folder-tree";
 
 interface Folder {
     id: string;
     name: string;
+    parentId?: string | null;
 }
 
 interface MoveToFolderDialogProps {
     albumId: string;
     folders: Folder[];
     selectedIds: Set<string>;
+    /** Folders to move (with their subfolders) instead of photos */
+    selectedFolderIds?: string[];
     currentFolderId: string | null;
     open: boolean;
     onOpenChange: (open: boolean) => void;
@@ -26,6 +30,7 @@ export function MoveToFolderDialog({
     albumId,
     folders,
     selectedIds,
+    selectedFolderIds = [],
     currentFolderId,
     open,
     onOpenChange,
@@ -35,11 +40,22 @@ export function MoveToFolderDialog({
     const [targetFolderId, setTargetFolderId] = useState<string | null>(null);
     const router = useRouter();
 
+    const movingFolders = selectedFolderIds.length > 0;
+    const itemLabel = movingFolders
+        ? `${selectedFolderIds.length} ${selectedFolderIds.length === 1 ? 'Folder' : 'Folders'}`
+        : `${selectedIds.size} ${selectedIds.size === 1 ? 'Photo' : 'Photos'}`;
+
+    // A folder can't be moved into itself or anything below it
+    const blockedIds = new Set<string>();
+    for (const id of selectedFolderIds) {
+        getSubtreeIds(folders, id).forEach(blocked => blockedIds.add(blocked));
+    }
+
     const handleMove = async () => {
         // Prevent moving to same folder if that's what's selected (though logic allows null correctly)
         // If currentFolderId is null (root) and target is null (root), or equal
         if (currentFolderId === targetFolderId) {
-            toast.info("Images are already in this folder");
+            toast.info(movingFolders ? "Folders are already here" : "Images are already in this folder");
             return;
         }
 
@@ -50,22 +66,26 @@ export function MoveToFolderDialog({
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     action: 'move',
-                    imageIds: Array.from(selectedIds),
+                    imageIds: movingFolders ? [] : Array.from(selectedIds),
+                    folderIds: selectedFolderIds,
                     albumId,
                     targetFolderId,
                 }),
             });
 
-            if (!res.ok) throw new Error("Failed to move photos");
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                throw new Error(typeof data.error === "string" ? data.error : "Failed to move");
+            }
 
             const data = await res.json();
-            toast.success(`Moved ${data.movedCount} photos`);
+            toast.success(movingFolders ? `Moved ${data.movedFolderCount} folders` : `Moved ${data.movedCount} photos`);
             onSuccess();
             onOpenChange(false);
             router.refresh();
         } catch (error) {
             console.error(error);
-            toast.error("Failed to move photos");
+            toast.error(error instanceof Error ? error.message : "Failed to move");
         } finally {
             setLoading(false);
         }
@@ -79,10 +99,10 @@ export function MoveToFolderDialog({
                         <FolderOpen className="h-6 w-6 text-blue-600 dark:text-blue-400" />
                     </div>
                     <DialogTitle className="text-center text-xl font-semibold text-slate-900 dark:text-zinc-100">
-                        Move {selectedIds.size} {selectedIds.size === 1 ? 'Photo' : 'Photos'}
+                        Move {itemLabel}
                     </DialogTitle>
                     <DialogDescription className="text-center text-slate-500 dark:text-slate-400">
-                        Choose a destination folder for your selected photos.
+                        Choose a destination folder for your selected {movingFolders ? "folders" : "photos"}.
                     </DialogDescription>
                 </DialogHeader>
 
@@ -105,17 +125,18 @@ export function MoveToFolderDialog({
                     </button>
 
                     {/* Folder Options */}
-                    {folders.map(folder => (
+                    {flattenFolderTree(folders).map(({ folder, depth }) => (
                         <button
                             key={folder.id}
                             onClick={() => setTargetFolderId(folder.id)}
-                            disabled={folder.id === currentFolderId} // Can't move to *current* folder (already there), but logic handled in handleMove too
+                            disabled={folder.id === currentFolderId || blockedIds.has(folder.id)} // Can't move to *current* folder (already there), but logic handled in handleMove too
+                            style={{ marginLeft: depth * 20 }}
                             className={cn(
                                 "flex items-center gap-3 p-3 rounded-xl transition-all border text-left",
                                 targetFolderId === folder.id
                                     ? "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300"
                                     : "hover:bg-slate-50 dark:hover:bg-slate-800 border-transparent hover:border-slate-200 dark:hover:border-slate-700 text-slate-700 dark:text-slate-300",
-                                folder.id === currentFolderId && "opacity-50 cursor-default"
+                                (folder.id === currentFolderId || blockedIds.has(folder.id)) && "opacity-50 cursor-default"
                             )}
                         >
                             <div className="bg-slate-100 dark:bg-slate-800 p-2 rounded-lg">
@@ -142,7 +163,7 @@ export function MoveToFolderDialog({
                         className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-500/20"
                     >
                         {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        Move Photos
+                        Move {movingFolders ? "Folders" : "Photos"}
                     </Button>
                 </DialogFooter>
             </DialogContent>
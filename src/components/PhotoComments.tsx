@@ -0,0 +1,276 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import useSWR from "swr";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, MessageCircle, Send, Reply, Edit2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { fetcher } from "@/lib/fetcher";
+
+interface Comment {
+    id: string;
+    parentId: string | null;
+    body: string | null;
+    deleted: boolean;
+    user: { id: string; name: string; avatarUrl: string | null } | null;
+    createdAt: string;
+    editedAt: string | null;
+    canEdit: boolean;
+    canDelete: boolean;
+}
+
+interface PhotoCommentsProps {
+    imageId: string;
+    canComment: boolean;
+}
+
+// Replies deeper than this are shown at the same indentation
+const MAX_INDENT = 3;
+
+const textareaClass = "w-full resize-none text-sm px-3 py-2 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-slate-100";
+
+export function PhotoComments({ imageId, canComment }: PhotoCommentsProps) {
+    const { data, error, isLoading, mutate } = useSWR<{ comments: Comment[] }>(`/api/images/${imageId}/comments`, fetcher);
+
+    const [draft, setDraft] = useState("");
+    const [replyTo, setReplyTo] = useState<string | null>(null);
+    const [replyDraft, setReplyDraft] = useState("");
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+
+    const comments = useMemo(() => data?.comments || [], [data]);
+
+    const childrenByParent = useMemo(() => {
+        const map = new Map<string | null, Comment[]>();
+        for (const comment of comments) {
+            const key = comment.parentId;
+            if (!map.has(key)) map.set(key, []);
+            map.get(key)!.push(comment);
+        }
+        return map;
+    }, [comments]);
+
+    const postComment = async (body: string, parentId: string | null) => {
+        if (!body.trim()) return false;
+        setSubmitting(true);
+        try {
+            const res = await fetch(`/api/images/${imageId}/comments`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ body, parentId }),
+            });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                toast.error(typeof data.error === "string" ? data.error : "Failed to post comment");
+                return false;
+            }
+            await mutate();
+            return true;
+        } catch {
+            toast.error("Failed to post comment");
+            return false;
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const saveEdit = async (commentId: string) => {
+        if (!editDraft.trim()) return;
+        setSubmitting(true);
+        try {
+            const res = await fetch(`/api/images/${imageId}/comments/${commentId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ body: editDraft }),
+            });
+            if (!res.ok) throw new Error("Failed to update comment");
+            setEditingId(null);
+            await mutate();
+        } catch {
+            toast.error("Failed to update comment");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const deleteComment = async (commentId: string) => {
+        try {
+            const res = await fetch(`/api/images/${imageId}/comments/${commentId}`, { method: "DELETE" });
+            if (!res.ok) throw new Error("Failed to delete comment");
+            await mutate();
+        } catch {
+            toast.error("Failed to delete comment");
+        }
+    };
+
+    const renderComment = (comment: Comment, depth: number): React.ReactNode => {
+        const replies = childrenByParent.get(comment.id) || [];
+
+        return (
+            <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT ? "ml-6" : undefined}>
+                <div className="flex gap-2.5 py-2">
+                    <Avatar className="h-7 w-7 flex-shrink-0 border border-slate-100 dark:border-slate-700">
+                        <AvatarImage src={comment.user?.avatarUrl || undefined} />
+                        <AvatarFallback className="bg-slate-100 dark:bg-slate-800 text-slate-500 text-xs">
+                            {comment.user?.name?.charAt(0) || "?"}
+                        </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                        {comment.deleted ? (
+                            <p className="text-sm italic text-slate-400">Comment deleted</p>
+                        ) : (
+                            <>
+                                <div className="flex items-baseline gap-2">
+                                    <span className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                                        {comment.user?.name || "Unknown User"}
+                                    </span>
+                                    <span className="text-xs text-slate-400 whitespace-nowrap">
+                                        {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                                        {comment.editedAt && " · edited"}
+                                    </span>
+                                </div>
+
+                                {editingId === comment.id ? (
+                                    <div className="mt-1 space-y-2">
+                                        <textarea
+                                            value={editDraft}
+                                            onChange={(e) => setEditDraft(e.target.value)}
+                                            rows={2}
+                                            className={textareaClass}
+                                            autoFocus
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <Button size="sm" variant="ghost" className="rounded-lg h-7" onClick={() => setEditingId(null)}>
+                                                Cancel
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                className="rounded-lg h-7 bg-blue-600 hover:bg-blue-700 text-white"
+                                                disabled={submitting || !editDraft.trim()}
+                                                onClick={() => saveEdit(comment.id)}
+                                            >
+                                                Save
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap break-words">
+                                        {comment.body}
+                                    </p>
+                                )}
+
+                                <div className="flex items-center gap-3 mt-1 text-xs text-slate-400">
+                                    {canComment && (
+                                        <button
+                                            onClick={() => { setReplyTo(comment.id); setReplyDraft(""); }}
+                                            className="inline-flex items-center gap-1 hover:text-blue-500 transition-colors"
+                                        >
+                                            <Reply className="h-3 w-3" /> Reply
+                                        </button>
+                                    )}
+                                    {comment.canEdit && editingId !== comment.id && (
+                                        <button
+                                            onClick={() => { setEditingId(comment.id); setEditDraft(comment.body || ""); }}
+                                            className="inline-flex items-center gap-1 hover:text-blue-500 transition-colors"
+                                        >
+                                            <Edit2 className="h-3 w-3" /> Edit
+                                        </button>
+                                    )}
+                                    {comment.canDelete && (
+                                        <button
+                                            onClick={() => deleteComment(comment.id)}
+                                            className="inline-flex items-center gap-1 hover:text-red-500 transition-colors"
+                                        >
+                                            <Trash2 className="h-3 w-3" /> Delete
+                                        </button>
+                                    )}
+                                </div>
+                            </>
+                        )}
+
+                        {replyTo === comment.id && (
+                            <form
+                                className="mt-2 flex gap-2"
+                                onSubmit={async (e) => {
+                                    e.preventDefault();
+                                    if (await postComment(replyDraft, comment.id)) {
+                                        setReplyTo(null);
+                                        setReplyDraft("");
+                                    }
+                                }}
+                            >
+                                <textarea
+                                    value={replyDraft}
+                                    onChange={(e) => setReplyDraft(e.target.value)}
+                                    rows={1}
+                                    placeholder="Write a reply..."
+                                    className={textareaClass}
+                                    autoFocus
+                                />
+                                <Button type="submit" size="icon" className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0" disabled={submitting || !replyDraft.trim()}>
+                                    <Send className="h-4 w-4" />
+                                </Button>
+                            </form>
+                        )}
+                    </div>
+                </div>
+
+                {replies.map(reply => renderComment(reply, depth + 1))}
+            </div>
+        );
+    };
+
+    const topLevel = childrenByParent.get(null) || [];
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                <MessageCircle className="h-4 w-4 text-slate-500" />
+                <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Comments</h3>
+                {comments.length > 0 && (
+                    <span className="text-xs text-slate-400">{comments.filter(c => !c.deleted).length}</span>
+                )}
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 px-4">
+                {isLoading ? (
+                    <div className="flex items-center justify-center h-32 text-slate-400">
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                    </div>
+                ) : error ? (
+                    <p className="py-6 text-center text-sm text-red-500">Failed to load comments</p>
+                ) : topLevel.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-slate-400">No comments yet</p>
+                ) : (
+                    <div className="py-2">{topLevel.map(comment => renderComment(comment, 0))}</div>
+                )}
+            </ScrollArea>
+
+            {canComment && (
+                <form
+                    className="flex gap-2 p-3 border-t border-slate-100 dark:border-slate-800"
+                    onSubmit={async (e) => {
+                        e.preventDefault();
+                        if (await postComment(draft, null)) setDraft("");
+                    }}
+                >
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={1}
+                        placeholder="Add a comment..."
+                        className={textareaClass}
+                    />
+                    <Button type="submit" size="icon" className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white flex-shrink-0" disabled={submitting || !draft.trim()}>
+                        {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                    </Button>
+                </form>
+            )}
+        </div>
+    );
+}
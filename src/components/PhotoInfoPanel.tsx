@@ -0,0 +1,135 @@
+"use client";
+
+import { format } from "date-fns";
+import { Aperture, Calendar, Camera, Info, MapPin, Image as ImageIcon } from "lucide-react";
+import type { ReactNode } from "react";
+
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { formatBytes } from "@/lib/utils";
+import {
+    formatAperture,
+    formatExposureTime,
+    formatFocalLength,
+    formatOrientation,
+    type PhotoMetadata,
+} from "@/lib/exif";
+import { captureDisplayDate, formatUtcOffset, type CaptureDateMode } from "@/lib/capture-time";
+import { formatPlaceName, type PlaceNames } from "@/lib/place";
+
+export interface PhotoInfo extends PlaceNames {
+    originalFilename?: string | null;
+    dateTaken?: string | Date | null;
+    dateTakenOffset?: number | null;
+    width?: number | null;
+    height?: number | null;
+    size?: number | null;
+    mimeType?: string | null;
+    cameraMake?: string | null;
+    cameraModel?: string | null;
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+    metadata?: PhotoMetadata | null;
+}
+
+function Section({ icon, title, children }: { icon: ReactNode; title: string; children: ReactNode }) {
+    return (
+        <div className="flex gap-3 py-3">
+            <div className="mt-0.5 text-slate-400">{icon}</div>
+            <div className="flex-1 min-w-0 space-y-0.5">
+                <p className="text-sm font-medium text-slate-900 dark:text-slate-100 break-words">{title}</p>
+                {children}
+            </div>
+        </div>
+    );
+}
+
+function Detail({ children }: { children: ReactNode }) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400 break-words">{children}</p>;
+}
+
+/**
+ * Side panel in the photo viewer listing what the photo's EXIF recorded:
+ * camera and lens, exposure, size, when and where it was taken (the place
+ * name when one was resolved, and the coordinates).
+ */
+export function PhotoInfoPanel({ photo, dateMode = "local" }: { photo: PhotoInfo; dateMode?: CaptureDateMode }) {
+    const meta = photo.metadata || {};
+    const taken = photo.dateTaken ? captureDisplayDate(photo.dateTaken, photo.dateTakenOffset, dateMode) : null;
+    const showsOffset = dateMode === "local" && photo.dateTakenOffset != null;
+
+    // Many makers repeat the make in the model ("Canon" / "Canon EOS R6")
+    const camera = photo.cameraMake && photo.cameraModel && !photo.cameraModel.toLowerCase().startsWith(photo.cameraMake.toLowerCase())
+        ? `${photo.cameraMake} ${photo.cameraModel}`
+        : photo.cameraModel || photo.cameraMake;
+    const lens = meta.lensModel || meta.lensMake;
+    const place = formatPlaceName(photo);
+
+    const exposure = [
+        meta.aperture != null && formatAperture(meta.aperture),
+        meta.exposureTime != null && formatExposureTime(meta.exposureTime),
+        meta.iso != null && `ISO ${meta.iso}`,
+    ].filter(Boolean).join(" · ");
+
+    const focal = meta.focalLength != null
+        ? formatFocalLength(meta.focalLength) + (meta.focalLength35mm && meta.focalLength35mm !== meta.focalLength ? ` (${meta.focalLength35mm} mm equiv.)` : "")
+        : meta.focalLength35mm != null ? `${meta.focalLength35mm} mm equiv.` : null;
+
+    const fileDetails = [
+        photo.width && photo.height && `${Number(((photo.width * photo.height) / 1_000_000).toFixed(1))} MP`,
+        photo.width && photo.height && `${photo.width} × ${photo.height}`,
+        photo.size && formatBytes(photo.size),
+    ].filter(Boolean).join(" · ");
+
+    const hasShootingData = !!(camera || lens || exposure || focal || meta.flash != null);
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                <Info className="h-4 w-4 text-slate-500" />
+                <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Info</h3>
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 px-4">
+                <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {taken && (
+                        <Section icon={<Calendar className="h-4 w-4" />} title={format(taken, "MMM d, yyyy")}>
+                            <Detail>
+                                {format(taken, "EEEE, h:mm a")}
+                                {showsOffset ? ` (${formatUtcOffset(photo.dateTakenOffset!)})` : ""}
+                            </Detail>
+                        </Section>
+                    )}
+
+                    <Section icon={<ImageIcon className="h-4 w-4" />} title={photo.originalFilename || "Untitled"}>
+                        {fileDetails && <Detail>{fileDetails}</Detail>}
+                        {meta.orientation != null && meta.orientation !== 1 && (
+                            <Detail>Orientation: {formatOrientation(meta.orientation)}</Detail>
+                        )}
+                    </Section>
+
+                    {hasShootingData && (
+                        <Section icon={<Camera className="h-4 w-4" />} title={camera || "Unknown camera"}>
+                            {lens && <Detail>{lens}</Detail>}
+                            {exposure && <Detail>{exposure}</Detail>}
+                            {focal && <Detail>{focal}</Detail>}
+                            {meta.flash != null && <Detail>{meta.flash ? "Flash fired" : "No flash"}</Detail>}
+                        </Section>
+                    )}
+
+                    {photo.gpsLat != null && photo.gpsLng != null && (
+                        <Section icon={<MapPin className="h-4 w-4" />} title={place || `${photo.gpsLat.toFixed(5)}, ${photo.gpsLng.toFixed(5)}`}>
+                            {place && <Detail>{photo.gpsLat.toFixed(5)}, {photo.gpsLng.toFixed(5)}</Detail>}
+                            {meta.altitude != null && <Detail>Altitude {Math.round(meta.altitude)} m</Detail>}
+                        </Section>
+                    )}
+
+                    {!hasShootingData && !photo.dateTaken && photo.gpsLat == null && (
+                        <Section icon={<Aperture className="h-4 w-4" />} title="No camera data">
+                            <Detail>This photo carries no EXIF information.</Detail>
+                        </Section>
+                    )}
+                </div>
+            </ScrollArea>
+        </div>
+    );
+}
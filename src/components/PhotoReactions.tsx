@@ -0,0 +1,111 @@
+"use client";
+
+import useSWR from "swr";
+import { Heart, ThumbsUp, Star } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import { fetcher } from "@/lib/fetcher";
+
+type ReactionType = "like" | "heart";
+
+interface ReactionSummary {
+    counts: Record<ReactionType, number>;
+    mine: ReactionType[];
+    starred: boolean;
+}
+
+interface PhotoReactionsProps {
+    imageId: string;
+    canReact: boolean;
+}
+
+const REACTIONS: { type: ReactionType; icon: typeof Heart; label: string; activeClass: string }[] = [
+    { type: "heart", icon: Heart, label: "Love", activeClass: "text-rose-400 fill-rose-400" },
+    { type: "like", icon: ThumbsUp, label: "Like", activeClass: "text-sky-400 fill-sky-400" },
+];
+
+const buttonClass = "p-3 bg-black/20 hover:bg-black/40 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 flex items-center gap-1.5 disabled:opacity-60";
+
+/**
+ * Reaction and star buttons for the photo viewer overlay.
+ */
+export function PhotoReactions({ imageId, canReact }: PhotoReactionsProps) {
+    const { data, mutate } = useSWR<ReactionSummary>(`/api/images/${imageId}/reactions?limit=1`, fetcher);
+
+    const toggleReaction = async (type: ReactionType) => {
+        if (!data) return;
+        const active = data.mine.includes(type);
+
+        // Optimistic update
+        mutate({
+            ...data,
+            counts: { ...data.counts, [type]: data.counts[type] + (active ? -1 : 1) },
+            mine: active ? data.mine.filter(t => t !== type) : [...data.mine, type],
+        }, false);
+
+        try {
+            const res = await fetch(`/api/images/${imageId}/reactions`, {
+                method: active ? "DELETE" : "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ type }),
+            });
+            if (!res.ok) throw new Error("Failed to update reaction");
+            const summary = await res.json();
+            mutate({ ...data, ...summary }, false);
+        } catch {
+            toast.error("Failed to update reaction");
+            mutate();
+        }
+    };
+
+    const toggleStar = async () => {
+        if (!data) return;
+        const starred = !data.starred;
+        mutate({ ...data, starred }, false);
+
+        try {
+            const res = await fetch("/api/images/starred", {
+                method: starred ? "POST" : "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ imageId }),
+            });
+            if (!res.ok) throw new Error("Failed to update star");
+        } catch {
+            toast.error("Failed to update star");
+            mutate();
+        }
+    };
+
+    return (
+        <>
+            {REACTIONS.map(({ type, icon: Icon, label, activeClass }) => {
+                const active = !!data?.mine.includes(type);
+                const count = data?.counts[type] || 0;
+                return (
+                    <button
+                        key={type}
+                        onClick={(e) => { e.stopPropagation(); toggleReaction(type); }}
+                        disabled={!canReact || !data}
+                        className={buttonClass}
+                        title={label}
+                    >
+                        <Icon className={cn("h-5 w-5", active && activeClass)} />
+                        {count > 0 && <span className="text-sm font-medium">{count}</span>}
+                    </button>
+                );
+            })}
+
+            {canReact && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); toggleStar(); }}
+                    disabled={!data}
+                    className={buttonClass}
+                    title={data?.starred ? "Unstar" : "Star (only visible to you)"}
+                >
+                    <Star className={cn("h-5 w-5", data?.starred && "text-amber-400 fill-amber-400")} />
+                </button>
+            )}
+        </>
+    );
+}
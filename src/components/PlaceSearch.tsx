@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { MapPin, X } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+interface PlaceSearchProps {
+    value: string;
+    onChange: (value: string) => void;
+    className?: string;
+}
+
+/**
+ * Search box for place names ("Chiang Mai", "Japan"). Applied on Enter or
+ * blur rather than per key, since each search refetches the photo list.
+ */
+export function PlaceSearch({ value, onChange, className }: PlaceSearchProps) {
+    const [draft, setDraft] = useState(value);
+    const [applied, setApplied] = useState(value);
+
+    // Follow changes made elsewhere (store reset)
+    if (applied !== value) {
+        setApplied(value);
+        setDraft(value);
+    }
+
+    const apply = () => {
+        if (draft.trim() !== value) onChange(draft.trim());
+    };
+
+    return (
+        <div
+            className={cn(
+                "inline-flex items-center gap-2 h-9 pl-3 pr-1 rounded-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 shadow-sm focus-within:ring-2 focus-within:ring-blue-500",
+                className
+            )}
+        >
+            <MapPin className={cn("h-4 w-4 shrink-0", value ? "text-blue-500" : "text-slate-400")} />
+            <input
+                type="search"
+                value={draft}
+                placeholder="Search places..."
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={apply}
+                onKeyDown={(e) => e.key === "Enter" && apply()}
+                className="w-36 min-w-0 bg-transparent text-sm text-slate-600 dark:text-slate-300 placeholder:text-slate-400 focus:outline-none [&::-webkit-search-cancel-button]:hidden"
+                aria-label="Search by place"
+            />
+            {value ? (
+                <button
+                    onClick={() => onChange("")}
+                    className="inline-flex items-center justify-center w-7 h-7 rounded-full text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                    title="Clear place search"
+                >
+                    <X className="h-3.5 w-3.5" />
+                </button>
+            ) : (
+                <span className="w-2" />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Loader2, CopyCheck, Trash2, ImageIcon } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { fetcher } from "@/lib/fetcher";
+
+interface SimilarImage {
+    id: string;
+    originalFilename: string | null;
+    size: number | null;
+    width: number | null;
+    height: number | null;
+    distance: number;
+    thumbUrl: string;
+}
+
+interface SimilarGroup {
+    keepId: string;
+    images: SimilarImage[];
+}
+
+interface ReviewDuplicatesDialogProps {
+    albumId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+const SENSITIVITY_OPTIONS = [
+    { value: 5, label: "Strict" },
+    { value: 10, label: "Normal" },
+    { value: 16, label: "Loose" },
+];
+
+/**
+ * Near-duplicate review for one album: groups of look-alike photos with a
+ * suggested keeper. Clicking a photo picks a different keeper; the rest of
+ * the group goes to trash.
+ */
+export function ReviewDuplicatesDialog({ albumId, open, onOpenChange, onSuccess }: ReviewDuplicatesDialogProps) {
+    const [threshold, setThreshold] = useState(10);
+    const [keepOverrides, setKeepOverrides] = useState<Record<number, string>>({});
+    const [trashing, setTrashing] = useState<number | "all" | null>(null);
+
+    const { data, isLoading, mutate } = useSWR<{ groups: SimilarGroup[] }>(
+        open ? `/api/albums/${albumId}/duplicates?threshold=${threshold}` : null,
+        fetcher
+    );
+    const groups = data?.groups || [];
+
+    const keeperOf = (group: SimilarGroup, index: number) => keepOverrides[index] || group.keepId;
+
+    const trashOthers = async (indexes: number[], key: number | "all") => {
+        const imageIds = indexes.flatMap(i => groups[i].images
+            .filter(img => img.id !== keeperOf(groups[i], i))
+            .map(img => img.id));
+        if (imageIds.length === 0) return;
+
+        setTrashing(key);
+        try {
+            // Bulk delete takes at most 100 photos per request
+            let deleted = 0;
+            for (let i = 0; i < imageIds.length; i += 100) {
+                const res = await fetch("/api/images/bulk", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ action: "delete", albumId, imageIds: imageIds.slice(i, i + 100) }),
+                });
+                if (!res.ok) throw new Error("Failed to move photos to trash");
+                const result = await res.json();
+                deleted += result.deletedCount || 0;
+            }
+
+            toast.success(`Moved ${deleted} photo${deleted !== 1 ? "s" : ""} to trash`);
+            setKeepOverrides({});
+            mutate();
+            onSuccess();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to move photos to trash");
+        } finally {
+            setTrashing(null);
+        }
+    };
+
+    const formatDetails = (img: SimilarImage) => {
+        const parts = [];
+        if (img.width && img.height) parts.push(`${img.width}×${img.height}`);
+        if (img.size) parts.push(img.size < 1024 * 1024 ? `${Math.round(img.size / 1024)} KB` : `${(img.size / (1024 * 1024)).toFixed(1)} MB`);
+        return parts.join(" · ");
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-2xl max-h-[80vh] flex flex-col rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <CopyCheck className="h-5 w-5 text-slate-500 dark:text-slate-400" />
+                        Review duplicates
+                    </DialogTitle>
+                    <DialogDescription className="text-slate-500 dark:text-slate-400">
+                        Bursts, re-saves and resized copies in this album. The suggested photo has the highest resolution; click another to keep it instead.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center justify-between gap-3">
+                    <select
+                        value={threshold}
+                        onChange={(e) => {
+                            setThreshold(Number(e.target.value));
+                            setKeepOverrides({});
+                        }}
+                        className="h-8 px-3 text-sm border bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-200"
+                    >
+                        {SENSITIVITY_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label} matching</option>
+                        ))}
+                    </select>
+                    {groups.length > 0 && (
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8 px-3 text-xs rounded-lg border-slate-200 dark:border-slate-600 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                            onClick={() => trashOthers(groups.map((_, i) => i), "all")}
+                            disabled={trashing !== null}
+                        >
+                            {trashing === "all" ? <Loader2 className="h-3 w-3 mr-1.5 animate-spin" /> : <Trash2 className="h-3 w-3 mr-1.5" />}
+                            Keep selected in all groups
+                        </Button>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto -mx-1 px-1">
+                    {isLoading ? (
+                        <div className="flex justify-center items-center py-12">
+                            <Loader2 className="h-6 w-6 text-blue-500 animate-spin" />
+                        </div>
+                    ) : groups.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-12 text-center text-slate-400">
+                            <CopyCheck className="h-8 w-8 text-slate-300 mb-3" />
+                            <p className="text-sm">No similar photos found</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {groups.map((group, index) => {
+                                const keepId = keeperOf(group, index);
+                                return (
+                                    <div key={group.images.map(img => img.id).join()} className="p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-3">
+                                        <div className="flex items-center justify-between gap-3">
+                                            <p className="text-sm font-medium text-slate-800 dark:text-slate-100">
+                                                {group.images.length} similar photos
+                                            </p>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                className="h-8 px-3 text-xs rounded-lg text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                                                onClick={() => trashOthers([index], index)}
+                                                disabled={trashing !== null}
+                                            >
+                                                {trashing === index ? <Loader2 className="h-3 w-3 animate-spin" /> : `Trash ${group.images.length - 1} other${group.images.length > 2 ? "s" : ""}`}
+                                            </Button>
+                                        </div>
+                                        <div className="flex gap-2 overflow-x-auto pb-1">
+                                            {group.images.map(image => (
+                                                <button
+                                                    key={image.id}
+                                                    onClick={() => setKeepOverrides(prev => ({ ...prev, [index]: image.id }))}
+                                                    className="w-28 shrink-0 space-y-1 text-left"
+                                                >
+                                                    <div className={cn(
+                                                        "relative w-28 h-28 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-700 flex items-center justify-center transition-all",
+                                                        image.id === keepId ? "ring-2 ring-blue-500" : "opacity-70 hover:opacity-100"
+                                                    )}>
+                                                        {image.thumbUrl ? (
+                                                            <img src={image.thumbUrl} alt="" className="w-full h-full object-cover" />
+                                                        ) : (
+                                                            <ImageIcon className="h-5 w-5 text-slate-400" />
+                                                        )}
+                                                        {image.id === keepId && (
+                                                            <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded-md bg-blue-600 text-[10px] font-medium text-white">
+                                                                {image.id === group.keepId ? "Suggested" : "Keep"}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    <p className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">{image.originalFilename || "Untitled"}</p>
+                                                    <p className="text-[11px] text-slate-400 truncate">{formatDetails(image)}</p>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Map, { Marker, NavigationControl } from "react-map-gl/mapbox";
+import type { MapMouseEvent } from "react-map-gl/mapbox";
+import { formatDistanceStrict } from "date-fns";
+import { Loader2, MapPin, MapPinOff } from "lucide-react";
+import { toast } from "sonner";
+import "mapbox-gl/dist/mapbox-gl.css";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { formatPlaceName, type PlaceNames } from "@/lib/place";
+import { useTimelineStore } from "@/stores/useTimelineStore";
+import { useMapStore } from "@/stores/useMapStore";
+
+const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || "";
+
+// Photos offered to copy a location from, nearest in time first
+const MAX_NEIGHBOURS = 20;
+
+interface LocationPhoto extends PlaceNames {
+    id: string;
+    originalFilename?: string | null;
+    thumbUrl?: string;
+    url?: string;
+    dateTaken?: string | null;
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+}
+
+interface SetLocationDialogProps {
+    albumId: string;
+    photos: LocationPhoto[];        // the selection
+    albumPhotos: LocationPhoto[];   // candidates to copy a location from
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+type Mode = "pin" | "copy" | "clear";
+
+const MODES: { value: Mode; label: string }[] = [
+    { value: "pin", label: "Drop a pin" },
+    { value: "copy", label: "Copy from photo" },
+    { value: "clear", label: "Remove" },
+];
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 focus:ring-blue-500 rounded-xl";
+
+function parseCoordinate(value: string, limit: number) {
+    const num = Number(value);
+    return value.trim() !== "" && Number.isFinite(num) && Math.abs(num) <= limit ? num : null;
+}
+
+export function SetLocationDialog({ albumId, photos, albumPhotos, open, onOpenChange, onSuccess }: SetLocationDialogProps) {
+    // Start from where the selection already is, if anywhere
+    const located = photos.find(p => p.gpsLat != null && p.gpsLng != null);
+
+    const [mode, setMode] = useState<Mode>("pin");
+    const [lat, setLat] = useState(located ? String(located.gpsLat) : "");
+    const [lng, setLng] = useState(located ? String(located.gpsLng) : "");
+    const [sourceImageId, setSourceImageId] = useState("");
+    const [loading, setLoading] = useState(false);
+
+    // Geotagged photos outside the selection, closest in capture time to it
+    const neighbours = useMemo(() => {
+        const selected = new Set(photos.map(p => p.id));
+        const times = photos.filter(p => p.dateTaken).map(p => new Date(p.dateTaken!).getTime());
+        const reference = times.length > 0 ? times.reduce((sum, t) => sum + t, 0) / times.length : null;
+
+        return albumPhotos
+            .filter(p => !selected.has(p.id) && p.gpsLat != null && p.gpsLng != null)
+            .map(p => ({
+                photo: p,
+                gap: reference != null && p.dateTaken ? new Date(p.dateTaken).getTime() - reference : null,
+            }))
+            .sort((a, b) => (a.gap == null ? Infinity : Math.abs(a.gap)) - (b.gap == null ? Infinity : Math.abs(b.gap)))
+            .slice(0, MAX_NEIGHBOURS);
+    }, [photos, albumPhotos]);
+
+    const pinLat = parseCoordinate(lat, 90);
+    const pinLng = parseCoordinate(lng, 180);
+    const hasPin = pinLat != null && pinLng != null;
+
+    const onMapClick = (e: MapMouseEvent) => {
+        setLat(e.lngLat.lat.toFixed(6));
+        setLng(e.lngLat.lng.toFixed(6));
+    };
+
+    const canApply = mode === "pin" ? hasPin : mode === "copy" ? !!sourceImageId : true;
+
+    const submit = async () => {
+        if (!canApply) {
+            toast.error(mode === "pin" ? "Drop a pin or enter coordinates" : "Choose a photo to copy from");
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const res = await fetch('/api/images/bulk', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'setLocation',
+                    imageIds: photos.map(p => p.id),
+                    albumId,
+                    ...(mode === "copy"
+                        ? { sourceImageId }
+                        : { location: mode === "pin" ? { lat: pinLat, lng: pinLng } : null }),
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(typeof data.error === "string" ? data.error : "Failed to update location");
+                return;
+            }
+
+            if (data.updatedCount > 0) {
+                useTimelineStore.getState().reset();
+                useMapStore.getState().invalidate();
+            }
+
+            const count = `${data.updatedCount} ${data.updatedCount === 1 ? 'photo' : 'photos'}`;
+            toast.success(mode === "clear" ? `Removed the location of ${count}` : `Set the location of ${count}`);
+            onSuccess();
+            onOpenChange(false);
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to update location");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <div className="mx-auto w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-2">
+                        <MapPin className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <DialogTitle className="text-center text-xl font-semibold text-slate-900 dark:text-zinc-100">
+                        Set Location
+                    </DialogTitle>
+                    <DialogDescription className="text-center text-slate-500 dark:text-slate-400">
+                        Place {photos.length} selected {photos.length === 1 ? 'photo' : 'photos'} on the map, or remove their location.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="grid grid-cols-3 gap-2">
+                        {MODES.map(m => (
+                            <button
+                                key={m.value}
+                                type="button"
+                                onClick={() => setMode(m.value)}
+                                className={cn(
+                                    "p-2 rounded-xl border text-sm font-medium transition-all",
+                                    mode === m.value
+                                        ? "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300"
+                                        : "border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                                )}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {mode === "pin" && (
+                        <div className="space-y-3">
+                            {MAPBOX_TOKEN && (
+                                <div className="h-64 rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700">
+                                    <Map
+                                        mapboxAccessToken={MAPBOX_TOKEN}
+                                        initialViewState={located
+                                            ? { longitude: located.gpsLng!, latitude: located.gpsLat!, zoom: 12 }
+                                            : { longitude: 100.5, latitude: 13.75, zoom: 3 }}
+                                        style={{ width: "100%", height: "100%" }}
+                                        mapStyle="mapbox://styles/mapbox/satellite-streets-v12"
+                                        onClick={onMapClick}
+                                        cursor="crosshair"
+                                    >
+                                        <NavigationControl position="top-right" showCompass={false} />
+                                        {hasPin && (
+                                            <Marker
+                                                longitude={pinLng}
+                                                latitude={pinLat}
+                                                anchor="bottom"
+                                                draggable
+                                                onDragEnd={(e) => {
+                                                    setLat(e.lngLat.lat.toFixed(6));
+                                                    setLng(e.lngLat.lng.toFixed(6));
+                                                }}
+                                            >
+                                                <MapPin className="h-8 w-8 text-red-500 fill-red-500/30 drop-shadow" />
+                                            </Marker>
+                                        )}
+                                    </Map>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <Label htmlFor="location-lat" className="text-sm font-medium text-slate-700 dark:text-slate-300">Latitude</Label>
+                                    <Input id="location-lat" type="number" step="any" min={-90} max={90} value={lat} onChange={(e) => setLat(e.target.value)} placeholder="18.7883" className={inputClass} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="location-lng" className="text-sm font-medium text-slate-700 dark:text-slate-300">Longitude</Label>
+                                    <Input id="location-lng" type="number" step="any" min={-180} max={180} value={lng} onChange={(e) => setLng(e.target.value)} placeholder="98.9853" className={inputClass} />
+                                </div>
+                            </div>
+                            {MAPBOX_TOKEN && (
+                                <p className="text-xs text-slate-500 dark:text-slate-400">Click the map to drop the pin, then drag it to fine-tune.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {mode === "copy" && (
+                        <div className="max-h-[280px] overflow-y-auto rounded-xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-800">
+                            {neighbours.length === 0 && (
+                                <p className="p-3 text-sm text-slate-500 dark:text-slate-400">No other photo in this album has a location.</p>
+                            )}
+                            {neighbours.map(({ photo, gap }) => (
+                                <button
+                                    key={photo.id}
+                                    type="button"
+                                    onClick={() => setSourceImageId(photo.id)}
+                                    className={cn(
+                                        "w-full flex items-center gap-3 px-3 py-2 text-left transition-colors",
+                                        sourceImageId === photo.id
+                                            ? "bg-blue-50 dark:bg-blue-900/20"
+                                            : "hover:bg-slate-50 dark:hover:bg-slate-800"
+                                    )}
+                                >
+                                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                                    <img src={photo.thumbUrl || photo.url} alt="" className="h-10 w-10 rounded-lg object-cover bg-slate-100 dark:bg-slate-800 shrink-0" />
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-sm text-slate-700 dark:text-slate-300 truncate">
+                                            {formatPlaceName(photo) || `${photo.gpsLat!.toFixed(4)}, ${photo.gpsLng!.toFixed(4)}`}
+                                        </p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                                            {photo.originalFilename || photo.id.slice(0, 8)}
+                                            {gap != null && ` · ${formatDistanceStrict(0, gap)} ${gap < 0 ? "before" : "after"}`}
+                                        </p>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {mode === "clear" && (
+                        <div className="flex gap-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+                            <MapPinOff className="h-5 w-5 shrink-0" />
+                            <p>
+                                The position, place name and altitude are removed and the photos leave the map.
+                                Original files keep any GPS data embedded by the camera.
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button
+                        variant="ghost"
+                        onClick={() => onOpenChange(false)}
+                        className="rounded-xl"
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={submit}
+                        disabled={loading || !canApply}
+                        className={cn(
+                            "rounded-xl text-white shadow-lg",
+                            mode === "clear"
+                                ? "bg-red-600 hover:bg-red-700 shadow-red-500/20"
+                                : "bg-blue-600 hover:bg-blue-700 shadow-blue-500/20"
+                        )}
+                    >
+                        {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {mode === "clear" ? "Remove Location" : "Set Location"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import useSWR from "swr";
 import { useAuth } from "@/components/providers/AuthProvider";
 import { useTheme } from "@/components/providers/ThemeProvider";
 import { Button } from "@/components/ui/button";
@@ -13,19 +14,39 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { toast } from "sonner";
-import { Loader2, Settings, User, Lock, KeyRound, X } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { Loader2, Settings, User, Lock, KeyRound, X, HardDrive, AlertTriangle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn, formatBytes } from "@/lib/utils";
+import { fetcher } from "@/lib/fetcher";
 
 interface SettingsDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
 }
 
-type SettingsSection = "general" | "account" | "security";
+type SettingsSection = "general" | "account" | "storage" | "security";
+
+interface StorageUsage {
+    usedBytes: number;
+    trashBytes: number;
+    quotaBytes: number | null;
+    percentUsed: number | null;
+    warningPercent: number;
+    warning: boolean;
+    albums: {
+        albumId: string;
+        title: string;
+        deleted: boolean;
+        bytes: number;
+        trashBytes: number;
+        imageCount: number;
+    }[];
+}
 
 const navItems = [
     { id: "general" as const, label: "General", icon: Settings },
     { id: "account" as const, label: "Account", icon: User },
+    { id: "storage" as const, label: "Storage", icon: HardDrive },
     { id: "security" as const, label: "Security", icon: Lock },
 ];
 
@@ -43,6 +64,11 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     const [newPassword, setNewPassword] = useState("");
     const [confirmPassword, setConfirmPassword] = useState("");
 
+    const { data: storage, isLoading: storageLoading } = useSWR<StorageUsage>(
+        open && activeSection === "storage" ? "/api/user/storage" : null,
+        fetcher
+    );
+
     const handleUpdateProfile = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
@@ -250,6 +276,101 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                     </div>
                 )}
 
+                {/* Storage Section */}
+                {activeSection === "storage" && (
+                    <div className="space-y-6">
+                        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 hidden md:block">Storage</h2>
+
+                        {storageLoading || !storage ? (
+                            <div className="flex justify-center items-center py-12">
+                                <Loader2 className="h-6 w-6 text-blue-500 animate-spin" />
+                            </div>
+                        ) : (
+                            <>
+                                <div className="space-y-2">
+                                    <div className="flex items-baseline justify-between gap-3">
+                                        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                                            {formatBytes(storage.usedBytes)} used
+                                        </span>
+                                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                                            {storage.quotaBytes ? `of ${formatBytes(storage.quotaBytes)}` : "No limit"}
+                                        </span>
+                                    </div>
+                                    {storage.percentUsed !== null && (
+                                        <Progress
+                                            value={storage.percentUsed}
+                                            className={cn(
+                                                "h-2",
+                                                storage.percentUsed >= 100
+                                                    ? "bg-red-100 dark:bg-red-900/30 [&>div]:bg-red-500"
+                                                    : storage.warning
+                                                        ? "bg-amber-100 dark:bg-amber-900/30 [&>div]:bg-amber-500"
+                                                        : "bg-blue-100 dark:bg-blue-900/30"
+                                            )}
+                                        />
+                                    )}
+                                    <p className="text-[11px] text-slate-400 dark:text-slate-500 px-1">
+                                        Originals and previews of the photos you uploaded.
+                                        {storage.trashBytes > 0 && ` Includes ${formatBytes(storage.trashBytes)} in the trash, freed when it is emptied.`}
+                                    </p>
+                                </div>
+
+                                {storage.warning && storage.percentUsed !== null && (
+                                    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-xl p-4">
+                                        <div className="flex items-start gap-3">
+                                            <AlertTriangle className="h-5 w-5 text-amber-500 mt-0.5" />
+                                            <div>
+                                                <h4 className="text-sm font-semibold text-amber-700 dark:text-amber-400">
+                                                    {storage.percentUsed >= 100 ? "Storage full" : "Storage almost full"}
+                                                </h4>
+                                                <p className="text-xs text-amber-600 dark:text-amber-500 mt-1">
+                                                    {storage.percentUsed >= 100
+                                                        ? "New uploads are refused until you free up space. "
+                                                        : `You have used ${storage.percentUsed}% of your storage. `}
+                                                    Delete photos and empty the trash to make room.
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
+
+                                <div className="space-y-2">
+                                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300">By album</span>
+                                    {storage.albums.length === 0 ? (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 py-2">You haven&apos;t uploaded anything yet.</p>
+                                    ) : (
+                                        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                                            {storage.albums.map(album => (
+                                                <li key={album.albumId} className="py-2.5 space-y-1.5">
+                                                    <div className="flex items-baseline justify-between gap-3">
+                                                        <span className="text-sm text-slate-700 dark:text-slate-300 truncate">
+                                                            {album.title}
+                                                            {album.deleted && <span className="text-xs text-slate-400"> (deleted)</span>}
+                                                        </span>
+                                                        <span className="text-xs text-slate-500 dark:text-slate-400 shrink-0">
+                                                            {formatBytes(album.bytes)}
+                                                        </span>
+                                                    </div>
+                                                    <div className="h-1 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                                                        <div
+                                                            className="h-full rounded-full bg-blue-400"
+                                                            style={{ width: `${storage.usedBytes > 0 ? (album.bytes / storage.usedBytes) * 100 : 0}%` }}
+                                                        />
+                                                    </div>
+                                                    <p className="text-[11px] text-slate-400 dark:text-slate-500">
+                                                        {album.imageCount} item{album.imageCount !== 1 ? "s" : ""}
+                                                        {album.trashBytes > 0 && ` · ${formatBytes(album.trashBytes)} in trash`}
+                                                    </p>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+
                 {/* Security Section */}
                 {activeSection === "security" && (
                     <div className="space-y-6">
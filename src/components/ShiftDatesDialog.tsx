@@ -0,0 +1,285 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Loader2, Clock } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { useTimelineStore } from "@/stores/useTimelineStore";
+import { useMapStore } from "@/stores/useMapStore";
+import { captureDisplayDate } from "@/lib/capture-time";
+
+interface ShiftPhoto {
+    id: string;
+    originalFilename?: string | null;
+    dateTaken?: string | null;
+    dateTakenOffset?: number | null;
+}
+
+interface PreviewEntry {
+    id: string;
+    originalFilename: string | null;
+    from: string;
+    to: string;
+}
+
+interface ShiftDatesDialogProps {
+    albumId: string;
+    photos: ShiftPhoto[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700 focus:ring-blue-500 rounded-xl";
+
+export function ShiftDatesDialog({ albumId, photos, open, onOpenChange, onSuccess }: ShiftDatesDialogProps) {
+    const [mode, setMode] = useState<"offset" | "anchor">("offset");
+    const [direction, setDirection] = useState<1 | -1>(1);
+    const [days, setDays] = useState("0");
+    const [hours, setHours] = useState("0");
+    const [minutes, setMinutes] = useState("0");
+    const [anchorImageId, setAnchorImageId] = useState("");
+    const [anchorDate, setAnchorDate] = useState("");
+
+    const [loading, setLoading] = useState(false);
+    const [preview, setPreview] = useState<{ images: PreviewEntry[]; skipped: string[] } | null>(null);
+
+    const datedPhotos = photos.filter(p => p.dateTaken);
+
+    useEffect(() => {
+        if (open) {
+            setMode("offset");
+            setDirection(1);
+            setDays("0");
+            setHours("0");
+            setMinutes("0");
+            setAnchorImageId("");
+            setAnchorDate("");
+            setPreview(null);
+        }
+    }, [open]);
+
+    // Any change to the inputs makes the current preview stale
+    useEffect(() => {
+        setPreview(null);
+    }, [mode, direction, days, hours, minutes, anchorImageId, anchorDate]);
+
+    const buildShift = () => {
+        if (mode === "offset") {
+            const total = (Number(days) || 0) * 86400 + (Number(hours) || 0) * 3600 + (Number(minutes) || 0) * 60;
+            return { offsetSeconds: Math.round(total) * direction };
+        }
+        // The correct time is read on the reference photo's own clock when
+        // its offset is known, as the list shows it
+        const anchorOffset = photos.find(p => p.id === anchorImageId)?.dateTakenOffset;
+        return {
+            anchorImageId,
+            anchorDate: !anchorDate ? undefined : anchorOffset != null
+                ? new Date(Date.parse(`${anchorDate}Z`) - anchorOffset * 60_000).toISOString()
+                : new Date(anchorDate).toISOString(),
+        };
+    };
+
+    const submit = async (dryRun: boolean) => {
+        if (mode === "anchor" && (!anchorImageId || !anchorDate)) {
+            toast.error("Choose a reference photo and its correct time");
+            return;
+        }
+
+        setLoading(true);
+        try {
+            const res = await fetch('/api/images/bulk', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'shiftDate',
+                    imageIds: photos.map(p => p.id),
+                    albumId,
+                    dryRun,
+                    ...buildShift(),
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                toast.error(typeof data.error === "string" ? data.error : "Failed to shift dates");
+                return;
+            }
+
+            if (dryRun) {
+                setPreview({ images: data.images, skipped: data.skipped });
+                return;
+            }
+
+            if (data.updatedCount > 0) {
+                useTimelineStore.getState().reset();
+                useMapStore.getState().invalidate();
+            }
+
+            toast.success(`Shifted ${data.updatedCount} ${data.updatedCount === 1 ? 'photo' : 'photos'}`);
+            onSuccess();
+            onOpenChange(false);
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to shift dates");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg rounded-2xl bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-700 shadow-xl">
+                <DialogHeader>
+                    <div className="mx-auto w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center mb-2">
+                        <Clock className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <DialogTitle className="text-center text-xl font-semibold text-slate-900 dark:text-zinc-100">
+                        Adjust Date &amp; Time
+                    </DialogTitle>
+                    <DialogDescription className="text-center text-slate-500 dark:text-slate-400">
+                        Fix a wrong camera clock for {photos.length} selected {photos.length === 1 ? 'photo' : 'photos'}.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="grid grid-cols-2 gap-2">
+                        {(["offset", "anchor"] as const).map(m => (
+                            <button
+                                key={m}
+                                type="button"
+                                onClick={() => setMode(m)}
+                                className={cn(
+                                    "p-2 rounded-xl border text-sm font-medium transition-all",
+                                    mode === m
+                                        ? "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-blue-700 dark:text-blue-300"
+                                        : "border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                                )}
+                            >
+                                {m === "offset" ? "Shift by amount" : "Match a reference photo"}
+                            </button>
+                        ))}
+                    </div>
+
+                    {mode === "offset" ? (
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-2 gap-2">
+                                {([1, -1] as const).map(d => (
+                                    <button
+                                        key={d}
+                                        type="button"
+                                        onClick={() => setDirection(d)}
+                                        className={cn(
+                                            "p-2 rounded-xl border text-sm transition-all",
+                                            direction === d
+                                                ? "bg-slate-100 dark:bg-slate-800 border-slate-300 dark:border-slate-600 text-slate-900 dark:text-slate-100"
+                                                : "border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800"
+                                        )}
+                                    >
+                                        {d === 1 ? "Later" : "Earlier"}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-3 gap-3">
+                                <div className="space-y-2">
+                                    <Label htmlFor="shift-days" className="text-sm font-medium text-slate-700 dark:text-slate-300">Days</Label>
+                                    <Input id="shift-days" type="number" min={0} value={days} onChange={(e) => setDays(e.target.value)} className={inputClass} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="shift-hours" className="text-sm font-medium text-slate-700 dark:text-slate-300">Hours</Label>
+                                    <Input id="shift-hours" type="number" min={0} value={hours} onChange={(e) => setHours(e.target.value)} className={inputClass} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="shift-minutes" className="text-sm font-medium text-slate-700 dark:text-slate-300">Minutes</Label>
+                                    <Input id="shift-minutes" type="number" min={0} value={minutes} onChange={(e) => setMinutes(e.target.value)} className={inputClass} />
+                                </div>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="shift-anchor" className="text-sm font-medium text-slate-700 dark:text-slate-300">Reference photo</Label>
+                                <select
+                                    id="shift-anchor"
+                                    value={anchorImageId}
+                                    onChange={(e) => setAnchorImageId(e.target.value)}
+                                    className={cn("w-full h-9 px-3 text-sm border", inputClass)}
+                                >
+                                    <option value="">Select a photo…</option>
+                                    {datedPhotos.map(p => (
+                                        <option key={p.id} value={p.id}>
+                                            {p.originalFilename || p.id.slice(0, 8)} — {format(captureDisplayDate(p.dateTaken!, p.dateTakenOffset), "PP p")}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="shift-anchor-date" className="text-sm font-medium text-slate-700 dark:text-slate-300">Correct time for this photo</Label>
+                                <Input id="shift-anchor-date" type="datetime-local" value={anchorDate} onChange={(e) => setAnchorDate(e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {preview && (
+                        <div className="max-h-[220px] overflow-y-auto rounded-xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-800 text-xs">
+                            {preview.images.length === 0 && (
+                                <p className="p-3 text-slate-500 dark:text-slate-400">No photos with a date taken to shift.</p>
+                            )}
+                            {preview.images.map(entry => {
+                                const offset = photos.find(p => p.id === entry.id)?.dateTakenOffset;
+                                return (
+                                    <div key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                                        <span className="truncate text-slate-700 dark:text-slate-300">{entry.originalFilename || entry.id.slice(0, 8)}</span>
+                                        <span className="shrink-0 text-slate-500 dark:text-slate-400">
+                                            {format(captureDisplayDate(entry.from, offset), "PP p")} → <span className="text-slate-900 dark:text-slate-100">{format(captureDisplayDate(entry.to, offset), "PP p")}</span>
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                            {preview.skipped.length > 0 && (
+                                <p className="p-3 text-slate-500 dark:text-slate-400">
+                                    {preview.skipped.length} without a date taken will be skipped.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button
+                        variant="ghost"
+                        onClick={() => onOpenChange(false)}
+                        className="rounded-xl"
+                    >
+                        Cancel
+                    </Button>
+                    {preview ? (
+                        <Button
+                            onClick={() => submit(false)}
+                            disabled={loading || preview.images.length === 0}
+                            className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-500/20"
+                        >
+                            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Apply
+                        </Button>
+                    ) : (
+                        <Button
+                            onClick={() => submit(true)}
+                            disabled={loading}
+                            className="rounded-xl bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-500/20"
+                        >
+                            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Preview
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
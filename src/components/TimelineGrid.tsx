@@ -4,16 +4,26 @@ import { useEffect, useCallback, useState } from "react";
 import Image from "next/image";
 import { format } from "date-fns";
 import { useInView } from "react-intersection-observer";
-import { Loader2, Calendar, ArrowLeft, X, Download, LayoutGrid, CalendarDays, ExternalLink } from "lucide-react";
+import useSWR from "swr";
+import { Loader2, Calendar, ArrowLeft, X, Download, LayoutGrid, CalendarDays, ExternalLink, Star, Info, SearchX, Globe } from "lucide-react";
 
 import { useTimelineStore, TimelinePhoto } from "@/stores/useTimelineStore";
+import { PhotoReactions } from "@/components/PhotoReactions";
+import { PhotoInfoPanel } from "@/components/PhotoInfoPanel";
+import { CameraFilter } from "@/components/CameraFilter";
+import { PlaceSearch } from "@/components/PlaceSearch";
+import { fetcher } from "@/lib/fetcher";
+import { isMetadataFilterActive, type MetadataFacets } from "@/lib/exif";
+import { captureDisplayDate, type CaptureDateMode } from "@/lib/capture-time";
 import { cn } from "@/lib/utils";
+import { isVideoMimeType } from "@/lib/media";
+import { VideoBadge } from "@/components/VideoBadge";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { VisuallyHidden } from "@radix-ui/react-visually-hidden";
 import Link from 'next/link';
 
-// Helper to group photos
-function groupPhotos(photos: TimelinePhoto[], groupBy: 'month' | 'date') {
+// Helper to group photos, by the clock where each was taken or the viewer's
+function groupPhotos(photos: TimelinePhoto[], groupBy: 'month' | 'date', dateMode: CaptureDateMode) {
     const groups: { [key: string]: { label: string; photos: TimelinePhoto[] } } = {};
 
     photos.forEach(photo => {
@@ -21,7 +31,7 @@ function groupPhotos(photos: TimelinePhoto[], groupBy: 'month' | 'date') {
         let label = "Unknown Date";
 
         if (photo.dateTaken) {
-            const date = new Date(photo.dateTaken);
+            const date = captureDisplayDate(photo.dateTaken, photo.dateTakenOffset, dateMode);
             if (groupBy === 'month') {
                 key = format(date, "yyyy-MM");
                 label = format(date, "MMMM yyyy");
@@ -51,9 +61,20 @@ export function TimelineGrid() {
         loadMore,
         groupBy,
         setGroupBy,
+        dateMode,
+        setDateMode,
+        starredOnly,
+        setStarredOnly,
+        metadataFilter,
+        setMetadataFilter,
+        placeQuery,
+        setPlaceQuery,
         reset
     } = useTimelineStore();
 
+    const { data: cameraFacets } = useSWR<MetadataFacets>("/api/timeline/facets", fetcher, { revalidateOnFocus: false });
+    const cameraFilterActive = isMetadataFilterActive(metadataFilter);
+
     // Intersection Observer for Infinite Scroll trigger
     const { ref: observerRef, inView } = useInView({
         threshold: 0,
@@ -61,6 +82,7 @@ export function TimelineGrid() {
     });
 
     const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
+    const [infoOpen, setInfoOpen] = useState(false);
 
     // Keyboard Navigation & Auto Load More
     useEffect(() => {
@@ -146,7 +168,112 @@ export function TimelineGrid() {
         );
     }
 
+    // Filters + grouping toggle (also shown on the empty filtered views)
+    const toolbar = (
+        <div className="flex justify-end items-center flex-wrap gap-2 mb-4">
+            <PlaceSearch value={placeQuery} onChange={setPlaceQuery} />
+            {cameraFacets && (
+                <CameraFilter facets={cameraFacets} value={metadataFilter} onChange={setMetadataFilter} />
+            )}
+            <button
+                onClick={() => setStarredOnly(!starredOnly)}
+                className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all",
+                    starredOnly
+                        ? "bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400"
+                        : "bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+                )}
+                title="Show starred photos only"
+            >
+                <Star className={cn("h-4 w-4", starredOnly && "fill-current")} />
+                <span className="hidden sm:inline">Starred</span>
+            </button>
+            <button
+                onClick={() => setDateMode(dateMode === 'local' ? 'viewer' : 'local')}
+                className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all",
+                    dateMode === 'viewer'
+                        ? "bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400"
+                        : "bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+                )}
+                title={dateMode === 'local'
+                    ? "Dates follow the clock where each photo was taken. Click to use your time zone"
+                    : "Dates follow your time zone. Click to use the clock where each photo was taken"}
+            >
+                <Globe className="h-4 w-4" />
+                <span className="hidden sm:inline">{dateMode === 'local' ? "Local time" : "My time"}</span>
+            </button>
+            <div className="inline-flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+                <button
+                    onClick={() => setGroupBy('month')}
+                    className={cn(
+                        "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all",
+                        groupBy === 'month'
+                            ? "bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm"
+                            : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+                    )}
+                    title="Group by Month"
+                >
+                    <LayoutGrid className="h-4 w-4" />
+                    <span className="hidden sm:inline">Month</span>
+                </button>
+                <button
+                    onClick={() => setGroupBy('date')}
+                    className={cn(
+                        "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all",
+                        groupBy === 'date'
+                            ? "bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm"
+                            : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+                    )}
+                    title="Group by Date"
+                >
+                    <CalendarDays className="h-4 w-4" />
+                    <span className="hidden sm:inline">Day</span>
+                </button>
+            </div>
+        </div>
+    );
+
     if (!isLoading && photos.length === 0) {
+        if (placeQuery) {
+            return (
+                <div>
+                    {toolbar}
+                    <div className="flex flex-col items-center justify-center py-20 text-slate-500 dark:text-slate-400">
+                        <SearchX className="h-12 w-12 mb-4 text-slate-300 dark:text-slate-600" />
+                        <h3 className="text-xl font-medium text-slate-800 dark:text-slate-200">No photos match</h3>
+                        <p>No {starredOnly ? "starred " : ""}photos were taken in a place matching &quot;{placeQuery}&quot;.</p>
+                    </div>
+                </div>
+            );
+        }
+
+        if (cameraFilterActive) {
+            return (
+                <div>
+                    {toolbar}
+                    <div className="flex flex-col items-center justify-center py-20 text-slate-500 dark:text-slate-400">
+                        <SearchX className="h-12 w-12 mb-4 text-slate-300 dark:text-slate-600" />
+                        <h3 className="text-xl font-medium text-slate-800 dark:text-slate-200">No photos match</h3>
+                        <p>No {starredOnly ? "starred " : ""}photos were taken with this camera, lens or focal length.</p>
+                    </div>
+                </div>
+            );
+        }
+
+        if (starredOnly) {
+            return (
+                <div>
+                    {toolbar}
+                    <div className="flex flex-col items-center justify-center py-20 text-slate-500 dark:text-slate-400">
+                        <Star className="h-12 w-12 mb-4 text-slate-300 dark:text-slate-600" />
+                        <h3 className="text-xl font-medium text-slate-800 dark:text-slate-200">No starred photos</h3>
+                        <p>Star photos in the viewer to collect your best shots here.</p>
+                    </div>
+                </div>
+            );
+        }
+
         return (
             <div className="flex flex-col items-center justify-center py-20 text-slate-500 dark:text-slate-400">
                 <Calendar className="h-12 w-12 mb-4 text-slate-300 dark:text-slate-600" />
@@ -156,41 +283,11 @@ export function TimelineGrid() {
         );
     }
 
-    const groupedPhotos = groupPhotos(photos, groupBy);
+    const groupedPhotos = groupPhotos(photos, groupBy, dateMode);
 
     return (
         <div className="space-y-12 pb-20">
-            {/* View Toggle */}
-            <div className="flex justify-end mb-4">
-                <div className="inline-flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
-                    <button
-                        onClick={() => setGroupBy('month')}
-                        className={cn(
-                            "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all",
-                            groupBy === 'month'
-                                ? "bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm"
-                                : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
-                        )}
-                        title="Group by Month"
-                    >
-                        <LayoutGrid className="h-4 w-4" />
-                        <span className="hidden sm:inline">Month</span>
-                    </button>
-                    <button
-                        onClick={() => setGroupBy('date')}
-                        className={cn(
-                            "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-all",
-                            groupBy === 'date'
-                                ? "bg-white dark:bg-slate-700 text-blue-600 dark:text-blue-400 shadow-sm"
-                                : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
-                        )}
-                        title="Group by Date"
-                    >
-                        <CalendarDays className="h-4 w-4" />
-                        <span className="hidden sm:inline">Day</span>
-                    </button>
-                </div>
-            </div>
+            {toolbar}
 
             {Object.entries(groupedPhotos).map(([key, group]) => (
                 <div key={key} className="space-y-4">
@@ -222,6 +319,7 @@ export function TimelineGrid() {
                                     loading="lazy"
                                     className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
                                 />
+                                {isVideoMimeType(photo.mimeType) && <VideoBadge durationMs={photo.durationMs} />}
                                 {/* Optional Overlay on hover */}
                                 <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors pointer-events-none" />
                             </button>
@@ -257,6 +355,30 @@ export function TimelineGrid() {
                     <div className="relative w-full h-full flex items-center justify-center pointer-events-auto">
                         {/* Top Right Controls */}
                         <div className="absolute right-4 top-4 z-50 flex items-center gap-2">
+                            {/* Reactions & Star */}
+                            {selectedImageIndex !== null && photos[selectedImageIndex] && (
+                                <PhotoReactions
+                                    key={photos[selectedImageIndex].id}
+                                    imageId={photos[selectedImageIndex].id}
+                                    canReact
+                                />
+                            )}
+
+                            {/* Info Toggle */}
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setInfoOpen(!infoOpen);
+                                }}
+                                className={cn(
+                                    "p-3 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group",
+                                    infoOpen ? "bg-blue-500/80 hover:bg-blue-500" : "bg-black/20 hover:bg-black/40"
+                                )}
+                                title={infoOpen ? "Hide info" : "Show info"}
+                            >
+                                <Info className="h-5 w-5" />
+                            </button>
+
                             {/* Go to Album Button */}
                             {selectedImageIndex !== null && photos[selectedImageIndex]?.albumId && (
                                 <Link
@@ -317,7 +439,10 @@ export function TimelineGrid() {
                                     return prev + 1;
                                 });
                             }}
-                            className="absolute right-4 top-1/2 -translate-y-1/2 z-50 p-4 bg-black/20 hover:bg-black/40 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group"
+                            className={cn(
+                                "absolute top-1/2 -translate-y-1/2 z-50 p-4 bg-black/20 hover:bg-black/40 backdrop-blur-md rounded-full text-white transition-all shadow-lg border border-white/20 group",
+                                infoOpen ? "right-4 md:right-[22rem]" : "right-4"
+                            )}
                             aria-label="Next photo"
                         >
                             <ArrowLeft className="h-8 w-8 rotate-180 group-hover:scale-110 transition-transform" />
@@ -325,22 +450,44 @@ export function TimelineGrid() {
 
                         {/* Image Display */}
                         {selectedImageIndex !== null && photos[selectedImageIndex] && (
-                            <div className="relative w-full h-full flex items-center justify-center p-4 md:p-12">
-                                <img
-                                    src={photos[selectedImageIndex].displayUrl || photos[selectedImageIndex].url}
-                                    alt=""
-                                    className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
-                                />
+                            <div className={cn("relative w-full h-full flex items-center justify-center p-4 md:p-12", infoOpen && "md:pr-[23rem]")}>
+                                {isVideoMimeType(photos[selectedImageIndex].mimeType) ? (
+                                    <video
+                                        key={photos[selectedImageIndex].id}
+                                        src={`/api/images/${photos[selectedImageIndex].id}/stream`}
+                                        poster={photos[selectedImageIndex].displayUrl || undefined}
+                                        controls
+                                        autoPlay
+                                        playsInline
+                                        className="max-h-full max-w-full rounded-lg shadow-2xl"
+                                    />
+                                ) : (
+                                    <img
+                                        src={photos[selectedImageIndex].displayUrl || photos[selectedImageIndex].url}
+                                        alt=""
+                                        className="max-h-full max-w-full object-contain rounded-lg shadow-2xl"
+                                    />
+                                )}
                                 <div className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/50 backdrop-blur-md rounded-full text-white text-sm flex items-center gap-3">
                                     <span>{selectedImageIndex + 1} / {photos.length}</span>
                                     {photos[selectedImageIndex].dateTaken && (
                                         <span className="text-white/70">
-                                            {new Date(photos[selectedImageIndex].dateTaken!).toLocaleDateString()}
+                                            {captureDisplayDate(photos[selectedImageIndex].dateTaken!, photos[selectedImageIndex].dateTakenOffset, dateMode).toLocaleDateString()}
                                         </span>
                                     )}
                                 </div>
                             </div>
                         )}
+
+                        {/* Info Panel */}
+                        {infoOpen && selectedImageIndex !== null && photos[selectedImageIndex] && (
+                            <div
+                                className="absolute right-4 top-20 bottom-4 z-40 w-[calc(100%-2rem)] md:w-80 rounded-2xl bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 shadow-2xl overflow-hidden"
+                                onClick={(e) => e.stopPropagation()}
+                            >
+                                <PhotoInfoPanel photo={photos[selectedImageIndex]} dateMode={dateMode} />
+                            </div>
+                        )}
                     </div>
                 </DialogContent>
             </Dialog>
@@ -2,8 +2,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Loader2, Trash2, RotateCcw, AlertTriangle, User, History } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { Loader2, Trash2, RotateCcw, AlertTriangle, User, History, Timer, Folder } from "lucide-react";
+import { formatDistanceToNow, differenceInCalendarDays } from "date-fns";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -25,10 +25,19 @@ interface TrashItem {
     id: string;
     url: string;
     deletedAt: string;
+    purgeAt: string;
     deleterName: string | null;
     deleterAvatar: string | null;
 }
 
+interface TrashFolder {
+    id: string;
+    name: string;
+    deletedAt: string;
+    purgeAt: string;
+    imageCount: number;
+}
+
 interface TrashDialogProps {
     albumId: string;
     userRole: "owner" | "editor" | "viewer" | null;
@@ -47,10 +56,13 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
 
     const [loading, setLoading] = useState(false);
     const [items, setItems] = useState<TrashItem[]>([]);
+    const [trashedFolders, setTrashedFolders] = useState<TrashFolder[]>([]);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
     const [restoringId, setRestoringId] = useState<string | null>(null);
     const [deletingId, setDeletingId] = useState<string | null>(null);
     const [emptyTrashConfirmOpen, setEmptyTrashConfirmOpen] = useState(false);
 
+    const itemCount = items.length + trashedFolders.length;
     const isOwner = userRole === "owner";
     const canRestore = userRole === "owner" || userRole === "editor";
 
@@ -66,6 +78,8 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
             if (res.ok) {
                 const data = await res.json();
                 setItems(data.images);
+                setTrashedFolders(data.folders || []);
+                setRetentionDays(data.retentionDays ?? null);
             }
         } catch (error) {
             console.error("Failed to fetch trash", error);
@@ -102,6 +116,52 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
         }
     };
 
+    const handleRestoreFolder = async (folderId: string) => {
+        setRestoringId(folderId);
+        try {
+            const res = await fetch(`/api/albums/${albumId}/folders/${folderId}/restore`, {
+                method: "POST",
+            });
+
+            if (res.ok) {
+                setTrashedFolders((prev) => prev.filter((folder) => folder.id !== folderId));
+                toast.success("Folder restored");
+                onRestore();
+            } else {
+                toast.error("Failed to restore folder");
+            }
+        } catch (error) {
+            toast.error("Error restoring folder");
+            console.error("Failed to restore folder", error);
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const handlePermanentDeleteFolder = async (folderId: string) => {
+        setDeletingId(folderId);
+        try {
+            const res = await fetch(`/api/albums/${albumId}/trash`, {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ folderIds: [folderId] }),
+            });
+
+            if (res.ok) {
+                setTrashedFolders((prev) => prev.filter((folder) => folder.id !== folderId));
+                toast.success("Folder deleted permanently");
+                onRestore(); // Its photos now belong to the album root
+            } else {
+                toast.error("Failed to delete folder");
+            }
+        } catch (error) {
+            toast.error("Error deleting folder");
+            console.error("Failed to delete folder", error);
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
     const handlePermanentDelete = async (imageId: string) => {
         setDeletingId(imageId);
         try {
@@ -126,18 +186,21 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
     };
 
     const handleEmptyTrash = async () => {
-        if (!isOwner || items.length === 0) return;
+        if (!isOwner || itemCount === 0) return;
         setLoading(true);
         try {
             const ids = items.map(i => i.id);
+            const folderIds = trashedFolders.map(f => f.id);
             const res = await fetch(`/api/albums/${albumId}/trash`, {
                 method: "DELETE",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ imageIds: ids }),
+                body: JSON.stringify({ imageIds: ids, folderIds }),
             });
 
             if (res.ok) {
                 setItems([]);
+                setTrashedFolders([]);
+                if (folderIds.length > 0) onRestore();
                 toast.success("Trash emptied");
             } else {
                 toast.error("Failed to empty trash");
@@ -150,6 +213,12 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
         }
     };
 
+    const formatPurgeCountdown = (purgeAt: string) => {
+        const days = differenceInCalendarDays(new Date(purgeAt), new Date());
+        if (days <= 0) return "Deletes today";
+        return `Deletes in ${days} day${days !== 1 ? "s" : ""}`;
+    };
+
     const getInitials = (name: string) => {
         return name?.split(" ").map((n) => n[0]).join("").toUpperCase().slice(0, 2) || "??";
     };
@@ -171,11 +240,12 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
                             Recycle Bin
                         </DialogTitle>
                         <DialogDescription className="text-slate-500 dark:text-slate-400 mt-1">
-                            Manage deleted photos. {items.length} item{items.length !== 1 && 's'} in trash.
+                            Manage deleted photos and folders. {itemCount} item{itemCount !== 1 && 's'} in trash.
+                            {retentionDays !== null && ` Photos are deleted permanently after ${retentionDays} day${retentionDays !== 1 ? "s" : ""}.`}
                         </DialogDescription>
                     </div>
 
-                    {isOwner && items.length > 0 && (
+                    {isOwner && itemCount > 0 && (
                         <Button
                             variant="destructive"
                             size="sm"
@@ -188,11 +258,11 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-6">
-                    {loading && items.length === 0 ? (
+                    {loading && itemCount === 0 ? (
                         <div className="flex justify-center items-center py-20">
                             <Loader2 className="h-8 w-8 text-blue-500 animate-spin" />
                         </div>
-                    ) : items.length === 0 ? (
+                    ) : itemCount === 0 ? (
                         <div className="flex flex-col items-center justify-center py-20 text-center text-slate-400">
                             <div className="w-16 h-16 bg-slate-50 rounded-2xl flex items-center justify-center mb-4">
                                 <Trash2 className="h-8 w-8 text-slate-300" />
@@ -201,51 +271,35 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
                             <p className="text-sm">Deleted photos will appear here</p>
                         </div>
                     ) : (
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                            {items.map((item) => (
-                                <div key={item.id} className="flex gap-4 p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-blue-100 dark:hover:border-blue-800 hover:shadow-sm transition-all group">
-                                    {/* Thumbnail */}
-                                    <div className="relative w-20 h-20 shrink-0 bg-slate-100 dark:bg-slate-700 rounded-lg overflow-hidden border border-slate-100 dark:border-slate-600">
-                                        <img
-                                            src={item.url}
-                                            alt="Deleted"
-                                            className="w-full h-full object-cover"
-                                        />
-                                    </div>
-
-                                    {/* Info & Actions */}
-                                    <div className="flex-1 flex flex-col justify-between min-w-0">
-                                        <div className="space-y-1">
-                                            <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
-                                                <History className="h-3 w-3" />
-                                                <span>{formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}</span>
+                        <div className="space-y-4">
+                            {trashedFolders.length > 0 && (
+                                <div className="space-y-2">
+                                    {trashedFolders.map((folder) => (
+                                        <div key={folder.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800">
+                                            <div className="w-10 h-10 shrink-0 rounded-lg bg-amber-50 dark:bg-amber-900/30 flex items-center justify-center">
+                                                <Folder className="h-5 w-5 text-amber-500" />
+                                            </div>
+                                            <div className="flex-1 min-w-0 space-y-0.5">
+                                                <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">{folder.name}</p>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                    {folder.imageCount} photo{folder.imageCount !== 1 && "s"} · deleted {formatDistanceToNow(new Date(folder.deletedAt), { addSuffix: true })}
+                                                </p>
+                                                {folder.purgeAt && (
+                                                    <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                                                        <Timer className="h-3 w-3" />
+                                                        {formatPurgeCountdown(folder.purgeAt)}
+                                                    </p>
+                                                )}
                                             </div>
-
-                                            {item.deleterName && (
-                                                <div className="flex items-center gap-1.5">
-                                                    <Avatar className="h-4 w-4">
-                                                        <AvatarImage src={item.deleterAvatar || undefined} />
-                                                        <AvatarFallback className="text-[8px] bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400">
-                                                            {getInitials(item.deleterName)}
-                                                        </AvatarFallback>
-                                                    </Avatar>
-                                                    <span className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">
-                                                        {item.deleterName}
-                                                    </span>
-                                                </div>
-                                            )}
-                                        </div>
-
-                                        <div className="flex items-center gap-2 mt-2">
                                             {canRestore && (
                                                 <Button
                                                     size="sm"
                                                     variant="outline"
                                                     className="h-7 px-2 text-xs border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
-                                                    onClick={() => handleRestore(item.id)}
-                                                    disabled={restoringId === item.id}
+                                                    onClick={() => handleRestoreFolder(folder.id)}
+                                                    disabled={restoringId === folder.id}
                                                 >
-                                                    {restoringId === item.id ? (
+                                                    {restoringId === folder.id ? (
                                                         <Loader2 className="h-3 w-3 animate-spin" />
                                                     ) : (
                                                         <>
@@ -255,16 +309,15 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
                                                     )}
                                                 </Button>
                                             )}
-
                                             {isOwner && (
                                                 <Button
                                                     size="sm"
                                                     variant="ghost"
-                                                    className="h-7 px-2 text-xs text-slate-400 dark:text-slate-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 ml-auto"
-                                                    onClick={() => handlePermanentDelete(item.id)}
-                                                    disabled={deletingId === item.id}
+                                                    className="h-7 px-2 text-xs text-slate-400 dark:text-slate-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30"
+                                                    onClick={() => handlePermanentDeleteFolder(folder.id)}
+                                                    disabled={deletingId === folder.id}
                                                 >
-                                                    {deletingId === item.id ? (
+                                                    {deletingId === folder.id ? (
                                                         <Loader2 className="h-3 w-3 animate-spin" />
                                                     ) : (
                                                         <Trash2 className="h-3 w-3" />
@@ -272,9 +325,93 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
                                                 </Button>
                                             )}
                                         </div>
-                                    </div>
+                                    ))}
+                                </div>
+                            )}
+                            {items.length > 0 && (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    {items.map((item) => (
+                                        <div key={item.id} className="flex gap-4 p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-800 hover:border-blue-100 dark:hover:border-blue-800 hover:shadow-sm transition-all group">
+                                            {/* Thumbnail */}
+                                            <div className="relative w-20 h-20 shrink-0 bg-slate-100 dark:bg-slate-700 rounded-lg overflow-hidden border border-slate-100 dark:border-slate-600">
+                                                <img
+                                                    src={item.url}
+                                                    alt="Deleted"
+                                                    className="w-full h-full object-cover"
+                                                />
+                                            </div>
+
+                                            {/* Info & Actions */}
+                                            <div className="flex-1 flex flex-col justify-between min-w-0">
+                                                <div className="space-y-1">
+                                                    <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                                                        <History className="h-3 w-3" />
+                                                        <span>{formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}</span>
+                                                    </div>
+
+                                                    {item.purgeAt && (
+                                                        <div className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
+                                                            <Timer className="h-3 w-3" />
+                                                            <span>{formatPurgeCountdown(item.purgeAt)}</span>
+                                                        </div>
+                                                    )}
+
+                                                    {item.deleterName && (
+                                                        <div className="flex items-center gap-1.5">
+                                                            <Avatar className="h-4 w-4">
+                                                                <AvatarImage src={item.deleterAvatar || undefined} />
+                                                                <AvatarFallback className="text-[8px] bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400">
+                                                                    {getInitials(item.deleterName)}
+                                                                </AvatarFallback>
+                                                            </Avatar>
+                                                            <span className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">
+                                                                {item.deleterName}
+                                                            </span>
+                                                        </div>
+                                                    )}
+                                                </div>
+
+                                                <div className="flex items-center gap-2 mt-2">
+                                                    {canRestore && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            className="h-7 px-2 text-xs border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                                                            onClick={() => handleRestore(item.id)}
+                                                            disabled={restoringId === item.id}
+                                                        >
+                                                            {restoringId === item.id ? (
+                                                                <Loader2 className="h-3 w-3 animate-spin" />
+                                                            ) : (
+                                                                <>
+                                                                    <RotateCcw className="h-3 w-3 mr-1.5" />
+                                                                    Restore
+                                                                </>
+                                                            )}
+                                                        </Button>
+                                                    )}
+
+                                                    {isOwner && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="ghost"
+                                                            className="h-7 px-2 text-xs text-slate-400 dark:text-slate-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 ml-auto"
+                                                            onClick={() => handlePermanentDelete(item.id)}
+                                                            disabled={deletingId === item.id}
+                                                        >
+                                                            {deletingId === item.id ? (
+                                                                <Loader2 className="h-3 w-3 animate-spin" />
+                                                            ) : (
+                                                                <Trash2 className="h-3 w-3" />
+                                                            )}
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
                                 </div>
-                            ))}
+                            )}
                         </div>
                     )}
                 </div>
@@ -288,7 +425,7 @@ export function TrashDialog({ albumId, userRole, onRestore, trigger, open: contr
                     open={emptyTrashConfirmOpen}
                     onOpenChange={setEmptyTrashConfirmOpen}
                     title="Empty Trash?"
-                    description={`This will permanently delete ${items.length} items. This action cannot be undone.`}
+                    description={`This will permanently delete ${itemCount} items. Photos in deleted folders stay in the album. This action cannot be undone.`}
                     variant="destructive"
                     onConfirm={handleEmptyTrash}
                     confirmText="Empty Trash"
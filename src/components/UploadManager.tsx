@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, Clock, CopyCheck, Loader2, Pause, Play, RotateCcw, X, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { isActiveUpload, useUploadStore, type UploadItem } from "@/stores/useUploadStore";
+
+function StatusIcon({ item }: { item: UploadItem }) {
+    switch (item.status) {
+        case "uploading":
+            return <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />;
+        case "retrying":
+            return <RotateCcw className="h-4 w-4 text-amber-500" />;
+        case "done":
+            return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+        case "duplicate":
+            return <CopyCheck className="h-4 w-4 text-slate-400" />;
+        case "failed":
+            return <AlertCircle className="h-4 w-4 text-red-500" />;
+        case "cancelled":
+            return <XCircle className="h-4 w-4 text-slate-400" />;
+        default:
+            return <Clock className="h-4 w-4 text-slate-400" />;
+    }
+}
+
+function statusText(item: UploadItem, paused: boolean) {
+    switch (item.status) {
+        case "uploading":
+            return `${item.progress}%`;
+        case "retrying":
+            return `Retrying (attempt ${item.attempts + 1})`;
+        case "done":
+            return "Uploaded";
+        case "duplicate":
+            return "Already in album";
+        case "failed":
+            return item.error || "Failed";
+        case "cancelled":
+            return "Cancelled";
+        default:
+            return paused ? "Paused" : "Waiting";
+    }
+}
+
+/**
+ * Floating panel for the app-wide upload queue: per-file status, pause,
+ * resume, cancel and retry of failed files. Mounted once in the root layout
+ * so it stays put across navigation.
+ */
+export function UploadManager() {
+    const { items, paused, pause, resume, cancel, cancelAll, retry, retryFailed, clearFinished } = useUploadStore();
+    const [collapsed, setCollapsed] = useState(false);
+
+    const active = items.filter(isActiveUpload);
+    const hasActive = active.length > 0;
+
+    // Leaving the app drops the queue; warn while anything is left
+    useEffect(() => {
+        if (!hasActive) return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+        };
+        window.addEventListener("beforeunload", handleBeforeUnload);
+        return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+    }, [hasActive]);
+
+    if (items.length === 0) return null;
+
+    const count = (status: UploadItem["status"]) => items.filter(item => item.status === status).length;
+    const uploaded = count("done");
+    const duplicates = count("duplicate");
+    const failed = count("failed");
+    const counted = items.filter(item => item.status !== "cancelled");
+    const finished = counted.filter(item => !isActiveUpload(item)).length;
+    const overall = counted.length > 0
+        ? Math.round(counted.reduce((sum, item) => sum + (isActiveUpload(item) ? item.progress : 100), 0) / counted.length)
+        : 100;
+
+    const title = hasActive
+        ? paused ? "Uploads paused" : `Uploading (${finished}/${counted.length})`
+        : failed > 0 ? `${failed} upload${failed !== 1 ? "s" : ""} failed` : "Uploads complete";
+
+    const summary = [
+        uploaded > 0 && `${uploaded} uploaded`,
+        duplicates > 0 && `${duplicates} already in album`,
+        failed > 0 && `${failed} failed`,
+    ].filter(Boolean).join(" · ");
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-2xl bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-700 shadow-xl overflow-hidden">
+            <div className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                        <p className="text-sm font-semibold text-slate-800 dark:text-slate-100 truncate">{title}</p>
+                        {summary && <p className="text-xs text-slate-400 truncate mt-0.5">{summary}</p>}
+                    </div>
+                    <div className="flex items-center gap-0.5 shrink-0">
+                        {hasActive && (
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7 rounded-lg text-slate-500 dark:text-slate-400"
+                                onClick={paused ? resume : pause}
+                                title={paused ? "Resume" : "Pause"}
+                            >
+                                {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+                            </Button>
+                        )}
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 rounded-lg text-slate-500 dark:text-slate-400"
+                            onClick={() => setCollapsed(!collapsed)}
+                            title={collapsed ? "Show files" : "Hide files"}
+                        >
+                            {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                        {!hasActive && (
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7 rounded-lg text-slate-500 dark:text-slate-400"
+                                onClick={clearFinished}
+                                title="Close"
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        )}
+                    </div>
+                </div>
+
+                {hasActive && <Progress value={overall} className="h-1.5 bg-blue-100 dark:bg-blue-900/40" />}
+
+                {(failed > 0 || hasActive) && (
+                    <div className="flex items-center gap-2">
+                        {failed > 0 && (
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 px-2.5 text-xs rounded-lg border-slate-200 dark:border-slate-600"
+                                onClick={retryFailed}
+                            >
+                                <RotateCcw className="h-3 w-3 mr-1.5" />
+                                Retry failed
+                            </Button>
+                        )}
+                        {hasActive && (
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 px-2.5 text-xs rounded-lg text-slate-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                                onClick={cancelAll}
+                            >
+                                Cancel all
+                            </Button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {!collapsed && (
+                <ul className="max-h-64 overflow-y-auto border-t border-slate-100 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                    {items.map(item => (
+                        <li key={item.id} className="flex items-center gap-3 px-4 py-2">
+                            <StatusIcon item={item} />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">{item.file.name}</p>
+                                <p className={cn(
+                                    "text-[11px] truncate",
+                                    item.status === "failed" ? "text-red-500" : "text-slate-400"
+                                )}>
+                                    {item.albumTitle ? `${item.albumTitle} · ` : ""}{statusText(item, paused)}
+                                </p>
+                                {item.status === "uploading" && (
+                                    <Progress value={item.progress} className="h-1 mt-1 bg-blue-100 dark:bg-blue-900/40" />
+                                )}
+                            </div>
+                            {isActiveUpload(item) ? (
+                                <button
+                                    onClick={() => cancel(item.id)}
+                                    className="p-1 rounded-md text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                                    title="Cancel"
+                                >
+                                    <X className="h-3.5 w-3.5" />
+                                </button>
+                            ) : (item.status === "failed" || item.status === "cancelled") && (
+                                <button
+                                    onClick={() => retry(item.id)}
+                                    className="p-1 rounded-md text-slate-400 hover:text-blue-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                                    title="Retry"
+                                >
+                                    <RotateCcw className="h-3.5 w-3.5" />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/media";
+
+interface VideoBadgeProps {
+    durationMs?: number | null;
+    className?: string;
+}
+
+/**
+ * Play icon with the clip length, overlaid on video thumbnails.
+ */
+export function VideoBadge({ durationMs, className }: VideoBadgeProps) {
+    const duration = formatDuration(durationMs);
+
+    return (
+        <div className={cn(
+            "absolute bottom-2 left-2 px-2 py-1 bg-black/60 backdrop-blur-sm text-white text-xs font-medium rounded-lg flex items-center gap-1 pointer-events-none",
+            className
+        )}>
+            <Play className="h-3 w-3 fill-current" />
+            {duration}
+        </div>
+    );
+}
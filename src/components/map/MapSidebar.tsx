@@ -2,8 +2,10 @@
 
 import { useEffect, useRef, memo, useCallback } from "react";
 import Link from "next/link";
-import { ChevronLeft, ChevronRight, Image as ImageIcon, Loader2, ExternalLink, Calendar, Folder, X } from "lucide-react";
+import { ChevronLeft, ChevronRight, Image as ImageIcon, Loader2, ExternalLink, Calendar, Folder, MapPin, X } from "lucide-react";
 import { useMapStore, type SidebarPhoto } from "@/stores/useMapStore";
+import { captureDisplayDate } from "@/lib/capture-time";
+import { formatPlaceName } from "@/lib/place";
 
 /**
  * Collapsible sidebar panel that displays photos in the current map viewport.
@@ -288,12 +290,13 @@ const PhotoCard = memo(function PhotoCard({
     compact?: boolean;
 }) {
     const formattedDate = photo.dateTaken
-        ? new Date(photo.dateTaken).toLocaleDateString("en-US", {
+        ? captureDisplayDate(photo.dateTaken, photo.dateTakenOffset).toLocaleDateString("en-US", {
             year: "numeric",
             month: "short",
             day: compact ? undefined : "numeric",
         })
         : null;
+    const place = formatPlaceName(photo);
 
     return (
         <div
@@ -335,6 +338,17 @@ const PhotoCard = memo(function PhotoCard({
                         <span className={`font-medium text-white/90 ${compact ? "text-[9px]" : "text-[11px]"}`}>{formattedDate}</span>
                     </div>
                 )}
+
+                {/* Place badge */}
+                {!compact && photo.placeCity && (
+                    <div
+                        className="absolute bottom-1.5 right-1.5 flex items-center gap-1 max-w-[55%] rounded-lg bg-black/40 backdrop-blur-sm px-2 py-1"
+                        title={place ?? undefined}
+                    >
+                        <MapPin className="h-3 w-3 text-white/80 flex-shrink-0" />
+                        <span className="text-[11px] font-medium text-white/90 truncate">{photo.placeCity}</span>
+                    </div>
+                )}
             </div>
 
             {/* Info strip */}
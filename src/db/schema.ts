@@ -1,6 +1,7 @@
 
-import { pgTable, uuid, text, timestamp, boolean, integer, doublePrecision, index, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, uuid, text, timestamp, boolean, integer, bigint, doublePrecision, jsonb, index, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
+import type { PhotoMetadata } from "@/lib/exif";
 
 const timestamps = {
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -16,6 +17,7 @@ export const users = pgTable("users", {
     googleId: text("google_id"),
     name: text("name").notNull(),
     avatarUrl: text("avatar_url"),
+    storageQuotaBytes: bigint("storage_quota_bytes", { mode: "number" }),  // null = instance default (STORAGE_QUOTA_MB), 0 = unlimited
     ...timestamps,
 });
 
@@ -28,6 +30,7 @@ export const albums = pgTable("albums", {
     visibility: text("visibility", { enum: ["public", "private"] }).default("private").notNull(),
     coverImageId: uuid("cover_image_id"),  // References images.id, but defined without FK to avoid circular ref issues
     albumDate: timestamp("album_date").defaultNow().notNull(),
+    trashRetentionDays: integer("trash_retention_days"),  // null = instance default (TRASH_RETENTION_DAYS)
     ...timestamps,
 });
 
@@ -64,10 +67,12 @@ export const albumInvites = pgTable("album_invites", {
 export const folders = pgTable("folders", {
     id: uuid("id").defaultRandom().primaryKey(),
     albumId: uuid("album_id").references(() => albums.id, { onDelete: "cascade" }).notNull(),
+    parentId: uuid("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "cascade" }),
     name: text("name").notNull(),
     ...timestamps,
 }, (table) => ({
     albumIdIdx: index("folders_album_id_idx").on(table.albumId),
+    parentIdIdx: index("folders_parent_id_idx").on(table.parentId),
 }));
 
 // Images Table
@@ -84,26 +89,42 @@ export const images = pgTable("images", {
     s3Key: text("s3_key"),  // Legacy field for backward compatibility
 
     mimeType: text("mime_type").notNull(),
+    contentHash: text("content_hash"),  // SHA-256 (hex) of the original, for duplicate detection
+    perceptualHash: text("perceptual_hash"),  // 64-bit dHash (hex) of the thumbnail, for near-duplicates
     originalFilename: text("original_filename"),
-    size: integer("size").notNull(),
+    caption: text("caption"),
+    size: bigint("size", { mode: "number" }).notNull(),  // Multipart uploads can exceed 2 GiB
+    variantsSize: bigint("variants_size", { mode: "number" }),  // Bytes of display + thumb; null until measured
     width: integer("width"),
     height: integer("height"),
+    durationMs: integer("duration_ms"),  // Videos only; poster frame lives in display/thumb
 
     // EXIF data
-    dateTaken: timestamp("date_taken"),
+    dateTaken: timestamp("date_taken"),  // UTC instant
+    dateTakenOffset: integer("date_taken_offset"),  // Minutes east of UTC where it was taken; null when unknown
     cameraMake: text("camera_make"),
     cameraModel: text("camera_model"),
+    metadata: jsonb("metadata").$type<PhotoMetadata>(),  // Lens, exposure, altitude, orientation (src/lib/exif.ts)
 
     // Numeric GPS for Photo Map (high-performance spatial queries)
     gpsLat: doublePrecision("gps_lat"),
     gpsLng: doublePrecision("gps_lng"),
 
+    // Nearest place to the GPS position, from the bundled gazetteer
+    placeCity: text("place_city"),
+    placeRegion: text("place_region"),
+    placeCountry: text("place_country"),
+
     deletedBy: uuid("deleted_by").references(() => users.id, { onDelete: "set null" }),
     ...timestamps,
 }, (table) => ({
     albumIdIdx: index("images_album_id_idx").on(table.albumId),
     folderIdIdx: index("images_folder_id_idx").on(table.folderId),
+    uploaderIdIdx: index("images_uploader_id_idx").on(table.uploaderId),
     dateTakenIdx: index("images_date_taken_idx").on(table.dateTaken),
+    deletedAtIdx: index("images_deleted_at_idx").on(table.deletedAt),
+    albumContentHashIdx: index("images_album_content_hash_idx").on(table.albumId, table.contentHash),
+    contentHashIdx: index("images_content_hash_idx").on(table.contentHash),
     // Composite index for Photo Map: Permission-First -> Space -> Time
     albumGeoTimeIdx: index("idx_images_album_geo_time").on(table.albumId, table.gpsLat, table.gpsLng, table.dateTaken),
 }));
@@ -118,9 +139,11 @@ export const activityLogs = pgTable("activity_logs", {
     action: text("action", {
         enum: [
             "image_upload", "image_delete", "image_restore", "image_permanent_delete", "image_update",
-            "album_create", "album_update", "album_delete",
-            "folder_create", "folder_update", "folder_delete",
-            "member_join", "member_leave", "member_role_change"
+            "image_transfer_in", "image_transfer_out",
+            "album_create", "album_update", "album_delete", "album_restore",
+            "folder_create", "folder_update", "folder_delete", "folder_restore",
+            "member_join", "member_leave", "member_role_change",
+            "comment_create", "comment_delete"
         ]
     }).notNull(),
     metadata: text("metadata"),  // JSON string for additional data
@@ -152,7 +175,7 @@ export const foldersRelations = relations(folders, ({ one, many }) => ({
     images: many(images),
 }));
 
-export const imagesRelations = relations(images, ({ one }) => ({
+export const imagesRelations = relations(images, ({ one, many }) => ({
     album: one(albums, {
         fields: [images.albumId],
         references: [albums.id],
@@ -165,6 +188,9 @@ export const imagesRelations = relations(images, ({ one }) => ({
         fields: [images.uploaderId],
         references: [users.id],
     }),
+    tags: many(imageTags),
+    comments: many(imageComments),
+    reactions: many(imageReactions),
 }));
 
 export const albumMembersRelations = relations(albumMembers, ({ one }) => ({
@@ -209,11 +235,141 @@ export const favoriteAlbumsRelations = relations(favoriteAlbums, ({ one }) => ({
     }),
 }));
 
+// Tags Table - Shared labels, stored normalized (trimmed + lowercase)
+export const tags = pgTable("tags", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: text("name").unique().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Image Tags Table - Links images to tags
+export const imageTags = pgTable("image_tags", {
+    imageId: uuid("image_id").references(() => images.id, { onDelete: "cascade" }).notNull(),
+    tagId: uuid("tag_id").references(() => tags.id, { onDelete: "cascade" }).notNull(),
+    createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    pk: primaryKey({ columns: [table.imageId, table.tagId] }),
+    tagIdIdx: index("image_tags_tag_id_idx").on(table.tagId),
+}));
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+    images: many(imageTags),
+}));
+
+export const imageTagsRelations = relations(imageTags, ({ one }) => ({
+    image: one(images, {
+        fields: [imageTags.imageId],
+        references: [images.id],
+    }),
+    tag: one(tags, {
+        fields: [imageTags.tagId],
+        references: [tags.id],
+    }),
+}));
+
+// Image Comments Table - Threaded via parentId (null = top-level comment)
+export const imageComments = pgTable("image_comments", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    imageId: uuid("image_id").references(() => images.id, { onDelete: "cascade" }).notNull(),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+    parentId: uuid("parent_id").references((): AnyPgColumn => imageComments.id, { onDelete: "cascade" }),
+    body: text("body").notNull(),
+    editedAt: timestamp("edited_at"),
+    ...timestamps,
+}, (table) => ({
+    imageIdIdx: index("image_comments_image_id_idx").on(table.imageId),
+    parentIdIdx: index("image_comments_parent_id_idx").on(table.parentId),
+}));
+
+export const imageCommentsRelations = relations(imageComments, ({ one }) => ({
+    image: one(images, {
+        fields: [imageComments.imageId],
+        references: [images.id],
+    }),
+    user: one(users, {
+        fields: [imageComments.userId],
+        references: [users.id],
+    }),
+    parent: one(imageComments, {
+        fields: [imageComments.parentId],
+        references: [imageComments.id],
+    }),
+}));
+
+// Image Reactions Table - One row per user per reaction type
+export const imageReactions = pgTable("image_reactions", {
+    imageId: uuid("image_id").references(() => images.id, { onDelete: "cascade" }).notNull(),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+    type: text("type", { enum: ["like", "heart"] }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    pk: primaryKey({ columns: [table.imageId, table.userId, table.type] }),
+}));
+
+export const imageReactionsRelations = relations(imageReactions, ({ one }) => ({
+    image: one(images, {
+        fields: [imageReactions.imageId],
+        references: [images.id],
+    }),
+    user: one(users, {
+        fields: [imageReactions.userId],
+        references: [users.id],
+    }),
+}));
+
+// Starred Images Table - Private per-user picks, like favoriteAlbums but for photos
+export const starredImages = pgTable("starred_images", {
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+    imageId: uuid("image_id").references(() => images.id, { onDelete: "cascade" }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.imageId] }),
+}));
+
+export const starredImagesRelations = relations(starredImages, ({ one }) => ({
+    user: one(users, {
+        fields: [starredImages.userId],
+        references: [users.id],
+    }),
+    image: one(images, {
+        fields: [starredImages.imageId],
+        references: [images.id],
+    }),
+}));
+
+// Album Tracks Table - GPX tracks imported to geotag an album's photos, drawn on the map
+export const albumTracks = pgTable("album_tracks", {
+    id: uuid("id").defaultRandom().primaryKey(),
+    albumId: uuid("album_id").references(() => albums.id, { onDelete: "cascade" }).notNull(),
+    uploadedBy: uuid("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+    name: text("name"),
+    points: jsonb("points").$type<[number, number][]>().notNull(),  // Simplified [lng, lat] line for display
+    pointCount: integer("point_count").notNull(),  // Timed points in the original file
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+    albumIdIdx: index("album_tracks_album_id_idx").on(table.albumId),
+}));
+
+export const albumTracksRelations = relations(albumTracks, ({ one }) => ({
+    album: one(albums, {
+        fields: [albumTracks.albumId],
+        references: [albums.id],
+    }),
+    uploader: one(users, {
+        fields: [albumTracks.uploadedBy],
+        references: [users.id],
+    }),
+}));
+
 // Relation updates
 export const usersRelations = relations(users, ({ many }) => ({
     albums: many(albums),
     memberships: many(albumMembers),
     favorites: many(favoriteAlbums),
+    starredImages: many(starredImages),
 }));
 
 export const albumsRelations = relations(albums, ({ one, many }) => ({
@@ -227,6 +383,7 @@ export const albumsRelations = relations(albums, ({ one, many }) => ({
     folders: many(folders),
     favoritedBy: many(favoriteAlbums),
     apiKeys: many(apiKeys),
+    tracks: many(albumTracks),
 }));
 
 // API Keys Table
@@ -12,6 +12,14 @@ const ROLE_HIERARCHY: Record<Role, number> = {
 };
 
 export async function getAlbumRole(userId: string, albumId: string): Promise<Role | null> {
+    const album = await db.query.albums.findFirst({
+        where: eq(albums.id, albumId),
+        columns: { ownerId: true, visibility: true, deletedAt: true },
+    });
+
+    // Albums in "Recently deleted" grant no access until restored
+    if (!album || album.deletedAt) return null;
+
     // Check membership
     const member = await db.query.albumMembers.findFirst({
         where: and(eq(albumMembers.userId, userId), eq(albumMembers.albumId, albumId)),
@@ -28,13 +36,6 @@ export async function getAlbumRole(userId: string, albumId: string): Promise<Rol
     // Yes, best practice for unified "get all my albums" queries via members table.
     // If not, we check both.
 
-    const album = await db.query.albums.findFirst({
-        where: eq(albums.id, albumId),
-        columns: { ownerId: true, visibility: true },
-    });
-
-    if (!album) return null;
-
     if (album.ownerId === userId) return "owner";
 
     // Public albums give "viewer" access to everyone?
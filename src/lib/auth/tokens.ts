@@ -70,8 +70,64 @@ export async function createGuestToken(albumIds: string[]): Promise<string> {
 export async function verifyGuestToken(token: string) {
     try {
         const { payload } = await jwtVerify(token, JWT_SECRET);
+        // Other tokens share the secret; only accept ones carrying an album list
+        if (!Array.isArray(payload.allowedAlbums)) {
+            return null;
+        }
         return payload as { allowedAlbums: string[] };
     } catch {
         return null;
     }
 }
+
+const UPLOAD_TICKET_AUDIENCE = "upload";
+
+export interface UploadTicket {
+    userId: string;
+    albumId: string;
+    imageId: string;
+    contentType: string;
+    keys: { original: string; display: string; thumb: string };
+}
+
+/**
+ * Short-lived ticket binding the S3 keys issued by /api/images/upload-url
+ * to one user, album and imageId, so /api/images/register only accepts
+ * keys the server handed out. Multipart uploads get a longer lifetime so
+ * they can be resumed later.
+ */
+export async function createUploadTicket(ticket: UploadTicket, expiresIn: string = "15m"): Promise<string> {
+    return new SignJWT({
+        albumId: ticket.albumId,
+        imageId: ticket.imageId,
+        contentType: ticket.contentType,
+        keys: ticket.keys,
+    })
+        .setProtectedHeader({ alg: ALG })
+        .setSubject(ticket.userId) // Not "userId", so it can never pass as an access token
+        .setAudience(UPLOAD_TICKET_AUDIENCE)
+        .setIssuedAt()
+        .setExpirationTime(expiresIn)
+        .sign(JWT_SECRET);
+}
+
+export async function verifyUploadTicket(token: string): Promise<UploadTicket | null> {
+    try {
+        const { payload } = await jwtVerify(token, JWT_SECRET, { audience: UPLOAD_TICKET_AUDIENCE });
+        const keys = payload.keys as UploadTicket["keys"] | undefined;
+
+        if (!payload.sub || typeof payload.albumId !== "string" || typeof payload.imageId !== "string" || !keys?.original) {
+            return null;
+        }
+
+        return {
+            userId: payload.sub,
+            albumId: payload.albumId,
+            imageId: payload.imageId,
+            contentType: String(payload.contentType || ""),
+            keys,
+        };
+    } catch {
+        return null;
+    }
+}
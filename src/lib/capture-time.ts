@@ -0,0 +1,119 @@
+/**
+ * Capture times. images.date_taken holds the instant a photo was taken (UTC)
+ * and images.date_taken_offset the UTC offset where it was taken, in minutes
+ * east, when known: from EXIF OffsetTimeOriginal, or from the time zone at
+ * the photo's GPS position. Shared by the upload, the server and the views
+ * that group or show dates.
+ */
+
+/**
+ * How dates are bucketed: "local" uses the clock where the photo was taken
+ * (the viewer's zone when that is unknown), "viewer" always the viewer's.
+ */
+export type CaptureDateMode = "local" | "viewer";
+
+// Widest offsets in use are UTC-12 and UTC+14
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+/**
+ * Offsets in use around the world, for pickers.
+ */
+export const UTC_OFFSETS = [
+    -720, -660, -600, -570, -540, -480, -420, -360, -300, -240, -210, -180, -120, -60,
+    0, 60, 120, 180, 210, 240, 270, 300, 330, 345, 360, 390, 420, 480, 525, 540, 570,
+    600, 630, 660, 720, 765, 780, 840,
+];
+
+const EXIF_DATE_TIME = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/;
+const UTC_OFFSET = /^([+-])(\d{1,2})(?::?(\d{2}))?$/;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Wall-clock capture time as "YYYY-MM-DDTHH:mm:ss" (no zone), from an EXIF
+ * date: the raw "YYYY:MM:DD HH:MM:SS" string, or a Date exifr revived in
+ * the parser's local zone.
+ */
+export function exifLocalDateTime(value: unknown): string | undefined {
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) return undefined;
+        return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}T${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+    }
+    if (typeof value !== "string") return undefined;
+
+    const match = EXIF_DATE_TIME.exec(value.trim());
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second = "00"] = match;
+    const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+    // Cameras without a set clock write "0000:00:00 00:00:00"
+    return isNaN(Date.parse(`${local}Z`)) || year === "0000" ? undefined : local;
+}
+
+/**
+ * Minutes east of UTC from an offset such as "+09:00", "-0530" or "Z".
+ */
+export function parseUtcOffset(value: unknown): number | undefined {
+    if (typeof value === "number") {
+        return Number.isInteger(value) && Math.abs(value) <= MAX_OFFSET_MINUTES ? value : undefined;
+    }
+    if (typeof value !== "string") return undefined;
+
+    const trimmed = value.trim();
+    if (trimmed === "Z") return 0;
+    const match = UTC_OFFSET.exec(trimmed);
+    if (!match) return undefined;
+    const minutes = (Number(match[2]) * 60 + Number(match[3] || 0)) * (match[1] === "-" ? -1 : 1);
+    return Math.abs(minutes) <= MAX_OFFSET_MINUTES ? minutes : undefined;
+}
+
+/**
+ * "UTC+9", "UTC-3:30", "UTC".
+ */
+export function formatUtcOffset(minutes: number) {
+    if (minutes === 0) return "UTC";
+    const abs = Math.abs(minutes);
+    const hours = Math.floor(abs / 60);
+    const rest = abs % 60;
+    return `UTC${minutes < 0 ? "-" : "+"}${hours}${rest ? `:${pad(rest)}` : ""}`;
+}
+
+/**
+ * A Date whose local fields read as the capture time to show: the clock
+ * where the photo was taken when its offset is known (mode "local"),
+ * otherwise the viewer's. Pass it to date-fns format() and friends.
+ */
+export function captureDisplayDate(
+    dateTaken: string | Date,
+    offset: number | null | undefined,
+    mode: CaptureDateMode = "local"
+) {
+    const instant = new Date(dateTaken);
+    if (mode === "viewer" || offset == null) return instant;
+
+    const wall = new Date(instant.getTime() + offset * 60_000);
+    return new Date(
+        wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(),
+        wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds()
+    );
+}
+
+export function parseCaptureDateMode(value: string | null | undefined): CaptureDateMode {
+    return value === "viewer" ? "viewer" : "local";
+}
+
+export function isValidTimeZone(timeZone: string) {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The browser's IANA time zone, sent as `tz` so the server buckets dates the
+ * way the viewer sees them.
+ */
+export function viewerTimeZone() {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
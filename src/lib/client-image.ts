@@ -1,3 +1,6 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+
 export interface ImageVariant {
     blob: Blob;
     width: number;
@@ -102,3 +105,97 @@ function loadImage(file: File): Promise<HTMLImageElement> {
         img.src = url;
     });
 }
+
+// Files above this are hashed a slice at a time rather than read whole
+const HASH_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/**
+ * SHA-256 of a file as lowercase hex, matching the server's content hash.
+ * Web Crypto can only digest a whole buffer, so large files (multi-GB
+ * videos) go through an incremental hasher instead and never sit in memory.
+ */
+export async function sha256Hex(file: Blob): Promise<string> {
+    if (file.size <= HASH_CHUNK_SIZE) {
+        const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+        return bytesToHex(new Uint8Array(digest));
+    }
+
+    const hash = sha256.create();
+    for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+        hash.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()));
+    }
+    return bytesToHex(hash.digest());
+}
+
+export interface VideoPoster {
+    poster: File;
+    width: number;
+    height: number;
+    durationMs: number;
+}
+
+// Give up on a poster if the browser hasn't produced a frame by then
+const POSTER_TIMEOUT_MS = 15_000;
+
+/**
+ * Grabs an early frame of a video as a JPEG poster, along with the video's
+ * dimensions and duration. The poster can be fed to resizeImage like a photo.
+ * Rejects when the browser can't decode the video (HEVC in Chrome) or
+ * doesn't get to a frame within POSTER_TIMEOUT_MS.
+ */
+export function extractVideoPoster(file: File): Promise<VideoPoster> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        const url = URL.createObjectURL(file);
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = 'auto';
+
+        const timeout = setTimeout(() => {
+            cleanup();
+            reject(new Error("Timed out reading video"));
+        }, POSTER_TIMEOUT_MS);
+
+        const cleanup = () => {
+            clearTimeout(timeout);
+            video.onloadedmetadata = video.onseeked = video.onerror = null;
+            URL.revokeObjectURL(url);
+            video.removeAttribute('src');
+            video.load();
+        };
+
+        video.onloadedmetadata = () => {
+            // Skip the very first frame, which is often black
+            video.currentTime = Math.min(0.5, video.duration / 2 || 0);
+        };
+        video.onseeked = async () => {
+            try {
+                if (!video.videoWidth || !video.videoHeight) throw new Error("Could not decode video");
+                const canvas = document.createElement('canvas');
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                const ctx = canvas.getContext('2d');
+                if (!ctx) throw new Error("Could not get canvas context");
+                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+                const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+                const poster = new File([blob], file.name.replace(/\.[^.]+$/, '') + '-poster.jpg', { type: 'image/jpeg' });
+                resolve({
+                    poster,
+                    width: video.videoWidth,
+                    height: video.videoHeight,
+                    durationMs: Math.round((video.duration || 0) * 1000),
+                });
+            } catch (err) {
+                reject(err);
+            } finally {
+                cleanup();
+            }
+        };
+        video.onerror = () => {
+            cleanup();
+            reject(new Error("Could not read video"));
+        };
+        video.src = url;
+    });
+}
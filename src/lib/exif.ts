@@ -0,0 +1,230 @@
+/**
+ * Extended EXIF ("shooting data") kept in images.metadata. Shared by the
+ * browser upload, the server-side fallback in image-processing and the
+ * photo info panel, so all of them read and show the same fields.
+ */
+
+export interface PhotoMetadata {
+    lensMake?: string;
+    lensModel?: string;
+    focalLength?: number;        // mm, as recorded
+    focalLength35mm?: number;    // 35mm-equivalent, when the camera records it
+    aperture?: number;           // f-number
+    exposureTime?: number;       // seconds
+    iso?: number;
+    flash?: boolean;             // whether the flash fired
+    altitude?: number;           // metres; negative below sea level
+    orientation?: number;        // EXIF orientation 1-8
+}
+
+export interface MetadataFilter {
+    camera?: string;     // camera model
+    lens?: string;       // lens model
+    focalMin?: number;   // mm
+    focalMax?: number;   // mm
+}
+
+/**
+ * Cameras and lenses in a set of photos, most used first, and the range of
+ * recorded focal lengths: the choices offered by the filter controls.
+ */
+export interface MetadataFacets {
+    cameras: { make: string | null; model: string; count: number }[];
+    lenses: { model: string; count: number }[];
+    focalLength: { min: number | null; max: number | null };
+}
+
+/**
+ * Tags to pass to exifr's `pick` (with `translateValues: false`, so Flash and
+ * Orientation stay numeric) alongside whatever else the caller reads.
+ */
+export const METADATA_EXIF_TAGS = [
+    'LensMake', 'LensModel', 'FocalLength', 'FocalLengthIn35mmFormat', 'FNumber',
+    'ExposureTime', 'ISO', 'Flash', 'GPSAltitude', 'GPSAltitudeRef', 'Orientation',
+];
+
+const MAX_TEXT_LENGTH = 200;
+
+function text(value: unknown) {
+    if (typeof value !== "string") return undefined;
+    const trimmed = value.replace(/\0/g, "").trim();
+    return trimmed ? trimmed.slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+function positive(value: unknown, max: number) {
+    const num = Array.isArray(value) ? Number(value[0]) : Number(value);
+    return typeof value !== "boolean" && value !== null && value !== "" && Number.isFinite(num) && num > 0 && num <= max
+        ? num
+        : undefined;
+}
+
+function withoutEmpty(metadata: PhotoMetadata): PhotoMetadata {
+    return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as PhotoMetadata;
+}
+
+/**
+ * Build metadata from tags parsed by exifr (raw values).
+ */
+export function readPhotoMetadata(tags: Record<string, unknown> | null | undefined): PhotoMetadata {
+    if (!tags) return {};
+
+    let altitude: number | undefined;
+    if (tags.GPSAltitude != null && Number.isFinite(Number(tags.GPSAltitude))) {
+        // GPSAltitudeRef 1 means below sea level
+        const ref = Array.isArray(tags.GPSAltitudeRef) ? tags.GPSAltitudeRef[0] : tags.GPSAltitudeRef;
+        altitude = Number(tags.GPSAltitude) * (Number(ref) === 1 ? -1 : 1);
+    }
+
+    return sanitizePhotoMetadata({
+        lensMake: tags.LensMake,
+        lensModel: tags.LensModel,
+        focalLength: tags.FocalLength,
+        focalLength35mm: tags.FocalLengthIn35mmFormat,
+        aperture: tags.FNumber,
+        exposureTime: tags.ExposureTime,
+        iso: tags.ISO,
+        // Bit 0 of the EXIF Flash value: fired
+        flash: tags.Flash != null && Number.isFinite(Number(tags.Flash)) ? (Number(tags.Flash) & 1) === 1 : undefined,
+        altitude,
+        orientation: tags.Orientation,
+    });
+}
+
+/**
+ * Keep only well-formed fields from client-supplied metadata.
+ */
+export function sanitizePhotoMetadata(input: unknown): PhotoMetadata {
+    if (!input || typeof input !== "object") return {};
+    const raw = input as Record<string, unknown>;
+
+    const orientation = Number(raw.orientation);
+    const altitude = Number(raw.altitude);
+
+    return withoutEmpty({
+        lensMake: text(raw.lensMake),
+        lensModel: text(raw.lensModel),
+        focalLength: positive(raw.focalLength, 10000),
+        focalLength35mm: positive(raw.focalLength35mm, 10000),
+        aperture: positive(raw.aperture, 1000),
+        exposureTime: positive(raw.exposureTime, 100000),
+        iso: positive(raw.iso, 10000000),
+        flash: typeof raw.flash === "boolean" ? raw.flash : undefined,
+        altitude: raw.altitude != null && raw.altitude !== "" && Number.isFinite(altitude) && Math.abs(altitude) < 100000 ? altitude : undefined,
+        orientation: Number.isInteger(orientation) && orientation >= 1 && orientation <= 8 ? orientation : undefined,
+    });
+}
+
+/**
+ * Read camera/lens/focal-length filters from query parameters. Missing or
+ * malformed values are ignored.
+ */
+export function parseMetadataFilter(searchParams: URLSearchParams): MetadataFilter {
+    const focalMin = Number(searchParams.get("focalMin"));
+    const focalMax = Number(searchParams.get("focalMax"));
+    return {
+        camera: searchParams.get("camera")?.trim() || undefined,
+        lens: searchParams.get("lens")?.trim() || undefined,
+        focalMin: searchParams.get("focalMin") && Number.isFinite(focalMin) ? focalMin : undefined,
+        focalMax: searchParams.get("focalMax") && Number.isFinite(focalMax) ? focalMax : undefined,
+    };
+}
+
+export function isMetadataFilterActive(filter: MetadataFilter) {
+    return !!filter.camera || !!filter.lens || filter.focalMin != null || filter.focalMax != null;
+}
+
+/**
+ * Query string for a filter, e.g. "&camera=X100V&focalMin=20" ("" when empty).
+ */
+export function metadataFilterQuery(filter: MetadataFilter) {
+    const params = new URLSearchParams();
+    if (filter.camera) params.set("camera", filter.camera);
+    if (filter.lens) params.set("lens", filter.lens);
+    if (filter.focalMin != null) params.set("focalMin", String(filter.focalMin));
+    if (filter.focalMax != null) params.set("focalMax", String(filter.focalMax));
+    const query = params.toString();
+    return query ? `&${query}` : "";
+}
+
+/**
+ * Client-side counterpart of the server filter, for lists already loaded.
+ */
+export function matchesMetadataFilter(
+    image: { cameraModel?: string | null; metadata?: PhotoMetadata | null },
+    filter: MetadataFilter
+) {
+    if (filter.camera && image.cameraModel !== filter.camera) return false;
+    if (filter.lens && image.metadata?.lensModel !== filter.lens) return false;
+    if (filter.focalMin != null || filter.focalMax != null) {
+        const focal = image.metadata?.focalLength;
+        if (focal == null) return false;
+        if (filter.focalMin != null && focal < filter.focalMin) return false;
+        if (filter.focalMax != null && focal > filter.focalMax) return false;
+    }
+    return true;
+}
+
+/**
+ * Facets for photos already loaded on the client (the album page), matching
+ * what MetadataService.getFacets computes in SQL.
+ */
+export function metadataFacets(
+    images: { cameraMake?: string | null; cameraModel?: string | null; metadata?: PhotoMetadata | null }[]
+): MetadataFacets {
+    const cameras = new Map<string, { make: string | null; model: string; count: number }>();
+    const lenses = new Map<string, number>();
+    let min: number | null = null;
+    let max: number | null = null;
+
+    for (const image of images) {
+        if (image.cameraModel) {
+            const camera = cameras.get(image.cameraModel) || { make: image.cameraMake || null, model: image.cameraModel, count: 0 };
+            camera.count++;
+            cameras.set(image.cameraModel, camera);
+        }
+        const lens = image.metadata?.lensModel;
+        if (lens) lenses.set(lens, (lenses.get(lens) || 0) + 1);
+        const focal = image.metadata?.focalLength;
+        if (focal != null) {
+            min = min === null ? focal : Math.min(min, focal);
+            max = max === null ? focal : Math.max(max, focal);
+        }
+    }
+
+    const byCount = (a: { model: string; count: number }, b: { model: string; count: number }) =>
+        b.count - a.count || a.model.localeCompare(b.model);
+
+    return {
+        cameras: Array.from(cameras.values()).sort(byCount),
+        lenses: Array.from(lenses, ([model, count]) => ({ model, count })).sort(byCount),
+        focalLength: { min, max },
+    };
+}
+
+export function formatExposureTime(seconds: number) {
+    if (seconds >= 1) return `${Number(seconds.toFixed(1))} s`;
+    return `1/${Math.round(1 / seconds)} s`;
+}
+
+export function formatAperture(fNumber: number) {
+    return `ƒ/${Number(fNumber.toFixed(1))}`;
+}
+
+export function formatFocalLength(mm: number) {
+    return `${Number(mm.toFixed(1))} mm`;
+}
+
+const ORIENTATION_LABELS: Record<number, string> = {
+    1: "Normal",
+    2: "Mirrored",
+    3: "Rotated 180°",
+    4: "Mirrored, rotated 180°",
+    5: "Mirrored, rotated 90° CCW",
+    6: "Rotated 90° CW",
+    7: "Mirrored, rotated 90° CW",
+    8: "Rotated 90° CCW",
+};
+
+export function formatOrientation(orientation: number) {
+    return ORIENTATION_LABELS[orientation] || String(orientation);
+}
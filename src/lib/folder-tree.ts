@@ -0,0 +1,68 @@
+export interface FolderNode {
+    id: string;
+    name: string;
+    parentId?: string | null;
+}
+
+/**
+ * Folders in depth-first order (siblings by name) with their nesting depth,
+ * for indented pickers.
+ */
+export function flattenFolderTree<T extends FolderNode>(folders: T[]): { folder: T; depth: number }[] {
+    const childrenOf = new Map<string | null, T[]>();
+    const ids = new Set(folders.map(f => f.id));
+    for (const folder of folders) {
+        // Folders whose parent is not in the list are treated as top-level
+        const parentId = folder.parentId && ids.has(folder.parentId) ? folder.parentId : null;
+        childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), folder]);
+    }
+
+    const result: { folder: T; depth: number }[] = [];
+    const seen = new Set<string>();
+    const visit = (parentId: string | null, depth: number) => {
+        const children = (childrenOf.get(parentId) || []).slice().sort((a, b) => a.name.localeCompare(b.name));
+        for (const folder of children) {
+            if (seen.has(folder.id)) continue;
+            seen.add(folder.id);
+            result.push({ folder, depth });
+            visit(folder.id, depth + 1);
+        }
+    };
+    visit(null, 0);
+
+    return result;
+}
+
+/**
+ * Path from the top-level folder down to `folderId`.
+ */
+export function getFolderBreadcrumb<T extends FolderNode>(folders: T[], folderId: string | null): T[] {
+    const byId = new Map(folders.map(f => [f.id, f]));
+    const path: T[] = [];
+    const seen = new Set<string>();
+    let current = folderId ? byId.get(folderId) : undefined;
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+}
+
+/**
+ * IDs of `folderId` and every folder below it.
+ */
+export function getSubtreeIds<T extends FolderNode>(folders: T[], folderId: string): Set<string> {
+    const result = new Set<string>([folderId]);
+    let added = true;
+    while (added) {
+        added = false;
+        for (const folder of folders) {
+            if (folder.parentId && result.has(folder.parentId) && !result.has(folder.id)) {
+                result.add(folder.id);
+                added = true;
+            }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,171 @@
+import { XMLParser } from "fast-xml-parser";
+
+/**
+ * GPX tracks recorded alongside a shoot, and matching photos to them by
+ * capture time. Track times are UTC (the GPX spec requires it), as is
+ * images.date_taken.
+ */
+
+export interface TrackPoint {
+    lat: number;
+    lng: number;
+    time: number;  // ms since epoch
+}
+
+export interface GpxTrack {
+    name: string | null;
+    points: TrackPoint[];  // timed points, oldest first
+}
+
+export interface TrackMatch {
+    lat: number;
+    lng: number;
+    method: "interpolated" | "nearest";
+    gapSeconds: number;  // distance in time to the closest track point used
+}
+
+// Just the parts of a parsed document we read; values are strings
+interface RawPoint {
+    lat?: string;
+    lon?: string;
+    time?: unknown;
+}
+
+interface RawGpx {
+    metadata?: { name?: unknown };
+    trk?: { name?: unknown; trkseg?: { trkpt?: RawPoint[] }[] }[];
+    rte?: { name?: unknown; rtept?: RawPoint[] }[];
+}
+
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    removeNSPrefix: true,
+    parseTagValue: false,
+    isArray: (name) => ["trk", "trkseg", "trkpt", "rte", "rtept"].includes(name),
+});
+
+function toPoint(raw: RawPoint): TrackPoint | null {
+    const lat = Number(raw.lat);
+    const lng = Number(raw.lon);
+    const time = Date.parse(typeof raw.time === "string" ? raw.time : "");
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180 || isNaN(time)) {
+        return null;
+    }
+    return { lat, lng, time };
+}
+
+/**
+ * Timed points of every track and route in a GPX document, merged and
+ * sorted by time. Points without a timestamp can't be matched and are left
+ * out. Throws "Invalid GPX file" when the document isn't GPX.
+ */
+export function parseGpx(xml: string): GpxTrack {
+    let doc: { gpx?: RawGpx | string };
+    try {
+        doc = parser.parse(xml);
+    } catch {
+        throw new Error("Invalid GPX file");
+    }
+    const gpx = doc?.gpx;
+    if (!gpx || typeof gpx !== "object") throw new Error("Invalid GPX file");
+
+    const raw = [
+        ...(gpx.trk ?? []).flatMap(trk => (trk.trkseg ?? []).flatMap(seg => seg.trkpt ?? [])),
+        ...(gpx.rte ?? []).flatMap(rte => rte.rtept ?? []),
+    ];
+    const points = raw
+        .map(toPoint)
+        .filter((p): p is TrackPoint => p !== null)
+        .sort((a, b) => a.time - b.time);
+
+    const name = gpx.trk?.[0]?.name ?? gpx.metadata?.name ?? gpx.rte?.[0]?.name;
+    return { name: typeof name === "string" && name.trim() ? name.trim() : null, points };
+}
+
+/**
+ * Where the track was at an instant. Between two points that are both
+ * within `toleranceMs` of it, the position is interpolated linearly;
+ * otherwise the nearest point is used if it is within the tolerance. Null
+ * when the track has no point close enough in time.
+ */
+export function positionAt(points: TrackPoint[], instant: number, toleranceMs: number): TrackMatch | null {
+    if (points.length === 0) return null;
+
+    // First point at or after the instant
+    let lo = 0;
+    let hi = points.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (points[mid].time < instant) lo = mid + 1;
+        else hi = mid;
+    }
+
+    const after = points[lo];
+    const before = points[lo - 1];
+    const afterGap = after ? after.time - instant : Infinity;
+    const beforeGap = before ? instant - before.time : Infinity;
+
+    if (before && after && beforeGap <= toleranceMs && afterGap <= toleranceMs && after.time > before.time) {
+        const t = beforeGap / (after.time - before.time);
+        return {
+            lat: before.lat + (after.lat - before.lat) * t,
+            lng: before.lng + (after.lng - before.lng) * t,
+            method: afterGap === 0 ? "nearest" : "interpolated",
+            gapSeconds: Math.round(Math.min(beforeGap, afterGap) / 1000),
+        };
+    }
+
+    const nearest = afterGap < beforeGap ? after : before;
+    const gap = Math.min(afterGap, beforeGap);
+    if (!nearest || gap > toleranceMs) return null;
+    return { lat: nearest.lat, lng: nearest.lng, method: "nearest", gapSeconds: Math.round(gap / 1000) };
+}
+
+function perpendicularDistance(p: TrackPoint, a: TrackPoint, b: TrackPoint) {
+    const dx = b.lng - a.lng;
+    const dy = b.lat - a.lat;
+    if (dx === 0 && dy === 0) return Math.hypot(p.lng - a.lng, p.lat - a.lat);
+    const t = Math.max(0, Math.min(1, ((p.lng - a.lng) * dx + (p.lat - a.lat) * dy) / (dx * dx + dy * dy)));
+    return Math.hypot(p.lng - (a.lng + t * dx), p.lat - (a.lat + t * dy));
+}
+
+/**
+ * The track as a [lng, lat] line of at most `maxPoints` points for drawing,
+ * thinned with Douglas-Peucker (tolerance raised until it fits).
+ */
+export function simplifyTrack(points: TrackPoint[], maxPoints = 2000): [number, number][] {
+    if (points.length <= maxPoints) return points.map(p => [p.lng, p.lat]);
+
+    const keepWithin = (epsilon: number) => {
+        const keep = new Uint8Array(points.length);
+        keep[0] = keep[points.length - 1] = 1;
+        const stack: [number, number][] = [[0, points.length - 1]];
+        while (stack.length > 0) {
+            const [start, end] = stack.pop()!;
+            let index = -1;
+            let max = epsilon;
+            for (let i = start + 1; i < end; i++) {
+                const d = perpendicularDistance(points[i], points[start], points[end]);
+                if (d > max) {
+                    index = i;
+                    max = d;
+                }
+            }
+            if (index !== -1) {
+                keep[index] = 1;
+                stack.push([start, index], [index, end]);
+            }
+        }
+        return points.filter((_, i) => keep[i]);
+    };
+
+    // ~1 m to start with, in degrees
+    let epsilon = 0.00001;
+    let line = keepWithin(epsilon);
+    while (line.length > maxPoints) {
+        epsilon *= 2;
+        line = keepWithin(epsilon);
+    }
+    return line.map(p => [p.lng, p.lat]);
+}
@@ -1,44 +1,48 @@
 import sharp from 'sharp';
 import exifr from 'exifr';
+import { isRawMimeType } from '@/lib/media';
+import { METADATA_EXIF_TAGS, readPhotoMetadata, type PhotoMetadata } from '@/lib/exif';
+import { exifLocalDateTime, parseUtcOffset } from '@/lib/capture-time';
 
 export interface ProcessedImage {
-    originalBuffer: Buffer;
     displayBuffer: Buffer;
     thumbBuffer: Buffer;
     width: number;
     height: number;
     exif: {
         dateTaken?: Date;
+        dateTakenLocal?: string;   // wall clock, no zone
+        dateTakenOffset?: number;  // minutes east of UTC, from OffsetTimeOriginal
         cameraMake?: string;
         cameraModel?: string;
         gpsLatitude?: number;
         gpsLongitude?: number;
+        metadata?: PhotoMetadata;
     } | null;
 }
 
 /**
- * Process an image buffer into three WebP variants:
- * - original: lossless WebP (highest quality)
+ * Process an image buffer into the two preview variants (the original is
+ * always kept as uploaded):
  * - display: WebP quality 90, max 2000px (for photo viewer)
  * - thumb: WebP quality 70, max 400px (for gallery grid)
+ *
+ * RAW files, and HEIC when this sharp build can't decode HEVC, are rendered
+ * from their embedded JPEG preview instead. EXIF always comes from the file
+ * itself.
  */
-export async function processImage(buffer: Buffer): Promise<ProcessedImage> {
+export async function processImage(input: Buffer, mimeType?: string): Promise<ProcessedImage> {
     // Extract EXIF before processing (sharp may strip it)
-    const exif = await extractExif(buffer);
+    const exif = await extractExif(input);
 
-    // Get original dimensions
-    const metadata = await sharp(buffer).metadata();
+    const source = await getDecodableSource(input, mimeType);
+    const buffer = source.buffer;
 
-    // Process all three variants in parallel
-    const [originalBuffer, displayBuffer, thumbBuffer] = await Promise.all([
-        // Original: WebP quality 95, preserving orientation
-        // Changed from lossless to q95 to prevent 3x-4x size inflation on JPEGs
-        // Added .rotate() to fix orientation (EXIF)
-        sharp(buffer)
-            .rotate()
-            .webp({ quality: 95 })
-            .toBuffer(),
+    // Original dimensions as displayed, i.e. after EXIF rotation
+    const metadata = await sharp(buffer).metadata();
 
+    // Process both variants in parallel
+    const [displayBuffer, thumbBuffer] = await Promise.all([
         // Display: WebP quality 90, max 2000px on longest side
         sharp(buffer)
             .rotate()
@@ -54,19 +58,97 @@ export async function processImage(buffer: Buffer): Promise<ProcessedImage> {
             .toBuffer(),
     ]);
 
-    // Recalculate dimensions from the processed original to ensure they match rotation
-    const originalMetadata = await sharp(originalBuffer).metadata();
-
     return {
-        originalBuffer,
         displayBuffer,
         thumbBuffer,
-        width: originalMetadata.width || metadata.width || 0,
-        height: originalMetadata.height || metadata.height || 0,
+        width: source.width || metadata.autoOrient?.width || metadata.width || 0,
+        height: source.height || metadata.autoOrient?.height || metadata.height || 0,
         exif,
     };
 }
 
+type DecodableSource = { buffer: Buffer; width?: number; height?: number };
+
+// EXIF orientations that need a rotation, in degrees clockwise
+const ORIENTATION_ANGLES: Record<number, number> = { 3: 180, 6: 90, 8: 270 };
+
+/**
+ * Something sharp can decode for the given upload. Ordinary images pass
+ * through. RAW always uses its embedded preview, since sharp would otherwise
+ * pick the tiny IFD0 thumbnail or fail outright; other formats fall back to
+ * the preview only when sharp can't decode them.
+ */
+async function getDecodableSource(buffer: Buffer, mimeType?: string): Promise<DecodableSource> {
+    if (!isRawMimeType(mimeType)) {
+        try {
+            // Decode a tiny version to prove the codec is available
+            await sharp(buffer).resize(8, 8, { fit: 'inside' }).toBuffer();
+            return { buffer };
+        } catch (error) {
+            console.warn('sharp cannot decode image, trying embedded preview:', error);
+        }
+    }
+
+    const preview = await extractEmbeddedPreview(buffer);
+    if (!preview) throw new Error('Unsupported image format');
+
+    // The preview carries no orientation of its own; apply the file's
+    const tags = await exifr.parse(buffer, {
+        pick: ['Orientation', 'ExifImageWidth', 'ExifImageHeight'],
+        translateValues: false,
+    }).catch(() => null);
+    const angle = ORIENTATION_ANGLES[tags?.Orientation];
+    const oriented = angle
+        ? await sharp(preview).rotate(angle).jpeg({ quality: 95 }).toBuffer()
+        : preview;
+
+    // Prefer the sensor dimensions from EXIF over the preview's
+    let width: number | undefined = tags?.ExifImageWidth;
+    let height: number | undefined = tags?.ExifImageHeight;
+    if (width && height && (angle === 90 || angle === 270)) {
+        [width, height] = [height, width];
+    }
+    return { buffer: oriented, width, height };
+}
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+const MAX_PREVIEW_CANDIDATES = 32;
+
+/**
+ * Largest decodable JPEG embedded in a file. RAW formats (CR2, NEF, ARW,
+ * DNG) and HEIC carry one or more previews; scanning for JPEG start markers
+ * finds them without format-specific parsing.
+ */
+async function extractEmbeddedPreview(buffer: Buffer): Promise<Buffer | null> {
+    const candidates: { buffer: Buffer; pixels: number }[] = [];
+
+    let offset = buffer.indexOf(JPEG_SOI);
+    while (offset !== -1 && candidates.length < MAX_PREVIEW_CANDIDATES) {
+        const slice = buffer.subarray(offset);
+        try {
+            const meta = await sharp(slice).metadata();
+            if (meta.format === 'jpeg' && meta.width && meta.height) {
+                candidates.push({ buffer: slice, pixels: meta.width * meta.height });
+            }
+        } catch {
+            // Not a real JPEG header, keep scanning
+        }
+        offset = buffer.indexOf(JPEG_SOI, offset + JPEG_SOI.length);
+    }
+
+    candidates.sort((a, b) => b.pixels - a.pixels);
+    for (const candidate of candidates) {
+        try {
+            // Header parsed; make sure the image data decodes too. Re-encoding
+            // also drops any trailing bytes of the container.
+            return await sharp(candidate.buffer).jpeg({ quality: 95 }).toBuffer();
+        } catch {
+            continue;
+        }
+    }
+    return null;
+}
+
 /**
  * Extract EXIF metadata from an image buffer.
  * Uses exifr.gps() for proper decimal GPS coordinates (exifr.parse with pick
@@ -76,7 +158,9 @@ async function extractExif(buffer: Buffer): Promise<ProcessedImage['exif']> {
     try {
         // Get EXIF metadata (non-GPS)
         const data = await exifr.parse(buffer, {
-            pick: ['DateTimeOriginal', 'Make', 'Model']
+            pick: ['DateTimeOriginal', 'OffsetTimeOriginal', 'OffsetTime', 'Make', 'Model', ...METADATA_EXIF_TAGS],
+            translateValues: false,
+            reviveValues: false,
         });
 
         // Get GPS as decimal degrees (exifr.gps handles DMS->decimal conversion)
@@ -94,12 +178,16 @@ async function extractExif(buffer: Buffer): Promise<ProcessedImage['exif']> {
 
         if (!data && gpsLatitude == null) return null;
 
+        const dateTakenLocal = exifLocalDateTime(data?.DateTimeOriginal);
         return {
-            dateTaken: data?.DateTimeOriginal ? new Date(data.DateTimeOriginal) : undefined,
+            dateTaken: dateTakenLocal ? new Date(dateTakenLocal) : undefined,
+            dateTakenLocal,
+            dateTakenOffset: parseUtcOffset(data?.OffsetTimeOriginal) ?? parseUtcOffset(data?.OffsetTime),
             cameraMake: data?.Make,
             cameraModel: data?.Model,
             gpsLatitude,
             gpsLongitude,
+            metadata: readPhotoMetadata(data),
         };
     } catch (error) {
         console.error('Failed to extract EXIF:', error);
@@ -107,6 +195,37 @@ async function extractExif(buffer: Buffer): Promise<ProcessedImage['exif']> {
     }
 }
 
+/**
+ * 64-bit difference hash (dHash) of an image as 16 hex characters. The image
+ * is shrunk to 9x8 greyscale and each bit records whether a pixel is brighter
+ * than its right neighbour, so re-saves, resizes and small edits land within
+ * a few bits of each other.
+ */
+export async function computeDHash(buffer: Buffer): Promise<string> {
+    const pixels = await sharp(buffer)
+        .rotate()
+        .greyscale()
+        .resize(9, 8, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    let hash = '';
+    for (let row = 0; row < 8; row++) {
+        // Two nibbles per row of 8 comparisons
+        for (let half = 0; half < 2; half++) {
+            let nibble = 0;
+            for (let bit = 0; bit < 4; bit++) {
+                const col = half * 4 + bit;
+                const left = pixels[row * 9 + col];
+                const right = pixels[row * 9 + col + 1];
+                nibble = (nibble << 1) | (left > right ? 1 : 0);
+            }
+            hash += nibble.toString(16);
+        }
+    }
+    return hash;
+}
+
 /**
  * Get file extension from mime type
  */
@@ -118,6 +237,13 @@ export function getExtensionFromMime(mimeType: string): string {
         'image/webp': 'webp',
         'image/heic': 'heic',
         'image/heif': 'heif',
+        'image/x-canon-cr2': 'cr2',
+        'image/x-nikon-nef': 'nef',
+        'image/x-sony-arw': 'arw',
+        'image/x-adobe-dng': 'dng',
+        'video/mp4': 'mp4',
+        'video/quicktime': 'mov',
+        'video/webm': 'webm',
     };
     return map[mimeType] || 'jpg';
 }
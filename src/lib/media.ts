@@ -0,0 +1,80 @@
+/**
+ * Video formats accepted for upload. Browsers can play all of these except
+ * some QuickTime codecs, which still download fine.
+ */
+export const VIDEO_MIME_TYPES = ["video/mp4", "video/quicktime", "video/webm"];
+
+/**
+ * Camera RAW formats by file extension. Browsers usually report an empty
+ * type for these, so the extension decides.
+ */
+export const RAW_MIME_TYPES: Record<string, string> = {
+    cr2: "image/x-canon-cr2",
+    nef: "image/x-nikon-nef",
+    arw: "image/x-sony-arw",
+    dng: "image/x-adobe-dng",
+};
+
+export const HEIF_MIME_TYPES = ["image/heic", "image/heif"];
+
+// `accept` attribute for upload inputs
+export const UPLOAD_ACCEPT = [
+    "image/*",
+    ...VIDEO_MIME_TYPES,
+    ...HEIF_MIME_TYPES,
+    ".heic",
+    ".heif",
+    ...Object.keys(RAW_MIME_TYPES).map(ext => `.${ext}`),
+].join(",");
+
+function getExtension(filename: string) {
+    const dot = filename.lastIndexOf(".");
+    return dot === -1 ? "" : filename.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Content type to upload a file with: the browser's type, or one derived
+ * from the extension for RAW and HEIC files the browser doesn't recognise.
+ */
+export function getUploadMimeType(file: { name: string; type: string }): string {
+    const ext = getExtension(file.name);
+    if (RAW_MIME_TYPES[ext]) return RAW_MIME_TYPES[ext];
+    if (file.type) return file.type;
+    if (ext === "heic" || ext === "heif") return `image/${ext}`;
+    return "application/octet-stream";
+}
+
+export function isUploadableFile(file: { name: string; type: string }): boolean {
+    const type = getUploadMimeType(file);
+    return type.startsWith("image/") || VIDEO_MIME_TYPES.includes(type);
+}
+
+export function isRawMimeType(mimeType?: string | null): boolean {
+    return !!mimeType && Object.values(RAW_MIME_TYPES).includes(mimeType);
+}
+
+/**
+ * Formats a browser canvas can't decode, so display/thumb variants have to
+ * be generated on the server.
+ */
+export function needsServerVariants(mimeType?: string | null): boolean {
+    return !!mimeType && (HEIF_MIME_TYPES.includes(mimeType) || isRawMimeType(mimeType));
+}
+
+export function isVideoMimeType(mimeType?: string | null): boolean {
+    return !!mimeType && mimeType.startsWith("video/");
+}
+
+/**
+ * Clip length as m:ss (or h:mm:ss), e.g. 75000 -> "1:15".
+ */
+export function formatDuration(durationMs?: number | null): string {
+    if (durationMs == null || durationMs < 0) return "";
+    const totalSeconds = Math.round(durationMs / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, "0");
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+        : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,194 @@
+/**
+ * Resumable upload of large originals through S3 multipart uploads
+ * (/api/images/multipart). Progress is persisted in localStorage per file,
+ * so after a refresh or a dropped connection, adding the same file again
+ * continues where it stopped instead of starting over.
+ */
+
+// Files above this size are uploaded in parts
+export const MULTIPART_THRESHOLD = 32 * 1024 * 1024;
+
+const STORAGE_PREFIX = "keproop-upload:";
+// Multipart tickets last 24 hours; leave room to finish and register
+const MAX_RESUME_AGE_MS = 20 * 60 * 60 * 1000;
+const PART_CONCURRENCY = 3;
+const PART_URL_BATCH = 10;
+const PART_RETRIES = 3;
+
+export interface UploadKeys {
+    original: string;
+    display: string;
+    thumb: string;
+}
+
+export interface ResumableUploadState {
+    ticket: string;
+    keys: UploadKeys;
+    uploadId: string;
+    partSize: number;
+    variantsUploaded: boolean;
+    contentHash?: string;  // so a resume doesn't re-read the whole file
+    completed?: boolean;   // parts assembled; only registering is left
+    startedAt: number;
+}
+
+/**
+ * The saved upload is gone or its ticket expired; start from scratch.
+ */
+export class UploadExpiredError extends Error {
+    constructor() {
+        super("Upload expired");
+        this.name = "UploadExpiredError";
+    }
+}
+
+/**
+ * Identifies "the same file" across page loads. File handles don't survive
+ * a refresh, so name, size and modification time have to do.
+ */
+export function getUploadFingerprint(albumId: string, file: File) {
+    return `${STORAGE_PREFIX}${albumId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function loadUploadState(fingerprint: string): ResumableUploadState | null {
+    try {
+        const raw = localStorage.getItem(fingerprint);
+        if (!raw) return null;
+        const state = JSON.parse(raw) as ResumableUploadState;
+        if (!state.uploadId || Date.now() - state.startedAt > MAX_RESUME_AGE_MS) {
+            localStorage.removeItem(fingerprint);
+            return null;
+        }
+        return state;
+    } catch {
+        return null;
+    }
+}
+
+export function saveUploadState(fingerprint: string, state: ResumableUploadState) {
+    try {
+        localStorage.setItem(fingerprint, JSON.stringify(state));
+    } catch {
+        // Storage full or disabled: the upload still works, it just can't resume
+    }
+}
+
+export function clearUploadState(fingerprint: string) {
+    try {
+        localStorage.removeItem(fingerprint);
+    } catch {
+        // Ignore
+    }
+}
+
+async function postJson<T>(url: string, body: unknown, method = "POST", signal?: AbortSignal): Promise<T> {
+    const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (res.status === 403 || res.status === 404) throw new UploadExpiredError();
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(typeof data.error === "string" ? data.error : "Multipart upload failed");
+    }
+    return res.json();
+}
+
+/**
+ * Start a multipart upload for the original named in `ticket`.
+ */
+export async function startMultipartUpload(ticket: string) {
+    return postJson<{ uploadId: string; key: string; partSize: number }>("/api/images/multipart", { ticket });
+}
+
+export async function abortMultipartUpload(state: Pick<ResumableUploadState, "ticket" | "uploadId">) {
+    await postJson("/api/images/multipart", { ticket: state.ticket, uploadId: state.uploadId }, "DELETE");
+}
+
+async function uploadPart(url: string, body: Blob, signal?: AbortSignal): Promise<string> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt < PART_RETRIES; attempt++) {
+        if (attempt > 0) await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** attempt));
+        signal?.throwIfAborted();
+        try {
+            const res = await fetch(url, { method: "PUT", body, signal });
+            if (!res.ok) throw new Error(`Part upload failed (${res.status})`);
+            // Needs ETag in the bucket's CORS ExposeHeaders
+            const etag = res.headers.get("ETag");
+            if (!etag) throw new Error("Part upload returned no ETag; expose it in the bucket CORS settings");
+            return etag;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            lastError = error;
+        }
+    }
+    throw lastError;
+}
+
+/**
+ * Upload whatever parts of `file` S3 doesn't have yet, then assemble them.
+ * `onProgress` receives the fraction of bytes stored so far (0-1). Aborting
+ * `signal` leaves the finished parts in place for the next attempt.
+ */
+export async function uploadFileParts(
+    file: File,
+    state: ResumableUploadState,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+) {
+    const totalParts = Math.max(1, Math.ceil(file.size / state.partSize));
+    const partSize = (partNumber: number) => Math.min(state.partSize, file.size - (partNumber - 1) * state.partSize);
+
+    // Ask S3 what it already has
+    const { uploadedParts } = await postJson<{ uploadedParts: { partNumber: number; etag: string; size: number }[] }>(
+        "/api/images/multipart/parts",
+        { ticket: state.ticket, uploadId: state.uploadId, partNumbers: [] },
+        "POST",
+        signal
+    );
+
+    const etags = new Map<number, string>();
+    for (const part of uploadedParts) {
+        // A short part (other than the last) means an interrupted PUT; redo it
+        if (part.partNumber <= totalParts && part.size === partSize(part.partNumber)) {
+            etags.set(part.partNumber, part.etag);
+        }
+    }
+
+    let uploadedBytes = Array.from(etags.keys()).reduce((sum, n) => sum + partSize(n), 0);
+    onProgress?.(uploadedBytes / file.size);
+
+    const missing = Array.from({ length: totalParts }, (_, i) => i + 1).filter(n => !etags.has(n));
+
+    // Presign in small batches so URLs don't expire on slow connections
+    for (let i = 0; i < missing.length; i += PART_URL_BATCH) {
+        const batch = missing.slice(i, i + PART_URL_BATCH);
+        const { urls } = await postJson<{ urls: Record<number, string> }>(
+            "/api/images/multipart/parts",
+            { ticket: state.ticket, uploadId: state.uploadId, partNumbers: batch },
+            "POST",
+            signal
+        );
+
+        const queue = [...batch];
+        const worker = async () => {
+            while (queue.length > 0) {
+                const partNumber = queue.shift()!;
+                const start = (partNumber - 1) * state.partSize;
+                const etag = await uploadPart(urls[partNumber], file.slice(start, start + partSize(partNumber)), signal);
+                etags.set(partNumber, etag);
+                uploadedBytes += partSize(partNumber);
+                onProgress?.(uploadedBytes / file.size);
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, batch.length) }, worker));
+    }
+
+    await postJson("/api/images/multipart/complete", {
+        ticket: state.ticket,
+        uploadId: state.uploadId,
+        parts: Array.from(etags, ([partNumber, etag]) => ({ partNumber, etag })),
+    }, "POST", signal);
+}
@@ -0,0 +1,22 @@
+/**
+ * Place names stored with geotagged photos (images.place_*), resolved from
+ * the bundled gazetteer by src/lib/services/place.service.ts.
+ */
+export interface PlaceNames {
+    placeCity?: string | null;
+    placeRegion?: string | null;
+    placeCountry?: string | null;
+}
+
+/**
+ * "Mae Rim, Chiang Mai, Thailand", skipping parts that repeat the one
+ * before ("Chiang Mai, Thailand" rather than "Chiang Mai, Chiang Mai, ...").
+ * Null when the photo has no place.
+ */
+export function formatPlaceName({ placeCity, placeRegion, placeCountry }: PlaceNames): string | null {
+    const parts: string[] = [];
+    for (const part of [placeCity, placeRegion, placeCountry]) {
+        if (part && part !== parts[parts.length - 1]) parts.push(part);
+    }
+    return parts.length > 0 ? parts.join(", ") : null;
+}
@@ -1,5 +1,9 @@
 
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import {
+    S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand, ListObjectsV2Command, CopyObjectCommand,
+    CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, ListPartsCommand,
+    UploadPartCopyCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 const s3Client = new S3Client({
@@ -14,6 +18,10 @@ const s3Client = new S3Client({
 
 const BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME!;
 
+// CopyObject handles up to 5 GB; larger objects are copied in parts
+const MAX_SINGLE_COPY_BYTES = 5 * 1024 ** 3;
+const COPY_PART_SIZE = 512 * 1024 ** 2;
+
 /**
  * Upload a buffer directly to S3 (for server-side processed images)
  */
@@ -67,6 +75,51 @@ export async function deleteS3Objects(keys: string[]) {
     return Promise.all(keys.map(key => deleteS3Object(key)));
 }
 
+/**
+ * Server-side copy within the bucket; the data never leaves S3. Objects
+ * over 5 GB (multipart uploads) are copied part by part.
+ */
+export async function copyS3Object(sourceKey: string, destinationKey: string) {
+    const copySource = encodeURI(`${BUCKET_NAME}/${sourceKey}`);
+    const source = await headS3Object(sourceKey);
+    const size = source?.ContentLength ?? 0;
+
+    if (size <= MAX_SINGLE_COPY_BYTES) {
+        const command = new CopyObjectCommand({
+            Bucket: BUCKET_NAME,
+            CopySource: copySource,
+            Key: destinationKey,
+        });
+        await s3Client.send(command);
+        return;
+    }
+
+    const uploadId = await createMultipartUpload(destinationKey, source?.ContentType || "application/octet-stream");
+    try {
+        const parts: { partNumber: number; etag: string }[] = [];
+        for (let start = 0, partNumber = 1; start < size; start += COPY_PART_SIZE, partNumber++) {
+            const end = Math.min(start + COPY_PART_SIZE, size) - 1;
+            const command = new UploadPartCopyCommand({
+                Bucket: BUCKET_NAME,
+                Key: destinationKey,
+                UploadId: uploadId,
+                PartNumber: partNumber,
+                CopySource: copySource,
+                CopySourceRange: `bytes=${start}-${end}`,
+            });
+            const result = await s3Client.send(command);
+            if (!result.CopyPartResult?.ETag) throw new Error("Failed to copy part");
+            parts.push({ partNumber, etag: result.CopyPartResult.ETag });
+        }
+        await completeMultipartUpload(destinationKey, uploadId, parts);
+    } catch (error) {
+        await abortMultipartUpload(destinationKey, uploadId).catch(() => {
+            // The bucket lifecycle rule reclaims it
+        });
+        throw error;
+    }
+}
+
 /**
  * Get S3 object as stream (for ZIP downloads)
  */
@@ -78,3 +131,152 @@ export async function getS3Object(key: string) {
     return s3Client.send(command);
 }
 
+/**
+ * Get part of an S3 object for HTTP range requests. `range` is passed
+ * through as-is (e.g. "bytes=0-1048575"); without it the whole object is
+ * returned.
+ */
+export async function getS3ObjectRange(key: string, range?: string) {
+    const command = new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        Range: range,
+    });
+    return s3Client.send(command);
+}
+
+/**
+ * Get object metadata (size, content type) without downloading it.
+ * Returns null if the object does not exist.
+ */
+export async function headS3Object(key: string) {
+    try {
+        const command = new HeadObjectCommand({
+            Bucket: BUCKET_NAME,
+            Key: key,
+        });
+        return await s3Client.send(command);
+    } catch (error) {
+        const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+        if (err.name === 'NotFound' || err.$metadata?.httpStatusCode === 404) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+export type S3ObjectSummary = {
+    key: string;
+    size: number;
+    lastModified: Date | null;
+};
+
+/**
+ * List every object under a prefix, following continuation tokens.
+ */
+export async function listS3Objects(prefix: string): Promise<S3ObjectSummary[]> {
+    const objects: S3ObjectSummary[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+        const command = new ListObjectsV2Command({
+            Bucket: BUCKET_NAME,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+        });
+        const page = await s3Client.send(command);
+
+        for (const obj of page.Contents || []) {
+            if (!obj.Key) continue;
+            objects.push({
+                key: obj.Key,
+                size: obj.Size ?? 0,
+                lastModified: obj.LastModified ?? null,
+            });
+        }
+
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+}
+
+/**
+ * Start a multipart upload. Incomplete uploads are invisible to
+ * listS3Objects, so the bucket needs an AbortIncompleteMultipartUpload
+ * lifecycle rule to reclaim abandoned ones.
+ */
+export async function createMultipartUpload(key: string, contentType: string) {
+    const command = new CreateMultipartUploadCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        ContentType: contentType,
+    });
+    const result = await s3Client.send(command);
+    if (!result.UploadId) throw new Error("Failed to start multipart upload");
+    return result.UploadId;
+}
+
+/**
+ * Presigned PUT URL for one part. Parts are uploaded one URL at a time, so
+ * an hour is plenty even on slow connections.
+ */
+export async function generateUploadPartUrl(key: string, uploadId: string, partNumber: number) {
+    const command = new UploadPartCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+    });
+    return getSignedUrl(s3Client, command, { expiresIn: 3600 }); // 1 hour
+}
+
+/**
+ * Parts S3 already holds for an upload, used to resume after a refresh.
+ */
+export async function listUploadedParts(key: string, uploadId: string) {
+    const parts: { partNumber: number; etag: string; size: number }[] = [];
+    let marker: string | undefined;
+
+    do {
+        const command = new ListPartsCommand({
+            Bucket: BUCKET_NAME,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: marker,
+        });
+        const result = await s3Client.send(command);
+        for (const part of result.Parts || []) {
+            if (part.PartNumber && part.ETag) {
+                parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+            }
+        }
+        marker = result.IsTruncated ? result.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+}
+
+export async function completeMultipartUpload(key: string, uploadId: string, parts: { partNumber: number; etag: string }[]) {
+    const command = new CompleteMultipartUploadCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+            Parts: parts
+                .slice()
+                .sort((a, b) => a.partNumber - b.partNumber)
+                .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+    });
+    return s3Client.send(command);
+}
+
+export async function abortMultipartUpload(key: string, uploadId: string) {
+    const command = new AbortMultipartUploadCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+    });
+    return s3Client.send(command);
+}
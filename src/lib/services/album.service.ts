@@ -1,11 +1,27 @@
 import { db } from "@/db";
 import { albums, albumMembers, images, favoriteAlbums, folders } from "@/db/schema";
-import { eq, desc, sql, and, isNull, inArray, or, ilike, gte, lte, lt, asc } from "drizzle-orm";
-import { generateDownloadUrl, deleteS3Objects } from "@/lib/s3";
+import { eq, desc, sql, and, isNull, isNotNull, inArray, or, ilike, gte, lte, lt, asc } from "drizzle-orm";
+import { generateDownloadUrl } from "@/lib/s3";
 import { checkAlbumPermission, getAlbumRole } from "@/lib/auth/rbac";
 import { logActivity } from "@/lib/activity";
 import { cookies } from "next/headers";
 import { verifyGuestToken } from "@/lib/auth/tokens";
+import { TagService, imagesWithAllTags } from "@/lib/services/tag.service";
+import { metadataFilterConditions } from "@/lib/services/metadata.service";
+import type { MetadataFilter } from "@/lib/exif";
+import { DEFAULT_ALBUM_RETENTION_DAYS, getPurgeDate } from "@/lib/services/trash.service";
+import { FolderService, liveFolderId } from "@/lib/services/folder.service";
+
+/**
+ * Subquery of album IDs that are not soft-deleted.
+ * Usable with `inArray(x.albumId, ...)`.
+ */
+export function activeAlbumIds() {
+    return db
+        .select({ id: albums.id })
+        .from(albums)
+        .where(isNull(albums.deletedAt));
+}
 
 export type ListAlbumsParams = {
     userId: string;
@@ -34,14 +50,15 @@ export type UpdateAlbumData = {
     visibility?: "public" | "private";
     coverImageId?: string | null;
     albumDate?: Date;
+    trashRetentionDays?: number | null;
 };
 
 export class AlbumService {
-    static async getAlbum(userId: string | null, albumId: string, options: { sortBy?: string, sortDir?: string } = {}) {
-        const { sortBy = 'createdAt', sortDir = 'desc' } = options;
+    static async getAlbum(userId: string | null, albumId: string, options: { sortBy?: string, sortDir?: string, tags?: string[], metadata?: MetadataFilter } = {}) {
+        const { sortBy = 'createdAt', sortDir = 'desc', tags = [], metadata = {} } = options;
 
         const album = await db.query.albums.findFirst({ where: eq(albums.id, albumId) });
-        if (!album) return null;
+        if (!album || album.deletedAt) return null;
 
         let hasAccess = false;
         let role = "viewer";
@@ -83,20 +100,27 @@ export class AlbumService {
             where: eq(albums.id, albumId),
             with: {
                 images: {
-                    where: (images, { isNull }) => isNull(images.deletedAt),
+                    where: (images, { and, isNull, inArray }) => and(
+                        isNull(images.deletedAt),
+                        tags.length > 0 ? inArray(images.id, imagesWithAllTags(tags)) : undefined,
+                        ...metadataFilterConditions(metadata, images)
+                    ),
                     orderBy: (images, { asc }) => [asc(images.createdAt)]
-                },
-                folders: {
-                    orderBy: (folders, { asc }) => [asc(folders.name)]
                 }
             }
         });
 
         if (!details) return null;
 
+        const tagMap = await TagService.getTagsForImages(details.images.map(img => img.id));
+        const deletedFolderIds = await FolderService.getDeletedFolderIds(albumId);
+        const albumFolders = await FolderService.listFolders(albumId);
+
         // Generate URLs
         const imagesWithUrls = await Promise.all(details.images.map(async (img) => ({
             ...img,
+            folderId: liveFolderId(img.folderId, deletedFolderIds),
+            tags: tagMap[img.id] || [],
             url: await generateDownloadUrl(img.s3KeyThumb || img.s3KeyDisplay || img.s3Key!),
             thumbUrl: img.s3KeyThumb ? await generateDownloadUrl(img.s3KeyThumb) : null,
             displayUrl: img.s3KeyDisplay ? await generateDownloadUrl(img.s3KeyDisplay) : null,
@@ -137,6 +161,7 @@ export class AlbumService {
             album: {
                 ...details,
                 images: imagesWithUrls,
+                folders: albumFolders,
                 coverImageUrl
             },
             userRole: role
@@ -153,6 +178,10 @@ export class AlbumService {
             throw new Error("Only owner can change visibility");
         }
 
+        if (data.trashRetentionDays !== undefined && currentRole !== "owner") {
+            throw new Error("Only owner can change trash retention");
+        }
+
         const [updated] = await db.update(albums).set({
             ...data,
             updatedAt: new Date(),
@@ -170,28 +199,19 @@ export class AlbumService {
         return updated;
     }
 
+    /**
+     * Move an album to "Recently deleted". Its photos stay in S3 until the
+     * purge job removes the album after the grace window; until then the
+     * owner can restore it.
+     */
     static async deleteAlbum(userId: string, albumId: string) {
         const isOwner = await checkAlbumPermission(userId, albumId, "owner");
         if (!isOwner) throw new Error("Forbidden");
 
-        const albumImages = await db.select({
-            s3Key: images.s3Key,
-            s3KeyOriginal: images.s3KeyOriginal,
-            s3KeyDisplay: images.s3KeyDisplay,
-            s3KeyThumb: images.s3KeyThumb,
-        }).from(images).where(eq(images.albumId, albumId));
-
-        const keysToDelete = new Set<string>();
-        for (const img of albumImages) {
-            if (img.s3Key) keysToDelete.add(img.s3Key);
-            if (img.s3KeyOriginal) keysToDelete.add(img.s3KeyOriginal);
-            if (img.s3KeyDisplay) keysToDelete.add(img.s3KeyDisplay);
-            if (img.s3KeyThumb) keysToDelete.add(img.s3KeyThumb);
-        }
-
-        if (keysToDelete.size > 0) {
-            await deleteS3Objects(Array.from(keysToDelete));
-        }
+        const deletedAt = new Date();
+        await db.update(albums)
+            .set({ deletedAt, updatedAt: deletedAt })
+            .where(eq(albums.id, albumId));
 
         await logActivity({
             userId,
@@ -199,7 +219,91 @@ export class AlbumService {
             action: "album_delete",
         });
 
-        await db.delete(albums).where(eq(albums.id, albumId));
+        return { purgeAt: getPurgeDate(deletedAt, DEFAULT_ALBUM_RETENTION_DAYS) };
+    }
+
+    static async restoreAlbum(userId: string, albumId: string) {
+        const album = await this.getDeletedOwnedAlbum(userId, albumId);
+
+        const [restored] = await db.update(albums)
+            .set({ deletedAt: null, updatedAt: new Date() })
+            .where(eq(albums.id, album.id))
+            .returning();
+
+        await logActivity({
+            userId,
+            albumId,
+            action: "album_restore",
+        });
+
+        return restored;
+    }
+
+    /**
+     * Soft-deleted albums the user owns, most recently deleted first.
+     */
+    static async listDeletedAlbums(userId: string) {
+        const ownedAlbumIds = db
+            .select({ albumId: albumMembers.albumId })
+            .from(albumMembers)
+            .where(and(eq(albumMembers.userId, userId), eq(albumMembers.role, "owner")));
+
+        const deleted = await db.query.albums.findMany({
+            where: and(
+                isNotNull(albums.deletedAt),
+                or(eq(albums.ownerId, userId), inArray(albums.id, ownedAlbumIds))
+            ),
+            with: {
+                images: {
+                    limit: 1,
+                    orderBy: (images, { asc }) => [asc(images.createdAt)],
+                    where: (images, { isNull }) => isNull(images.deletedAt),
+                },
+            },
+            orderBy: [desc(albums.deletedAt)],
+        });
+
+        const albumIds = deleted.map(a => a.id);
+        const counts = albumIds.length > 0
+            ? await db
+                .select({ albumId: images.albumId, count: sql<number>`count(*)`.mapWith(Number) })
+                .from(images)
+                .where(and(inArray(images.albumId, albumIds), isNull(images.deletedAt)))
+                .groupBy(images.albumId)
+            : [];
+        const countsMap = Object.fromEntries(counts.map(c => [c.albumId, c.count]));
+
+        return Promise.all(deleted.map(async ({ images: preview, ...album }) => {
+            const first = preview[0];
+            return {
+                id: album.id,
+                title: album.title,
+                albumDate: album.albumDate,
+                deletedAt: album.deletedAt!,
+                purgeAt: getPurgeDate(album.deletedAt!, DEFAULT_ALBUM_RETENTION_DAYS),
+                imageCount: countsMap[album.id] || 0,
+                coverImageUrl: first ? await generateDownloadUrl(first.s3KeyThumb || first.s3KeyDisplay || first.s3Key!) : null,
+            };
+        }));
+    }
+
+    private static async getDeletedOwnedAlbum(userId: string, albumId: string) {
+        const album = await db.query.albums.findFirst({
+            where: and(eq(albums.id, albumId), isNotNull(albums.deletedAt)),
+        });
+        if (!album) throw new Error("Not found");
+
+        // getAlbumRole ignores deleted albums, so check ownership directly
+        let isOwner = album.ownerId === userId;
+        if (!isOwner) {
+            const member = await db.query.albumMembers.findFirst({
+                where: and(eq(albumMembers.userId, userId), eq(albumMembers.albumId, albumId)),
+            });
+            isOwner = member?.role === "owner";
+        }
+        if (!isOwner) throw new Error("Forbidden");
+
+        return album;
     }
 
     static async listAlbums(params: ListAlbumsParams) {
@@ -259,7 +363,10 @@ export class AlbumService {
     }
 
     private static async getFavorites(userId: string, limit: number, cursor?: string) {
-        const conditions: any[] = [eq(favoriteAlbums.userId, userId)];
+        const conditions: any[] = [
+            eq(favoriteAlbums.userId, userId),
+            inArray(favoriteAlbums.albumId, activeAlbumIds())
+        ];
 
         if (cursor) {
             const [cursorTime, cursorId] = cursor.split("_");
@@ -312,7 +419,10 @@ export class AlbumService {
     }
 
     private static async getRegularAlbums(userId: string, filter: string, limit: number, cursor?: string) {
-        const conditions: any[] = [eq(albumMembers.userId, userId)];
+        const conditions: any[] = [
+            eq(albumMembers.userId, userId),
+            inArray(albumMembers.albumId, activeAlbumIds())
+        ];
 
         if (filter === "mine") {
             conditions.push(eq(albumMembers.role, "owner"));
@@ -368,7 +478,7 @@ export class AlbumService {
         endDate?: string | null,
         search?: string | null
     ) {
-        const conditions: any[] = [inArray(albums.id, albumIds)];
+        const conditions: any[] = [inArray(albums.id, albumIds), isNull(albums.deletedAt)];
 
         if (visibility) conditions.push(eq(albums.visibility, visibility as "public" | "private"));
         if (startDate) conditions.push(gte(albums.albumDate, new Date(startDate)));
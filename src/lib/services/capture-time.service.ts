@@ -0,0 +1,204 @@
+import tzlookup from "@photostructure/tz-lookup";
+import { db } from "@/db";
+import { images } from "@/db/schema";
+import { and, asc, eq, gt, isNotNull, isNull, not, like, sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import { getS3ObjectRange } from "@/lib/s3";
+import { exifLocalDateTime, parseUtcOffset, type CaptureDateMode } from "@/lib/capture-time";
+
+// EXIF sits at the start of JPEG, HEIC and RAW files; this is plenty
+const EXIF_RANGE = "bytes=0-524287";
+
+export interface CaptureTimeInput {
+    localDateTime?: string;        // wall clock, "YYYY-MM-DDTHH:mm:ss"
+    offset?: number;               // minutes east of UTC, from EXIF
+    dateTaken?: Date | string;     // instant as guessed by the uploader
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+}
+
+/**
+ * The IANA zone at a position (offline boundary data), or null if the
+ * coordinates are invalid.
+ */
+export function timeZoneAt(lat: number, lng: number): string | null {
+    try {
+        return tzlookup(lat, lng);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * A zone's UTC offset at an instant, in minutes east.
+ */
+export function zoneOffsetAt(timeZone: string, instant: Date) {
+    const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+        .formatToParts(instant)
+        .find(part => part.type === "timeZoneName")?.value;
+    // "GMT+09:00", or plain "GMT" for UTC itself
+    return parseUtcOffset(name?.replace(/^GMT/, "") || "Z") ?? 0;
+}
+
+/**
+ * Offset for a dated photo without one that is being given a position: the
+ * zone there at the capture instant, as at upload. The instant is kept,
+ * since the wall clock it was read from isn't stored. Null when the photo
+ * is undated or the position has no zone.
+ */
+export function offsetForPosition(dateTaken: Date | null, lat: number, lng: number): number | null {
+    if (!dateTaken) return null;
+    const zone = timeZoneAt(lat, lng);
+    return zone ? zoneOffsetAt(zone, dateTaken) : null;
+}
+
+/**
+ * Work out the capture instant and offset. A recorded offset wins; without
+ * one the zone at the GPS position is used; failing both, the uploader's own
+ * guess (their time zone) is kept and the offset stays unknown.
+ */
+export function resolveCaptureTime({ localDateTime, offset, dateTaken, gpsLat, gpsLng }: CaptureTimeInput): {
+    dateTaken: Date | null;
+    dateTakenOffset: number | null;
+} {
+    const wallMs = localDateTime ? Date.parse(`${localDateTime}Z`) : NaN;
+
+    if (!isNaN(wallMs)) {
+        if (offset != null) {
+            return { dateTaken: new Date(wallMs - offset * 60_000), dateTakenOffset: offset };
+        }
+
+        const zone = gpsLat != null && gpsLng != null ? timeZoneAt(gpsLat, gpsLng) : null;
+        if (zone) {
+            // Offset at the wall time read as UTC is right except within hours
+            // of a DST change; a second pass at the resulting instant settles it
+            const guess = zoneOffsetAt(zone, new Date(wallMs));
+            const zoneOffset = zoneOffsetAt(zone, new Date(wallMs - guess * 60_000));
+            return { dateTaken: new Date(wallMs - zoneOffset * 60_000), dateTakenOffset: zoneOffset };
+        }
+    }
+
+    const fallback = dateTaken ? new Date(dateTaken) : null;
+    if (fallback && !isNaN(fallback.getTime())) {
+        return { dateTaken: fallback, dateTakenOffset: null };
+    }
+    if (!isNaN(wallMs)) {
+        return { dateTaken: new Date(wallMs), dateTakenOffset: null };
+    }
+    return { dateTaken: null, dateTakenOffset: null };
+}
+
+/**
+ * SQL for the wall-clock time a photo is bucketed by (a timestamp without
+ * zone, ready for TO_CHAR or ::date). Photos with a known offset use the
+ * clock where they were taken in "local" mode; everything else, including
+ * the `createdAt` fallback for undated photos, is read in `timeZone`.
+ * Parameters make the expression differ between SELECT and GROUP BY, so
+ * group by position.
+ */
+export function localCaptureTime(
+    columns: { dateTaken: SQLWrapper; dateTakenOffset: SQLWrapper; createdAt?: SQLWrapper },
+    { mode, timeZone }: { mode: CaptureDateMode; timeZone: string }
+): SQL {
+    const instant = columns.createdAt ? sql`COALESCE(${columns.dateTaken}, ${columns.createdAt})` : sql`${columns.dateTaken}`;
+    const inViewerZone = sql`((${instant}) AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}`;
+    if (mode === "viewer") return inViewerZone;
+
+    return sql`(CASE
+        WHEN ${columns.dateTaken} IS NOT NULL AND ${columns.dateTakenOffset} IS NOT NULL
+            THEN ${columns.dateTaken} + make_interval(mins => ${columns.dateTakenOffset})
+        ELSE ${inViewerZone}
+    END)`;
+}
+
+/**
+ * Capture-time offsets. Free of request-scoped imports so the backfill can
+ * run from a script.
+ */
+export class CaptureTimeService {
+    /**
+     * Give photos uploaded before offsets were recorded their offset, by
+     * re-reading EXIF from the original (OffsetTimeOriginal, else the zone at
+     * the photo's position). The stored date is only corrected when it is
+     * still the EXIF wall clock read in some zone; dates edited by hand are
+     * left alone. Photos with neither an offset nor a position can't be
+     * placed and stay as they are.
+     */
+    static async backfillOffsets({ batchSize = 100, dryRun = false }: { batchSize?: number; dryRun?: boolean } = {}) {
+        const exifr = (await import("exifr")).default;
+        const report = { scanned: 0, updated: 0, unresolved: 0, edited: 0, failed: [] as { id: string; error: string }[] };
+        let lastId: string | null = null;
+
+        while (true) {
+            const batch: { id: string; key: string | null; dateTaken: Date | null; gpsLat: number | null; gpsLng: number | null }[] = await db
+                .select({
+                    id: images.id,
+                    key: sql<string | null>`COALESCE(${images.s3KeyOriginal}, ${images.s3Key})`,
+                    dateTaken: images.dateTaken,
+                    gpsLat: images.gpsLat,
+                    gpsLng: images.gpsLng,
+                })
+                .from(images)
+                .where(and(
+                    isNotNull(images.dateTaken),
+                    isNull(images.dateTakenOffset),
+                    not(like(images.mimeType, "video/%")),
+                    lastId ? gt(images.id, lastId) : undefined
+                ))
+                .orderBy(asc(images.id))
+                .limit(batchSize);
+
+            if (batch.length === 0) break;
+            lastId = batch[batch.length - 1].id;
+            report.scanned += batch.length;
+
+            for (const img of batch) {
+                if (!img.key || !img.dateTaken) continue;
+                try {
+                    const object = await getS3ObjectRange(img.key, EXIF_RANGE);
+                    if (!object.Body) throw new Error("Empty object");
+                    const buffer = Buffer.from(await object.Body.transformToByteArray());
+
+                    const tags = await exifr.parse(buffer, {
+                        pick: ["DateTimeOriginal", "OffsetTimeOriginal", "OffsetTime"],
+                        reviveValues: false,
+                    }).catch(() => null);
+                    const localDateTime = exifLocalDateTime(tags?.DateTimeOriginal);
+                    if (!localDateTime) {
+                        report.unresolved++;
+                        continue;
+                    }
+
+                    // Still the EXIF wall clock read in some zone (whole
+                    // quarter hours within +-14h), or changed by hand since?
+                    const drift = Date.parse(`${localDateTime}Z`) - img.dateTaken.getTime();
+                    if (Math.abs(drift) > 14 * 3_600_000 || drift % 900_000 !== 0) {
+                        report.edited++;
+                        continue;
+                    }
+
+                    const resolved = resolveCaptureTime({
+                        localDateTime,
+                        offset: parseUtcOffset(tags?.OffsetTimeOriginal) ?? parseUtcOffset(tags?.OffsetTime),
+                        gpsLat: img.gpsLat,
+                        gpsLng: img.gpsLng,
+                    });
+                    if (resolved.dateTakenOffset === null) {
+                        report.unresolved++;
+                        continue;
+                    }
+
+                    if (!dryRun) {
+                        await db.update(images)
+                            .set({ dateTaken: resolved.dateTaken, dateTakenOffset: resolved.dateTakenOffset })
+                            .where(eq(images.id, img.id));
+                    }
+                    report.updated++;
+                } catch (error) {
+                    report.failed.push({ id: img.id, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,179 @@
+import { db } from "@/db";
+import { images, imageComments } from "@/db/schema";
+import { eq, and, isNull, asc } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { checkAlbumPermission, getAlbumRole } from "@/lib/auth/rbac";
+import { verifyGuestToken } from "@/lib/auth/tokens";
+import { logActivity } from "@/lib/activity";
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export class CommentService {
+    /**
+     * List comments on an image, oldest first, as a flat list (clients build
+     * the thread from parentId). Deleted comments are kept as placeholders
+     * without a body only while they still have visible replies.
+     */
+    static async listComments(userId: string | null, imageId: string) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+            with: { album: true },
+        });
+
+        if (!image || image.album.deletedAt) throw new Error("Not found");
+
+        let hasAccess = image.album.visibility === "public";
+
+        if (!hasAccess) {
+            if (userId) {
+                hasAccess = await checkAlbumPermission(userId, image.albumId, "viewer");
+            } else {
+                const cookieStore = await cookies();
+                const guestToken = cookieStore.get("keproop_guest_access")?.value;
+                if (guestToken) {
+                    const payload = await verifyGuestToken(guestToken);
+                    hasAccess = !!payload && payload.allowedAlbums.includes(image.albumId);
+                }
+            }
+        }
+
+        if (!hasAccess) throw new Error("Forbidden");
+
+        const rows = await db.query.imageComments.findMany({
+            where: eq(imageComments.imageId, imageId),
+            with: {
+                user: { columns: { id: true, name: true, avatarUrl: true } },
+            },
+            orderBy: [asc(imageComments.createdAt)],
+        });
+
+        // Keep deleted ancestors of live comments so threads stay intact
+        const byId = new Map(rows.map(c => [c.id, c]));
+        const keep = new Set<string>();
+        for (const comment of rows) {
+            if (comment.deletedAt) continue;
+            let current: typeof comment | undefined = comment;
+            while (current && !keep.has(current.id)) {
+                keep.add(current.id);
+                current = current.parentId ? byId.get(current.parentId) : undefined;
+            }
+        }
+
+        const isOwner = userId ? (await getAlbumRole(userId, image.albumId)) === "owner" : false;
+
+        return rows
+            .filter(c => keep.has(c.id))
+            .map(c => {
+                const deleted = !!c.deletedAt;
+                const isAuthor = !!userId && c.userId === userId;
+                return {
+                    id: c.id,
+                    parentId: c.parentId,
+                    body: deleted ? null : c.body,
+                    deleted,
+                    user: deleted ? null : c.user,
+                    createdAt: c.createdAt,
+                    editedAt: c.editedAt,
+                    canEdit: !deleted && isAuthor,
+                    canDelete: !deleted && (isAuthor || isOwner),
+                };
+            });
+    }
+
+    static async createComment(userId: string, imageId: string, body: string, parentId?: string | null) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+        });
+
+        if (!image) throw new Error("Not found");
+
+        const canComment = await checkAlbumPermission(userId, image.albumId, "viewer");
+        if (!canComment) throw new Error("Forbidden");
+
+        if (parentId) {
+            const parent = await db.query.imageComments.findFirst({
+                where: and(
+                    eq(imageComments.id, parentId),
+                    eq(imageComments.imageId, imageId),
+                    isNull(imageComments.deletedAt)
+                ),
+            });
+            if (!parent) throw new Error("Parent comment not found");
+        }
+
+        const [comment] = await db.insert(imageComments).values({
+            imageId,
+            userId,
+            parentId: parentId || null,
+            body,
+        }).returning();
+
+        await logActivity({
+            userId,
+            albumId: image.albumId,
+            imageId,
+            action: "comment_create",
+            metadata: { commentId: comment.id, parentId: comment.parentId, preview: body.slice(0, 100) },
+        });
+
+        return comment;
+    }
+
+    /**
+     * Edit a comment body. Only the author may edit.
+     */
+    static async updateComment(userId: string, imageId: string, commentId: string, body: string) {
+        const comment = await this.getLiveComment(imageId, commentId);
+
+        if (comment.userId !== userId) throw new Error("Forbidden");
+
+        // Authors who have since lost access to the album can no longer edit
+        const canView = await checkAlbumPermission(userId, comment.image.albumId, "viewer");
+        if (!canView) throw new Error("Forbidden");
+
+        const [updated] = await db.update(imageComments)
+            .set({ body, editedAt: new Date(), updatedAt: new Date() })
+            .where(eq(imageComments.id, commentId))
+            .returning();
+
+        return updated;
+    }
+
+    /**
+     * Soft-delete a comment. Allowed for the author and the album owner.
+     */
+    static async deleteComment(userId: string, imageId: string, commentId: string) {
+        const comment = await this.getLiveComment(imageId, commentId);
+        const albumId = comment.image.albumId;
+
+        const isAuthor = comment.userId === userId;
+        const isOwner = !isAuthor && (await getAlbumRole(userId, albumId)) === "owner";
+        if (!isAuthor && !isOwner) throw new Error("Forbidden");
+
+        await db.update(imageComments)
+            .set({ deletedAt: new Date(), updatedAt: new Date() })
+            .where(eq(imageComments.id, commentId));
+
+        await logActivity({
+            userId,
+            albumId,
+            imageId,
+            action: "comment_delete",
+            metadata: { commentId, byOwner: isOwner, authorId: comment.userId },
+        });
+    }
+
+    private static async getLiveComment(imageId: string, commentId: string) {
+        const comment = await db.query.imageComments.findFirst({
+            where: and(
+                eq(imageComments.id, commentId),
+                eq(imageComments.imageId, imageId),
+                isNull(imageComments.deletedAt)
+            ),
+            with: { image: { columns: { albumId: true } } },
+        });
+
+        if (!comment) throw new Error("Not found");
+        return comment;
+    }
+}
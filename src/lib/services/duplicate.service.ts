@@ -0,0 +1,450 @@
+import { createHash } from "crypto";
+import { db } from "@/db";
+import { images, albums, albumMembers } from "@/db/schema";
+import { and, eq, ne, gt, or, inArray, isNull, isNotNull, sql, desc, asc } from "drizzle-orm";
+import { getS3Object, generateDownloadUrl } from "@/lib/s3";
+import { computeDHash } from "@/lib/image-processing";
+import { checkAlbumPermission } from "@/lib/auth/rbac";
+
+export const CONTENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+// Originals up to this size (single-PUT uploads) are hashed while they are
+// registered; larger multipart ones would outlast the request
+export const INLINE_HASH_MAX_BYTES = 32 * 1024 * 1024;
+
+// Hamming distance (out of 64 bits) at or below which two photos count as
+// near-duplicates. Bursts and re-saves are usually within 0-6.
+export const DEFAULT_SIMILARITY_THRESHOLD = 10;
+export const MAX_SIMILARITY_THRESHOLD = 20;
+
+/**
+ * `threshold` query parameter, defaulted and clamped to 0..MAX.
+ */
+export function parseSimilarityThreshold(value: string | null) {
+    const parsed = parseInt(value || "", 10);
+    if (Number.isNaN(parsed)) return DEFAULT_SIMILARITY_THRESHOLD;
+    return Math.min(Math.max(parsed, 0), MAX_SIMILARITY_THRESHOLD);
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex hashes of equal length.
+ */
+function hammingDistance(a: string, b: string) {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+    }
+    return distance;
+}
+
+type BkNode = { hash: string; indexes: number[]; children: Map<number, BkNode> };
+
+/**
+ * BK-tree over perceptual hashes, so finding the look-alikes of a photo only
+ * visits the branches that can be within the threshold instead of every
+ * other photo in the album.
+ */
+class HashTree {
+    private root: BkNode | null = null;
+
+    insert(hash: string, index: number) {
+        if (!this.root) {
+            this.root = { hash, indexes: [index], children: new Map() };
+            return;
+        }
+        let node = this.root;
+        while (true) {
+            const distance = hammingDistance(hash, node.hash);
+            if (distance === 0) {
+                node.indexes.push(index);
+                return;
+            }
+            const child = node.children.get(distance);
+            if (!child) {
+                node.children.set(distance, { hash, indexes: [index], children: new Map() });
+                return;
+            }
+            node = child;
+        }
+    }
+
+    /** Indexes of every hash within `threshold` bits of `hash`. */
+    within(hash: string, threshold: number) {
+        const found: number[] = [];
+        const stack = this.root ? [this.root] : [];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            const distance = hammingDistance(hash, node.hash);
+            if (distance <= threshold) found.push(...node.indexes);
+            for (const [edge, child] of node.children) {
+                if (Math.abs(edge - distance) <= threshold) stack.push(child);
+            }
+        }
+        return found;
+    }
+}
+
+type SimilarCandidate = {
+    id: string;
+    folderId: string | null;
+    originalFilename: string | null;
+    size: number | null;
+    width: number | null;
+    height: number | null;
+    createdAt: Date;
+    perceptualHash: string | null;
+    s3Key: string | null;
+    s3KeyThumb: string | null;
+};
+
+/**
+ * The copy worth keeping: most pixels, then largest file, then oldest.
+ */
+function pickKeeper(candidates: SimilarCandidate[]) {
+    return candidates.reduce((best, img) => {
+        const pixels = (img.width || 0) * (img.height || 0);
+        const bestPixels = (best.width || 0) * (best.height || 0);
+        if (pixels !== bestPixels) return pixels > bestPixels ? img : best;
+        if ((img.size || 0) !== (best.size || 0)) return (img.size || 0) > (best.size || 0) ? img : best;
+        return img.createdAt < best.createdAt ? img : best;
+    });
+}
+
+async function withThumbUrl(img: SimilarCandidate, distance: number) {
+    return {
+        id: img.id,
+        folderId: img.folderId,
+        originalFilename: img.originalFilename,
+        size: img.size,
+        width: img.width,
+        height: img.height,
+        createdAt: img.createdAt,
+        distance,
+        thumbUrl: await generateDownloadUrl(img.s3KeyThumb || img.s3Key!),
+    };
+}
+
+const candidateColumns = {
+    id: images.id,
+    folderId: images.folderId,
+    originalFilename: images.originalFilename,
+    size: images.size,
+    width: images.width,
+    height: images.height,
+    createdAt: images.createdAt,
+    perceptualHash: images.perceptualHash,
+    s3Key: images.s3Key,
+    s3KeyThumb: images.s3KeyThumb,
+};
+
+/**
+ * Subquery of active album IDs the user is a member of (any role).
+ * Usable with `inArray(images.albumId, ...)`.
+ */
+function memberAlbumIds(userId: string) {
+    return db
+        .select({ id: albumMembers.albumId })
+        .from(albumMembers)
+        .innerJoin(albums, eq(albumMembers.albumId, albums.id))
+        .where(and(eq(albumMembers.userId, userId), isNull(albums.deletedAt)));
+}
+
+/**
+ * Exact-duplicate detection by SHA-256 of the original upload, and
+ * near-duplicate detection by perceptual hash of the thumbnail. Free of
+ * request-scoped imports so the backfill can run from a script.
+ */
+export class DuplicateService {
+    /**
+     * SHA-256 (hex) of an S3 object, streamed so large originals are never
+     * held in memory.
+     */
+    static async computeContentHash(key: string) {
+        const object = await getS3Object(key);
+        if (!object.Body) throw new Error("Uploaded file not found");
+
+        const hash = createHash("sha256");
+        for await (const chunk of object.Body as AsyncIterable<Uint8Array>) {
+            hash.update(chunk);
+        }
+        return hash.digest("hex");
+    }
+
+    /**
+     * Hash an original registered without verifying its hash and store the
+     * result, replacing the hash the client claimed if it was wrong. Run
+     * after the register response; a failure leaves the row to the backfill.
+     */
+    static async refreshContentHash(imageId: string, key: string) {
+        try {
+            const contentHash = await DuplicateService.computeContentHash(key);
+            await db.update(images).set({ contentHash }).where(eq(images.id, imageId));
+        } catch (error) {
+            console.error("Content hash failed:", error);
+        }
+    }
+
+    /**
+     * dHash (hex) of an S3 image. Meant for the thumbnail: 400px is plenty
+     * for a 9x8 fingerprint and keeps the download small.
+     */
+    static async computePerceptualHash(key: string) {
+        const object = await getS3Object(key);
+        if (!object.Body) throw new Error("Uploaded file not found");
+
+        const buffer = Buffer.from(await object.Body.transformToByteArray());
+        return computeDHash(buffer);
+    }
+
+    /**
+     * A live image in the album with the same content, if any.
+     */
+    static async findDuplicate(albumId: string, contentHash: string) {
+        const existing = await db.query.images.findFirst({
+            where: and(
+                eq(images.albumId, albumId),
+                eq(images.contentHash, contentHash),
+                isNull(images.deletedAt)
+            ),
+            columns: { id: true },
+        });
+        return existing?.id ?? null;
+    }
+
+    /**
+     * Groups of identical photos across every album the user belongs to, most
+     * copies first. Within a group images are ordered oldest first, so the
+     * first one is the natural one to keep. `albumId` narrows to one album.
+     */
+    static async listDuplicateGroups(userId: string, { limit, albumId }: { limit: number; albumId?: string }) {
+        const scope = and(
+            inArray(images.albumId, memberAlbumIds(userId)),
+            albumId ? eq(images.albumId, albumId) : undefined,
+            isNull(images.deletedAt),
+            isNotNull(images.contentHash)
+        );
+
+        const groups = await db
+            .select({ contentHash: images.contentHash, count: sql<number>`count(*)::int` })
+            .from(images)
+            .where(scope)
+            .groupBy(images.contentHash)
+            .having(sql`count(*) > 1`)
+            .orderBy(desc(sql`count(*)`), images.contentHash)
+            .limit(limit);
+
+        if (groups.length === 0) return [];
+
+        const members = await db
+            .select({
+                id: images.id,
+                albumId: images.albumId,
+                albumTitle: albums.title,
+                folderId: images.folderId,
+                contentHash: images.contentHash,
+                originalFilename: images.originalFilename,
+                size: images.size,
+                width: images.width,
+                height: images.height,
+                createdAt: images.createdAt,
+                s3Key: images.s3Key,
+                s3KeyThumb: images.s3KeyThumb,
+            })
+            .from(images)
+            .innerJoin(albums, eq(images.albumId, albums.id))
+            .where(and(scope, inArray(images.contentHash, groups.map(g => g.contentHash!))))
+            .orderBy(images.createdAt);
+
+        return Promise.all(groups.map(async (group) => ({
+            contentHash: group.contentHash!,
+            count: group.count,
+            images: await Promise.all(members
+                .filter(img => img.contentHash === group.contentHash)
+                .map(async (img) => ({
+                    id: img.id,
+                    albumId: img.albumId,
+                    albumTitle: img.albumTitle,
+                    folderId: img.folderId,
+                    originalFilename: img.originalFilename,
+                    size: img.size,
+                    width: img.width,
+                    height: img.height,
+                    createdAt: img.createdAt,
+                    thumbUrl: await generateDownloadUrl(img.s3KeyThumb || img.s3Key!),
+                }))),
+        })));
+    }
+
+    /**
+     * Photos in the same album that look like `imageId`, closest first.
+     */
+    static async findSimilar(userId: string, imageId: string, { threshold, limit }: { threshold: number; limit: number }) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+            columns: { id: true, albumId: true, perceptualHash: true },
+        });
+        if (!image) throw new Error("Not found");
+
+        const canView = await checkAlbumPermission(userId, image.albumId, "viewer");
+        if (!canView) throw new Error("Forbidden");
+
+        const hash = image.perceptualHash;
+        if (!hash) return [];
+
+        const candidates = await db
+            .select(candidateColumns)
+            .from(images)
+            .where(and(
+                eq(images.albumId, image.albumId),
+                ne(images.id, image.id),
+                isNull(images.deletedAt),
+                isNotNull(images.perceptualHash)
+            ));
+
+        const matches = candidates
+            .map(img => ({ img, distance: hammingDistance(hash, img.perceptualHash!) }))
+            .filter(m => m.distance <= threshold)
+            .sort((a, b) => a.distance - b.distance || a.img.createdAt.getTime() - b.img.createdAt.getTime())
+            .slice(0, limit);
+
+        return Promise.all(matches.map(m => withThumbUrl(m.img, m.distance)));
+    }
+
+    /**
+     * Clusters of look-alike photos in an album for review. Photos are linked
+     * when their hashes are within `threshold` bits (transitively, so a burst
+     * forms one group). Each group suggests the photo to keep and lists it
+     * first; the others follow by distance from it.
+     */
+    static async listSimilarGroups(userId: string, albumId: string, { threshold }: { threshold: number }) {
+        const canView = await checkAlbumPermission(userId, albumId, "viewer");
+        if (!canView) throw new Error("Forbidden");
+
+        const candidates = await db
+            .select(candidateColumns)
+            .from(images)
+            .where(and(
+                eq(images.albumId, albumId),
+                isNull(images.deletedAt),
+                isNotNull(images.perceptualHash)
+            ))
+            .orderBy(asc(images.createdAt));
+
+        // Union-find over every pair within the threshold, found through the tree
+        const parent = candidates.map((_, i) => i);
+        const find = (i: number): number => {
+            while (parent[i] !== i) {
+                parent[i] = parent[parent[i]];
+                i = parent[i];
+            }
+            return i;
+        };
+        const tree = new HashTree();
+        candidates.forEach((img, i) => {
+            for (const j of tree.within(img.perceptualHash!, threshold)) {
+                parent[find(i)] = find(j);
+            }
+            tree.insert(img.perceptualHash!, i);
+        });
+
+        const clusters = new Map<number, SimilarCandidate[]>();
+        candidates.forEach((img, i) => {
+            const root = find(i);
+            clusters.set(root, [...(clusters.get(root) || []), img]);
+        });
+
+        const groups = Array.from(clusters.values())
+            .filter(members => members.length > 1)
+            .sort((a, b) => b.length - a.length);
+
+        return Promise.all(groups.map(async (members) => {
+            const keeper = pickKeeper(members);
+            const ranked = members
+                .map(img => ({ img, distance: hammingDistance(keeper.perceptualHash!, img.perceptualHash!) }))
+                .sort((a, b) => (a.img.id === keeper.id ? -1 : b.img.id === keeper.id ? 1 : a.distance - b.distance));
+
+            return {
+                keepId: keeper.id,
+                images: await Promise.all(ranked.map(m => withThumbUrl(m.img, m.distance))),
+            };
+        }));
+    }
+
+    /**
+     * Fill in content and perceptual hashes for images uploaded before they
+     * were computed at register. Works through the table in id order, one
+     * batch at a time; images whose objects can't be read are skipped.
+     * Videos without a poster frame have nothing to fingerprint and only get
+     * a content hash. Each hash is saved on its own, so one that fails
+     * doesn't hold back the other.
+     */
+    static async backfillHashes({ batchSize = 100, dryRun = false }: { batchSize?: number; dryRun?: boolean } = {}) {
+        const report = { scanned: 0, updated: 0, failed: [] as { id: string; error: string }[] };
+        let lastId: string | null = null;
+
+        const originalColumn = sql`coalesce(${images.s3KeyOriginal}, ${images.s3Key})`;
+        const posterless = sql`(${images.mimeType} like 'video/%' and coalesce(${images.s3KeyThumb}, ${originalColumn}) = ${originalColumn})`;
+
+        while (true) {
+            const batch: { id: string; mimeType: string; s3KeyOriginal: string | null; s3KeyThumb: string | null; s3Key: string | null; contentHash: string | null; perceptualHash: string | null }[] = await db
+                .select({
+                    id: images.id,
+                    mimeType: images.mimeType,
+                    s3KeyOriginal: images.s3KeyOriginal,
+                    s3KeyThumb: images.s3KeyThumb,
+                    s3Key: images.s3Key,
+                    contentHash: images.contentHash,
+                    perceptualHash: images.perceptualHash,
+                })
+                .from(images)
+                .where(and(
+                    or(isNull(images.contentHash), and(isNull(images.perceptualHash), sql`not ${posterless}`)),
+                    lastId ? gt(images.id, lastId) : undefined
+                ))
+                .orderBy(asc(images.id))
+                .limit(batchSize);
+
+            if (batch.length === 0) break;
+            lastId = batch[batch.length - 1].id;
+            report.scanned += batch.length;
+            if (dryRun) continue;
+
+            for (const img of batch) {
+                const originalKey = img.s3KeyOriginal || img.s3Key;
+                const thumbKey = img.s3KeyThumb || originalKey;
+                if (!originalKey || !thumbKey) continue;
+                // sharp can't read a video, and loading one whole would be wasteful
+                const hasPoster = !img.mimeType.startsWith("video/") || thumbKey !== originalKey;
+
+                const [contentHash, perceptualHash] = await Promise.allSettled([
+                    img.contentHash ?? DuplicateService.computeContentHash(originalKey),
+                    img.perceptualHash ?? (hasPoster ? DuplicateService.computePerceptualHash(thumbKey) : null),
+                ]);
+
+                const updates: { contentHash?: string; perceptualHash?: string } = {};
+                if (!img.contentHash && contentHash.status === "fulfilled" && contentHash.value) updates.contentHash = contentHash.value;
+                if (!img.perceptualHash && perceptualHash.status === "fulfilled" && perceptualHash.value) updates.perceptualHash = perceptualHash.value;
+
+                try {
+                    if (Object.keys(updates).length > 0) {
+                        await db.update(images).set(updates).where(eq(images.id, img.id));
+                        report.updated++;
+                    }
+                } catch (error) {
+                    report.failed.push({ id: img.id, error: error instanceof Error ? error.message : String(error) });
+                    continue;
+                }
+
+                const failure = [contentHash, perceptualHash].find(r => r.status === "rejected");
+                if (failure?.status === "rejected") {
+                    const error = failure.reason;
+                    report.failed.push({ id: img.id, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,419 @@
+import { db } from "@/db";
+import { folders, images } from "@/db/schema";
+import { and, eq, inArray, isNotNull, isNull, sql, desc } from "drizzle-orm";
+import { checkAlbumPermission } from "@/lib/auth/rbac";
+import { logActivity, logActivities } from "@/lib/activity";
+
+export const MAX_FOLDER_DEPTH = 10;
+
+type FolderRow = typeof folders.$inferSelect;
+
+export type FolderWithCounts = FolderRow & {
+    imageCount: number;
+    totalImageCount: number;
+};
+
+export type FolderTreeNode = FolderWithCounts & {
+    children: FolderTreeNode[];
+};
+
+export type FolderUpdate = {
+    name?: string;
+    parentId?: string | null;
+};
+
+export class FolderService {
+    static async createFolder(userId: string, albumId: string, name: string, parentId: string | null = null) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        if (parentId) {
+            const rows = await this.loadAlbumFolders(albumId);
+            const hidden = getHiddenFolderIds(rows);
+            const byId = new Map(rows.map(f => [f.id, f]));
+            if (!byId.has(parentId) || hidden.has(parentId)) throw new Error("Parent folder not found");
+            if (getFolderPath(byId, parentId).length >= MAX_FOLDER_DEPTH) throw new Error("Folder nesting is too deep");
+        }
+
+        const [folder] = await db.insert(folders).values({
+            albumId,
+            parentId,
+            name,
+        }).returning();
+
+        await logActivity({
+            userId,
+            albumId,
+            folderId: folder.id,
+            action: "folder_create",
+            metadata: { name, parentId },
+        });
+
+        return folder;
+    }
+
+    /**
+     * Rename a folder and/or move it under another parent (`null` for the
+     * album root). Its subfolders and photos move with it.
+     */
+    static async updateFolder(userId: string, albumId: string, folderId: string, data: FolderUpdate) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const rows = await this.loadAlbumFolders(albumId);
+        const hidden = getHiddenFolderIds(rows);
+        const folder = rows.find(f => f.id === folderId);
+        if (!folder || hidden.has(folderId)) throw new Error("Folder not found");
+
+        const moving = data.parentId !== undefined && data.parentId !== folder.parentId;
+        if (moving) assertCanMove(rows, hidden, [folderId], data.parentId!);
+
+        const [updatedFolder] = await db.update(folders)
+            .set({
+                ...(data.name !== undefined && { name: data.name }),
+                ...(moving && { parentId: data.parentId }),
+                updatedAt: new Date(),
+            })
+            .where(eq(folders.id, folderId))
+            .returning();
+
+        await logActivity({
+            userId,
+            albumId,
+            folderId,
+            action: "folder_update",
+            metadata: {
+                name: updatedFolder.name,
+                ...(data.name !== undefined && { oldName: folder.name, newName: data.name }),
+                ...(moving && { move: true, fromParent: folder.parentId, toParent: data.parentId }),
+            },
+        });
+
+        return updatedFolder;
+    }
+
+    /**
+     * Move several folders, with their subtrees, under one parent. Used by
+     * the bulk "move" action.
+     */
+    static async moveFolders(userId: string, albumId: string, folderIds: string[], targetParentId: string | null) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const rows = await this.loadAlbumFolders(albumId);
+        const hidden = getHiddenFolderIds(rows);
+        const toMove = rows.filter(f => folderIds.includes(f.id) && !hidden.has(f.id) && f.parentId !== targetParentId);
+        if (toMove.length === 0) return 0;
+
+        assertCanMove(rows, hidden, toMove.map(f => f.id), targetParentId);
+
+        await db.update(folders)
+            .set({ parentId: targetParentId, updatedAt: new Date() })
+            .where(inArray(folders.id, toMove.map(f => f.id)));
+
+        await logActivities(toMove.map(f => ({
+            userId,
+            albumId,
+            folderId: f.id,
+            action: "folder_update" as const,
+            metadata: { name: f.name, move: true, fromParent: f.parentId, toParent: targetParentId },
+        })));
+
+        return toMove.length;
+    }
+
+    /**
+     * Move a folder to the album's trash. Its images keep their folderId, so
+     * restoring the folder regroups them; while it is trashed they are shown
+     * at the album root (see `liveFolderId`). Subfolders are hidden with it.
+     */
+    static async deleteFolder(userId: string, albumId: string, folderId: string) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const folder = await db.query.folders.findFirst({
+            where: and(eq(folders.id, folderId), eq(folders.albumId, albumId), isNull(folders.deletedAt)),
+        });
+        if (!folder) throw new Error("Folder not found");
+
+        await db.update(folders)
+            .set({ deletedAt: new Date(), updatedAt: new Date() })
+            .where(eq(folders.id, folderId));
+
+        await logActivity({
+            userId,
+            albumId,
+            folderId,
+            action: "folder_delete",
+            metadata: { name: folder.name },
+        });
+    }
+
+    /**
+     * Take a folder out of the trash. If its parent is still hidden the
+     * folder comes back at the album root instead.
+     */
+    static async restoreFolder(userId: string, albumId: string, folderId: string) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const rows = await this.loadAlbumFolders(albumId);
+        const folder = rows.find(f => f.id === folderId && f.deletedAt);
+        if (!folder) throw new Error("Folder not found");
+
+        const hidden = getHiddenFolderIds(rows);
+        const parentHidden = !!folder.parentId && hidden.has(folder.parentId);
+
+        const [restored] = await db.update(folders)
+            .set({
+                deletedAt: null,
+                ...(parentHidden && { parentId: null }),
+                updatedAt: new Date(),
+            })
+            .where(eq(folders.id, folderId))
+            .returning();
+
+        await logActivity({
+            userId,
+            albumId,
+            folderId,
+            action: "folder_restore",
+            metadata: { name: folder.name },
+        });
+
+        return restored;
+    }
+
+    /**
+     * Visible folders of an album, by name, with the number of photos directly
+     * inside (`imageCount`) and inside the whole subtree (`totalImageCount`).
+     */
+    static async listFolders(albumId: string): Promise<FolderWithCounts[]> {
+        const rows = await this.loadAlbumFolders(albumId);
+        const hidden = getHiddenFolderIds(rows);
+        const live = rows.filter(f => !hidden.has(f.id));
+
+        const counts = await db
+            .select({ folderId: images.folderId, count: sql<number>`count(*)::int` })
+            .from(images)
+            .where(and(eq(images.albumId, albumId), isNull(images.deletedAt), isNotNull(images.folderId)))
+            .groupBy(images.folderId);
+        const direct = new Map(counts.map(c => [c.folderId!, c.count]));
+
+        const childrenOf = groupByParent(live);
+        const totals = new Map<string, number>();
+        const total = (id: string, seen: Set<string>): number => {
+            if (totals.has(id)) return totals.get(id)!;
+            if (seen.has(id)) return 0;
+            seen.add(id);
+            const sum = (direct.get(id) || 0) + (childrenOf.get(id) || []).reduce((acc, child) => acc + total(child.id, seen), 0);
+            totals.set(id, sum);
+            return sum;
+        };
+
+        return live
+            .map(f => ({
+                ...f,
+                imageCount: direct.get(f.id) || 0,
+                totalImageCount: total(f.id, new Set()),
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Visible folders as a nested tree rooted at the album.
+     */
+    static async getFolderTree(albumId: string): Promise<FolderTreeNode[]> {
+        const list = await this.listFolders(albumId);
+        const childrenOf = groupByParent(list);
+
+        const build = (parentId: string | null, depth: number): FolderTreeNode[] => {
+            if (depth > MAX_FOLDER_DEPTH) return [];
+            return (childrenOf.get(parentId) || []).map(f => ({ ...f, children: build(f.id, depth + 1) }));
+        };
+
+        return build(null, 0);
+    }
+
+    /**
+     * A folder with its breadcrumb (album root first, the folder last) and
+     * its direct subfolders.
+     */
+    static async getFolderDetails(albumId: string, folderId: string) {
+        const list = await this.listFolders(albumId);
+        const folder = list.find(f => f.id === folderId);
+        if (!folder) throw new Error("Folder not found");
+
+        const byId = new Map(list.map(f => [f.id, f]));
+        const breadcrumb = getFolderPath(byId, folderId).map(f => ({ id: f.id, name: f.name }));
+        const children = list.filter(f => f.parentId === folderId);
+
+        return { folder, breadcrumb, children };
+    }
+
+    /**
+     * Trashed folders of an album with how many live images still point at them.
+     */
+    static async listDeletedFolders(albumId: string) {
+        return db
+            .select({
+                id: folders.id,
+                name: folders.name,
+                deletedAt: folders.deletedAt,
+                imageCount: sql<number>`count(${images.id})::int`,
+            })
+            .from(folders)
+            .leftJoin(images, and(eq(images.folderId, folders.id), isNull(images.deletedAt)))
+            .where(and(eq(folders.albumId, albumId), isNotNull(folders.deletedAt)))
+            .groupBy(folders.id)
+            .orderBy(desc(folders.deletedAt));
+    }
+
+    /**
+     * Hard-delete trashed folders and their subfolders. Images fall back to
+     * the album root through the folderId foreign key (ON DELETE SET NULL).
+     */
+    static async permanentlyDeleteFolders(albumId: string, folderIds: string[]) {
+        if (folderIds.length === 0) return 0;
+
+        const deleted = await db.delete(folders)
+            .where(and(
+                eq(folders.albumId, albumId),
+                inArray(folders.id, folderIds),
+                isNotNull(folders.deletedAt)
+            ))
+            .returning({ id: folders.id });
+
+        return deleted.length;
+    }
+
+    /**
+     * IDs of the album's folders that are trashed or sit under a trashed folder.
+     */
+    static async getDeletedFolderIds(albumId: string) {
+        return getHiddenFolderIds(await this.loadAlbumFolders(albumId));
+    }
+
+    /**
+     * True when the folder exists in the album and neither it nor any of its
+     * ancestors is trashed.
+     */
+    static async isLiveFolder(albumId: string, folderId: string) {
+        const rows = await this.loadAlbumFolders(albumId);
+        return rows.some(f => f.id === folderId) && !getHiddenFolderIds(rows).has(folderId);
+    }
+
+    /**
+     * "Day 1/Morning"-style paths of the visible folders, keyed by folder ID.
+     */
+    static async getFolderPaths(albumId: string) {
+        const rows = await this.loadAlbumFolders(albumId);
+        const hidden = getHiddenFolderIds(rows);
+        const byId = new Map(rows.map(f => [f.id, f]));
+
+        const paths = new Map<string, string>();
+        for (const f of rows) {
+            if (hidden.has(f.id)) continue;
+            paths.set(f.id, getFolderPath(byId, f.id).map(p => p.name.replace(/[\\/]/g, "_")).join("/"));
+        }
+        return paths;
+    }
+
+    /**
+     * The given folders plus every visible folder below them.
+     */
+    static async getSubtreeIds(albumId: string, folderIds: string[]) {
+        const rows = await this.loadAlbumFolders(albumId);
+        const hidden = getHiddenFolderIds(rows);
+        const live = rows.filter(f => !hidden.has(f.id));
+        const childrenOf = groupByParent(live);
+
+        const result = new Set<string>();
+        const queue = live.filter(f => folderIds.includes(f.id)).map(f => f.id);
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            if (result.has(id)) continue;
+            result.add(id);
+            for (const child of childrenOf.get(id) || []) queue.push(child.id);
+        }
+        return result;
+    }
+
+    private static async loadAlbumFolders(albumId: string) {
+        return db.select().from(folders).where(eq(folders.albumId, albumId));
+    }
+}
+
+/**
+ * The folder an image should be shown in: its own, unless that folder is
+ * in the trash, in which case the image appears at the album root.
+ */
+export function liveFolderId(folderId: string | null, deletedFolderIds: Set<string>) {
+    return folderId && !deletedFolderIds.has(folderId) ? folderId : null;
+}
+
+function groupByParent<T extends { parentId: string | null }>(rows: T[]) {
+    const childrenOf = new Map<string | null, T[]>();
+    for (const row of rows) {
+        const siblings = childrenOf.get(row.parentId) || [];
+        siblings.push(row);
+        childrenOf.set(row.parentId, siblings);
+    }
+    return childrenOf;
+}
+
+/**
+ * Ancestors of a folder from the album root down to the folder itself.
+ * Stops on a missing parent or a cycle.
+ */
+function getFolderPath<T extends { id: string; parentId: string | null }>(byId: Map<string, T>, folderId: string) {
+    const path: T[] = [];
+    const seen = new Set<string>();
+    let current = byId.get(folderId);
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+}
+
+/**
+ * Folders that are trashed themselves or have a trashed ancestor.
+ */
+function getHiddenFolderIds(rows: FolderRow[]) {
+    const byId = new Map(rows.map(f => [f.id, f]));
+    const hidden = new Set<string>();
+    for (const f of rows) {
+        if (getFolderPath(byId, f.id).some(p => p.deletedAt)) hidden.add(f.id);
+    }
+    return hidden;
+}
+
+/**
+ * Reject moves that would put a folder inside itself or one of its
+ * subfolders, target a missing parent, or nest deeper than MAX_FOLDER_DEPTH.
+ */
+function assertCanMove(rows: FolderRow[], hidden: Set<string>, folderIds: string[], targetParentId: string | null) {
+    const byId = new Map(rows.map(f => [f.id, f]));
+    let targetDepth = 0;
+
+    if (targetParentId) {
+        if (!byId.has(targetParentId) || hidden.has(targetParentId)) throw new Error("Parent folder not found");
+        const targetPath = getFolderPath(byId, targetParentId);
+        if (targetPath.some(p => folderIds.includes(p.id))) {
+            throw new Error("Cannot move a folder into itself or its subfolders");
+        }
+        targetDepth = targetPath.length;
+    }
+
+    const childrenOf = groupByParent(rows);
+    const height = (id: string, depth: number): number => {
+        if (depth > MAX_FOLDER_DEPTH) return depth;
+        return 1 + Math.max(0, ...(childrenOf.get(id) || []).map(child => height(child.id, depth + 1)));
+    };
+
+    for (const id of folderIds) {
+        if (targetDepth + height(id, 0) > MAX_FOLDER_DEPTH) throw new Error("Folder nesting is too deep");
+    }
+}
@@ -0,0 +1,163 @@
+import { db } from "@/db";
+import { images, albumTracks } from "@/db/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { checkAlbumPermission } from "@/lib/auth/rbac";
+import { logActivity } from "@/lib/activity";
+import { parseGpx, positionAt, simplifyTrack, type TrackMatch } from "@/lib/gpx";
+import { placeColumns } from "@/lib/services/place.service";
+import { offsetForPosition } from "@/lib/services/capture-time.service";
+
+export type GpxImportOptions = {
+    toleranceSeconds?: number;  // furthest a photo may be in time from the track points used
+    offsetSeconds?: number;     // added to capture times first, for a camera clock that was off
+    overwrite?: boolean;        // re-position photos that already have a location
+    dryRun?: boolean;           // preview only
+};
+
+export type GpxMatch = TrackMatch & {
+    id: string;
+    originalFilename: string | null;
+    dateTaken: Date;
+    hadLocation: boolean;
+    placeCity: string | null;
+    placeRegion: string | null;
+    placeCountry: string | null;
+};
+
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export class GpxService {
+    /**
+     * Geotag an album's photos from a GPX track by capture time. Every
+     * dated photo is placed where the track was when it was taken; photos
+     * with no track point within the tolerance are left alone. With dryRun
+     * nothing is written and the proposed matches come back as a preview.
+     * Otherwise the matches are applied and the track is kept for the map.
+     */
+    static async importTrack(userId: string, albumId: string, xml: string, options: GpxImportOptions = {}) {
+        const {
+            toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+            offsetSeconds = 0,
+            overwrite = false,
+            dryRun = false,
+        } = options;
+
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const { name, points } = parseGpx(xml);
+        if (points.length === 0) throw new Error("GPX file has no timed track points");
+
+        const albumImages = await db.query.images.findMany({
+            where: and(eq(images.albumId, albumId), isNull(images.deletedAt)),
+            columns: { id: true, originalFilename: true, dateTaken: true, dateTakenOffset: true, gpsLat: true, gpsLng: true },
+            orderBy: (images, { asc }) => [asc(images.dateTaken)],
+        });
+
+        const matches: GpxMatch[] = [];
+        const offsets = new Map<string, number>();  // for photos that had none
+        const unmatched: { id: string; originalFilename: string | null; dateTaken: Date }[] = [];
+        const skipped = { undated: 0, located: 0 };
+
+        for (const img of albumImages) {
+            if (!img.dateTaken) {
+                skipped.undated++;
+                continue;
+            }
+            const hadLocation = img.gpsLat != null && img.gpsLng != null;
+            if (hadLocation && !overwrite) {
+                skipped.located++;
+                continue;
+            }
+
+            const match = positionAt(points, img.dateTaken.getTime() + offsetSeconds * 1000, toleranceSeconds * 1000);
+            if (!match) {
+                unmatched.push({ id: img.id, originalFilename: img.originalFilename, dateTaken: img.dateTaken });
+                continue;
+            }
+
+            if (img.dateTakenOffset == null) {
+                const offset = offsetForPosition(img.dateTaken, match.lat, match.lng);
+                if (offset != null) offsets.set(img.id, offset);
+            }
+
+            matches.push({
+                id: img.id,
+                originalFilename: img.originalFilename,
+                dateTaken: img.dateTaken,
+                hadLocation,
+                ...match,
+                ...await placeColumns(match.lat, match.lng),
+            });
+        }
+
+        const track = {
+            name,
+            pointCount: points.length,
+            startedAt: new Date(points[0].time),
+            endedAt: new Date(points[points.length - 1].time),
+        };
+
+        if (dryRun) {
+            return { applied: false, trackId: null, track, matches, unmatched, skipped };
+        }
+
+        const trackId = await db.transaction(async (tx) => {
+            for (const match of matches) {
+                await tx.update(images)
+                    .set({
+                        gpsLat: match.lat,
+                        gpsLng: match.lng,
+                        placeCity: match.placeCity,
+                        placeRegion: match.placeRegion,
+                        placeCountry: match.placeCountry,
+                        ...(offsets.has(match.id) && { dateTakenOffset: offsets.get(match.id) }),
+                        metadata: sql`${images.metadata} - 'altitude'`,
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(images.id, match.id));
+            }
+
+            // Importing the same file again re-matches photos but keeps one line on the map
+            const existing = await tx.query.albumTracks.findFirst({
+                where: and(
+                    eq(albumTracks.albumId, albumId),
+                    eq(albumTracks.startedAt, track.startedAt),
+                    eq(albumTracks.endedAt, track.endedAt),
+                    eq(albumTracks.pointCount, track.pointCount)
+                ),
+                columns: { id: true },
+            });
+            if (existing) return existing.id;
+
+            const [created] = await tx.insert(albumTracks).values({
+                albumId,
+                uploadedBy: userId,
+                ...track,
+                points: simplifyTrack(points),
+            }).returning({ id: albumTracks.id });
+            return created.id;
+        });
+
+        if (matches.length > 0) {
+            await logActivity({
+                userId,
+                albumId,
+                action: "image_update",
+                metadata: {
+                    bulk: true,
+                    gpx: {
+                        trackId,
+                        name,
+                        count: matches.length,
+                        imageIds: matches.map(m => m.id),
+                        offsetSeconds,
+                        toleranceSeconds,
+                    },
+                },
+            });
+        }
+
+        return { applied: true, trackId, track, matches, unmatched, skipped };
+    }
+}
@@ -1,14 +1,18 @@
 import { db } from "@/db";
-import { images } from "@/db/schema";
+import { images, albums, imageTags } from "@/db/schema";
 import { nanoid } from "nanoid";
 import { checkAlbumPermission } from "@/lib/auth/rbac";
 import { logActivities, logActivity } from "@/lib/activity";
-import { processImage } from "@/lib/image-processing";
-import { uploadBuffer, getS3Object, generateDownloadUrl } from "@/lib/s3";
-import { eq, inArray, and, isNull } from "drizzle-orm";
+import { processImage, type ProcessedImage } from "@/lib/image-processing";
+import { uploadBuffer, getS3Object, generateDownloadUrl, headS3Object, copyS3Object } from "@/lib/s3";
+import { eq, inArray, and, or, isNull, isNotNull, sql } from "drizzle-orm";
 import { getAuthenticatedUser } from "@/lib/auth/session";
 import { cookies } from "next/headers";
-import { verifyGuestToken } from "@/lib/auth/tokens";
+import { verifyGuestToken, verifyUploadTicket } from "@/lib/auth/tokens";
+import { FolderService } from "@/lib/services/folder.service";
+import { QuotaService } from "@/lib/services/quota.service";
+import { placeColumns } from "@/lib/services/place.service";
+import { offsetForPosition } from "@/lib/services/capture-time.service";
 
 export type ConfirmUploadData = {
     albumId: string;
@@ -19,8 +23,72 @@ export type ConfirmUploadData = {
     height?: number;
 };
 
+export type UpdateImageData = {
+    caption?: string | null;
+    originalFilename?: string;
+    dateTaken?: Date | null;
+    dateTakenOffset?: number | null;
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+    cameraMake?: string | null;
+    cameraModel?: string | null;
+};
+
+// Fields whose change invalidates timeline ordering/grouping or map points
+const TIMELINE_FIELDS: (keyof UpdateImageData)[] = ["dateTaken", "dateTakenOffset"];
+const MAP_FIELDS: (keyof UpdateImageData)[] = ["gpsLat", "gpsLng", "dateTaken", "dateTakenOffset"];
+
+function serializeValue(value: unknown) {
+    return value instanceof Date ? value.toISOString() : value ?? null;
+}
+
+// Upper bound for a clock correction: ±100 years, in seconds
+export const MAX_SHIFT_SECONDS = 100 * 365 * 24 * 60 * 60;
+
+/**
+ * How far to move capture times: either a fixed signed offset, or an anchor
+ * photo whose correct time is known (the offset is derived from it).
+ */
+export type DateShift =
+    | { offsetSeconds: number }
+    | { anchorImageId: string; anchorDate: Date };
+
+/**
+ * Where to put a selection: a dropped pin, the position of another photo in
+ * the album, or nowhere (location removed).
+ */
+export type LocationChange =
+    | { lat: number; lng: number }
+    | { sourceImageId: string }
+    | { clear: true };
+
+export type GeneratedVariants = {
+    s3KeyDisplay: string;
+    s3KeyThumb: string;
+    width: number;
+    height: number;
+    exif: ProcessedImage["exif"];
+};
+
+export type UploadClaim = {
+    keys?: { original?: string; display?: string; thumb?: string };
+    size?: number;
+    mimeType?: string;
+};
+
+export type TransferMode = "move" | "copy";
+
+export type UploadVerification =
+    | { ok: true; keys: { original: string; display?: string; thumb?: string }; size: number; mimeType: string }
+    | { ok: false; error: string };
+
 export class ImageService {
-    static async getImage(userId: string | null, imageId: string) {
+    /**
+     * The image with its album, if the caller may see it: members, anyone for
+     * public albums, and guests holding an invite token. Throws "Forbidden"
+     * otherwise; null when missing or in a deleted album.
+     */
+    private static async findViewableImage(userId: string | null, imageId: string) {
         const image = await db.query.images.findFirst({
             where: eq(images.id, imageId),
             with: {
@@ -28,7 +96,7 @@ export class ImageService {
             }
         });
 
-        if (!image) return null;
+        if (!image || image.album.deletedAt) return null;
 
         let hasAccess = image.album.visibility === "public";
 
@@ -51,6 +119,13 @@ export class ImageService {
             throw new Error("Forbidden");
         }
 
+        return image;
+    }
+
+    static async getImage(userId: string | null, imageId: string) {
+        const image = await ImageService.findViewableImage(userId, imageId);
+        if (!image) return null;
+
         const thumbUrl = image.s3KeyThumb ? await generateDownloadUrl(image.s3KeyThumb) : null;
         const displayUrl = image.s3KeyDisplay ? await generateDownloadUrl(image.s3KeyDisplay) : null;
         const originalUrl = image.s3KeyOriginal ? await generateDownloadUrl(image.s3KeyOriginal) : null;
@@ -61,6 +136,105 @@ export class ImageService {
             thumbUrl,
             displayUrl,
             originalUrl,
+            mimeType: image.mimeType,
+            durationMs: image.durationMs,
+        };
+    }
+
+    /**
+     * S3 key and type of the original for range-request streaming (videos).
+     * Same access rules as getImage.
+     */
+    static async getStreamSource(userId: string | null, imageId: string) {
+        const image = await ImageService.findViewableImage(userId, imageId);
+        if (!image) return null;
+
+        const key = image.s3KeyOriginal || image.s3Key;
+        if (!key) return null;
+
+        return { key, mimeType: image.mimeType };
+    }
+
+    /**
+     * Update editable metadata of a single image.
+     * Only fields that actually change are written; the before/after diff is
+     * recorded in the activity log and returned so callers know which views
+     * (timeline, map) need to be refreshed.
+     */
+    static async updateImage(userId: string, imageId: string, data: UpdateImageData) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+        });
+
+        if (!image) throw new Error("Not found");
+
+        const hasAccess = await checkAlbumPermission(userId, image.albumId, "editor");
+        if (!hasAccess) throw new Error("Forbidden");
+
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+        const updates: Partial<typeof images.$inferInsert> = {};
+
+        // An offset means nothing without a date
+        if (data.dateTaken === null && data.dateTakenOffset === undefined) {
+            data = { ...data, dateTakenOffset: null };
+        }
+
+        for (const key of Object.keys(data) as (keyof UpdateImageData)[]) {
+            const next = data[key];
+            if (next === undefined) continue;
+
+            const from = serializeValue(image[key]);
+            const to = serializeValue(next);
+            if (from === to) continue;
+
+            changes[key] = { from, to };
+            Object.assign(updates, { [key]: next });
+        }
+
+        const changedFields = Object.keys(changes) as (keyof UpdateImageData)[];
+        if (changedFields.length === 0) {
+            return { image, changes, affects: { timeline: false, map: false } };
+        }
+
+        // Place names follow the position, and the altitude belonged to the
+        // old one. A photo with no offset reads in the zone it now sits in
+        if (changes.gpsLat || changes.gpsLng) {
+            const lat = data.gpsLat !== undefined ? data.gpsLat : image.gpsLat;
+            const lng = data.gpsLng !== undefined ? data.gpsLng : image.gpsLng;
+            Object.assign(updates, await placeColumns(lat, lng), {
+                metadata: sql`${images.metadata} - 'altitude'`,
+            });
+
+            const offset = lat != null && lng != null && data.dateTakenOffset === undefined && image.dateTakenOffset == null
+                ? offsetForPosition(data.dateTaken !== undefined ? data.dateTaken : image.dateTaken, lat, lng)
+                : null;
+            if (offset != null) {
+                changes.dateTakenOffset = { from: null, to: offset };
+                changedFields.push("dateTakenOffset");
+                updates.dateTakenOffset = offset;
+            }
+        }
+
+        const [updated] = await db.update(images)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(images.id, imageId))
+            .returning();
+
+        await logActivity({
+            userId,
+            albumId: image.albumId,
+            imageId: image.id,
+            action: "image_update",
+            metadata: { changes },
+        });
+
+        return {
+            image: updated,
+            changes,
+            affects: {
+                timeline: changedFields.some(f => TIMELINE_FIELDS.includes(f)),
+                map: changedFields.some(f => MAP_FIELDS.includes(f)),
+            },
         };
     }
 
@@ -149,6 +323,10 @@ export class ImageService {
         const canEdit = await checkAlbumPermission(userId, albumId, "editor");
         if (!canEdit) throw new Error("Forbidden");
 
+        if (targetFolderId && !(await FolderService.isLiveFolder(albumId, targetFolderId))) {
+            throw new Error("Folder not found");
+        }
+
         const validImages = await db.query.images.findMany({
             where: and(
                 inArray(images.id, imageIds),
@@ -179,18 +357,449 @@ export class ImageService {
         return validIds.length;
     }
 
-    static async getImagesForDownload(userId: string, albumId: string, imageIds: string[]) {
+    /**
+     * Move or copy photos into another album (optionally into one of its
+     * folders). Requires editor rights on both albums.
+     *
+     * A move re-points the rows, so tags, comments and reactions go along and
+     * the S3 objects stay where they are. A copy creates new rows with their
+     * own S3 objects (server-side copies under the target album) and copies
+     * the tags; each album's activity log records its side of the transfer.
+     */
+    static async transferToAlbum(
+        userId: string,
+        sourceAlbumId: string,
+        imageIds: string[],
+        targetAlbumId: string,
+        targetFolderId: string | null,
+        mode: TransferMode
+    ) {
+        if (sourceAlbumId === targetAlbumId) throw new Error("Target album must be different");
+
+        const [canEditSource, canEditTarget] = await Promise.all([
+            checkAlbumPermission(userId, sourceAlbumId, "editor"),
+            checkAlbumPermission(userId, targetAlbumId, "editor"),
+        ]);
+        if (!canEditSource || !canEditTarget) throw new Error("Forbidden");
+
+        if (targetFolderId && !(await FolderService.isLiveFolder(targetAlbumId, targetFolderId))) {
+            throw new Error("Folder not found");
+        }
+
+        const validImages = await db.query.images.findMany({
+            where: and(
+                inArray(images.id, imageIds),
+                eq(images.albumId, sourceAlbumId),
+                isNull(images.deletedAt)
+            ),
+        });
+
+        if (validImages.length === 0) return { count: 0, imageIds: [] as string[] };
+
+        // Copies are new objects charged to whoever makes them
+        if (mode === "copy") {
+            const copyBytes = validImages.reduce((sum, img) => sum + img.size + (img.variantsSize ?? 0), 0);
+            const quota = await QuotaService.checkQuota(userId, copyBytes);
+            if (!quota.ok) throw new Error("Storage quota exceeded");
+        }
+
+        const [sourceAlbum, targetAlbum] = await Promise.all([
+            db.query.albums.findFirst({ where: eq(albums.id, sourceAlbumId), columns: { title: true, coverImageId: true } }),
+            db.query.albums.findFirst({ where: eq(albums.id, targetAlbumId), columns: { title: true } }),
+        ]);
+
+        // Source image ID -> ID in the target album
+        const transferred = new Map<string, string>();
+
+        if (mode === "move") {
+            const validIds = validImages.map(img => img.id);
+            await db.update(images)
+                .set({ albumId: targetAlbumId, folderId: targetFolderId, updatedAt: new Date() })
+                .where(inArray(images.id, validIds));
+
+            if (sourceAlbum?.coverImageId && validIds.includes(sourceAlbum.coverImageId)) {
+                await db.update(albums).set({ coverImageId: null }).where(eq(albums.id, sourceAlbumId));
+            }
+
+            validIds.forEach(id => transferred.set(id, id));
+        } else {
+            const tagRows = await db.select().from(imageTags).where(inArray(imageTags.imageId, validImages.map(img => img.id)));
+
+            for (const img of validImages) {
+                const baseKey = `albums/${targetAlbumId}/${nanoid()}`;
+                // s3Key (and the previews of a video without a poster) point at
+                // the original: copy each object once and share the destination
+                const copies = new Map<string, Promise<string>>();
+                const copyKey = async (key: string | null) => {
+                    if (!key) return null;
+                    if (!copies.has(key)) {
+                        const destination = `${baseKey}/${key.split("/").pop()}`;
+                        copies.set(key, copyS3Object(key, destination).then(() => destination));
+                    }
+                    return copies.get(key)!;
+                };
+
+                const [s3KeyOriginal, s3KeyDisplay, s3KeyThumb, s3Key] = await Promise.all([
+                    copyKey(img.s3KeyOriginal),
+                    copyKey(img.s3KeyDisplay),
+                    copyKey(img.s3KeyThumb),
+                    copyKey(img.s3Key),
+                ]);
+
+                const [copy] = await db.insert(images).values({
+                    albumId: targetAlbumId,
+                    folderId: targetFolderId,
+                    uploaderId: userId,
+                    s3KeyOriginal,
+                    s3KeyDisplay,
+                    s3KeyThumb,
+                    s3Key,
+                    mimeType: img.mimeType,
+                    contentHash: img.contentHash,
+                    perceptualHash: img.perceptualHash,
+                    originalFilename: img.originalFilename,
+                    caption: img.caption,
+                    size: img.size,
+                    variantsSize: img.variantsSize,
+                    width: img.width,
+                    height: img.height,
+                    durationMs: img.durationMs,
+                    dateTaken: img.dateTaken,
+                    dateTakenOffset: img.dateTakenOffset,
+                    cameraMake: img.cameraMake,
+                    cameraModel: img.cameraModel,
+                    metadata: img.metadata,
+                    gpsLat: img.gpsLat,
+                    gpsLng: img.gpsLng,
+                    placeCity: img.placeCity,
+                    placeRegion: img.placeRegion,
+                    placeCountry: img.placeCountry,
+                }).returning({ id: images.id });
+
+                const copiedTags = tagRows.filter(t => t.imageId === img.id);
+                if (copiedTags.length > 0) {
+                    await db.insert(imageTags)
+                        .values(copiedTags.map(t => ({ imageId: copy.id, tagId: t.tagId, createdBy: userId })))
+                        .onConflictDoNothing();
+                }
+
+                transferred.set(img.id, copy.id);
+            }
+        }
+
+        await logActivities([
+            ...validImages.map(img => ({
+                userId,
+                albumId: sourceAlbumId,
+                imageId: img.id,
+                action: "image_transfer_out" as const,
+                metadata: {
+                    mode,
+                    filename: img.originalFilename,
+                    albumId: targetAlbumId,
+                    albumTitle: targetAlbum?.title,
+                },
+            })),
+            ...validImages.map(img => ({
+                userId,
+                albumId: targetAlbumId,
+                imageId: transferred.get(img.id),
+                folderId: targetFolderId || undefined,
+                action: "image_transfer_in" as const,
+                metadata: {
+                    mode,
+                    filename: img.originalFilename,
+                    albumId: sourceAlbumId,
+                    albumTitle: sourceAlbum?.title,
+                },
+            })),
+        ]);
+
+        return { count: validImages.length, imageIds: Array.from(transferred.values()) };
+    }
+
+    /**
+     * Shift dateTaken of a selection by the same amount, e.g. to correct a
+     * camera clock set to the wrong timezone. Photos without a dateTaken are
+     * skipped. With dryRun nothing is written and the planned changes are
+     * returned as a preview. A single activity entry covers the whole batch.
+     */
+    static async bulkShiftDate(userId: string, albumId: string, imageIds: string[], shift: DateShift, dryRun: boolean) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const validImages = await db.query.images.findMany({
+            where: and(
+                inArray(images.id, imageIds),
+                eq(images.albumId, albumId),
+                isNull(images.deletedAt)
+            ),
+            columns: { id: true, dateTaken: true, originalFilename: true },
+        });
+
+        let offsetSeconds: number;
+        if ("offsetSeconds" in shift) {
+            offsetSeconds = shift.offsetSeconds;
+        } else {
+            const anchor = validImages.find(img => img.id === shift.anchorImageId);
+            if (!anchor) throw new Error("Anchor photo must be part of the selection");
+            if (!anchor.dateTaken) throw new Error("Anchor photo has no date taken");
+            offsetSeconds = Math.round((shift.anchorDate.getTime() - anchor.dateTaken.getTime()) / 1000);
+            if (Math.abs(offsetSeconds) > MAX_SHIFT_SECONDS) throw new Error("Date shift is too large");
+        }
+
+        const dated = validImages.filter(img => img.dateTaken);
+        const skipped = validImages.filter(img => !img.dateTaken).map(img => img.id);
+
+        const preview = dated.map(img => ({
+            id: img.id,
+            originalFilename: img.originalFilename,
+            from: img.dateTaken!.toISOString(),
+            to: new Date(img.dateTaken!.getTime() + offsetSeconds * 1000).toISOString(),
+        }));
+
+        if (dryRun || offsetSeconds === 0 || dated.length === 0) {
+            return { dryRun, offsetSeconds, updatedCount: 0, images: preview, skipped };
+        }
+
+        const datedIds = dated.map(img => img.id);
+
+        // Shift in SQL so the update is a single statement relative to stored values
+        await db.update(images)
+            .set({
+                dateTaken: sql`${images.dateTaken} + make_interval(secs => ${offsetSeconds})`,
+                updatedAt: new Date(),
+            })
+            .where(and(inArray(images.id, datedIds), isNotNull(images.dateTaken)));
+
+        await logActivity({
+            userId,
+            albumId,
+            action: "image_update",
+            metadata: {
+                bulk: true,
+                dateShift: {
+                    offsetSeconds,
+                    count: datedIds.length,
+                    anchorImageId: "anchorImageId" in shift ? shift.anchorImageId : undefined,
+                    imageIds: datedIds,
+                },
+            },
+        });
+
+        return { dryRun, offsetSeconds, updatedCount: datedIds.length, images: preview, skipped };
+    }
+
+    /**
+     * Set or clear the GPS position of a selection, for photos from cameras
+     * without GPS or to remove a location for privacy. Place names follow the
+     * new position and any recorded altitude is dropped. A single activity
+     * entry covers the whole batch; it does not keep the old positions, so a
+     * cleared location is gone.
+     */
+    static async bulkSetLocation(userId: string, albumId: string, imageIds: string[], change: LocationChange) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        let location: { lat: number; lng: number } | null = null;
+        if ("sourceImageId" in change) {
+            const source = await db.query.images.findFirst({
+                where: and(eq(images.id, change.sourceImageId), eq(images.albumId, albumId), isNull(images.deletedAt)),
+                columns: { gpsLat: true, gpsLng: true },
+            });
+            if (!source) throw new Error("Source photo not found");
+            if (source.gpsLat == null || source.gpsLng == null) throw new Error("Source photo has no location");
+            location = { lat: source.gpsLat, lng: source.gpsLng };
+        } else if ("lat" in change) {
+            location = { lat: change.lat, lng: change.lng };
+        }
+
+        const validImages = await db.query.images.findMany({
+            where: and(
+                inArray(images.id, imageIds),
+                eq(images.albumId, albumId),
+                isNull(images.deletedAt)
+            ),
+            columns: { id: true, dateTaken: true, dateTakenOffset: true },
+        });
+
+        if (validImages.length === 0) return { updatedCount: 0, location };
+
+        const validIds = validImages.map(img => img.id);
+
+        await db.update(images)
+            .set({
+                gpsLat: location?.lat ?? null,
+                gpsLng: location?.lng ?? null,
+                ...await placeColumns(location?.lat, location?.lng),
+                metadata: sql`${images.metadata} - 'altitude'`,
+                updatedAt: new Date(),
+            })
+            .where(inArray(images.id, validIds));
+
+        // Photos with no offset now read in the zone at their new position
+        if (location) {
+            for (const img of validImages) {
+                if (img.dateTakenOffset != null) continue;
+                const offset = offsetForPosition(img.dateTaken, location.lat, location.lng);
+                if (offset == null) continue;
+                await db.update(images).set({ dateTakenOffset: offset }).where(eq(images.id, img.id));
+            }
+        }
+
+        await logActivity({
+            userId,
+            albumId,
+            action: "image_update",
+            metadata: {
+                bulk: true,
+                location: {
+                    mode: "sourceImageId" in change ? "copy" : location ? "pin" : "clear",
+                    lat: location?.lat ?? null,
+                    lng: location?.lng ?? null,
+                    sourceImageId: "sourceImageId" in change ? change.sourceImageId : undefined,
+                    count: validIds.length,
+                    imageIds: validIds,
+                },
+            },
+        });
+
+        return { updatedCount: validIds.length, location };
+    }
+
+    /**
+     * Check an upload before it is registered: the ticket from upload-url
+     * must belong to this user and album, the claimed keys must be the ones
+     * it was issued for, and the original must exist in S3 with the claimed
+     * size and content type. Returns the verified keys plus the real size and
+     * content type as reported by S3.
+     */
+    static async verifyUpload(userId: string, albumId: string, ticketToken: string | undefined, claim: UploadClaim): Promise<UploadVerification> {
+        if (!ticketToken) return { ok: false, error: "Missing upload ticket" };
+
+        const ticket = await verifyUploadTicket(ticketToken);
+        if (!ticket || ticket.userId !== userId || ticket.albumId !== albumId) {
+            return { ok: false, error: "Invalid or expired upload ticket" };
+        }
+
+        const original = claim.keys?.original ?? ticket.keys.original;
+        const display = claim.keys?.display;
+        const thumb = claim.keys?.thumb;
+
+        const albumPrefix = `albums/${albumId}/`;
+        for (const key of [original, display, thumb]) {
+            if (key !== undefined && !key.startsWith(albumPrefix)) {
+                return { ok: false, error: "Key does not belong to this album" };
+            }
+        }
+
+        if (original !== ticket.keys.original
+            || (display !== undefined && display !== ticket.keys.display)
+            || (thumb !== undefined && thumb !== ticket.keys.thumb)) {
+            return { ok: false, error: "Keys do not match upload ticket" };
+        }
+
+        // A ticket registers at most one image
+        const existing = await db.query.images.findFirst({
+            where: eq(images.s3KeyOriginal, original),
+            columns: { id: true },
+        });
+        if (existing) return { ok: false, error: "Upload already registered" };
+
+        const head = await headS3Object(original);
+        if (!head) return { ok: false, error: "Uploaded file not found" };
+
+        const actualSize = head.ContentLength ?? 0;
+        if (claim.size != null && claim.size !== actualSize) {
+            return { ok: false, error: "Uploaded file size does not match" };
+        }
+
+        const actualType = head.ContentType || ticket.contentType;
+        if (actualType !== ticket.contentType || (claim.mimeType && claim.mimeType !== actualType)) {
+            return { ok: false, error: "Uploaded file type does not match" };
+        }
+
+        return { ok: true, keys: { original, display, thumb }, size: actualSize, mimeType: actualType };
+    }
+
+    /**
+     * True when display/thumb keys were supplied, differ from the original
+     * and actually exist in S3.
+     */
+    static async hasValidVariants(s3KeyOriginal: string, s3KeyDisplay?: string, s3KeyThumb?: string) {
+        if (!s3KeyDisplay || !s3KeyThumb) return false;
+        if (s3KeyDisplay === s3KeyOriginal || s3KeyThumb === s3KeyOriginal) return false;
+
+        const [display, thumb] = await Promise.all([
+            headS3Object(s3KeyDisplay),
+            headS3Object(s3KeyThumb),
+        ]);
+        return !!display && !!thumb;
+    }
+
+    /**
+     * Server-side fallback for clients that could not produce WebP variants
+     * (API scripts, old browsers, HEIC, RAW). Downloads the original, runs the
+     * sharp pipeline and uploads display/thumb next to it. The original
+     * object itself is left untouched.
+     */
+    static async generateVariants(s3KeyOriginal: string): Promise<GeneratedVariants> {
+        const object = await getS3Object(s3KeyOriginal);
+        if (!object.Body) throw new Error("Original not found");
+
+        const buffer = Buffer.from(await object.Body.transformToByteArray());
+        const processed = await processImage(buffer, object.ContentType);
+
+        const baseKey = s3KeyOriginal.includes("/")
+            ? s3KeyOriginal.slice(0, s3KeyOriginal.lastIndexOf("/"))
+            : s3KeyOriginal;
+        const s3KeyDisplay = `${baseKey}/display.webp`;
+        const s3KeyThumb = `${baseKey}/thumb.webp`;
+
+        await Promise.all([
+            uploadBuffer(s3KeyDisplay, processed.displayBuffer, "image/webp"),
+            uploadBuffer(s3KeyThumb, processed.thumbBuffer, "image/webp"),
+        ]);
+
+        return {
+            s3KeyDisplay,
+            s3KeyThumb,
+            width: processed.width,
+            height: processed.height,
+            exif: processed.exif,
+        };
+    }
+
+    /**
+     * Images to put in a ZIP: the selected ones plus everything inside the
+     * selected folders' subtrees. Each comes with its folder path relative to
+     * the album root ("" at the root) so the archive mirrors the folder tree.
+     */
+    static async getImagesForDownload(userId: string, albumId: string, imageIds: string[], folderIds: string[] = []) {
         const canView = await checkAlbumPermission(userId, albumId, "viewer");
         if (!canView) throw new Error("Forbidden");
 
+        const subtreeIds = folderIds.length > 0
+            ? Array.from(await FolderService.getSubtreeIds(albumId, folderIds))
+            : [];
+        if (imageIds.length === 0 && subtreeIds.length === 0) return [];
+
         const imagesToDownload = await db.query.images.findMany({
             where: and(
-                inArray(images.id, imageIds),
+                or(
+                    imageIds.length > 0 ? inArray(images.id, imageIds) : undefined,
+                    subtreeIds.length > 0 ? inArray(images.folderId, subtreeIds) : undefined
+                ),
                 eq(images.albumId, albumId),
                 isNull(images.deletedAt)
             ),
         });
 
-        return imagesToDownload;
+        const folderPaths = await FolderService.getFolderPaths(albumId);
+
+        return imagesToDownload.map(img => ({
+            ...img,
+            folderPath: (img.folderId && folderPaths.get(img.folderId)) || "",
+        }));
     }
 }
@@ -1,6 +1,26 @@
 import { db } from "@/db";
-import { images, albumMembers, albums } from "@/db/schema";
-import { sql, and, gte, lte, isNotNull } from "drizzle-orm";
+import { images, albumMembers, albums, albumTracks } from "@/db/schema";
+import { sql, and, eq, gte, lte, isNotNull, isNull } from "drizzle-orm";
+import { imagesWithAllTags } from "@/lib/services/tag.service";
+import { localCaptureTime } from "@/lib/services/capture-time.service";
+import { placeSearchCondition } from "@/lib/services/place.service";
+import type { CaptureDateMode } from "@/lib/capture-time";
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * "AND <place matches>" for the raw map queries, or nothing.
+ */
+function placeClause(place: string | undefined) {
+    const condition = place
+        ? placeSearchCondition(place, {
+            placeCity: sql`i.place_city`,
+            placeRegion: sql`i.place_region`,
+            placeCountry: sql`i.place_country`,
+        })
+        : undefined;
+    return condition ? sql`AND ${condition}` : sql``;
+}
 
 /**
  * Dynamic precision factor based on zoom level.
@@ -32,6 +52,10 @@ export interface MapPointsRequest {
     zoom: number;
     startDate?: string;
     endDate?: string;
+    timeZone?: string;          // viewer's zone, for calendar-date filters
+    dateMode?: CaptureDateMode;
+    tags?: string[];  // only include photos carrying all of these tags
+    place?: string;   // only include photos whose city, region or country matches
 }
 
 export interface MapPoint {
@@ -50,24 +74,37 @@ export class MapService {
      * Returns up to 3 thumbnail S3 keys per group for photo markers.
      */
     static async getPoints(params: MapPointsRequest): Promise<MapPoint[]> {
-        const { userId, minLat, maxLat, minLng, maxLng, zoom, startDate, endDate } = params;
+        const { userId, minLat, maxLat, minLng, maxLng, zoom, startDate, endDate, timeZone = "UTC", dateMode = "local", tags = [], place } = params;
 
         const factor = getPrecisionFactor(zoom);
         const limit = getAdaptiveLimit(zoom);
 
-        // Build time filter conditions
+        // Build time filter conditions. Instants compare as they are; calendar
+        // dates compare with the day each photo was taken on locally
+        const localDate = sql`(${localCaptureTime(
+            { dateTaken: sql`i.date_taken`, dateTakenOffset: sql`i.date_taken_offset` },
+            { mode: dateMode, timeZone }
+        )})::date`;
         const timeFilters = [];
         if (startDate) {
-            timeFilters.push(sql`i.date_taken >= ${new Date(startDate)}`);
+            timeFilters.push(CALENDAR_DATE.test(startDate)
+                ? sql`${localDate} >= ${startDate}::date`
+                : sql`i.date_taken >= ${new Date(startDate)}`);
         }
         if (endDate) {
-            timeFilters.push(sql`i.date_taken <= ${new Date(endDate)}`);
+            timeFilters.push(CALENDAR_DATE.test(endDate)
+                ? sql`${localDate} <= ${endDate}::date`
+                : sql`i.date_taken <= ${new Date(endDate)}`);
         }
 
         const timeClause = timeFilters.length > 0
             ? sql.join([sql`AND`, ...timeFilters.map((f, i) => i > 0 ? sql.join([sql`AND`, f], sql` `) : f)], sql` `)
             : sql``;
 
+        const tagClause = tags.length > 0
+            ? sql`AND i.id IN ${imagesWithAllTags(tags)}`
+            : sql``;
+
         // Permission-First JOIN query with Dynamic Precision Grouping
         // Query path: album_members (filtered by user) -> images (filtered by bounds)
         // array_agg collects up to 3 thumbnail keys per group for photo markers
@@ -81,6 +118,7 @@ export class MapService {
                 (array_agg(i.s3_key_thumb ORDER BY i.date_taken DESC NULLS LAST)
                   FILTER (WHERE i.s3_key_thumb IS NOT NULL))[1:3] as thumbs
             FROM album_members am
+            JOIN albums a ON a.id = am.album_id AND a.deleted_at IS NULL
             JOIN images i ON am.album_id = i.album_id
             WHERE 
                 am.user_id = ${userId}
@@ -90,6 +128,8 @@ export class MapService {
                 AND i.gps_lng BETWEEN ${minLng} AND ${maxLng}
                 AND i.deleted_at IS NULL
                 ${timeClause}
+                ${tagClause}
+                ${placeClause(place)}
             GROUP BY 1, 2
             ORDER BY c DESC
             LIMIT ${limit}
@@ -115,6 +155,7 @@ export class MapService {
                 MIN(i.date_taken) as min_date,
                 MAX(i.date_taken) as max_date
             FROM album_members am
+            JOIN albums a ON a.id = am.album_id AND a.deleted_at IS NULL
             JOIN images i ON am.album_id = i.album_id
             WHERE 
                 am.user_id = ${userId}
@@ -130,6 +171,28 @@ export class MapService {
         };
     }
 
+    /**
+     * Get the GPX tracks imported into albums the user has access to, as
+     * [lng, lat] lines for the map's track layer.
+     */
+    static async getTracks(userId: string) {
+        return db
+            .select({
+                id: albumTracks.id,
+                albumId: albumTracks.albumId,
+                albumTitle: albums.title,
+                name: albumTracks.name,
+                points: albumTracks.points,
+                startedAt: albumTracks.startedAt,
+                endedAt: albumTracks.endedAt,
+            })
+            .from(albumMembers)
+            .innerJoin(albums, and(eq(albums.id, albumMembers.albumId), isNull(albums.deletedAt)))
+            .innerJoin(albumTracks, eq(albumTracks.albumId, albumMembers.albumId))
+            .where(eq(albumMembers.userId, userId))
+            .orderBy(albumTracks.startedAt);
+    }
+
     /**
      * Get individual photos in the viewport for the sidebar panel.
      * Supports pagination via offset/limit for infinite scroll.
@@ -143,8 +206,10 @@ export class MapService {
         maxLng: number;
         offset?: number;
         limit?: number;
+        place?: string;
     }): Promise<{ photos: any[]; total: number }> {
-        const { userId, minLat, maxLat, minLng, maxLng, offset = 0, limit = 20 } = params;
+        const { userId, minLat, maxLat, minLng, maxLng, offset = 0, limit = 20, place } = params;
+        const placeFilter = placeClause(place);
 
         // Run photos query and count query in parallel
         const [photosResult, countResult] = await Promise.all([
@@ -156,14 +221,18 @@ export class MapService {
                     i.s3_key_thumb,
                     i.s3_key_display,
                     i.date_taken,
+                    i.date_taken_offset,
                     i.original_filename,
                     i.width,
                     i.height,
                     i.album_id,
+                    i.place_city,
+                    i.place_region,
+                    i.place_country,
                     a.title as album_title
                 FROM album_members am
                 JOIN images i ON am.album_id = i.album_id
-                JOIN albums a ON a.id = i.album_id
+                JOIN albums a ON a.id = i.album_id AND a.deleted_at IS NULL
                 WHERE 
                     am.user_id = ${userId}
                     AND i.gps_lat IS NOT NULL
@@ -171,6 +240,7 @@ export class MapService {
                     AND i.gps_lat BETWEEN ${minLat} AND ${maxLat}
                     AND i.gps_lng BETWEEN ${minLng} AND ${maxLng}
                     AND i.deleted_at IS NULL
+                    ${placeFilter}
                 ORDER BY i.date_taken DESC NULLS LAST
                 LIMIT ${limit}
                 OFFSET ${offset}
@@ -178,6 +248,7 @@ export class MapService {
             db.execute(sql`
                 SELECT COUNT(*)::int as total
                 FROM album_members am
+                JOIN albums a ON a.id = am.album_id AND a.deleted_at IS NULL
                 JOIN images i ON am.album_id = i.album_id
                 WHERE 
                     am.user_id = ${userId}
@@ -186,6 +257,7 @@ export class MapService {
                     AND i.gps_lat BETWEEN ${minLat} AND ${maxLat}
                     AND i.gps_lng BETWEEN ${minLng} AND ${maxLng}
                     AND i.deleted_at IS NULL
+                    ${placeFilter}
             `),
         ]);
 
@@ -198,11 +270,15 @@ export class MapService {
             thumbKey: row.s3_key_thumb || row.s3_key_display,
             displayKey: row.s3_key_display || row.s3_key_thumb,
             dateTaken: row.date_taken ? new Date(row.date_taken).toISOString() : null,
+            dateTakenOffset: row.date_taken_offset,
             filename: row.original_filename,
             width: row.width,
             height: row.height,
             albumId: row.album_id,
             albumTitle: row.album_title,
+            placeCity: row.place_city,
+            placeRegion: row.place_region,
+            placeCountry: row.place_country,
         }));
 
         return { photos, total };
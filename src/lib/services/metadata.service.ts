@@ -0,0 +1,86 @@
+import { db } from "@/db";
+import { images, albumMembers, albums } from "@/db/schema";
+import { and, eq, inArray, isNotNull, isNull, sql, type SQL } from "drizzle-orm";
+import type { MetadataFacets, MetadataFilter } from "@/lib/exif";
+
+type MetadataColumns = Pick<typeof images, "cameraModel" | "metadata">;
+
+const lensModelOf = (columns: MetadataColumns) => sql<string>`${columns.metadata}->>'lensModel'`;
+const focalLengthOf = (columns: MetadataColumns) => sql<number>`(${columns.metadata}->>'focalLength')::float`;
+
+/**
+ * Conditions for a camera/lens/focal-length filter, to spread into a where
+ * clause alongside the caller's own. Pass the columns from a relational
+ * query's where callback when filtering a nested relation.
+ */
+export function metadataFilterConditions(filter: MetadataFilter, columns: MetadataColumns = images): SQL[] {
+    const conditions: SQL[] = [];
+    if (filter.camera) conditions.push(eq(columns.cameraModel, filter.camera));
+    if (filter.lens) conditions.push(sql`${lensModelOf(columns)} = ${filter.lens}`);
+    if (filter.focalMin != null) conditions.push(sql`${focalLengthOf(columns)} >= ${filter.focalMin}`);
+    if (filter.focalMax != null) conditions.push(sql`${focalLengthOf(columns)} <= ${filter.focalMax}`);
+    return conditions;
+}
+
+export class MetadataService {
+    /**
+     * Filter choices for the photos in the given albums.
+     */
+    static async getFacets(albumIds: string[]): Promise<MetadataFacets> {
+        if (albumIds.length === 0) {
+            return { cameras: [], lenses: [], focalLength: { min: null, max: null } };
+        }
+
+        const live = and(inArray(images.albumId, albumIds), isNull(images.deletedAt));
+        const lensModel = lensModelOf(images);
+        const focalLength = focalLengthOf(images);
+
+        const [cameras, lenses, [focalRange]] = await Promise.all([
+            db
+                .select({
+                    make: sql<string | null>`min(${images.cameraMake})`,
+                    model: sql<string>`${images.cameraModel}`,
+                    count: sql<number>`count(*)::int`,
+                })
+                .from(images)
+                .where(and(live, isNotNull(images.cameraModel)))
+                .groupBy(images.cameraModel)
+                .orderBy(sql`count(*) desc`, images.cameraModel),
+            db
+                .select({
+                    model: lensModel,
+                    count: sql<number>`count(*)::int`,
+                })
+                .from(images)
+                .where(and(live, sql`${lensModel} is not null`))
+                .groupBy(lensModel)
+                .orderBy(sql`count(*) desc`, lensModel),
+            db
+                .select({
+                    min: sql<number | null>`min(${focalLength})`,
+                    max: sql<number | null>`max(${focalLength})`,
+                })
+                .from(images)
+                .where(live),
+        ]);
+
+        return {
+            cameras,
+            lenses,
+            focalLength: { min: focalRange?.min ?? null, max: focalRange?.max ?? null },
+        };
+    }
+
+    /**
+     * Facets across every album the user belongs to, for the timeline.
+     */
+    static async getTimelineFacets(userId: string) {
+        const memberships = await db
+            .select({ albumId: albumMembers.albumId })
+            .from(albumMembers)
+            .innerJoin(albums, eq(albums.id, albumMembers.albumId))
+            .where(and(eq(albumMembers.userId, userId), isNull(albums.deletedAt)));
+
+        return MetadataService.getFacets(memberships.map(m => m.albumId));
+    }
+}
@@ -0,0 +1,75 @@
+import { verifyUploadTicket } from "@/lib/auth/tokens";
+import {
+    createMultipartUpload,
+    generateUploadPartUrl,
+    listUploadedParts,
+    completeMultipartUpload,
+    abortMultipartUpload,
+} from "@/lib/s3";
+
+// A multipart ticket has to outlive a slow upload plus a resume the next day
+export const MULTIPART_TICKET_TTL_HOURS = 24;
+export const MULTIPART_TICKET_TTL = `${MULTIPART_TICKET_TTL_HOURS}h`;
+
+// S3 requires at least 5 MiB per part (except the last) and at most 10,000 parts
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+export const MAX_MULTIPART_PARTS = 10000;
+export const MAX_PART_URLS_PER_REQUEST = 100;
+
+export type CompletedPart = { partNumber: number; etag: string };
+
+/**
+ * Multipart upload of an original, authorised by the ticket from
+ * /api/images/upload-url. The ticket pins the S3 key and content type;
+ * S3 itself binds the upload id to that key, so a ticket can't be used to
+ * touch anyone else's upload.
+ */
+export class MultipartUploadService {
+    private static async resolveTicket(userId: string, ticketToken: string) {
+        const ticket = await verifyUploadTicket(ticketToken);
+        if (!ticket || ticket.userId !== userId) {
+            throw new Error("Invalid or expired upload ticket");
+        }
+        return ticket;
+    }
+
+    static async initiate(userId: string, ticketToken: string) {
+        const ticket = await MultipartUploadService.resolveTicket(userId, ticketToken);
+        const uploadId = await createMultipartUpload(ticket.keys.original, ticket.contentType);
+
+        return {
+            uploadId,
+            key: ticket.keys.original,
+            partSize: MULTIPART_PART_SIZE,
+            maxParts: MAX_MULTIPART_PARTS,
+        };
+    }
+
+    /**
+     * Presigned URLs for the requested parts, plus the parts S3 already has,
+     * so a resumed upload can skip them.
+     */
+    static async presignParts(userId: string, ticketToken: string, uploadId: string, partNumbers: number[]) {
+        const ticket = await MultipartUploadService.resolveTicket(userId, ticketToken);
+        const key = ticket.keys.original;
+
+        const uploadedParts = await listUploadedParts(key, uploadId);
+        const urls: Record<number, string> = {};
+        await Promise.all(partNumbers.map(async (partNumber) => {
+            urls[partNumber] = await generateUploadPartUrl(key, uploadId, partNumber);
+        }));
+
+        return { urls, uploadedParts };
+    }
+
+    static async complete(userId: string, ticketToken: string, uploadId: string, parts: CompletedPart[]) {
+        const ticket = await MultipartUploadService.resolveTicket(userId, ticketToken);
+        await completeMultipartUpload(ticket.keys.original, uploadId, parts);
+        return { key: ticket.keys.original };
+    }
+
+    static async abort(userId: string, ticketToken: string, uploadId: string) {
+        const ticket = await MultipartUploadService.resolveTicket(userId, ticketToken);
+        await abortMultipartUpload(ticket.keys.original, uploadId);
+    }
+}
@@ -0,0 +1,197 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import { gunzip } from "zlib";
+import { db } from "@/db";
+import { images } from "@/db/schema";
+import { and, asc, eq, gt, ilike, isNotNull, isNull, or, type Column, type SQL } from "drizzle-orm";
+
+// Built by scripts/build-gazetteer.ts from GeoNames (places of 1000+ people)
+const GAZETTEER_PATH = join(process.cwd(), "data", "gazetteer.tsv.gz");
+
+// Photos further than this from any listed place get no place name
+const MAX_DISTANCE_KM = 50;
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.2;
+
+export interface Place {
+    city: string;
+    region: string | null;
+    country: string;
+}
+
+interface Gazetteer {
+    places: Place[];
+    lats: Float64Array;
+    lngs: Float64Array;
+    cells: Map<number, number[]>;  // 1° grid cell -> place indexes
+}
+
+type PlaceColumns = Record<"placeCity" | "placeRegion" | "placeCountry", Column | SQL>;
+
+const cellKey = (latCell: number, lngCell: number) => latCell * 360 + lngCell;
+
+let gazetteer: Promise<Gazetteer> | null = null;
+
+async function parseGazetteer(): Promise<Gazetteer> {
+    const text = (await promisify(gunzip)(await readFile(GAZETTEER_PATH))).toString("utf8");
+    const lines = text.split("\n").filter(Boolean);
+
+    const places: Place[] = [];
+    const lats = new Float64Array(lines.length);
+    const lngs = new Float64Array(lines.length);
+    const cells = new Map<number, number[]>();
+
+    lines.forEach((line, i) => {
+        const [city, region, country, , lat, lng] = line.split("\t");
+        places.push({ city, region: region || null, country });
+        lats[i] = Number(lat);
+        lngs[i] = Number(lng);
+
+        const key = cellKey(Math.floor(lats[i]), Math.floor(lngs[i]));
+        const cell = cells.get(key);
+        if (cell) cell.push(i);
+        else cells.set(key, [i]);
+    });
+
+    return { places, lats, lngs, cells };
+}
+
+/**
+ * The gazetteer, read once per process on first use.
+ */
+function loadGazetteer() {
+    if (!gazetteer) {
+        gazetteer = parseGazetteer().catch((error) => {
+            gazetteer = null;
+            throw error;
+        });
+    }
+    return gazetteer;
+}
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+    const toRad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * toRad;
+    const dLng = (lng2 - lng1) * toRad;
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * toRad) * Math.cos(lat2 * toRad) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * The nearest gazetteer place to a position, or null if nothing is listed
+ * within MAX_DISTANCE_KM (open sea, wilderness) or the position is invalid.
+ */
+export async function placeAt(lat: number, lng: number): Promise<Place | null> {
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return null;
+    }
+
+    const { places, lats, lngs, cells } = await loadGazetteer();
+
+    // Cells to scan around the position; longitude degrees shrink toward the poles
+    const latCell = Math.floor(lat);
+    const lngCell = Math.floor(lng);
+    const latSpan = Math.ceil(MAX_DISTANCE_KM / KM_PER_DEGREE);
+    const lngSpan = Math.min(180, Math.ceil(MAX_DISTANCE_KM / (KM_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01))));
+
+    let nearest = -1;
+    let nearestKm = MAX_DISTANCE_KM;
+    for (let dLat = -latSpan; dLat <= latSpan; dLat++) {
+        const row = latCell + dLat;
+        if (row < -90 || row > 89) continue;
+        for (let dLng = -lngSpan; dLng <= lngSpan; dLng++) {
+            // Wrap across the antimeridian
+            const col = ((lngCell + dLng + 180) % 360 + 360) % 360 - 180;
+            for (const i of cells.get(cellKey(row, col)) ?? []) {
+                const km = distanceKm(lat, lng, lats[i], lngs[i]);
+                if (km <= nearestKm) {
+                    nearest = i;
+                    nearestKm = km;
+                }
+            }
+        }
+    }
+
+    return nearest === -1 ? null : places[nearest];
+}
+
+/**
+ * Place columns for a position, ready to spread into an insert or update.
+ * All null when there is no position or no place near it.
+ */
+export async function placeColumns(lat: number | null | undefined, lng: number | null | undefined) {
+    const place = lat != null && lng != null ? await placeAt(lat, lng) : null;
+    return {
+        placeCity: place?.city ?? null,
+        placeRegion: place?.region ?? null,
+        placeCountry: place?.country ?? null,
+    };
+}
+
+/**
+ * Condition matching photos whose city, region or country contains the
+ * query ("chiang mai", "Japan"). Pass the columns from a relational query's
+ * where callback, or raw column SQL, when filtering elsewhere.
+ */
+export function placeSearchCondition(query: string, columns: PlaceColumns = images): SQL | undefined {
+    const term = query.trim();
+    if (!term) return undefined;
+
+    const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+    return or(
+        ilike(columns.placeCity, pattern),
+        ilike(columns.placeRegion, pattern),
+        ilike(columns.placeCountry, pattern)
+    );
+}
+
+/**
+ * Place names for geotagged photos. Free of request-scoped imports so the
+ * backfill can run from a script.
+ */
+export class PlaceService {
+    /**
+     * Name the place of geotagged photos that don't have one yet: older
+     * uploads, and photos whose position was set before names were stored.
+     * Photos with no place near them are counted and left unnamed, so a
+     * re-run looks at them again.
+     */
+    static async backfillPlaces({ batchSize = 500, dryRun = false }: { batchSize?: number; dryRun?: boolean } = {}) {
+        const report = { scanned: 0, updated: 0, unmatched: 0 };
+        let lastId: string | null = null;
+
+        while (true) {
+            const batch: { id: string; gpsLat: number | null; gpsLng: number | null }[] = await db
+                .select({ id: images.id, gpsLat: images.gpsLat, gpsLng: images.gpsLng })
+                .from(images)
+                .where(and(
+                    isNotNull(images.gpsLat),
+                    isNotNull(images.gpsLng),
+                    isNull(images.placeCountry),
+                    lastId ? gt(images.id, lastId) : undefined
+                ))
+                .orderBy(asc(images.id))
+                .limit(batchSize);
+
+            if (batch.length === 0) break;
+            lastId = batch[batch.length - 1].id;
+            report.scanned += batch.length;
+
+            for (const img of batch) {
+                const place = await placeColumns(img.gpsLat, img.gpsLng);
+                if (!place.placeCountry) {
+                    report.unmatched++;
+                    continue;
+                }
+
+                if (!dryRun) {
+                    await db.update(images).set(place).where(eq(images.id, img.id));
+                }
+                report.updated++;
+            }
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,171 @@
+import { db } from "@/db";
+import { images, albums, users } from "@/db/schema";
+import { and, asc, desc, eq, gt, isNull, sql } from "drizzle-orm";
+import { headS3Object } from "@/lib/s3";
+
+/**
+ * Storage each account may use when users.storage_quota_bytes is not set.
+ * Unset or 0 means unlimited.
+ */
+export const DEFAULT_STORAGE_QUOTA_BYTES = (Number(process.env.STORAGE_QUOTA_MB) || 0) * 1024 * 1024;
+
+/**
+ * Share of the quota (percent) past which settings warn that space is
+ * running out.
+ */
+export const STORAGE_WARNING_PERCENT = Number(process.env.STORAGE_WARNING_PERCENT) || 80;
+
+export type QuotaCheck =
+    | { ok: true }
+    | { ok: false; usedBytes: number; quotaBytes: number };
+
+// Original plus display/thumb; variants not measured yet count as nothing.
+// Added as bigint so one large upload can't overflow the row total
+const rowBytes = sql`${images.size}::bigint + coalesce(${images.variantsSize}, 0)::bigint`;
+const imageBytes = sql<string>`coalesce(sum(${rowBytes}), 0)`;
+
+/**
+ * Per-user storage accounting. Bytes are charged to the uploader and stay
+ * charged while a photo sits in the trash, since its objects are still in
+ * S3 until the purge. Free of request-scoped imports so the variant-size
+ * backfill can run from a script.
+ */
+export class QuotaService {
+    /**
+     * The user's quota in bytes, or null for unlimited.
+     */
+    static async getQuota(userId: string): Promise<number | null> {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { storageQuotaBytes: true },
+        });
+        const quota = user?.storageQuotaBytes ?? DEFAULT_STORAGE_QUOTA_BYTES;
+        return quota > 0 ? quota : null;
+    }
+
+    static async getUsedBytes(userId: string) {
+        const [row] = await db
+            .select({ bytes: imageBytes })
+            .from(images)
+            .where(eq(images.uploaderId, userId));
+        return Number(row?.bytes ?? 0);
+    }
+
+    /**
+     * Whether `incomingBytes` more still fit in the user's quota.
+     */
+    static async checkQuota(userId: string, incomingBytes = 0): Promise<QuotaCheck> {
+        const quotaBytes = await QuotaService.getQuota(userId);
+        if (quotaBytes === null) return { ok: true };
+
+        const usedBytes = await QuotaService.getUsedBytes(userId);
+        // With nothing to add, refuse only once the quota is already used up
+        if (incomingBytes > 0 ? usedBytes + incomingBytes > quotaBytes : usedBytes >= quotaBytes) {
+            return { ok: false, usedBytes, quotaBytes };
+        }
+        return { ok: true };
+    }
+
+    /**
+     * Usage summary for settings: the total against the quota, how much of
+     * it is in the trash, and a breakdown by album, largest first.
+     */
+    static async getUsage(userId: string) {
+        const [quotaBytes, rows] = await Promise.all([
+            QuotaService.getQuota(userId),
+            db
+                .select({
+                    albumId: images.albumId,
+                    title: albums.title,
+                    albumDeleted: sql<boolean>`${albums.deletedAt} is not null`,
+                    bytes: imageBytes,
+                    trashBytes: sql<string>`coalesce(sum(${rowBytes}) filter (where ${images.deletedAt} is not null or ${albums.deletedAt} is not null), 0)`,
+                    imageCount: sql<number>`count(*)::int`,
+                })
+                .from(images)
+                .innerJoin(albums, eq(images.albumId, albums.id))
+                .where(eq(images.uploaderId, userId))
+                .groupBy(images.albumId, albums.title, albums.deletedAt)
+                .orderBy(desc(imageBytes), asc(albums.title)),
+        ]);
+
+        const albumUsage = rows.map(row => ({
+            albumId: row.albumId,
+            title: row.title,
+            deleted: row.albumDeleted,
+            bytes: Number(row.bytes),
+            trashBytes: Number(row.trashBytes),
+            imageCount: row.imageCount,
+        }));
+
+        const usedBytes = albumUsage.reduce((sum, album) => sum + album.bytes, 0);
+        const trashBytes = albumUsage.reduce((sum, album) => sum + album.trashBytes, 0);
+        const percentUsed = quotaBytes ? Math.min(100, Math.round((usedBytes / quotaBytes) * 1000) / 10) : null;
+
+        return {
+            usedBytes,
+            trashBytes,
+            quotaBytes,
+            percentUsed,
+            warningPercent: STORAGE_WARNING_PERCENT,
+            warning: percentUsed !== null && percentUsed >= STORAGE_WARNING_PERCENT,
+            albums: albumUsage,
+        };
+    }
+
+    /**
+     * Bytes stored for an image's display and thumb objects. Keys that point
+     * at the original (videos without a poster, failed previews) add nothing.
+     */
+    static async measureVariants(s3KeyOriginal: string | null, s3KeyDisplay: string | null, s3KeyThumb: string | null) {
+        const keys = Array.from(new Set([s3KeyDisplay, s3KeyThumb]))
+            .filter((key): key is string => !!key && key !== s3KeyOriginal);
+        const heads = await Promise.all(keys.map(key => headS3Object(key)));
+        return heads.reduce((sum, head) => sum + (head?.ContentLength ?? 0), 0);
+    }
+
+    /**
+     * Record variant sizes for images registered before they were measured.
+     * Works through the table in id order, one batch at a time; images whose
+     * objects can't be read are skipped.
+     */
+    static async backfillVariantSizes({ batchSize = 100, dryRun = false }: { batchSize?: number; dryRun?: boolean } = {}) {
+        const report = { scanned: 0, updated: 0, failed: [] as { id: string; error: string }[] };
+        let lastId: string | null = null;
+
+        while (true) {
+            const batch: { id: string; s3KeyOriginal: string | null; s3KeyDisplay: string | null; s3KeyThumb: string | null; s3Key: string | null }[] = await db
+                .select({
+                    id: images.id,
+                    s3KeyOriginal: images.s3KeyOriginal,
+                    s3KeyDisplay: images.s3KeyDisplay,
+                    s3KeyThumb: images.s3KeyThumb,
+                    s3Key: images.s3Key,
+                })
+                .from(images)
+                .where(and(
+                    isNull(images.variantsSize),
+                    lastId ? gt(images.id, lastId) : undefined
+                ))
+                .orderBy(asc(images.id))
+                .limit(batchSize);
+
+            if (batch.length === 0) break;
+            lastId = batch[batch.length - 1].id;
+            report.scanned += batch.length;
+            if (dryRun) continue;
+
+            for (const img of batch) {
+                try {
+                    const variantsSize = await QuotaService.measureVariants(img.s3KeyOriginal || img.s3Key, img.s3KeyDisplay, img.s3KeyThumb);
+                    await db.update(images).set({ variantsSize }).where(eq(images.id, img.id));
+                    report.updated++;
+                } catch (error) {
+                    report.failed.push({ id: img.id, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+        }
+
+        return report;
+    }
+}
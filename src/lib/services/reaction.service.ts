@@ -0,0 +1,245 @@
+import { db } from "@/db";
+import { images, albums, albumMembers, imageReactions, starredImages, users } from "@/db/schema";
+import { eq, and, isNull, or, inArray, desc, sql } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { checkAlbumPermission } from "@/lib/auth/rbac";
+import { verifyGuestToken } from "@/lib/auth/tokens";
+import { generateDownloadUrl } from "@/lib/s3";
+
+export const REACTION_TYPES = ["like", "heart"] as const;
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+type PageOptions = { cursor?: string; limit: number };
+
+/**
+ * Subquery of image IDs the user has starred.
+ * Usable with `inArray(images.id, ...)`.
+ */
+export function starredImageIds(userId: string) {
+    return db
+        .select({ imageId: starredImages.imageId })
+        .from(starredImages)
+        .where(eq(starredImages.userId, userId));
+}
+
+export class ReactionService {
+    /**
+     * Reaction counts for an image, the caller's own reactions and star state,
+     * plus a page of who reacted (newest first).
+     * Cursor format: "timestamp_userId_type"
+     */
+    static async getReactions(userId: string | null, imageId: string, { cursor, limit }: PageOptions) {
+        const image = await this.getViewableImage(userId, imageId);
+        const summary = await this.getSummary(userId, image.id);
+
+        let cursorCondition;
+        if (cursor) {
+            const [cursorTime, cursorUserId, cursorType] = cursor.split("_");
+            const cursorDate = new Date(cursorTime).toISOString();
+            cursorCondition = sql`(${imageReactions.createdAt}, ${imageReactions.userId}, ${imageReactions.type}) < (${cursorDate}::timestamp, ${cursorUserId}::uuid, ${cursorType})`;
+        }
+
+        const rows = await db
+            .select({
+                type: imageReactions.type,
+                createdAt: imageReactions.createdAt,
+                user: { id: users.id, name: users.name, avatarUrl: users.avatarUrl },
+            })
+            .from(imageReactions)
+            .innerJoin(users, eq(imageReactions.userId, users.id))
+            .where(and(eq(imageReactions.imageId, image.id), cursorCondition))
+            .orderBy(desc(imageReactions.createdAt), desc(imageReactions.userId), desc(imageReactions.type))
+            .limit(limit + 1);
+
+        const hasMore = rows.length > limit;
+        const reactions = hasMore ? rows.slice(0, limit) : rows;
+        const last = reactions[reactions.length - 1];
+        const nextCursor = hasMore && last
+            ? `${last.createdAt.toISOString()}_${last.user.id}_${last.type}`
+            : null;
+
+        return { ...summary, reactions, nextCursor, hasMore };
+    }
+
+    static async addReaction(userId: string, imageId: string, type: ReactionType) {
+        await this.getReactableImage(userId, imageId);
+
+        await db.insert(imageReactions)
+            .values({ imageId, userId, type })
+            .onConflictDoNothing();
+
+        return this.getSummary(userId, imageId);
+    }
+
+    static async removeReaction(userId: string, imageId: string, type: ReactionType) {
+        await this.getReactableImage(userId, imageId);
+
+        await db.delete(imageReactions)
+            .where(and(
+                eq(imageReactions.imageId, imageId),
+                eq(imageReactions.userId, userId),
+                eq(imageReactions.type, type)
+            ));
+
+        return this.getSummary(userId, imageId);
+    }
+
+    static async starImage(userId: string, imageId: string) {
+        await this.getReactableImage(userId, imageId);
+
+        await db.insert(starredImages)
+            .values({ userId, imageId })
+            .onConflictDoNothing();
+    }
+
+    /**
+     * Unstarring needs no album access, so stars on albums the user has
+     * since left can still be cleaned up.
+     */
+    static async unstarImage(userId: string, imageId: string) {
+        await db.delete(starredImages)
+            .where(and(eq(starredImages.userId, userId), eq(starredImages.imageId, imageId)));
+    }
+
+    /**
+     * The user's starred photos across every album they can still see,
+     * most recently starred first.
+     * Cursor format: "timestamp_imageId"
+     */
+    static async listStarred(userId: string, { cursor, limit }: PageOptions) {
+        const memberAlbumIds = db
+            .select({ albumId: albumMembers.albumId })
+            .from(albumMembers)
+            .where(eq(albumMembers.userId, userId));
+
+        let cursorCondition;
+        if (cursor) {
+            const [cursorTime, cursorId] = cursor.split("_");
+            const cursorDate = new Date(cursorTime).toISOString();
+            cursorCondition = sql`(${starredImages.createdAt}, ${starredImages.imageId}) < (${cursorDate}::timestamp, ${cursorId}::uuid)`;
+        }
+
+        const rows = await db
+            .select({
+                image: images,
+                albumTitle: albums.title,
+                starredAt: starredImages.createdAt,
+            })
+            .from(starredImages)
+            .innerJoin(images, eq(starredImages.imageId, images.id))
+            .innerJoin(albums, eq(images.albumId, albums.id))
+            .where(and(
+                eq(starredImages.userId, userId),
+                isNull(images.deletedAt),
+                isNull(albums.deletedAt),
+                or(eq(albums.visibility, "public"), inArray(images.albumId, memberAlbumIds)),
+                cursorCondition
+            ))
+            .orderBy(desc(starredImages.createdAt), desc(starredImages.imageId))
+            .limit(limit + 1);
+
+        const hasMore = rows.length > limit;
+        const pageRows = hasMore ? rows.slice(0, limit) : rows;
+
+        const photos = await Promise.all(
+            pageRows.map(async ({ image: img, albumTitle, starredAt }) => {
+                const thumbUrl = img.s3KeyThumb ? await generateDownloadUrl(img.s3KeyThumb) : null;
+                const displayUrl = img.s3KeyDisplay ? await generateDownloadUrl(img.s3KeyDisplay) : null;
+                const originalUrl = img.s3KeyOriginal ? await generateDownloadUrl(img.s3KeyOriginal) : (img.s3Key ? await generateDownloadUrl(img.s3Key) : null);
+
+                return {
+                    id: img.id,
+                    albumId: img.albumId,
+                    albumTitle,
+                    url: thumbUrl || displayUrl || originalUrl,
+                    thumbUrl,
+                    displayUrl,
+                    originalUrl,
+                    width: img.width,
+                    height: img.height,
+                    mimeType: img.mimeType,
+                    durationMs: img.durationMs,
+                    dateTaken: img.dateTaken || img.createdAt,
+                    starredAt,
+                };
+            })
+        );
+
+        const last = pageRows[pageRows.length - 1];
+        const nextCursor = hasMore && last ? `${last.starredAt.toISOString()}_${last.image.id}` : null;
+
+        return { photos, nextCursor, hasMore };
+    }
+
+    /**
+     * Counts per reaction type, plus the caller's own reactions and star state.
+     */
+    private static async getSummary(userId: string | null, imageId: string) {
+        const countRows = await db
+            .select({ type: imageReactions.type, count: sql<number>`count(*)::int` })
+            .from(imageReactions)
+            .where(eq(imageReactions.imageId, imageId))
+            .groupBy(imageReactions.type);
+
+        const counts = Object.fromEntries(REACTION_TYPES.map(t => [t, 0])) as Record<ReactionType, number>;
+        for (const row of countRows) counts[row.type] = row.count;
+
+        let mine: ReactionType[] = [];
+        let starred = false;
+        if (userId) {
+            const myRows = await db
+                .select({ type: imageReactions.type })
+                .from(imageReactions)
+                .where(and(eq(imageReactions.imageId, imageId), eq(imageReactions.userId, userId)));
+            mine = myRows.map(r => r.type);
+
+            const star = await db.query.starredImages.findFirst({
+                where: and(eq(starredImages.userId, userId), eq(starredImages.imageId, imageId)),
+            });
+            starred = !!star;
+        }
+
+        return { counts, mine, starred };
+    }
+
+    private static async getViewableImage(userId: string | null, imageId: string) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+            with: { album: true },
+        });
+
+        if (!image || image.album.deletedAt) throw new Error("Not found");
+
+        let hasAccess = image.album.visibility === "public";
+
+        if (!hasAccess) {
+            if (userId) {
+                hasAccess = await checkAlbumPermission(userId, image.albumId, "viewer");
+            } else {
+                const cookieStore = await cookies();
+                const guestToken = cookieStore.get("keproop_guest_access")?.value;
+                if (guestToken) {
+                    const payload = await verifyGuestToken(guestToken);
+                    hasAccess = !!payload && payload.allowedAlbums.includes(image.albumId);
+                }
+            }
+        }
+
+        if (!hasAccess) throw new Error("Forbidden");
+
+        return image;
+    }
+
+    private static async getReactableImage(userId: string, imageId: string) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+        });
+
+        if (!image) throw new Error("Not found");
+
+        const hasAccess = await checkAlbumPermission(userId, image.albumId, "viewer");
+        if (!hasAccess) throw new Error("Forbidden");
+
+        return image;
+    }
+}
@@ -0,0 +1,92 @@
+import { db } from "@/db";
+import { images } from "@/db/schema";
+import { inArray, or } from "drizzle-orm";
+import { listS3Objects, deleteS3Objects, type S3ObjectSummary } from "@/lib/s3";
+import { MULTIPART_TICKET_TTL_HOURS } from "@/lib/services/multipart.service";
+
+// A multipart upload can still be registered until its ticket expires, and
+// its variants are uploaded first while S3 dates the original by when the
+// upload started. Anything younger than the ticket may still be in use.
+export const MIN_GC_GRACE_HOURS = MULTIPART_TICKET_TTL_HOURS + 1;
+export const DEFAULT_GC_GRACE_HOURS = 48;
+
+const REFERENCE_BATCH_SIZE = 500;
+
+export type CollectOrphansOptions = {
+    prefix?: string;
+    graceHours?: number;
+    dryRun?: boolean;
+};
+
+/**
+ * Storage housekeeping. Kept free of request-scoped imports (cookies, session)
+ * so scripts can use it outside Next.js.
+ */
+export class StorageService {
+    /**
+     * Find objects under `albums/` (or a narrower prefix) that no image row
+     * references through any of its s3Key columns, and delete those older
+     * than the grace period. Soft-deleted images still count as references.
+     * In dry-run mode nothing is deleted and the report lists what would be.
+     */
+    static async collectOrphans({ prefix = "albums/", graceHours = DEFAULT_GC_GRACE_HOURS, dryRun = false }: CollectOrphansOptions = {}) {
+        if (!prefix.startsWith("albums/")) throw new Error("Prefix must be under albums/");
+
+        const grace = Math.max(graceHours, MIN_GC_GRACE_HOURS);
+        const cutoff = new Date(Date.now() - grace * 60 * 60 * 1000);
+
+        const objects = await listS3Objects(prefix);
+        const candidates = objects.filter(o => o.lastModified && o.lastModified < cutoff);
+
+        const referenced = await this.getReferencedKeys(candidates.map(o => o.key));
+        const orphans: S3ObjectSummary[] = candidates.filter(o => !referenced.has(o.key));
+
+        if (!dryRun && orphans.length > 0) {
+            await deleteS3Objects(orphans.map(o => o.key));
+        }
+
+        return {
+            dryRun,
+            prefix,
+            graceHours: grace,
+            scanned: objects.length,
+            orphanCount: orphans.length,
+            orphanBytes: orphans.reduce((sum, o) => sum + o.size, 0),
+            deletedCount: dryRun ? 0 : orphans.length,
+            orphans,
+        };
+    }
+
+    /**
+     * Which of the given keys are stored on some image row.
+     */
+    private static async getReferencedKeys(keys: string[]) {
+        const referenced = new Set<string>();
+
+        for (let i = 0; i < keys.length; i += REFERENCE_BATCH_SIZE) {
+            const batch = keys.slice(i, i + REFERENCE_BATCH_SIZE);
+            const rows = await db
+                .select({
+                    s3Key: images.s3Key,
+                    s3KeyOriginal: images.s3KeyOriginal,
+                    s3KeyDisplay: images.s3KeyDisplay,
+                    s3KeyThumb: images.s3KeyThumb,
+                })
+                .from(images)
+                .where(or(
+                    inArray(images.s3Key, batch),
+                    inArray(images.s3KeyOriginal, batch),
+                    inArray(images.s3KeyDisplay, batch),
+                    inArray(images.s3KeyThumb, batch)
+                ));
+
+            for (const row of rows) {
+                for (const key of [row.s3Key, row.s3KeyOriginal, row.s3KeyDisplay, row.s3KeyThumb]) {
+                    if (key) referenced.add(key);
+                }
+            }
+        }
+
+        return referenced;
+    }
+}
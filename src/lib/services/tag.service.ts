@@ -0,0 +1,279 @@
+import { db } from "@/db";
+import { images, tags, imageTags } from "@/db/schema";
+import { eq, inArray, and, isNull, sql } from "drizzle-orm";
+import { z } from "zod";
+import { cookies } from "next/headers";
+import { checkAlbumPermission } from "@/lib/auth/rbac";
+import { verifyGuestToken } from "@/lib/auth/tokens";
+import { logActivities, logActivity } from "@/lib/activity";
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_REQUEST = 50;
+
+export const tagListSchema = z
+    .array(z.string().trim().min(1).max(MAX_TAG_LENGTH))
+    .min(1)
+    .max(MAX_TAGS_PER_REQUEST);
+
+/**
+ * Normalize a tag name: trim, collapse inner whitespace, lowercase.
+ * "  Grandma  Rose " -> "grandma rose"
+ */
+export function normalizeTag(name: string): string {
+    return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Normalize and de-duplicate a list of tag names.
+ */
+export function normalizeTags(names: string[]): string[] {
+    return [...new Set(names.map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Parse a comma-separated `tags` query parameter ("beach,grandma").
+ * Returns an empty array when the parameter is missing or blank.
+ */
+export function parseTagsParam(value: string | null | undefined): string[] {
+    if (!value) return [];
+    return normalizeTags(value.split(",")).slice(0, MAX_TAGS_PER_REQUEST);
+}
+
+/**
+ * Subquery of image IDs carrying ALL of the given tags.
+ * Usable with `inArray(images.id, ...)` or embedded in raw SQL (`i.id IN ${...}`).
+ */
+export function imagesWithAllTags(names: string[]) {
+    return db
+        .select({ imageId: imageTags.imageId })
+        .from(imageTags)
+        .innerJoin(tags, eq(imageTags.tagId, tags.id))
+        .where(inArray(tags.name, names))
+        .groupBy(imageTags.imageId)
+        .having(sql`count(distinct ${tags.id}) = ${names.length}`);
+}
+
+export class TagService {
+    /**
+     * Map of imageId -> sorted tag names for a batch of images.
+     */
+    static async getTagsForImages(imageIds: string[]): Promise<Record<string, string[]>> {
+        if (imageIds.length === 0) return {};
+
+        const rows = await db
+            .select({ imageId: imageTags.imageId, name: tags.name })
+            .from(imageTags)
+            .innerJoin(tags, eq(imageTags.tagId, tags.id))
+            .where(inArray(imageTags.imageId, imageIds))
+            .orderBy(tags.name);
+
+        const result: Record<string, string[]> = {};
+        for (const row of rows) {
+            (result[row.imageId] ||= []).push(row.name);
+        }
+        return result;
+    }
+
+    static async getImageTags(userId: string | null, imageId: string) {
+        const image = await db.query.images.findFirst({
+            where: eq(images.id, imageId),
+            with: { album: true },
+        });
+
+        if (!image || image.album.deletedAt) throw new Error("Not found");
+
+        let hasAccess = image.album.visibility === "public";
+
+        if (!hasAccess) {
+            if (userId) {
+                hasAccess = await checkAlbumPermission(userId, image.albumId, "viewer");
+            } else {
+                const cookieStore = await cookies();
+                const guestToken = cookieStore.get("keproop_guest_access")?.value;
+                if (guestToken) {
+                    const payload = await verifyGuestToken(guestToken);
+                    hasAccess = !!payload && payload.allowedAlbums.includes(image.albumId);
+                }
+            }
+        }
+
+        if (!hasAccess) throw new Error("Forbidden");
+
+        const tagMap = await this.getTagsForImages([imageId]);
+        return tagMap[imageId] || [];
+    }
+
+    static async addTags(userId: string, imageId: string, names: string[]) {
+        const image = await this.getEditableImage(userId, imageId);
+        const added = await this.attachTags(userId, [image.id], normalizeTags(names));
+
+        if (added.length > 0) {
+            await logActivity({
+                userId,
+                albumId: image.albumId,
+                imageId: image.id,
+                action: "image_update",
+                metadata: { tags: { added: added.map(a => a.name), removed: [] } },
+            });
+        }
+
+        const tagMap = await this.getTagsForImages([image.id]);
+        return tagMap[image.id] || [];
+    }
+
+    static async removeTags(userId: string, imageId: string, names: string[]) {
+        const image = await this.getEditableImage(userId, imageId);
+        const removed = await this.detachTags([image.id], normalizeTags(names));
+
+        if (removed.length > 0) {
+            await logActivity({
+                userId,
+                albumId: image.albumId,
+                imageId: image.id,
+                action: "image_update",
+                metadata: { tags: { added: [], removed: removed.map(r => r.name) } },
+            });
+        }
+
+        const tagMap = await this.getTagsForImages([image.id]);
+        return tagMap[image.id] || [];
+    }
+
+    /**
+     * Replace the full tag set of an image.
+     */
+    static async setTags(userId: string, imageId: string, names: string[]) {
+        const image = await this.getEditableImage(userId, imageId);
+        const desired = normalizeTags(names);
+        const current = (await this.getTagsForImages([image.id]))[image.id] || [];
+
+        const toAdd = desired.filter(t => !current.includes(t));
+        const toRemove = current.filter(t => !desired.includes(t));
+
+        const added = toAdd.length > 0 ? await this.attachTags(userId, [image.id], toAdd) : [];
+        const removed = toRemove.length > 0 ? await this.detachTags([image.id], toRemove) : [];
+
+        if (added.length > 0 || removed.length > 0) {
+            await logActivity({
+                userId,
+                albumId: image.albumId,
+                imageId: image.id,
+                action: "image_update",
+                metadata: { tags: { added: added.map(a => a.name), removed: removed.map(r => r.name) } },
+            });
+        }
+
+        return desired.sort();
+    }
+
+    /**
+     * Add and/or remove tags across a selection of images in one album.
+     * Returns the number of images that were actually changed.
+     */
+    static async bulkTag(userId: string, albumId: string, imageIds: string[], addNames: string[], removeNames: string[]) {
+        const canEdit = await checkAlbumPermission(userId, albumId, "editor");
+        if (!canEdit) throw new Error("Forbidden");
+
+        const validImages = await db.query.images.findMany({
+            where: and(
+                inArray(images.id, imageIds),
+                eq(images.albumId, albumId),
+                isNull(images.deletedAt)
+            ),
+            columns: { id: true },
+        });
+
+        if (validImages.length === 0) return 0;
+
+        const validIds = validImages.map(img => img.id);
+        const added = await this.attachTags(userId, validIds, normalizeTags(addNames));
+        const removed = await this.detachTags(validIds, normalizeTags(removeNames));
+
+        const changes = new Map<string, { added: string[]; removed: string[] }>();
+        for (const { imageId, name } of added) {
+            if (!changes.has(imageId)) changes.set(imageId, { added: [], removed: [] });
+            changes.get(imageId)!.added.push(name);
+        }
+        for (const { imageId, name } of removed) {
+            if (!changes.has(imageId)) changes.set(imageId, { added: [], removed: [] });
+            changes.get(imageId)!.removed.push(name);
+        }
+
+        if (changes.size > 0) {
+            await logActivities(
+                Array.from(changes.entries()).map(([imageId, tagChanges]) => ({
+                    userId,
+                    albumId,
+                    imageId,
+                    action: "image_update" as const,
+                    metadata: { bulk: true, tags: tagChanges },
+                }))
+            );
+        }
+
+        return changes.size;
+    }
+
+    private static async getEditableImage(userId: string, imageId: string) {
+        const image = await db.query.images.findFirst({
+            where: and(eq(images.id, imageId), isNull(images.deletedAt)),
+        });
+
+        if (!image) throw new Error("Not found");
+
+        const hasAccess = await checkAlbumPermission(userId, image.albumId, "editor");
+        if (!hasAccess) throw new Error("Forbidden");
+
+        return image;
+    }
+
+    /**
+     * Upsert tag rows and link them to the images.
+     * Returns only the (imageId, name) pairs that were newly linked.
+     */
+    private static async attachTags(userId: string, imageIds: string[], names: string[]) {
+        if (imageIds.length === 0 || names.length === 0) return [];
+
+        await db.insert(tags)
+            .values(names.map(name => ({ name })))
+            .onConflictDoNothing({ target: tags.name });
+
+        const tagRows = await db.select({ id: tags.id, name: tags.name })
+            .from(tags)
+            .where(inArray(tags.name, names));
+        const nameById = new Map(tagRows.map(t => [t.id, t.name]));
+
+        const inserted = await db.insert(imageTags)
+            .values(imageIds.flatMap(imageId => tagRows.map(tag => ({
+                imageId,
+                tagId: tag.id,
+                createdBy: userId,
+            }))))
+            .onConflictDoNothing()
+            .returning({ imageId: imageTags.imageId, tagId: imageTags.tagId });
+
+        return inserted.map(row => ({ imageId: row.imageId, name: nameById.get(row.tagId)! }));
+    }
+
+    /**
+     * Unlink tags from the images. Returns the (imageId, name) pairs that were removed.
+     */
+    private static async detachTags(imageIds: string[], names: string[]) {
+        if (imageIds.length === 0 || names.length === 0) return [];
+
+        const tagRows = await db.select({ id: tags.id, name: tags.name })
+            .from(tags)
+            .where(inArray(tags.name, names));
+        if (tagRows.length === 0) return [];
+        const nameById = new Map(tagRows.map(t => [t.id, t.name]));
+
+        const deleted = await db.delete(imageTags)
+            .where(and(
+                inArray(imageTags.imageId, imageIds),
+                inArray(imageTags.tagId, tagRows.map(t => t.id))
+            ))
+            .returning({ imageId: imageTags.imageId, tagId: imageTags.tagId });
+
+        return deleted.map(row => ({ imageId: row.imageId, name: nameById.get(row.tagId)! }));
+    }
+}
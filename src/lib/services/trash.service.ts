@@ -0,0 +1,173 @@
+import { db } from "@/db";
+import { images, albums, folders } from "@/db/schema";
+import { and, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { deleteS3Objects } from "@/lib/s3";
+import { logActivities } from "@/lib/activity";
+
+export const MAX_TRASH_RETENTION_DAYS = 3650;
+
+/**
+ * How long deleted photos stay in the trash when an album has no override.
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+/**
+ * How long a deleted album stays in "Recently deleted" before it and all of
+ * its photos are removed for good.
+ */
+export const DEFAULT_ALBUM_RETENTION_DAYS = Number(process.env.ALBUM_RETENTION_DAYS) || 30;
+
+const PURGE_BATCH_SIZE = 500;
+
+export function getRetentionDays(albumRetentionDays: number | null | undefined) {
+    return albumRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a photo deleted at `deletedAt` will be purged automatically.
+ */
+export function getPurgeDate(deletedAt: Date, retentionDays: number) {
+    return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Trash retention. Like StorageService, free of request-scoped imports so
+ * the purge can run from a script.
+ */
+export class TrashService {
+    /**
+     * Permanently delete trashed images whose retention period has passed,
+     * using each album's override or the instance default. S3 variants are
+     * removed and an `image_permanent_delete` entry is logged per image with
+     * no user (the system). Trashed folders past retention are removed too;
+     * their photos stay at the album root. In dry-run mode only the report
+     * is returned.
+     */
+    static async purgeExpired({ dryRun = false }: { dryRun?: boolean } = {}) {
+        const retentionDays = sql`coalesce(${albums.trashRetentionDays}, ${DEFAULT_TRASH_RETENTION_DAYS})`;
+
+        const expired = await db
+            .select({
+                id: images.id,
+                albumId: images.albumId,
+                originalFilename: images.originalFilename,
+                deletedAt: images.deletedAt,
+                retentionDays: sql<number>`${retentionDays}::int`,
+                s3Key: images.s3Key,
+                s3KeyOriginal: images.s3KeyOriginal,
+                s3KeyDisplay: images.s3KeyDisplay,
+                s3KeyThumb: images.s3KeyThumb,
+            })
+            .from(images)
+            .innerJoin(albums, eq(images.albumId, albums.id))
+            .where(and(
+                isNotNull(images.deletedAt),
+                sql`${images.deletedAt} <= now() - make_interval(days => ${retentionDays}::int)`
+            ));
+
+        const expiredFolders = await db
+            .select({ id: folders.id, albumId: folders.albumId, name: folders.name })
+            .from(folders)
+            .innerJoin(albums, eq(folders.albumId, albums.id))
+            .where(and(
+                isNotNull(folders.deletedAt),
+                sql`${folders.deletedAt} <= now() - make_interval(days => ${retentionDays}::int)`
+            ));
+
+        if (!dryRun && expiredFolders.length > 0) {
+            await db.delete(folders).where(inArray(folders.id, expiredFolders.map(f => f.id)));
+        }
+
+        if (!dryRun) {
+            for (let i = 0; i < expired.length; i += PURGE_BATCH_SIZE) {
+                const batch = expired.slice(i, i + PURGE_BATCH_SIZE);
+
+                const keysToDelete = new Set<string>();
+                for (const img of batch) {
+                    if (img.s3Key) keysToDelete.add(img.s3Key);
+                    if (img.s3KeyOriginal) keysToDelete.add(img.s3KeyOriginal);
+                    if (img.s3KeyDisplay) keysToDelete.add(img.s3KeyDisplay);
+                    if (img.s3KeyThumb) keysToDelete.add(img.s3KeyThumb);
+                }
+                if (keysToDelete.size > 0) {
+                    await deleteS3Objects(Array.from(keysToDelete));
+                }
+
+                await db.delete(images).where(inArray(images.id, batch.map(img => img.id)));
+
+                await logActivities(batch.map(img => ({
+                    userId: null,
+                    albumId: img.albumId,
+                    imageId: img.id,
+                    action: "image_permanent_delete" as const,
+                    metadata: {
+                        filename: img.originalFilename,
+                        system: true,
+                        reason: "retention",
+                        retentionDays: img.retentionDays,
+                    },
+                })));
+            }
+        }
+
+        return {
+            dryRun,
+            purgedCount: dryRun ? 0 : expired.length,
+            expiredCount: expired.length,
+            folders: expiredFolders,
+            images: expired.map(img => ({
+                id: img.id,
+                albumId: img.albumId,
+                originalFilename: img.originalFilename,
+                deletedAt: img.deletedAt,
+                retentionDays: img.retentionDays,
+            })),
+        };
+    }
+
+    /**
+     * Hard-delete albums that have been in "Recently deleted" longer than
+     * the grace window, together with every image object in S3. Members,
+     * folders, images and activity logs go with the album row (cascade).
+     */
+    static async purgeDeletedAlbums({ dryRun = false }: { dryRun?: boolean } = {}) {
+        const expired = await db
+            .select({ id: albums.id, title: albums.title, deletedAt: albums.deletedAt })
+            .from(albums)
+            .where(and(
+                isNotNull(albums.deletedAt),
+                sql`${albums.deletedAt} <= now() - make_interval(days => ${DEFAULT_ALBUM_RETENTION_DAYS}::int)`
+            ));
+
+        if (!dryRun) {
+            for (const album of expired) {
+                const albumImages = await db.select({
+                    s3Key: images.s3Key,
+                    s3KeyOriginal: images.s3KeyOriginal,
+                    s3KeyDisplay: images.s3KeyDisplay,
+                    s3KeyThumb: images.s3KeyThumb,
+                }).from(images).where(eq(images.albumId, album.id));
+
+                const keysToDelete = new Set<string>();
+                for (const img of albumImages) {
+                    if (img.s3Key) keysToDelete.add(img.s3Key);
+                    if (img.s3KeyOriginal) keysToDelete.add(img.s3KeyOriginal);
+                    if (img.s3KeyDisplay) keysToDelete.add(img.s3KeyDisplay);
+                    if (img.s3KeyThumb) keysToDelete.add(img.s3KeyThumb);
+                }
+                if (keysToDelete.size > 0) {
+                    await deleteS3Objects(Array.from(keysToDelete));
+                }
+
+                await db.delete(albums).where(eq(albums.id, album.id));
+            }
+        }
+
+        return {
+            dryRun,
+            purgedCount: dryRun ? 0 : expired.length,
+            expiredCount: expired.length,
+            albums: expired,
+        };
+    }
+}
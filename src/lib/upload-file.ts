@@ -0,0 +1,294 @@
+/**
+ * The client half of a photo/video upload: hash, EXIF, variants, presigned
+ * PUTs (or resumable parts for large originals) and registration. Used by the
+ * upload manager (useUploadStore), which adds queueing and retries on top.
+ */
+
+import {
+    MULTIPART_THRESHOLD,
+    UploadExpiredError,
+    abortMultipartUpload,
+    clearUploadState,
+    getUploadFingerprint,
+    loadUploadState,
+    saveUploadState,
+    startMultipartUpload,
+    uploadFileParts,
+    type UploadKeys,
+} from "@/lib/multipart-upload";
+import { getUploadMimeType, isVideoMimeType, needsServerVariants } from "@/lib/media";
+import { METADATA_EXIF_TAGS, readPhotoMetadata } from "@/lib/exif";
+import { exifLocalDateTime, parseUtcOffset } from "@/lib/capture-time";
+
+export type UploadResult = "uploaded" | "duplicate";
+
+export interface UploadTarget {
+    albumId: string;
+    folderId?: string | null;
+}
+
+/**
+ * The server refused the upload (no permission, bad input). Retrying won't
+ * change the answer.
+ */
+export class UploadRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UploadRejectedError";
+    }
+}
+
+async function readError(res: Response, fallback: string) {
+    const data = await res.json().catch(() => ({}));
+    const message = typeof data.error === "string" ? data.error : fallback;
+    // 4xx other than rate limiting is final; 429 and 5xx are worth another try
+    if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+        return new UploadRejectedError(message);
+    }
+    return new Error(message);
+}
+
+async function putObject(url: string, body: Blob, contentType: string, signal?: AbortSignal) {
+    const res = await fetch(url, { method: "PUT", headers: { "Content-Type": contentType }, body, signal });
+    if (!res.ok) throw new Error(`Storage upload failed (${res.status})`);
+}
+
+function getOriginalDims(file: File): Promise<{ width: number, height: number }> {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => {
+            resolve({ width: img.width, height: img.height });
+            URL.revokeObjectURL(img.src);
+        };
+        img.onerror = () => {
+            resolve({ width: 0, height: 0 });
+            URL.revokeObjectURL(img.src);
+        };
+        img.src = URL.createObjectURL(file);
+    });
+}
+
+async function extractExif(file: File) {
+    const exifr = (await import("exifr")).default;
+    try {
+        // Parse non-GPS metadata
+        const parsed = await exifr.parse(file, {
+            pick: ['DateTimeOriginal', 'OffsetTimeOriginal', 'OffsetTime', 'Make', 'Model', ...METADATA_EXIF_TAGS],
+            translateValues: false,
+            reviveValues: false,
+        });
+
+        // Use exifr.gps() for proper DMS -> decimal conversion
+        let gpsLatitude: number | undefined;
+        let gpsLongitude: number | undefined;
+        try {
+            const gps = await exifr.gps(file);
+            if (gps) {
+                gpsLatitude = gps.latitude;
+                gpsLongitude = gps.longitude;
+            }
+        } catch { /* No GPS data */ }
+
+        if (parsed || gpsLatitude != null) {
+            // The wall clock and its offset, if recorded, let the server place
+            // the photo in time; dateTaken reads it in this browser's zone
+            // for when neither that nor GPS says where it was taken
+            const dateTakenLocal = exifLocalDateTime(parsed?.DateTimeOriginal);
+            return {
+                dateTaken: dateTakenLocal ? new Date(dateTakenLocal) : undefined,
+                dateTakenLocal,
+                dateTakenOffset: parseUtcOffset(parsed?.OffsetTimeOriginal) ?? parseUtcOffset(parsed?.OffsetTime),
+                cameraMake: parsed?.Make,
+                cameraModel: parsed?.Model,
+                gpsLatitude,
+                gpsLongitude,
+                metadata: readPhotoMetadata(parsed),
+            };
+        }
+    } catch (e) {
+        console.warn("EXIF extraction failed:", e);
+    }
+    return null;
+}
+
+/**
+ * Upload one file into an album. `onProgress` receives 0-100. Aborting
+ * `signal` stops it; a large original keeps its uploaded parts, so the next
+ * attempt continues from there.
+ */
+export async function uploadFile(
+    file: File,
+    { albumId, folderId }: UploadTarget,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+): Promise<UploadResult> {
+    const filename = file.name;
+    const updateProgress = (percent: number) => onProgress?.(percent);
+
+    updateProgress(5);
+
+    // 0. Hash the original so the server can refuse photos already in the
+    // album. A resumed upload already did, and kept the result
+    const resumable = file.size > MULTIPART_THRESHOLD;
+    const fingerprint = getUploadFingerprint(albumId, file);
+    const savedState = resumable ? loadUploadState(fingerprint) : null;
+    const { sha256Hex, resizeImage, extractVideoPoster } = await import("@/lib/client-image");
+    const contentHash = savedState?.contentHash ?? await sha256Hex(file);
+    signal?.throwIfAborted();
+
+    // 1. Extract EXIF (Client-side). Videos carry none exifr can read;
+    // HEIC and RAW are decoded on the server, which reads it there.
+    const contentType = getUploadMimeType(file);
+    const isVideo = isVideoMimeType(contentType);
+    const serverDecoded = needsServerVariants(contentType);
+    const exifData = !isVideo && !serverDecoded ? await extractExif(file) : null;
+
+    updateProgress(10);
+
+    // 2. Resize Images (Client-side)
+    // Original: Keep as is
+    // Display (2000px, 90% quality - WebP)
+    // Thumb (400px, 70% quality - WebP)
+    // For videos, display/thumb are made from a poster frame instead.
+    // HEIC and RAW can't be drawn on a canvas: only the original is
+    // uploaded and the server generates display/thumb.
+    // A video the browser can't play (HEVC in Chrome) goes up without a
+    // poster; the server then registers it with the clip as its own preview.
+    let durationMs: number | undefined;
+    let videoDims: { width: number, height: number } | null = null;
+    let source: File = file;
+    let hasPreview = !serverDecoded;
+    if (isVideo) {
+        try {
+            const video = await extractVideoPoster(file);
+            source = video.poster;
+            videoDims = { width: video.width, height: video.height };
+            durationMs = video.durationMs;
+        } catch (err) {
+            console.warn("Video poster failed, uploading the original only:", err);
+            hasPreview = false;
+        }
+    }
+    signal?.throwIfAborted();
+
+    const [originalDims, displayVariant, thumbVariant] = !hasPreview
+        ? [{ width: 0, height: 0 }, null, null]
+        : await Promise.all([
+            videoDims ?? getOriginalDims(file),
+            resizeImage(source, 2000, 0.90),
+            resizeImage(source, 400, 0.70)
+        ]);
+    signal?.throwIfAborted();
+
+    updateProgress(20);
+
+    // 3. Get Presigned URLs (for all 3). Large originals go up in
+    // resumable parts, and a saved upload of the same file is continued.
+    let resumeState = savedState;
+    let keys: UploadKeys;
+    let ticket: string;
+    let variantsUploaded = hasPreview;
+
+    if (savedState) {
+        ({ keys, ticket, variantsUploaded } = savedState);
+    } else {
+        const urlRes = await fetch("/api/images/upload-url", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                filename,
+                contentType, // Browsers leave RAW types blank; derived from the extension
+                albumId,
+                contentHash,
+                size: file.size,
+                multipart: resumable
+            }),
+            signal,
+        });
+
+        if (urlRes.status === 409) return "duplicate";
+        if (!urlRes.ok) throw await readError(urlRes, "Failed to get upload URL");
+        const upload = await urlRes.json();
+        keys = upload.keys;
+        ticket = upload.ticket;
+
+        updateProgress(30);
+
+        // 4. Upload to S3 directly (Parallel)
+        await Promise.all([
+            // Original (single PUT unless it goes up in parts below)
+            !resumable && putObject(upload.urls.original, file, contentType, signal),
+            displayVariant && putObject(upload.urls.display, displayVariant.blob, "image/webp", signal),
+            thumbVariant && putObject(upload.urls.thumb, thumbVariant.blob, "image/webp", signal),
+        ]);
+
+        if (resumable) {
+            const { uploadId, partSize } = await startMultipartUpload(ticket);
+            resumeState = { ticket, keys, uploadId, partSize, variantsUploaded, contentHash, startedAt: Date.now() };
+            saveUploadState(fingerprint, resumeState);
+        }
+    }
+
+    if (resumeState && !resumeState.completed) {
+        try {
+            await uploadFileParts(file, resumeState, (fraction) => updateProgress(30 + Math.round(fraction * 50)), signal);
+        } catch (err) {
+            if (err instanceof UploadExpiredError) {
+                clearUploadState(fingerprint);
+                // A saved upload that S3 or the ticket no longer knows: start over
+                if (savedState) return uploadFile(file, { albumId, folderId }, onProgress, signal);
+            }
+            throw err;
+        }
+        // Kept until the image is registered, so a failed register is retried
+        // without uploading the parts again
+        saveUploadState(fingerprint, { ...resumeState, completed: true });
+    }
+
+    updateProgress(80);
+
+    // 5. Register Image in DB
+    const regRes = await fetch("/api/images/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+            albumId,
+            keys: variantsUploaded ? keys : { original: keys.original }, // { original, display, thumb }
+            ticket,
+            mimeType: contentType,
+            size: file.size,
+            filename,
+            folderId: folderId || undefined,
+            width: originalDims.width,
+            height: originalDims.height,
+            durationMs,
+            contentHash,
+            exif: exifData
+        }),
+        signal,
+    });
+
+    if (regRes.status === 409) {
+        if (resumable) clearUploadState(fingerprint);
+        return "duplicate";
+    }
+    if (!regRes.ok) throw await readError(regRes, "Failed to register image");
+    if (resumable) clearUploadState(fingerprint);
+
+    updateProgress(100);
+    return "uploaded";
+}
+
+/**
+ * Drop the saved multipart upload for a file the user cancelled, so its
+ * parts don't sit in the bucket until the lifecycle rule removes them.
+ */
+export async function discardResumableUpload(file: File, albumId: string) {
+    const fingerprint = getUploadFingerprint(albumId, file);
+    const state = loadUploadState(fingerprint);
+    if (!state) return;
+    clearUploadState(fingerprint);
+    await abortMultipartUpload(state).catch(() => {
+        // Already gone; the bucket lifecycle rule covers anything left
+    });
+}
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { MetadataFilter } from '@/lib/exif';
 
 export interface Folder {
     id: string;
@@ -6,13 +7,6 @@ export interface Folder {
     createdAt: string;
 }
 
-interface UploadProgress {
-    current: number;
-    total: number;
-    fileName: string;
-    percent: number;
-}
-
 interface AlbumDetailState {
     // Folder Navigation
     currentFolderId: string | null;
@@ -21,19 +15,22 @@ interface AlbumDetailState {
     sortBy: 'createdAt' | 'dateTaken';
     sortDir: 'asc' | 'desc';
 
+    // Camera / lens / focal-length filter
+    metadataFilter: MetadataFilter;
+
     // Selection (Bulk Actions)
     selectMode: boolean;
     selectedIds: Set<string>;
     bulkOperating: boolean;
 
-    // Upload State
+    // Upload State (cover uploads; photo uploads go through useUploadStore)
     uploading: boolean;
-    uploadProgress: UploadProgress;
     isDragging: boolean;
 
     // Actions
     setCurrentFolderId: (id: string | null) => void;
     setSort: (sortBy: 'createdAt' | 'dateTaken', sortDir: 'asc' | 'desc') => void;
+    setMetadataFilter: (metadataFilter: MetadataFilter) => void;
 
     toggleSelectMode: () => void;
     toggleSelection: (id: string) => void;
@@ -42,7 +39,6 @@ interface AlbumDetailState {
     setBulkOperating: (isOperating: boolean) => void;
 
     setUploading: (isUploading: boolean) => void;
-    setUploadProgress: (progress: UploadProgress) => void;
     setIsDragging: (isDragging: boolean) => void;
 
     reset: () => void;
@@ -55,12 +51,13 @@ export const useAlbumDetailStore = create<AlbumDetailState>((set) => ({
     sortBy: 'createdAt',
     sortDir: 'desc',
 
+    metadataFilter: {},
+
     selectMode: false,
     selectedIds: new Set(),
     bulkOperating: false,
 
     uploading: false,
-    uploadProgress: { current: 0, total: 0, fileName: '', percent: 0 },
     isDragging: false,
 
     // Actions
@@ -68,6 +65,8 @@ export const useAlbumDetailStore = create<AlbumDetailState>((set) => ({
 
     setSort: (sortBy, sortDir) => set({ sortBy, sortDir }),
 
+    setMetadataFilter: (metadataFilter) => set({ metadataFilter, selectedIds: new Set() }),
+
     toggleSelectMode: () => set((state) => ({
         selectMode: !state.selectMode,
         selectedIds: new Set() // Clear selection when toggling mode
@@ -91,19 +90,17 @@ export const useAlbumDetailStore = create<AlbumDetailState>((set) => ({
 
     setUploading: (uploading) => set({ uploading }),
 
-    setUploadProgress: (uploadProgress) => set({ uploadProgress }),
-
     setIsDragging: (isDragging) => set({ isDragging }),
 
     reset: () => set({
         currentFolderId: null,
         sortBy: 'createdAt',
         sortDir: 'desc',
+        metadataFilter: {},
         selectMode: false,
         selectedIds: new Set(),
         bulkOperating: false,
         uploading: false,
-        uploadProgress: { current: 0, total: 0, fileName: '', percent: 0 },
-        isDragging: false,
+            isDragging: false,
     })
 }));
@@ -1,4 +1,6 @@
 import { create } from "zustand";
+import { viewerTimeZone } from "@/lib/capture-time";
+import type { PlaceNames } from "@/lib/place";
 
 export interface MapPoint {
     id: string;
@@ -9,13 +11,14 @@ export interface MapPoint {
     thumbs: string[];  // signed thumbnail URLs (up to 3)
 }
 
-export interface SidebarPhoto {
+export interface SidebarPhoto extends PlaceNames {
     id: string;
     lat: number;
     lng: number;
     thumbUrl: string;
     displayUrl: string;
     dateTaken: string | null;
+    dateTakenOffset?: number | null;
     filename: string | null;
     width: number;
     height: number;
@@ -23,6 +26,16 @@ export interface SidebarPhoto {
     albumTitle: string;
 }
 
+export interface MapTrack {
+    id: string;
+    albumId: string;
+    albumTitle: string;
+    name: string | null;
+    points: [number, number][];  // [lng, lat]
+    startedAt: string;
+    endedAt: string;
+}
+
 const PAGE_SIZE = 20;
 
 interface MapState {
@@ -46,6 +59,12 @@ interface MapState {
     dateRange: { min: string | null; max: string | null };
     timeFilter: { since?: string; until?: string };
 
+    // Place name search ("Chiang Mai"), applied to markers and sidebar
+    placeQuery: string;
+
+    // GPX tracks imported into albums; null until loaded
+    tracks: MapTrack[] | null;
+
     // Selection (shared between map markers and sidebar)
     selectedPointId: string | null;
     highlightedPhotoId: string | null;
@@ -59,13 +78,16 @@ interface MapState {
     setBounds: (bounds: MapState["bounds"]) => void;
     setDateRange: (range: MapState["dateRange"]) => void;
     setTimeFilter: (filter: MapState["timeFilter"]) => void;
+    setPlaceQuery: (placeQuery: string) => void;
     setSelectedPointId: (id: string | null) => void;
     setHighlightedPhotoId: (id: string | null, source?: "map" | "sidebar") => void;
     setSidebarOpen: (open: boolean) => void;
+    invalidate: () => void;
 
     // Async
     fetchPoints: (abortSignal?: AbortSignal) => Promise<void>;
     fetchDateRange: () => Promise<void>;
+    fetchTracks: () => Promise<void>;
     fetchSidebarPhotos: (abortSignal?: AbortSignal) => Promise<void>;
     fetchMoreSidebarPhotos: () => Promise<void>;
 }
@@ -83,6 +105,8 @@ export const useMapStore = create<MapState>((set, get) => ({
     bounds: null,
     dateRange: { min: null, max: null },
     timeFilter: {},
+    placeQuery: "",
+    tracks: null,
     selectedPointId: null,
     highlightedPhotoId: null,
     highlightSource: null,
@@ -94,12 +118,15 @@ export const useMapStore = create<MapState>((set, get) => ({
     setBounds: (bounds) => set({ bounds }),
     setDateRange: (dateRange) => set({ dateRange }),
     setTimeFilter: (timeFilter) => set({ timeFilter }),
+    setPlaceQuery: (placeQuery) => set({ placeQuery }),
     setSelectedPointId: (selectedPointId) => set({ selectedPointId }),
     setHighlightedPhotoId: (highlightedPhotoId, source) => set({ highlightedPhotoId, highlightSource: source || null }),
     setSidebarOpen: (sidebarOpen) => set({ sidebarOpen }),
+    // Drop cached data after photo locations/dates change elsewhere (e.g. album page edits)
+    invalidate: () => set({ points: [], sidebarPhotos: [], sidebarTotal: 0, dateRange: { min: null, max: null }, tracks: null }),
 
     fetchPoints: async (abortSignal) => {
-        const { bounds, zoom, timeFilter } = get();
+        const { bounds, zoom, timeFilter, placeQuery } = get();
         if (!bounds) return;
 
         set({ isLoading: true, error: null });
@@ -115,6 +142,8 @@ export const useMapStore = create<MapState>((set, get) => ({
 
             if (timeFilter.since) params.set("since", timeFilter.since);
             if (timeFilter.until) params.set("until", timeFilter.until);
+            params.set("tz", viewerTimeZone());
+            if (placeQuery) params.set("place", placeQuery);
 
             const res = await fetch(`/api/map/points?${params}`, {
                 signal: abortSignal,
@@ -142,9 +171,21 @@ export const useMapStore = create<MapState>((set, get) => ({
         }
     },
 
+    fetchTracks: async () => {
+        if (get().tracks) return; // Prevent refetching if already cached
+        try {
+            const res = await fetch("/api/map/tracks");
+            if (!res.ok) return;
+            const data = await res.json();
+            set({ tracks: data.tracks });
+        } catch {
+            // Non-critical, the map works without tracks
+        }
+    },
+
     // Fetch first page of sidebar photos (called on viewport change)
     fetchSidebarPhotos: async (abortSignal) => {
-        const { bounds } = get();
+        const { bounds, placeQuery } = get();
         if (!bounds) return;
 
         set({ sidebarLoading: true, sidebarPhotos: [], sidebarTotal: 0 });
@@ -157,6 +198,7 @@ export const useMapStore = create<MapState>((set, get) => ({
                 maxLng: String(bounds.maxLng),
                 offset: "0",
             });
+            if (placeQuery) params.set("place", placeQuery);
 
             const res = await fetch(`/api/map/photos?${params}`, {
                 signal: abortSignal,
@@ -178,7 +220,7 @@ export const useMapStore = create<MapState>((set, get) => ({
 
     // Load next page — appends to existing photos
     fetchMoreSidebarPhotos: async () => {
-        const { bounds, sidebarPhotos, sidebarTotal, sidebarLoadingMore } = get();
+        const { bounds, sidebarPhotos, sidebarTotal, sidebarLoadingMore, placeQuery } = get();
         if (!bounds || sidebarLoadingMore) return;
         if (sidebarPhotos.length >= sidebarTotal) return; // nothing left
 
@@ -192,6 +234,7 @@ export const useMapStore = create<MapState>((set, get) => ({
                 maxLng: String(bounds.maxLng),
                 offset: String(sidebarPhotos.length),
             });
+            if (placeQuery) params.set("place", placeQuery);
 
             const res = await fetch(`/api/map/photos?${params}`);
             if (!res.ok) throw new Error("Failed to load more photos");
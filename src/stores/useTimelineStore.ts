@@ -1,5 +1,7 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { metadataFilterQuery, type MetadataFilter, type PhotoMetadata } from "@/lib/exif";
+import { viewerTimeZone, type CaptureDateMode } from "@/lib/capture-time";
 
 export interface TimelinePhoto {
     id: string;
@@ -11,7 +13,20 @@ export interface TimelinePhoto {
     originalUrl: string | null;
     width: number | null;
     height: number | null;
+    mimeType?: string;
+    durationMs?: number | null;
+    size?: number;
+    originalFilename?: string | null;
+    cameraMake?: string | null;
+    cameraModel?: string | null;
+    gpsLat?: number | null;
+    gpsLng?: number | null;
+    placeCity?: string | null;
+    placeRegion?: string | null;
+    placeCountry?: string | null;
+    metadata?: PhotoMetadata | null;
     dateTaken: string | Date | null;
+    dateTakenOffset?: number | null;
 }
 
 interface TimelineStore {
@@ -24,14 +39,24 @@ interface TimelineStore {
     error: string | null;
 
     groupBy: 'month' | 'date';
+    dateMode: CaptureDateMode;
+    starredOnly: boolean;
+    metadataFilter: MetadataFilter;
+    placeQuery: string;
 
     // Actions
     fetchTimeline: () => Promise<void>;
     loadMore: () => Promise<void>;
     setGroupBy: (groupBy: 'month' | 'date') => void;
+    setDateMode: (dateMode: CaptureDateMode) => void;
+    setStarredOnly: (starredOnly: boolean) => void;
+    setMetadataFilter: (metadataFilter: MetadataFilter) => void;
+    setPlaceQuery: (placeQuery: string) => void;
     reset: () => void;
 }
 
+const placeParam = (placeQuery: string) => placeQuery.trim() ? `&place=${encodeURIComponent(placeQuery.trim())}` : "";
+
 export const useTimelineStore = create<TimelineStore>()(
     persist(
         (set, get) => ({
@@ -43,15 +68,25 @@ export const useTimelineStore = create<TimelineStore>()(
             isLoadingMore: false,
             error: null,
             groupBy: 'month',
+            dateMode: 'local',
+            starredOnly: false,
+            metadataFilter: {},
+            placeQuery: "",
 
             fetchTimeline: async () => {
                 if (get().isLoading) return;
                 set({ isLoading: true, error: null, photos: [], monthCounts: {}, nextCursor: null, hasMore: false });
                 try {
-                    const res = await fetch(`/api/timeline?limit=50`);
+                    const { starredOnly, metadataFilter, placeQuery, dateMode } = get();
+                    const starredParam = starredOnly ? "&starred=true" : "";
+                    // Month counts are bucketed the same way the grid groups photos
+                    const dateParams = `&dates=${dateMode}&tz=${encodeURIComponent(viewerTimeZone())}`;
+                    const res = await fetch(`/api/timeline?limit=50${starredParam}${metadataFilterQuery(metadataFilter)}${placeParam(placeQuery)}${dateParams}`);
                     if (!res.ok) throw new Error("Failed to fetch timeline");
 
                     const data = await res.json();
+                    // Filter changed mid-request
+                    if (get().starredOnly !== starredOnly || get().metadataFilter !== metadataFilter || get().placeQuery !== placeQuery || get().dateMode !== dateMode) return;
                     set({
                         photos: data.photos,
                         monthCounts: data.monthCounts || {},
@@ -66,14 +101,15 @@ export const useTimelineStore = create<TimelineStore>()(
             },
 
             loadMore: async () => {
-                const { nextCursor, hasMore, isLoadingMore, photos } = get();
+                const { nextCursor, hasMore, isLoadingMore, photos, starredOnly, metadataFilter, placeQuery } = get();
 
                 // Prevent duplicate requests
                 if (!hasMore || isLoadingMore || !nextCursor) return;
 
                 set({ isLoadingMore: true, error: null });
                 try {
-                    const res = await fetch(`/api/timeline?limit=50&cursor=${encodeURIComponent(nextCursor)}`);
+                    const starredParam = starredOnly ? "&starred=true" : "";
+                    const res = await fetch(`/api/timeline?limit=50&cursor=${encodeURIComponent(nextCursor)}${starredParam}${metadataFilterQuery(metadataFilter)}${placeParam(placeQuery)}`);
                     if (!res.ok) throw new Error("Failed to load more photos");
 
                     const data = await res.json();
@@ -92,6 +128,30 @@ export const useTimelineStore = create<TimelineStore>()(
 
             setGroupBy: (groupBy) => set({ groupBy }),
 
+            setDateMode: (dateMode) => {
+                if (get().dateMode === dateMode) return;
+                set({ dateMode, isLoading: false });
+                get().fetchTimeline();
+            },
+
+            setStarredOnly: (starredOnly) => {
+                if (get().starredOnly === starredOnly) return;
+                set({ starredOnly, isLoading: false });
+                get().fetchTimeline();
+            },
+
+            setMetadataFilter: (metadataFilter) => {
+                if (metadataFilterQuery(get().metadataFilter) === metadataFilterQuery(metadataFilter)) return;
+                set({ metadataFilter, isLoading: false });
+                get().fetchTimeline();
+            },
+
+            setPlaceQuery: (placeQuery) => {
+                if (get().placeQuery === placeQuery) return;
+                set({ placeQuery, isLoading: false });
+                get().fetchTimeline();
+            },
+
             reset: () => {
                 set({
                     photos: [],
@@ -106,7 +166,7 @@ export const useTimelineStore = create<TimelineStore>()(
         }),
         {
             name: 'timeline-store',
-            partialize: (state) => ({ groupBy: state.groupBy }),
+            partialize: (state) => ({ groupBy: state.groupBy, dateMode: state.dateMode }),
         }
     )
 );
@@ -0,0 +1,213 @@
+import { create } from "zustand";
+import { UploadRejectedError, discardResumableUpload, uploadFile } from "@/lib/upload-file";
+
+export type UploadStatus =
+    | "queued"
+    | "uploading"
+    | "retrying"   // waiting out the backoff before the next attempt
+    | "done"
+    | "duplicate"
+    | "failed"
+    | "cancelled";
+
+export interface UploadItem {
+    id: string;
+    file: File;
+    albumId: string;
+    albumTitle: string | null;
+    folderId: string | null;
+    status: UploadStatus;
+    progress: number;
+    attempts: number;
+    error: string | null;
+}
+
+export interface UploadTarget {
+    albumId: string;
+    albumTitle?: string | null;
+    folderId?: string | null;
+}
+
+// Files in flight at once; each large original also uploads 3 parts in parallel
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+const ACTIVE_STATUSES: UploadStatus[] = ["queued", "uploading", "retrying"];
+
+export function isActiveUpload(item: UploadItem) {
+    return ACTIVE_STATUSES.includes(item.status);
+}
+
+interface UploadState {
+    items: UploadItem[];
+    paused: boolean;
+
+    // Actions
+    enqueue: (files: File[], target: UploadTarget) => void;
+    pause: () => void;
+    resume: () => void;
+    cancel: (id: string) => void;
+    cancelAll: () => void;
+    retry: (id: string) => void;
+    retryFailed: () => void;
+    clearFinished: () => void;
+}
+
+// Not part of the state: nothing renders them
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let nextId = 0;
+
+function retryDelay(attempts: number) {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    // Jitter so a batch that failed together doesn't retry in lockstep
+    return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * App-wide upload queue. It lives outside any page, so uploads keep going
+ * while the user moves between albums (but not across a full reload; large
+ * originals resume from their saved parts when added again).
+ */
+export const useUploadStore = create<UploadState>((set, get) => {
+    const update = (id: string, patch: Partial<UploadItem>) => set((state) => ({
+        items: state.items.map(item => item.id === id ? { ...item, ...patch } : item),
+    }));
+
+    const run = async (item: UploadItem) => {
+        const controller = new AbortController();
+        controllers.set(item.id, controller);
+        const attempts = item.attempts + 1;
+        update(item.id, { status: "uploading", progress: 0, attempts, error: null });
+
+        try {
+            const result = await uploadFile(
+                item.file,
+                { albumId: item.albumId, folderId: item.folderId },
+                (progress) => update(item.id, { progress }),
+                controller.signal
+            );
+            update(item.id, { status: result === "duplicate" ? "duplicate" : "done", progress: 100 });
+        } catch (error) {
+            const current = get().items.find(i => i.id === item.id);
+            // Cancelled or cleared: nothing to report
+            if (!current || current.status === "cancelled") return;
+
+            if (controller.signal.aborted) {
+                // Paused: back in line, this attempt doesn't count
+                update(item.id, { status: "queued", progress: 0, attempts: item.attempts });
+                return;
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
+            if (error instanceof UploadRejectedError || attempts >= MAX_ATTEMPTS) {
+                console.error(`Failed to upload ${item.file.name}:`, error);
+                update(item.id, { status: "failed", error: message });
+                return;
+            }
+
+            update(item.id, { status: "retrying", error: message });
+            retryTimers.set(item.id, setTimeout(() => {
+                retryTimers.delete(item.id);
+                const waiting = get().items.find(i => i.id === item.id);
+                if (waiting?.status === "retrying") update(item.id, { status: "queued" });
+                pump();
+            }, retryDelay(attempts)));
+        } finally {
+            controllers.delete(item.id);
+            pump();
+        }
+    };
+
+    // Start queued uploads until the concurrency limit is reached
+    const pump = () => {
+        const { items, paused } = get();
+        if (paused) return;
+        let slots = CONCURRENCY - items.filter(item => item.status === "uploading").length;
+        for (const item of items) {
+            if (slots <= 0) break;
+            if (item.status !== "queued") continue;
+            slots--;
+            run(item);
+        }
+    };
+
+    const stop = (id: string) => {
+        controllers.get(id)?.abort();
+        const timer = retryTimers.get(id);
+        if (timer) {
+            clearTimeout(timer);
+            retryTimers.delete(id);
+        }
+    };
+
+    const requeue = (predicate: (item: UploadItem) => boolean) => {
+        set((state) => ({
+            items: state.items.map(item => predicate(item)
+                ? { ...item, status: "queued" as const, progress: 0, attempts: 0, error: null }
+                : item),
+        }));
+        pump();
+    };
+
+    return {
+        items: [],
+        paused: false,
+
+        enqueue: (files, target) => {
+            const added = files.map(file => ({
+                id: `${Date.now()}-${nextId++}`,
+                file,
+                albumId: target.albumId,
+                albumTitle: target.albumTitle ?? null,
+                folderId: target.folderId ?? null,
+                status: "queued" as const,
+                progress: 0,
+                attempts: 0,
+                error: null,
+            }));
+            set((state) => ({ items: [...state.items, ...added] }));
+            pump();
+        },
+
+        // In-flight uploads are interrupted and go back to the queue
+        pause: () => {
+            set({ paused: true });
+            for (const item of get().items) {
+                if (item.status === "uploading" || item.status === "retrying") stop(item.id);
+            }
+            set((state) => ({
+                items: state.items.map(item => item.status === "retrying" ? { ...item, status: "queued" as const } : item),
+            }));
+        },
+
+        resume: () => {
+            set({ paused: false });
+            pump();
+        },
+
+        cancel: (id) => {
+            const item = get().items.find(i => i.id === id);
+            if (!item || !isActiveUpload(item)) return;
+            update(id, { status: "cancelled" });
+            stop(id);
+            discardResumableUpload(item.file, item.albumId);
+        },
+
+        cancelAll: () => {
+            for (const item of get().items) {
+                if (isActiveUpload(item)) get().cancel(item.id);
+            }
+        },
+
+        retry: (id) => requeue(item => item.id === id && (item.status === "failed" || item.status === "cancelled")),
+
+        retryFailed: () => requeue(item => item.status === "failed"),
+
+        clearFinished: () => set((state) => ({
+            items: state.items.filter(isActiveUpload),
+        })),
+    };
+});